@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { request } from 'node:http'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createSyncServer } from '../syncServer.mjs'
+
+const player = (id, name = 'Ana') => ({ id, name, difficulty: 'beginner', currentMission: 1, progress: [], totalTimeSpent: 0 })
+
+const TOKEN = 'instructor-secret'
+const INSTRUCTOR = { Authorization: `Bearer ${TOKEN}` }
+
+// Saves a player the way the player's own browser does
+const putPlayer = (base, id, body = player(id), key = `key-${id}`) =>
+  fetch(`${base}/players/${id}`, { method: 'PUT', headers: { 'X-Player-Key': key }, body: JSON.stringify({ player: body }) })
+
+const listen = (server) => new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${server.address().port}`)))
+
+// Opens /live and collects the decoded text messages the server pushes
+const openLive = (base) => new Promise((resolve, reject) => {
+  const req = request(`${base}/live`, {
+    headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==', 'Sec-WebSocket-Version': '13' }
+  })
+  req.on('upgrade', (res, socket, head) => {
+    const messages = []
+    let buffer = Buffer.alloc(0)
+    // Frames sent along with the handshake arrive in `head`
+    const receive = (chunk) => {
+      buffer = Buffer.concat([buffer, chunk])
+      while (buffer.length >= 2) {
+        let length = buffer[1] & 0x7f
+        let start = 2
+        if (length === 126) { length = buffer.readUInt16BE(2); start = 4 }
+        if (buffer.length < start + length) break
+        messages.push(JSON.parse(buffer.subarray(start, start + length).toString('utf8')))
+        buffer = buffer.subarray(start + length)
+      }
+    }
+    receive(head)
+    socket.on('data', receive)
+    resolve({ accept: res.headers['sec-websocket-accept'], messages, socket })
+  })
+  req.on('error', reject)
+  req.end()
+})
+
+const waitFor = async (check) => {
+  for (let i = 0; i < 50 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 10))
+}
+
+describe('Sync server', () => {
+  let server
+  let base
+
+  beforeEach(async () => {
+    server = createSyncServer({ instructorToken: TOKEN })
+    base = await listen(server)
+  })
+
+  afterEach(() => new Promise((resolve) => server.close(resolve)))
+
+  it('stores, lists and removes players over REST', async () => {
+    const saved = await putPlayer(base, 'p1')
+    expect(saved.status).toBe(200)
+    expect(saved.headers.get('access-control-allow-origin')).toBe('*')
+    expect((await saved.json()).player).toEqual(player('p1'))
+
+    const listed = await (await fetch(`${base}/players`)).json()
+    expect(Object.keys(listed)).toEqual(['p1'])
+
+    expect((await fetch(`${base}/players/p1`, { method: 'DELETE', headers: INSTRUCTOR })).status).toBe(204)
+    expect((await fetch(`${base}/players/p1`, { method: 'DELETE', headers: INSTRUCTOR })).status).toBe(404)
+    expect(await (await fetch(`${base}/health`)).json()).toEqual({ ok: true, players: 0 })
+  })
+
+  it('rejects bodies that are not a player for that URL', async () => {
+    const mismatched = await putPlayer(base, 'p2', player('p1'))
+    expect(mismatched.status).toBe(400)
+    const huge = await fetch(`${base}/players/p1`, { method: 'PUT', headers: INSTRUCTOR, body: 'x'.repeat(2 * 1024 * 1024) })
+    expect(huge.status).toBe(413)
+    expect(await huge.json()).toEqual({ error: 'Body too large' })
+    const garbled = await fetch(`${base}/players/p1`, { method: 'PUT', headers: INSTRUCTOR, body: '{' })
+    expect(await garbled.json()).toEqual({ error: 'Body is not valid JSON' })
+  })
+
+  it('stores workshop sessions for learners to look up by join code', async () => {
+    const session = { code: 'ABC234', name: 'Platform Team', enabledMissions: [1, 2], difficulty: null }
+    expect((await fetch(`${base}/sessions/ABC234`)).status).toBe(404)
+    const saved = await fetch(`${base}/sessions/ABC234`, { method: 'PUT', headers: INSTRUCTOR, body: JSON.stringify({ session }) })
+    expect(await saved.json()).toEqual(session)
+    expect(await (await fetch(`${base}/sessions/ABC234`)).json()).toEqual(session)
+    expect(Object.keys(await (await fetch(`${base}/sessions`)).json())).toEqual(['ABC234'])
+    expect((await fetch(`${base}/sessions/XYZ789`, { method: 'PUT', headers: INSTRUCTOR, body: JSON.stringify({ session }) })).status).toBe(400)
+    expect((await fetch(`${base}/sessions/ABC234`, { method: 'DELETE', headers: INSTRUCTOR })).status).toBe(204)
+    expect((await fetch(`${base}/sessions/ABC234`, { method: 'DELETE', headers: INSTRUCTOR })).status).toBe(404)
+  })
+
+  it('pushes a snapshot and then every change to live dashboards', async () => {
+    await putPlayer(base, 'p1')
+    const live = await openLive(base)
+    expect(live.accept).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=')
+
+    await putPlayer(base, 'p2', player('p2', 'Sam'))
+    await fetch(`${base}/players/p1`, { method: 'DELETE', headers: INSTRUCTOR })
+    await waitFor(() => live.messages.length === 3)
+
+    expect(live.messages.map((m) => m.type)).toEqual(['snapshot', 'upsert', 'remove'])
+    expect(Object.keys(live.messages[0].players)).toEqual(['p1'])
+    expect(live.messages[1].record.player.name).toBe('Sam')
+    expect(live.messages[2].playerId).toBe('p1')
+    live.socket.destroy()
+  })
+
+  it('keeps progress in the data file across restarts', async () => {
+    const dataFile = join(mkdtempSync(join(tmpdir(), 'sync-')), 'players.json')
+    const first = createSyncServer({ dataFile })
+    const firstBase = await listen(first)
+    await putPlayer(firstBase, 'p1')
+    await new Promise((resolve) => first.close(resolve))
+    expect(Object.keys(JSON.parse(readFileSync(dataFile, 'utf8')).players)).toEqual(['p1'])
+
+    const second = createSyncServer({ dataFile })
+    const secondBase = await listen(second)
+    expect(Object.keys(await (await fetch(`${secondBase}/players`)).json())).toEqual(['p1'])
+    // The player is still claimed by the browser that saved it
+    expect((await putPlayer(secondBase, 'p1', player('p1'), 'someone-else')).status).toBe(403)
+    await new Promise((resolve) => second.close(resolve))
+  })
+
+  it('reads data files written before sessions existed', async () => {
+    const dataFile = join(mkdtempSync(join(tmpdir(), 'sync-')), 'players.json')
+    writeFileSync(dataFile, JSON.stringify({ p1: { player: player('p1'), lastUpdate: 1 } }))
+    const legacy = createSyncServer({ dataFile })
+    const legacyBase = await listen(legacy)
+    expect(Object.keys(await (await fetch(`${legacyBase}/players`)).json())).toEqual(['p1'])
+    expect(await (await fetch(`${legacyBase}/sessions`)).json()).toEqual({})
+    await new Promise((resolve) => legacy.close(resolve))
+  })
+
+  it('only lets a player overwrite their own record', async () => {
+    expect((await putPlayer(base, 'p1')).status).toBe(200)
+    expect((await putPlayer(base, 'p1', player('p1', 'Ana B'))).status).toBe(200)
+    const hijack = await putPlayer(base, 'p1', player('p1', 'Mallory'), 'key-p2')
+    expect(hijack.status).toBe(403)
+    const anonymous = await fetch(`${base}/players/p1`, { method: 'PUT', body: JSON.stringify({ player: player('p1') }) })
+    expect(anonymous.status).toBe(401)
+    // The instructor can rename anyone
+    const renamed = await fetch(`${base}/players/p1`, { method: 'PUT', headers: INSTRUCTOR, body: JSON.stringify({ player: player('p1', 'Ana C') }) })
+    expect((await renamed.json()).player.name).toBe('Ana C')
+  })
+
+  it('keeps deletes and session changes for the instructor', async () => {
+    const session = { code: 'ABC234', name: 'Platform Team', enabledMissions: [1], difficulty: null }
+    await putPlayer(base, 'p1')
+    const wrong = { Authorization: 'Bearer guess' }
+    expect((await fetch(`${base}/players/p1`, { method: 'DELETE' })).status).toBe(401)
+    expect((await fetch(`${base}/players/p1`, { method: 'DELETE', headers: wrong })).status).toBe(401)
+    expect((await fetch(`${base}/sessions/ABC234`, { method: 'PUT', body: JSON.stringify({ session }) })).status).toBe(401)
+    expect((await fetch(`${base}/sessions/ABC234`, { method: 'DELETE', headers: wrong })).status).toBe(401)
+    expect(Object.keys(await (await fetch(`${base}/players`)).json())).toEqual(['p1'])
+
+    const preflight = await fetch(`${base}/players/p1`, { method: 'OPTIONS' })
+    expect(preflight.headers.get('access-control-allow-headers')).toContain('Authorization')
+
+    const open = createSyncServer()
+    const openBase = await listen(open)
+    const refused = await fetch(`${openBase}/sessions/ABC234`, { method: 'PUT', headers: INSTRUCTOR, body: JSON.stringify({ session }) })
+    expect(await refused.json()).toEqual({ error: 'Set SYNC_INSTRUCTOR_TOKEN on the sync server to allow this' })
+    await new Promise((resolve) => open.close(resolve))
+  })
+
+  it('drops a WebSocket that announces an oversized frame', async () => {
+    const live = await openLive(base)
+    const closed = new Promise((resolve) => live.socket.on('close', resolve))
+    // A ping header claiming a 4GB masked payload
+    const header = Buffer.alloc(14)
+    header[0] = 0x89
+    header[1] = 0x80 | 127
+    header.writeBigUInt64BE(2n ** 32n, 2)
+    live.socket.write(header)
+    await closed
+    expect(live.socket.destroyed).toBe(true)
+  })
+})
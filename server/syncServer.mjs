@@ -0,0 +1,294 @@
+// Progress sync server for workshops.
+// Players' browsers PUT their progress here and instructor dashboards get
+// every change pushed over a WebSocket, so the dashboard sees everyone in the
+// room rather than only players who used the same browser.
+//
+//   GET    /players          every player record
+//   PUT    /players/:id      save { player }, answers with the stored record (own player or instructor)
+//   DELETE /players/:id      forget a player (instructor)
+//   GET    /sessions         every workshop session
+//   GET    /sessions/:code   one session, looked up by learners joining it
+//   PUT    /sessions/:code   save { session } (instructor)
+//   DELETE /sessions/:code   remove a session (instructor)
+//   GET    /health           liveness check
+//   WS     /live             { type: 'snapshot' } on connect, then 'upsert' and 'remove'
+//
+// Instructor routes need `Authorization: Bearer <SYNC_INSTRUCTOR_TOKEN>`, and
+// are refused outright when the server has no token. A player's browser sends
+// a random `X-Player-Key` with its saves; the first save of a player claims it
+// for that key, so classmates cannot overwrite each other's progress.
+//
+// Uses only Node built-ins so it runs with `node server/syncServer.mjs`.
+// Set PORT to change the port (default 8787), SYNC_DATA_FILE to keep
+// progress across restarts and SYNC_INSTRUCTOR_TOKEN to allow instructor routes.
+
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import { pathToFileURL } from 'node:url'
+
+export const DEFAULT_PORT = 8787
+const MAX_BODY_BYTES = 1024 * 1024
+// Clients only send control frames, whose payload is at most 125 bytes, so
+// anything bigger is dropped rather than buffered
+const MAX_FRAME_BYTES = 1024
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Player-Key'
+}
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = []
+  let size = 0
+  req.on('data', (chunk) => {
+    if (size > MAX_BODY_BYTES) return
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      // Keep draining without storing, so the 413 reaches the client; the
+      // connection is closed once that response is sent
+      chunks.length = 0
+      reject(Object.assign(new Error('Body too large'), { status: 413 }))
+      return
+    }
+    chunks.push(chunk)
+  })
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+  req.on('error', reject)
+})
+
+// Unmasked frame, as servers send them
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text)
+  let header
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length])
+  } else if (payload.length < 65536) {
+    header = Buffer.from([0x80 | opcode, 126, 0, 0])
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x80 | opcode
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+// Splits complete client frames off the front of `buffer`. Clients never send
+// data here, so only the opcode and payload of control frames matter.
+// `tooLarge` is set as soon as a frame declares more than MAX_FRAME_BYTES.
+const decodeFrames = (buffer) => {
+  const frames = []
+  let offset = 0
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f
+    const masked = (buffer[offset + 1] & 0x80) !== 0
+    let length = buffer[offset + 1] & 0x7f
+    let cursor = offset + 2
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break
+      length = buffer.readUInt16BE(cursor)
+      cursor += 2
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break
+      length = Number(buffer.readBigUInt64BE(cursor))
+      cursor += 8
+    }
+    if (length > MAX_FRAME_BYTES) return { frames, rest: Buffer.alloc(0), tooLarge: true }
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null
+    if (masked) cursor += 4
+    if (buffer.length < cursor + length) break
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length))
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+    frames.push({ opcode, payload })
+    offset = cursor + length
+  }
+  return { frames, rest: buffer.subarray(offset), tooLarge: false }
+}
+
+const hashKey = (key) => createHash('sha256').update(key).digest('hex')
+
+const sameSecret = (a, b) => {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+const isSession = (value) =>
+  typeof value === 'object' && value !== null && typeof value.code === 'string' && value.code !== '' &&
+  typeof value.name === 'string' && Array.isArray(value.enabledMissions)
+
+const isPlayer = (value) =>
+  typeof value === 'object' && value !== null && typeof value.id === 'string' && value.id !== '' &&
+  typeof value.name === 'string' && Array.isArray(value.progress)
+
+export const createSyncServer = ({ dataFile, instructorToken } = {}) => {
+  // Data files from before sessions hold only the player records
+  const stored = dataFile && existsSync(dataFile) ? JSON.parse(readFileSync(dataFile, 'utf8')) : {}
+  let players = stored.sessions ? stored.players : stored
+  let sessions = stored.sessions ?? {}
+  // Hashes of the key that claimed each player; players saved before keys
+  // existed are claimed by their next save
+  let playerKeys = stored.playerKeys ?? {}
+  const sockets = new Set()
+
+  const isInstructor = (req) => {
+    const token = (req.headers.authorization ?? '').match(/^Bearer (.+)$/)?.[1]
+    return Boolean(instructorToken) && token !== undefined && sameSecret(token, instructorToken)
+  }
+
+  const refuse = (res) => sendJson(res, 401, {
+    error: instructorToken ? 'This needs the instructor token' : 'Set SYNC_INSTRUCTOR_TOKEN on the sync server to allow this'
+  })
+
+  const broadcast = (message) => {
+    const frame = encodeFrame(JSON.stringify(message))
+    for (const socket of sockets) socket.write(frame)
+  }
+
+  const save = () => {
+    if (dataFile) writeFileSync(dataFile, JSON.stringify({ players, sessions, playerKeys }))
+  }
+
+  const changed = (message) => {
+    save()
+    broadcast(message)
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const match = url.pathname.match(/^\/players\/([^/]+)$/)
+    const sessionMatch = url.pathname.match(/^\/sessions\/([^/]+)$/)
+    try {
+      if (req.method === 'OPTIONS') return sendJson(res, 204)
+      if (req.method === 'GET' && url.pathname === '/health') return sendJson(res, 200, { ok: true, players: Object.keys(players).length })
+      if (req.method === 'GET' && url.pathname === '/players') return sendJson(res, 200, players)
+
+      if (match && req.method === 'PUT') {
+        const id = decodeURIComponent(match[1])
+        const key = req.headers['x-player-key']
+        const instructor = isInstructor(req)
+        if (!instructor && (typeof key !== 'string' || key === '')) {
+          return sendJson(res, 401, { error: 'Send the X-Player-Key of this browser, or the instructor token' })
+        }
+        if (!instructor && playerKeys[id] && playerKeys[id] !== hashKey(key)) {
+          return sendJson(res, 403, { error: `Player ${id} was saved from another browser` })
+        }
+        const { player } = JSON.parse(await readBody(req))
+        if (!isPlayer(player) || player.id !== id) return sendJson(res, 400, { error: 'Expected { player } with an id matching the URL' })
+        if (!instructor) playerKeys = { ...playerKeys, [id]: hashKey(key) }
+        const record = { player, lastUpdate: Date.now() }
+        players = { ...players, [id]: record }
+        changed({ type: 'upsert', record })
+        return sendJson(res, 200, record)
+      }
+
+      if (match && req.method === 'DELETE') {
+        if (!isInstructor(req)) return refuse(res)
+        const id = decodeURIComponent(match[1])
+        if (!players[id]) return sendJson(res, 404, { error: `No player ${id}` })
+        const { [id]: _removed, ...rest } = players
+        const { [id]: _key, ...otherKeys } = playerKeys
+        players = rest
+        playerKeys = otherKeys
+        changed({ type: 'remove', playerId: id })
+        return sendJson(res, 204)
+      }
+
+      if (req.method === 'GET' && url.pathname === '/sessions') return sendJson(res, 200, sessions)
+
+      if (sessionMatch) {
+        const code = decodeURIComponent(sessionMatch[1])
+        if (req.method === 'GET') {
+          return sessions[code] ? sendJson(res, 200, sessions[code]) : sendJson(res, 404, { error: `No session ${code}` })
+        }
+        if (req.method === 'PUT' || req.method === 'DELETE') {
+          if (!isInstructor(req)) return refuse(res)
+        }
+        if (req.method === 'PUT') {
+          const { session } = JSON.parse(await readBody(req))
+          if (!isSession(session) || session.code !== code) return sendJson(res, 400, { error: 'Expected { session } with a code matching the URL' })
+          sessions = { ...sessions, [code]: session }
+          save()
+          return sendJson(res, 200, session)
+        }
+        if (req.method === 'DELETE') {
+          if (!sessions[code]) return sendJson(res, 404, { error: `No session ${code}` })
+          const { [code]: _removed, ...rest } = sessions
+          sessions = rest
+          save()
+          return sendJson(res, 204)
+        }
+      }
+
+      sendJson(res, 404, { error: 'Not found' })
+    } catch (e) {
+      sendJson(res, e.status ?? 400, { error: e instanceof SyntaxError ? 'Body is not valid JSON' : e.message }, e.status === 413 ? { Connection: 'close' } : {})
+    }
+  })
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key']
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/live' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+      return
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64')
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    )
+    sockets.add(socket)
+    socket.write(encodeFrame(JSON.stringify({ type: 'snapshot', players })))
+
+    let pending = Buffer.alloc(0)
+    socket.on('data', (chunk) => {
+      const { frames, rest, tooLarge } = decodeFrames(Buffer.concat([pending, chunk]))
+      if (tooLarge) {
+        sockets.delete(socket)
+        socket.destroy()
+        return
+      }
+      pending = rest
+      for (const frame of frames) {
+        if (frame.opcode === 0x8) {
+          socket.end(encodeFrame('', 0x8))
+          sockets.delete(socket)
+        } else if (frame.opcode === 0x9) {
+          socket.write(encodeFrame(frame.payload.toString('utf8'), 0xa))
+        }
+      }
+    })
+    socket.on('close', () => sockets.delete(socket))
+    socket.on('error', () => sockets.delete(socket))
+  })
+
+  // Open WebSockets would otherwise keep close() waiting forever
+  const close = server.close.bind(server)
+  server.close = (callback) => {
+    for (const socket of sockets) socket.destroy()
+    sockets.clear()
+    return close(callback)
+  }
+
+  return server
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT
+  const instructorToken = process.env.SYNC_INSTRUCTOR_TOKEN
+  createSyncServer({ dataFile: process.env.SYNC_DATA_FILE, instructorToken }).listen(port, () => {
+    console.log(`Progress sync server listening on http://localhost:${port}`)
+    if (!instructorToken) console.warn('SYNC_INSTRUCTOR_TOKEN is not set, so nobody can delete players or manage sessions')
+  })
+}
@@ -1,5 +1,7 @@
-import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
+import type { ReactElement } from 'react'
+import { HashRouter as Router, Routes, Route, Navigate, useParams } from 'react-router-dom'
 import { useGameStore } from './store/gameStore'
+import { isMissionEnabled } from './store/workshopSession'
 import TestStyling from './components/TestStyling'
 import DifficultySelector from './components/DifficultySelector'
 import MissionSelect from './components/MissionSelect'
@@ -10,6 +12,17 @@ import InstructorDashboard from './components/InstructorDashboard'
 import VictoryScreen from './components/VictoryScreen'
 import TokenShareReminder from './components/TokenShareReminder'
 
+// Missions the workshop session leaves out cannot be opened by URL either
+function SessionGate({ missionId, children }: { missionId: number; children: ReactElement }) {
+  const { session } = useGameStore()
+  return isMissionEnabled(session, missionId) ? children : <Navigate to="/" replace />
+}
+
+function IntroRoute() {
+  const { missionId } = useParams()
+  return <SessionGate missionId={Number(missionId)}><IntroScreen /></SessionGate>
+}
+
 function App() {
   const { player } = useGameStore()
 
@@ -29,15 +42,15 @@ function App() {
           />
           
           {/* Mission intro screens */}
-          <Route path="/intro/:missionId" element={<IntroScreen />} />
+          <Route path="/intro/:missionId" element={<IntroRoute />} />
           
           {/* Game screens */}
-          <Route path="/game/1" element={<DockerfileJigsaw />} />
-          <Route path="/game/2" element={<CacheCrash />} />
-          <Route path="/game/3" element={<PipelineArchitect />} />
-          <Route path="/game/4" element={<LogDetective />} />
-          <Route path="/game/5" element={<DeployOrDie />} />
-          <Route path="/game/6" element={<OutageSimulator />} />
+          <Route path="/game/1" element={<SessionGate missionId={1}><DockerfileJigsaw /></SessionGate>} />
+          <Route path="/game/2" element={<SessionGate missionId={2}><CacheCrash /></SessionGate>} />
+          <Route path="/game/3" element={<SessionGate missionId={3}><PipelineArchitect /></SessionGate>} />
+          <Route path="/game/4" element={<SessionGate missionId={4}><LogDetective /></SessionGate>} />
+          <Route path="/game/5" element={<SessionGate missionId={5}><DeployOrDie /></SessionGate>} />
+          <Route path="/game/6" element={<SessionGate missionId={6}><OutageSimulator /></SessionGate>} />
           
           {/* Victory screen */}
           <Route path="/victory" element={<VictoryScreen />} />
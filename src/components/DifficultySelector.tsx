@@ -2,12 +2,18 @@ import React, { useState, useEffect } from 'react'
 import { useGameStore } from '../store/gameStore'
 import { motion } from 'framer-motion'
 import { useNavigate } from 'react-router-dom'
+import { getProgressSync } from '../store/progressSync'
+import { formatJoinCode, isJoinCode, normalizeJoinCode, type WorkshopSession } from '../store/workshopSession'
 
 const DifficultySelector: React.FC = () => {
-  const { createPlayer, setDifficulty } = useGameStore()
+  const { createPlayer, setDifficulty, joinSession } = useGameStore()
   const navigate = useNavigate()
   const [playerName, setPlayerName] = useState('')
   const [selectedDifficulty, setSelectedDifficulty] = useState<'beginner' | 'intermediate' | 'advanced'>('beginner')
+  const [joinCode, setJoinCode] = useState('')
+  const [session, setSession] = useState<WorkshopSession | null>(null)
+  const [joinError, setJoinError] = useState<string | null>(null)
+  const lockedDifficulty = session?.difficulty ?? null
 
   // Inject CSS animations directly
   useEffect(() => {
@@ -31,9 +37,34 @@ const DifficultySelector: React.FC = () => {
     return () => { document.head.removeChild(style) }
   }, [])
 
+  const handleJoin = () => {
+    const code = normalizeJoinCode(joinCode)
+    if (!isJoinCode(code)) {
+      setJoinError('Join codes are 6 letters and digits, like ABC-234')
+      return
+    }
+    setJoinError(null)
+    getProgressSync().findSession(code)
+      .then((found) => {
+        if (!found) {
+          setJoinError(`No workshop uses the code ${formatJoinCode(code)}. Check it with your instructor.`)
+          return
+        }
+        setSession(found)
+        if (found.difficulty) setSelectedDifficulty(found.difficulty)
+      })
+      .catch(() => setJoinError('Could not reach the workshop server. Try again in a moment.'))
+  }
+
+  const handleLeave = () => {
+    setSession(null)
+    setJoinCode('')
+  }
+
   const handleStartGame = () => {
     if (!playerName.trim()) return
     setDifficulty(selectedDifficulty)
+    joinSession(session)
     createPlayer(playerName.trim())
     navigate('/')
   }
@@ -151,6 +182,55 @@ const DifficultySelector: React.FC = () => {
           />
         </motion.div>
 
+        {/* Workshop Join Code */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.65 }}
+          className="mb-10"
+        >
+          <label htmlFor="joinCode" className="block text-xl font-bold text-gray-800 mb-4">
+            In a workshop? Enter your join code 🎟️
+          </label>
+          {session ? (
+            <div className="flex items-center justify-between gap-4 px-6 py-4 rounded-xl border-2 border-green-400 bg-green-50">
+              <div>
+                <div className="text-lg font-bold text-gray-800">{session.name}</div>
+                <div className="text-gray-600">
+                  {[session.cohort, session.date].filter(Boolean).join(' · ')} · Missions {session.enabledMissions.join(', ')}
+                  {session.difficulty && <span className="capitalize"> · {session.difficulty} difficulty</span>}
+                </div>
+              </div>
+              <button onClick={handleLeave} className="text-sm text-gray-600 underline hover:text-gray-800">
+                Leave
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-3">
+                <input
+                  id="joinCode"
+                  type="text"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleJoin() }}
+                  placeholder="ABC-234 (optional)"
+                  className="flex-1 px-6 py-4 border-2 border-gray-200 rounded-xl focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 text-xl font-mono uppercase tracking-widest transition-all duration-300 bg-white/80 backdrop-blur-sm"
+                  maxLength={9}
+                />
+                <button
+                  onClick={handleJoin}
+                  disabled={!joinCode.trim()}
+                  className="px-8 py-4 rounded-xl text-lg font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                >
+                  Join
+                </button>
+              </div>
+              {joinError && <p className="mt-2 text-red-600">❌ {joinError}</p>}
+            </>
+          )}
+        </motion.div>
+
         {/* Difficulty Selection */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -161,6 +241,11 @@ const DifficultySelector: React.FC = () => {
           <h2 className="text-3xl font-bold text-gray-800 mb-8 text-center">
             Choose Your Challenge Level 🎯
           </h2>
+          {lockedDifficulty && (
+            <p className="text-center text-gray-600 -mt-4 mb-8">
+              Your instructor set this workshop to <span className="font-semibold capitalize">{lockedDifficulty}</span>.
+            </p>
+          )}
           <div className="grid md:grid-cols-3 gap-8">
             {difficulties.map((difficulty, index) => (
               <motion.div
@@ -170,11 +255,11 @@ const DifficultySelector: React.FC = () => {
                 transition={{ delay: 0.8 + index * 0.1 }}
                 whileHover={{ scale: 1.05, y: -5 }}
                 whileTap={{ scale: 0.95 }}
-                className={`relative cursor-pointer rounded-2xl p-8 border-2 transition-all duration-300 ${
+                className={`relative rounded-2xl p-8 border-2 transition-all duration-300 ${
                   selectedDifficulty === difficulty.level
                     ? 'border-blue-500'
                     : 'border-gray-200 hover:border-gray-300'
-                }`}
+                } ${lockedDifficulty && lockedDifficulty !== difficulty.level ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'}`}
                 style={{
                   background: selectedDifficulty === difficulty.level 
                     ? 'linear-gradient(135deg, rgba(59,130,246,0.12), rgba(139,92,246,0.12))'
@@ -184,7 +269,7 @@ const DifficultySelector: React.FC = () => {
                     ? '0 25px 50px rgba(59,130,246,0.22)'
                     : '0 10px 25px rgba(0,0,0,0.08)'
                 }}
-                onClick={() => setSelectedDifficulty(difficulty.level)}
+                onClick={() => { if (!lockedDifficulty) setSelectedDifficulty(difficulty.level) }}
               >
                 <div className="flex items-center justify-between mb-6">
                   <div className={`w-6 h-6 rounded-full ${difficulty.color} shadow-lg`}></div>
@@ -1,11 +1,36 @@
 import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { Player, getAllPlayersFromSharedStorage, savePlayerToSharedStorage } from '../store/gameStore'
+import { Player, easeSharedPlayers, savePlayerToSharedStorage } from '../store/gameStore'
+import { getInstructorToken, getProgressSync, setInstructorToken, type PlayerRecords, type SyncStatus } from '../store/progressSync'
+import { isDefaultWorkshopKey, readProgressToken, type TokenStatus } from '../store/progressToken'
+import { REMOVED_SESSION, createSession, playersInSession, type SessionDraft, type WorkshopSessions as Sessions } from '../store/workshopSession'
+import WorkshopSessions, { type SessionFilter } from './WorkshopSessions'
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, { text: string; className: string }> = {
+  connecting: { text: 'Connecting…', className: 'bg-yellow-100 text-yellow-800' },
+  live: { text: 'Live', className: 'bg-green-100 text-green-800' },
+  offline: { text: 'Offline, retrying', className: 'bg-red-100 text-red-800' }
+}
+
+// Warnings for imported players whose scores the signature cannot vouch for
+const TOKEN_WARNINGS: Partial<Record<TokenStatus, { text: string; title: string }>> = {
+  unverified: { text: '⚠️ Unverified token', title: 'Imported from an unsigned token' },
+  'default-key': { text: '⚠️ Default-key token', title: 'Signed with the public default workshop key, which anyone can use' }
+}
 
 const InstructorDashboard: React.FC = () => {
   const [trackedPlayers, setTrackedPlayers] = useState<Player[]>([])
   const [lastUpdateTimes, setLastUpdateTimes] = useState<Record<string, number>>({})
-  const [autoRefresh, setAutoRefresh] = useState(true)
+  const [liveUpdates, setLiveUpdates] = useState(true)
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('connecting')
+  const sync = getProgressSync()
+  // Lets this dashboard delete players and manage sessions on the sync server
+  const [syncToken, setSyncToken] = useState(() => getInstructorToken() ?? '')
+  const [sessions, setSessions] = useState<Sessions>({})
+  const [sessionFilter, setSessionFilter] = useState<SessionFilter>(undefined)
+  const visiblePlayers = playersInSession(trackedPlayers, sessionFilter, sessions)
+  // The session new players are added to, when the dashboard shows one
+  const filteredSession = typeof sessionFilter === 'string' && sessionFilter !== REMOVED_SESSION ? sessionFilter : null
   const [importTokenText, setImportTokenText] = useState('')
   const [isAuthed, setIsAuthed] = useState<boolean>(() => {
     return localStorage.getItem('instructor-auth-ok') === 'true'
@@ -16,8 +41,8 @@ const InstructorDashboard: React.FC = () => {
 
   const expectedPassword = (import.meta as any)?.env?.VITE_INSTRUCTOR_PASSWORD || 'DevOps!Workshop#2025'
 
-  const loadPlayers = () => {
-    const allPlayersData = getAllPlayersFromSharedStorage()
+  const showPlayers = (records: PlayerRecords) => {
+    const allPlayersData = easeSharedPlayers(records)
     const players: Player[] = []
     const updateTimes: Record<string, number> = {}
     
@@ -37,40 +62,85 @@ const InstructorDashboard: React.FC = () => {
     setLastUpdateTimes(updateTimes)
   }
 
-  // Load players on mount
+  const loadPlayers = () => {
+    sync.list()
+      .then(showPlayers)
+      .catch((e) => console.error('Failed to load players:', e))
+  }
+
+  const loadSessions = () => {
+    sync.listSessions()
+      .then(setSessions)
+      .catch((e) => console.error('Failed to load sessions:', e))
+  }
+
+  // Load players and sessions on mount
   useEffect(() => {
     loadPlayers()
+    loadSessions()
   }, [])
 
-  // Auto-refresh every 2 seconds if enabled
+  // Every save by a player is pushed here while live updates are on
   useEffect(() => {
-    if (!autoRefresh) return
-    
-    const interval = setInterval(() => {
-      loadPlayers()
-    }, 2000)
-    
-    return () => clearInterval(interval)
-  }, [autoRefresh])
+    if (!liveUpdates) return
+    return sync.subscribe(showPlayers, setSyncStatus)
+  }, [liveUpdates])
 
   const handleRemovePlayer = (playerId: string) => {
-    const allPlayersData = getAllPlayersFromSharedStorage()
-    delete allPlayersData[playerId]
-    localStorage.setItem('devops-escape-room-all-players', JSON.stringify(allPlayersData))
-    loadPlayers()
+    sync.remove(playerId)
+      .then(loadPlayers)
+      .catch((e) => {
+        console.error('Failed to remove player:', e)
+        alert('Could not remove the player. Check the sync server token and try again.')
+      })
   }
 
-  const handleRenamePlayer = (playerId: string, newName: string) => {
-    const allPlayersData = getAllPlayersFromSharedStorage()
-    if (allPlayersData[playerId]) {
-      allPlayersData[playerId].player.name = newName
-      localStorage.setItem('devops-escape-room-all-players', JSON.stringify(allPlayersData))
-      loadPlayers()
+  // Saves a player from the dashboard and tells the instructor when the sync
+  // server refuses it, e.g. because the token is missing or wrong
+  const saveAsInstructor = async (player: Player) => {
+    try {
+      await savePlayerToSharedStorage(player, { asInstructor: true })
+      return true
+    } catch (e) {
+      console.error('Failed to save player:', e)
+      alert(`Could not save ${player.name}: ${e instanceof Error ? e.message : e}. Check the sync server token and try again.`)
+      return false
     }
   }
 
+  const handleRenamePlayer = (playerId: string, newName: string) => {
+    setTrackedPlayers(prev => prev.map(p => p.id === playerId ? { ...p, name: newName } : p))
+  }
+
+  // Renames are saved once the name field loses focus; a refused save puts
+  // the stored name back
+  const handleSaveRename = async (playerId: string) => {
+    const player = trackedPlayers.find(p => p.id === playerId)
+    if (player && !await saveAsInstructor(player)) loadPlayers()
+  }
+
+  const handleCreateSession = (draft: SessionDraft) => {
+    const session = createSession(draft, sessions)
+    sync.saveSession(session)
+      .then(() => {
+        loadSessions()
+        setSessionFilter(session.code)
+      })
+      .catch((e) => {
+        console.error('Failed to save session:', e)
+        alert('Could not save the session. Check the sync server and its token, then try again.')
+      })
+  }
+
+  const handleRemoveSession = (code: string) => {
+    if (sessionFilter === code) setSessionFilter(undefined)
+    sync.removeSession(code)
+      .then(loadSessions)
+      .catch((e) => console.error('Failed to remove session:', e))
+  }
+
   const exportProgress = () => {
-    const csvData = trackedPlayers.map(player => {
+    const csvData = visiblePlayers.map(player => {
       const quizScores = player.progress.filter((p: any) => p.quizScore !== undefined).map((p: any) => p.quizScore)
       const avgQuizScore = quizScores.length > 0 
         ? Math.round(quizScores.reduce((sum: number, score: number) => sum + score, 0) / quizScores.length)
@@ -90,9 +160,12 @@ const InstructorDashboard: React.FC = () => {
         return progress?.quizScore || ''
       })
       
+      const session = player.sessionCode ? sessions[player.sessionCode] : undefined
       return {
         name: player.name,
         difficulty: player.difficulty,
+        session: session?.name ?? player.sessionCode ?? '',
+        cohort: session?.cohort ?? '',
         currentMission: player.currentMission,
         completedMissions: player.progress.filter((p: any) => p.completed).length,
         avgScore,
@@ -116,7 +189,7 @@ const InstructorDashboard: React.FC = () => {
     })
 
     const csvContent = [
-      'Name,Difficulty,Current Mission,Completed Missions,Avg Score,Avg Quiz %,M1 Score,M1 Quiz %,M2 Score,M2 Quiz %,M3 Score,M3 Quiz %,M4 Score,M4 Quiz %,M5 Score,M5 Quiz %,M6 Score,M6 Quiz %,Time Spent (min),Hints Used,Created At',
+      'Name,Difficulty,Session,Cohort,Current Mission,Completed Missions,Avg Score,Avg Quiz %,M1 Score,M1 Quiz %,M2 Score,M2 Quiz %,M3 Score,M3 Quiz %,M4 Score,M4 Quiz %,M5 Score,M5 Quiz %,M6 Score,M6 Quiz %,Time Spent (min),Hints Used,Created At',
       ...csvData.map(row => Object.values(row).join(','))
     ].join('\n')
 
@@ -124,49 +197,32 @@ const InstructorDashboard: React.FC = () => {
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = 'devops-escape-room-progress.csv'
+    a.download = filteredSession
+      ? `devops-escape-room-progress-${filteredSession}.csv`
+      : 'devops-escape-room-progress.csv'
     a.click()
     URL.revokeObjectURL(url)
   }
 
-  const importToken = () => {
-    try {
-      const raw = atob(importTokenText.trim())
-      const data = JSON.parse(raw)
-
-      let player: Player | null = null
-      if (data.player) {
-        player = {
-          id: data.player.id,
-          name: data.player.name,
-          difficulty: data.player.difficulty,
-          currentMission: data.player.currentMission,
-          progress: data.player.progress || [],
-          totalTimeSpent: data.player.totalTimeSpent || 0
-        }
-      } else {
-        player = {
-          id: data.playerId,
-          name: data.name || `Player ${String(data.playerId || '').slice(0,5)}`,
-          difficulty: data.difficulty || 'beginner',
-          currentMission: 1,
-          progress: [],
-          totalTimeSpent: data.timeSpent || 0
-        }
-      }
-
-      if (!player?.id) throw new Error('Invalid token: missing player id')
-
-      savePlayerToSharedStorage(player)
-      setImportTokenText('')
-      loadPlayers()
-      alert(`Imported progress for ${player.name}`)
-    } catch (e) {
-      alert('Invalid token. Please check and try again.')
+  const importToken = async () => {
+    const reading = await readProgressToken(importTokenText)
+    if (!reading.ok) {
+      alert(`Token rejected:\n- ${reading.reasons.join('\n- ')}`)
+      return
     }
+
+    const player: Player = { ...reading.player, tokenStatus: reading.status }
+    if (!await saveAsInstructor(player)) return
+    setImportTokenText('')
+    loadPlayers()
+    alert(reading.status === 'verified'
+      ? `Imported progress for ${player.name}`
+      : reading.status === 'default-key'
+        ? `Imported progress for ${player.name}, but no workshop key is configured, so anyone could have signed this token and its scores are unverified`
+        : `Imported progress for ${player.name}, but the token is from an older version without a signature, so its scores are unverified`)
   }
 
-  const createManualPlayer = () => {
+  const createManualPlayer = async () => {
     try {
       const id = Math.random().toString(36).slice(2, 11)
       const player: Player = {
@@ -175,9 +231,10 @@ const InstructorDashboard: React.FC = () => {
         difficulty: newPlayerDifficulty,
         currentMission: 1,
         progress: [],
-        totalTimeSpent: 0
+        totalTimeSpent: 0,
+        ...(filteredSession ? { sessionCode: filteredSession } : {})
       }
-      savePlayerToSharedStorage(player)
+      if (!await saveAsInstructor(player)) return
       setNewPlayerName('')
       setNewPlayerDifficulty('beginner')
       loadPlayers()
@@ -249,6 +306,11 @@ const InstructorDashboard: React.FC = () => {
               <p className="text-gray-600">
                 Track student progress in real-time
               </p>
+              {isDefaultWorkshopKey() && (
+                <p className="text-sm text-yellow-700 mt-2">
+                  ⚠️ No workshop key is configured, so progress tokens are signed with the public default key and cannot be verified. Build with VITE_WORKSHOP_KEY set.
+                </p>
+              )}
             </div>
             <div className="flex gap-4 items-center flex-wrap">
               <button
@@ -300,13 +362,34 @@ const InstructorDashboard: React.FC = () => {
               <label className="flex items-center gap-2 cursor-pointer">
                 <input
                   type="checkbox"
-                  checked={autoRefresh}
-                  onChange={(e) => setAutoRefresh(e.target.checked)}
+                  checked={liveUpdates}
+                  onChange={(e) => setLiveUpdates(e.target.checked)}
                   className="w-4 h-4"
                 />
-                <span className="text-sm font-medium text-gray-700">Auto-refresh (2s)</span>
+                <span className="text-sm font-medium text-gray-700">Live updates</span>
+                {liveUpdates && (
+                  <span
+                    className={`text-xs px-2 py-1 rounded-full ${SYNC_STATUS_LABELS[syncStatus].className}`}
+                    title={sync.kind === 'server' ? 'Progress streams from the sync server' : 'Only players in this browser are visible'}
+                  >
+                    {SYNC_STATUS_LABELS[syncStatus].text}
+                  </span>
+                )}
               </label>
-              {trackedPlayers.length > 0 && (
+              {sync.kind === 'server' && (
+                <input
+                  type="password"
+                  value={syncToken}
+                  onChange={(e) => {
+                    setSyncToken(e.target.value)
+                    setInstructorToken(e.target.value)
+                  }}
+                  placeholder="Sync server token"
+                  title="The SYNC_INSTRUCTOR_TOKEN the sync server was started with. Needed to remove players, edit them and manage sessions."
+                  className="w-44 px-2 py-2 border rounded"
+                />
+              )}
+              {visiblePlayers.length > 0 && (
                 <button
                   onClick={exportProgress}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
@@ -318,18 +401,27 @@ const InstructorDashboard: React.FC = () => {
           </div>
         </motion.div>
 
+        <WorkshopSessions
+          sessions={sessions}
+          players={trackedPlayers}
+          filter={sessionFilter}
+          onFilter={setSessionFilter}
+          onCreate={handleCreateSession}
+          onRemove={handleRemoveSession}
+        />
+
         {/* Active Players Summary */}
-        {trackedPlayers.length > 0 && (
+        {visiblePlayers.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             className="game-container p-6 mb-6"
           >
             <h2 className="text-xl font-bold text-gray-800 mb-4">
-              👥 Active Players ({trackedPlayers.length})
+              👥 Active Players ({visiblePlayers.length})
             </h2>
             <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
-              {trackedPlayers.map((player) => {
+              {visiblePlayers.map((player) => {
                 const lastUpdate = lastUpdateTimes[player.id]
                 const timeSinceUpdate = lastUpdate ? Date.now() - lastUpdate : null
                 const minutesAgo = timeSinceUpdate ? Math.floor(timeSinceUpdate / 60000) : null
@@ -340,6 +432,9 @@ const InstructorDashboard: React.FC = () => {
                     <div className="flex justify-between items-start mb-3">
                       <div className="flex-1">
                         <div className="font-bold text-gray-800 text-lg">{player.name}</div>
+                        {player.tokenStatus && TOKEN_WARNINGS[player.tokenStatus] && (
+                          <div className="text-xs text-yellow-700" title={TOKEN_WARNINGS[player.tokenStatus]!.title}>{TOKEN_WARNINGS[player.tokenStatus]!.text}</div>
+                        )}
                         <div className="text-sm text-gray-600 capitalize">{player.difficulty}</div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -412,17 +507,17 @@ const InstructorDashboard: React.FC = () => {
         )}
 
         {/* Players Overview */}
-        {trackedPlayers.length > 0 && (
+        {visiblePlayers.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             className="game-container p-6 mb-6"
           >
             <h2 className="text-xl font-bold text-gray-800 mb-4">
-              Tracked Players ({trackedPlayers.length})
+              Tracked Players ({visiblePlayers.length})
             </h2>
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {trackedPlayers.map((player) => {
+              {visiblePlayers.map((player) => {
                 const lastUpdate = lastUpdateTimes[player.id]
                 const minutesAgo = lastUpdate ? Math.floor((Date.now() - lastUpdate) / 60000) : null
                 const totalScore = player.progress.reduce((sum, p) => sum + (p.score || 0), 0)
@@ -438,6 +533,7 @@ const InstructorDashboard: React.FC = () => {
                         <input
                           value={player.name}
                           onChange={(e) => handleRenamePlayer(player.id, e.target.value)}
+                          onBlur={() => handleSaveRename(player.id)}
                           placeholder="Player name"
                           className="font-bold text-gray-800 bg-transparent border-b border-gray-200 focus:outline-none focus:border-blue-400"
                         />
@@ -500,6 +596,54 @@ const InstructorDashboard: React.FC = () => {
                         <span className="text-gray-500">Hints Used:</span>
                         <span className="font-semibold">{player.progress.reduce((sum, p) => sum + (p.hintsUsed || 0), 0)}</span>
                       </div>
+                      {(() => {
+                        // Log Detective records the order of flags and fix attempts for review
+                        const investigation = player.progress.find(p => p.missionId === 4)?.investigation
+                        return investigation && investigation.steps.length > 0 && (
+                          <details className="pt-2 border-t border-gray-200">
+                            <summary className="cursor-pointer text-gray-500">
+                              Log Detective path (seed {investigation.seed}, {investigation.steps.length} steps)
+                            </summary>
+                            <ol className="mt-2 space-y-1 text-xs">
+                              {investigation.steps.map((step, i) => {
+                                const seconds = Math.floor(step.atMs / 1000)
+                                const tone = step.verdict === 'root-cause' || step.verdict === 'correct-fix'
+                                  ? 'text-green-700'
+                                  : step.verdict === 'symptom' || step.verdict === 'symptom-fix'
+                                    ? 'text-amber-700'
+                                    : 'text-gray-600'
+                                return (
+                                  <li key={i} className={tone}>
+                                    <span className="font-mono text-gray-400 mr-1">
+                                      {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}
+                                    </span>
+                                    {step.note}
+                                  </li>
+                                )
+                              })}
+                            </ol>
+                          </details>
+                        )
+                      })()}
+                      {(() => {
+                        const outage = player.progress.find(p => p.missionId === 6)?.outage
+                        if (!outage) return null
+                        return outage.postmortem ? (
+                          <details className="pt-2 border-t border-gray-200">
+                            <summary className="cursor-pointer text-gray-500">
+                              Outage postmortem (seed {outage.seed})
+                            </summary>
+                            <pre className="mt-2 text-xs whitespace-pre-wrap font-mono text-gray-700 max-h-64 overflow-auto">
+                              {outage.postmortem}
+                            </pre>
+                          </details>
+                        ) : (
+                          <div className="flex justify-between">
+                            <span className="text-gray-500">Outage seed:</span>
+                            <span className="font-mono">{outage.seed}</span>
+                          </div>
+                        )
+                      })()}
                       {lastUpdate && (
                         <div className="pt-2 border-t border-gray-200 text-xs text-gray-500">
                           Last update: {minutesAgo !== null && minutesAgo < 60 
@@ -516,7 +660,7 @@ const InstructorDashboard: React.FC = () => {
         )}
 
         {/* Detailed Progress Grid */}
-        {trackedPlayers.length > 0 && (
+        {visiblePlayers.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -539,11 +683,14 @@ const InstructorDashboard: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody>
-                  {trackedPlayers.map((player) => (
+                  {visiblePlayers.map((player) => (
                     <tr key={player.id} className="border-b border-gray-100">
                       <td className="py-3 px-4">
                         <div>
                           <div className="font-semibold text-gray-800">{player.name}</div>
+                          {player.tokenStatus && TOKEN_WARNINGS[player.tokenStatus] && (
+                            <div className="text-xs text-yellow-700">{TOKEN_WARNINGS[player.tokenStatus]!.text}</div>
+                          )}
                           <div className="text-sm text-gray-500 capitalize">{player.difficulty}</div>
                         </div>
                       </td>
@@ -628,7 +775,7 @@ const InstructorDashboard: React.FC = () => {
         )}
 
         {/* Empty State */}
-        {trackedPlayers.length === 0 && (
+        {visiblePlayers.length === 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
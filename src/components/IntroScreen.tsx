@@ -2,14 +2,17 @@ import React from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import missionsData from '../missions.json'
+import { useGameStore } from '../store/gameStore'
+import { isMissionEnabled } from '../store/workshopSession'
 
 const IntroScreen: React.FC = () => {
   const { missionId } = useParams<{ missionId: string }>()
   const navigate = useNavigate()
+  const { session } = useGameStore()
   
   const mission = missionsData.missions.find(m => m.id === parseInt(missionId || '0'))
   
-  if (!mission) {
+  if (!mission || !isMissionEnabled(session, mission.id)) {
     navigate('/')
     return null
   }
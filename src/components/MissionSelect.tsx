@@ -3,10 +3,11 @@ import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import { useGameStore } from '../store/gameStore'
 import missionsData from '../missions.json'
+import { isMissionEnabled } from '../store/workshopSession'
 
 const MissionSelect: React.FC = () => {
   const navigate = useNavigate()
-  const { player } = useGameStore()
+  const { player, session } = useGameStore()
 
   if (!player) {
     navigate('/')
@@ -16,6 +17,8 @@ const MissionSelect: React.FC = () => {
   const missions = missionsData.missions
 
   const getMissionStatus = (missionId: number) => {
+    // Missions the workshop session leaves out stay locked, even ones easing marked completed
+    if (!isMissionEnabled(session, missionId)) return 'locked'
     const progress = player.progress.find((p: any) => p.missionId === missionId)
     if (progress?.completed) return 'completed'
     if (missionId <= player.currentMission) return 'unlocked'
@@ -31,7 +34,8 @@ const MissionSelect: React.FC = () => {
   }
 
 
-  const completedMissions = player.progress.filter((p: any) => p.completed).length
+  const enabledMissions = missions.filter((mission) => isMissionEnabled(session, mission.id)).length
+  const completedMissions = player.progress.filter((p: any) => p.completed && isMissionEnabled(session, p.missionId)).length
   const totalTimeSpent = Math.round(player.totalTimeSpent / 60000) // Convert milliseconds to minutes
 
   return (
@@ -51,11 +55,17 @@ const MissionSelect: React.FC = () => {
               <p className="text-gray-600">
                 Difficulty: <span className="font-semibold capitalize">{player.difficulty}</span>
               </p>
+              {session && (
+                <p className="text-gray-600">
+                  Workshop: <span className="font-semibold">{session.name}</span>
+                  {session.cohort && <span> ({session.cohort})</span>}
+                </p>
+              )}
             </div>
             <div className="text-right">
               <div className="text-sm text-gray-500 mb-1">Progress</div>
               <div className="text-2xl font-bold text-blue-600">
-                {completedMissions}/6 missions
+                {completedMissions}/{enabledMissions} missions
               </div>
               <div className="text-sm text-gray-500">
                 {totalTimeSpent} minutes played
@@ -162,7 +172,7 @@ const MissionSelect: React.FC = () => {
 
                 {status === 'locked' && (
                   <div className="text-center text-gray-500 text-sm mt-4">
-                    Complete previous missions to unlock
+                    {isMissionEnabled(session, mission.id) ? 'Complete previous missions to unlock' : 'Not part of this workshop'}
                   </div>
                 )}
               </motion.div>
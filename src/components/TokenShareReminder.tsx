@@ -1,6 +1,7 @@
 import React from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useGameStore } from '../store/gameStore'
+import { getProgressSync } from '../store/progressSync'
 
 // Shows a non-intrusive reminder every 10 minutes prompting the student
 // to copy a fresh progress token and share it with the instructor.
@@ -14,17 +15,15 @@ const TokenShareReminder: React.FC = () => {
 
   // Generate a token whenever we show the reminder
   const refreshToken = React.useCallback(() => {
-    try {
-      const t = useGameStore.getState().generateProgressToken()
-      setToken(t)
-    } catch {
-      setToken('')
-    }
+    useGameStore.getState().generateProgressToken()
+      .then(setToken)
+      .catch(() => setToken(''))
   }, [])
 
-  // Schedule reminder every 10 minutes while a player exists
+  // Schedule reminder every 10 minutes while a player exists. Not needed when
+  // a sync server already streams progress to the instructor.
   React.useEffect(() => {
-    if (!player) return
+    if (!player || getProgressSync().kind === 'server') return
 
     let cancelled = false
     let timer: ReturnType<typeof setTimeout> | null = null
@@ -51,10 +51,9 @@ const VictoryScreen: React.FC = () => {
 
   React.useEffect(() => {
     // Generate a fresh token when the victory screen mounts
-    try {
-      const t = useGameStore.getState().generateProgressToken()
-      setToken(t)
-    } catch {}
+    useGameStore.getState().generateProgressToken()
+      .then(setToken)
+      .catch(() => {})
   }, [])
 
   const handleCopyToken = async () => {
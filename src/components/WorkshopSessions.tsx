@@ -0,0 +1,221 @@
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import type { Player } from '../store/gameStore'
+import {
+  MISSION_IDS,
+  REMOVED_SESSION,
+  compareSessions,
+  formatJoinCode,
+  playersInSession,
+  summarizePlayers,
+  validateSessionDraft,
+  type Difficulty,
+  type SessionDraft,
+  type SessionSummary,
+  type WorkshopSessions as Sessions
+} from '../store/workshopSession'
+
+// undefined shows every player, null the players outside any session
+export type SessionFilter = string | null | undefined
+
+interface WorkshopSessionsProps {
+  sessions: Sessions
+  players: Player[]
+  filter: SessionFilter
+  onFilter: (filter: SessionFilter) => void
+  onCreate: (draft: SessionDraft) => void
+  onRemove: (code: string) => void
+}
+
+const ALL_PLAYERS = '__all__'
+const NO_SESSION = '__none__'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const emptyDraft = (): SessionDraft => ({ name: '', date: today(), cohort: '', enabledMissions: [...MISSION_IDS], difficulty: null })
+
+const percent = (share: number) => `${Math.round(share * 100)}%`
+
+// Creating workshop sessions, choosing which one the dashboard shows, and
+// comparing cohorts side by side
+const WorkshopSessions: React.FC<WorkshopSessionsProps> = ({ sessions, players, filter, onFilter, onCreate, onRemove }) => {
+  const [draft, setDraft] = useState<SessionDraft>(emptyDraft)
+  const [showForm, setShowForm] = useState(false)
+  const issues = validateSessionDraft(draft)
+
+  const summaries: SessionSummary[] = compareSessions(sessions, players)
+  const unassigned = playersInSession(players, null)
+  if (unassigned.length > 0) summaries.push(summarizePlayers(null, unassigned))
+  const orphaned = playersInSession(players, REMOVED_SESSION, sessions)
+  if (orphaned.length > 0) summaries.push(summarizePlayers(REMOVED_SESSION, orphaned))
+
+  const toggleMission = (id: number) => setDraft((d) => ({
+    ...d,
+    enabledMissions: d.enabledMissions.includes(id) ? d.enabledMissions.filter((m) => m !== id) : [...d.enabledMissions, id]
+  }))
+
+  const create = () => {
+    if (issues.length > 0) return
+    onCreate(draft)
+    setDraft(emptyDraft())
+    setShowForm(false)
+  }
+
+  const filterValue = filter === undefined ? ALL_PLAYERS : filter === null ? NO_SESSION : filter
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="game-container p-6 mb-6">
+      <div className="flex justify-between items-center flex-wrap gap-4 mb-4">
+        <h2 className="text-xl font-bold text-gray-800">🎟️ Workshop Sessions</h2>
+        <div className="flex items-center gap-2">
+          <label htmlFor="sessionFilter" className="text-sm font-medium text-gray-700">Show</label>
+          <select
+            id="sessionFilter"
+            value={filterValue}
+            onChange={(e) => onFilter(e.target.value === ALL_PLAYERS ? undefined : e.target.value === NO_SESSION ? null : e.target.value)}
+            className="px-2 py-2 border rounded"
+          >
+            <option value={ALL_PLAYERS}>All players</option>
+            {Object.values(sessions).map((session) => (
+              <option key={session.code} value={session.code}>{session.name} ({formatJoinCode(session.code)})</option>
+            ))}
+            <option value={NO_SESSION}>Not in a session</option>
+            {orphaned.length > 0 && <option value={REMOVED_SESSION}>Unknown or removed session</option>}
+          </select>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="px-3 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+          >
+            {showForm ? 'Cancel' : '+ New Session'}
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="p-4 mb-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Session name"
+              className="flex-1 min-w-48 px-2 py-2 border rounded"
+            />
+            <input
+              type="date"
+              value={draft.date}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              className="px-2 py-2 border rounded"
+            />
+            <input
+              value={draft.cohort}
+              onChange={(e) => setDraft({ ...draft, cohort: e.target.value })}
+              placeholder="Cohort (optional)"
+              className="w-44 px-2 py-2 border rounded"
+            />
+            <select
+              value={draft.difficulty ?? ''}
+              onChange={(e) => setDraft({ ...draft, difficulty: (e.target.value || null) as Difficulty | null })}
+              className="px-2 py-2 border rounded"
+            >
+              <option value="">Learners choose difficulty</option>
+              <option value="beginner">Beginner only</option>
+              <option value="intermediate">Intermediate only</option>
+              <option value="advanced">Advanced only</option>
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="font-medium text-gray-700">Missions:</span>
+            {MISSION_IDS.map((id) => (
+              <label key={id} className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={draft.enabledMissions.includes(id)} onChange={() => toggleMission(id)} />
+                M{id}
+              </label>
+            ))}
+          </div>
+          {issues.map((issue) => (
+            <p key={issue} className="text-sm text-red-500">❌ {issue}</p>
+          ))}
+          <button
+            onClick={create}
+            disabled={issues.length > 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Create and get join code
+          </button>
+        </div>
+      )}
+
+      {summaries.length === 0 ? (
+        <p className="text-gray-600">
+          No sessions yet. Create one and give learners its join code so the dashboard can group and compare them.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-700">
+                <th className="text-left py-2 px-2 font-semibold">Session</th>
+                <th className="text-left py-2 px-2 font-semibold">Join Code</th>
+                <th className="text-center py-2 px-2 font-semibold">Players</th>
+                <th className="text-center py-2 px-2 font-semibold">Avg Completed</th>
+                <th className="text-center py-2 px-2 font-semibold">Avg Score</th>
+                {MISSION_IDS.map((id) => (
+                  <th key={id} className="text-center py-2 px-2 font-semibold">M{id}</th>
+                ))}
+                <th className="py-2 px-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map((summary) => {
+                const session = summary.code ? sessions[summary.code] : null
+                return (
+                  <tr
+                    key={summary.code ?? NO_SESSION}
+                    className={`border-b border-gray-100 ${filter === summary.code ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="py-2 px-2">
+                      <button onClick={() => onFilter(summary.code)} className="text-left hover:underline">
+                        <div className="font-semibold text-gray-800">
+                          {session ? session.name : summary.code === REMOVED_SESSION ? 'Unknown or removed session' : 'Not in a session'}
+                        </div>
+                        {session && (
+                          <div className="text-xs text-gray-500">
+                            {[session.cohort, session.date, session.difficulty && `${session.difficulty} only`].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
+                      </button>
+                    </td>
+                    <td className="py-2 px-2 font-mono font-bold tracking-widest">{session ? formatJoinCode(session.code) : '—'}</td>
+                    <td className="text-center py-2 px-2">{summary.players}</td>
+                    <td className="text-center py-2 px-2">{summary.avgCompleted.toFixed(1)}</td>
+                    <td className="text-center py-2 px-2">{Math.round(summary.avgScore)}</td>
+                    {MISSION_IDS.map((id) => (
+                      <td key={id} className="text-center py-2 px-2">
+                        {session && !session.enabledMissions.includes(id) ? <span className="text-gray-400">off</span> : percent(summary.missionCompletion[id])}
+                      </td>
+                    ))}
+                    <td className="py-2 px-2 text-right">
+                      {session && (
+                        <button
+                          onClick={() => {
+                            if (confirm(`Delete the session ${session.name}? Its players are kept.`)) onRemove(session.code)
+                          }}
+                          className="text-red-500 hover:text-red-700 font-bold"
+                          title="Delete session"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
+export default WorkshopSessions
@@ -0,0 +1,135 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import {
+  ALERT_METRICS,
+  MAX_ALERT_WINDOW_SEC,
+  alertRuleIssues,
+  type AlertComparator,
+  type AlertMetric,
+  type AlertRule,
+  type AlertSeverity
+} from './alerting'
+import { TOPOLOGY, findService, type ServiceId } from './outageEngine'
+
+interface AlertRuleEditorProps {
+  rules: AlertRule[]
+  onChange: (rules: AlertRule[]) => void
+  onStart: () => void
+}
+
+// Alert rules the player sets up before the on-call shift starts
+const AlertRuleEditor: React.FC<AlertRuleEditorProps> = ({ rules, onChange, onStart }) => {
+  const issues = rules.map((rule) => alertRuleIssues(rule, findService(rule.service).baseline))
+  const blocking = issues.some((list) => list.some((issue) => issue.severity === 'error'))
+
+  const updateRule = (index: number, changes: Partial<AlertRule>) =>
+    onChange(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule))
+
+  const addRule = () => {
+    const next = Math.max(0, ...rules.map((rule) => Number(rule.id.replace('rule-', '')) || 0)) + 1
+    onChange([...rules, { id: `rule-${next}`, service: 'api', metric: 'responseTime', comparator: 'above', threshold: 500, forSec: 15, severity: 'warning' }])
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="game-container p-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-2">📟 Alert Rules</h2>
+      <p className="text-gray-600 mb-4">
+        Decide what pages you before your shift starts. Nobody watches the dashboards all day: an incident your rules miss is only found if you spot it yourself, and a rule that fires on every blip teaches the team to ignore pages.
+      </p>
+
+      <div className="space-y-4">
+        {rules.map((rule, index) => (
+          <div key={rule.id} className="p-4 border border-gray-200 rounded-lg">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={rule.service}
+                onChange={(e) => updateRule(index, { service: e.target.value as ServiceId })}
+                className="p-2 border border-gray-300 rounded"
+              >
+                {TOPOLOGY.map((service) => (
+                  <option key={service.id} value={service.id}>{service.name}</option>
+                ))}
+              </select>
+              <select
+                value={rule.metric}
+                onChange={(e) => {
+                  const metric = e.target.value as AlertMetric
+                  updateRule(index, { metric, comparator: ALERT_METRICS[metric].defaultComparator })
+                }}
+                className="p-2 border border-gray-300 rounded"
+              >
+                {(Object.keys(ALERT_METRICS) as AlertMetric[]).map((metric) => (
+                  <option key={metric} value={metric}>{ALERT_METRICS[metric].label}</option>
+                ))}
+              </select>
+              <select
+                value={rule.comparator}
+                onChange={(e) => updateRule(index, { comparator: e.target.value as AlertComparator })}
+                className="p-2 border border-gray-300 rounded"
+              >
+                <option value="above">above</option>
+                <option value="below">below</option>
+              </select>
+              <input
+                type="number"
+                value={Number.isFinite(rule.threshold) ? rule.threshold : ''}
+                onChange={(e) => updateRule(index, { threshold: e.target.value === '' ? NaN : Number(e.target.value) })}
+                className="w-24 p-2 border border-gray-300 rounded"
+              />
+              <span className="text-gray-600">{ALERT_METRICS[rule.metric].unit} for</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_ALERT_WINDOW_SEC}
+                value={rule.forSec}
+                onChange={(e) => updateRule(index, { forSec: Number(e.target.value) })}
+                className="w-20 p-2 border border-gray-300 rounded"
+              />
+              <span className="text-gray-600">s as</span>
+              <select
+                value={rule.severity}
+                onChange={(e) => updateRule(index, { severity: e.target.value as AlertSeverity })}
+                className="p-2 border border-gray-300 rounded"
+              >
+                <option value="critical">critical (page)</option>
+                <option value="warning">warning (channel)</option>
+              </select>
+              <button
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                className="px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+              >
+                ×
+              </button>
+            </div>
+            {issues[index].map((issue, i) => (
+              <p key={i} className={`text-sm mt-1 ${issue.severity === 'error' ? 'text-red-500' : 'text-yellow-700'}`}>
+                {issue.severity === 'error' ? '❌' : '⚠️'} {issue.message}
+              </p>
+            ))}
+          </div>
+        ))}
+        {rules.length === 0 && (
+          <p className="text-sm text-yellow-700">⚠️ With no rules, nothing pages you; incidents are only found by watching the dashboards.</p>
+        )}
+      </div>
+
+      <div className="flex justify-between mt-4">
+        <button
+          onClick={addRule}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Add Rule
+        </button>
+        <button
+          onClick={onStart}
+          disabled={blocking}
+          className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+        >
+          Start Shift
+        </button>
+      </div>
+    </motion.div>
+  )
+}
+
+export default AlertRuleEditor
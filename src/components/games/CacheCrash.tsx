@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import { DndProvider, useDrag, useDrop } from 'react-dnd'
@@ -7,6 +7,8 @@ import { useGameStore } from '../../store/gameStore'
 import ConceptCard from '../ConceptCard'
 import MissionQuiz from '../MissionQuiz'
 import missionsData from '../../missions.json'
+import { CATEGORY_UUID, classify, stageLabels } from './dockerValidation'
+import { DEFAULT_BUILD_CONTEXT, DEFAULT_DOCKERIGNORE, simulateRebuild, type BuildOptions } from './layerCache'
 
 interface DockerInstruction {
   id: string
@@ -14,16 +16,159 @@ interface DockerInstruction {
   type: 'instruction'
   explanation: string
   optimized?: boolean
+  // Stage declared by a FROM ... AS <name> instruction
+  stageName?: string | null
 }
 
+// Single-stage puzzle pieces
+const SINGLE_STAGE_INSTRUCTIONS: DockerInstruction[] = [
+  {
+    id: 'from',
+    content: 'FROM python:3.12-slim',
+    type: 'instruction',
+    explanation: 'Start with lightweight base image'
+  },
+  {
+    id: 'workdir',
+    content: 'WORKDIR /app',
+    type: 'instruction',
+    explanation: 'Set working directory'
+  },
+  {
+    id: 'copy-reqs',
+    content: 'COPY requirements.txt .',
+    type: 'instruction',
+    explanation: 'Copy dependency list first (for caching)'
+  },
+  {
+    id: 'install',
+    content: 'RUN pip install --no-cache-dir -r requirements.txt',
+    type: 'instruction',
+    explanation: 'Install dependencies (cached if reqs.txt unchanged)'
+  },
+  {
+    id: 'copy-app',
+    content: 'COPY . .',
+    type: 'instruction',
+    explanation: 'Copy application code last'
+  },
+  {
+    id: 'expose',
+    content: 'EXPOSE 8000',
+    type: 'instruction',
+    explanation: 'Document the port'
+  },
+  {
+    id: 'cmd',
+    content: 'CMD ["python", "app.py"]',
+    type: 'instruction',
+    explanation: 'Start the application'
+  }
+]
+
+// Applying the multi-stage optimization swaps in a builder stage and a slim runtime stage
+const MULTI_STAGE_INSTRUCTIONS: DockerInstruction[] = [
+  {
+    id: 'from-builder',
+    content: 'FROM python:3.12 AS builder',
+    type: 'instruction',
+    explanation: 'Full image with build tools, used only to build',
+    stageName: 'builder'
+  },
+  {
+    id: 'workdir-builder',
+    content: 'WORKDIR /build',
+    type: 'instruction',
+    explanation: 'Scratch directory for the build'
+  },
+  {
+    id: 'copy-reqs',
+    content: 'COPY requirements.txt .',
+    type: 'instruction',
+    explanation: 'Copy dependency list first (for caching)'
+  },
+  {
+    id: 'install',
+    content: 'RUN pip install --prefix=/install -r requirements.txt',
+    type: 'instruction',
+    explanation: 'Install dependencies into /install (pip cache stays in the builder)'
+  },
+  {
+    id: 'from',
+    content: 'FROM python:3.12-slim AS runtime',
+    type: 'instruction',
+    explanation: 'Slim runtime image that actually ships',
+    stageName: 'runtime'
+  },
+  {
+    id: 'workdir',
+    content: 'WORKDIR /app',
+    type: 'instruction',
+    explanation: 'Set working directory'
+  },
+  {
+    id: 'copy-deps',
+    content: 'COPY --from=builder /install /usr/local',
+    type: 'instruction',
+    explanation: 'Bring over only the installed packages'
+  },
+  {
+    id: 'copy-app',
+    content: 'COPY . .',
+    type: 'instruction',
+    explanation: 'Copy application code last'
+  },
+  {
+    id: 'expose',
+    content: 'EXPOSE 8000',
+    type: 'instruction',
+    explanation: 'Document the port'
+  },
+  {
+    id: 'cmd',
+    content: 'CMD ["python", "app.py"]',
+    type: 'instruction',
+    explanation: 'Start the application'
+  }
+]
+
+// Compare layer positions by what each instruction does, so equivalent
+// spellings (ADD vs COPY, exec-form RUN, requirements*.txt) count the same
+const checkLayerOrder = (instructions: DockerInstruction[]) => {
+  const categories = instructions.map(inst => classify(inst.content))
+  const appIndex = categories.indexOf(CATEGORY_UUID.COPY_APP)
+  const before = (category: string) => {
+    const index = categories.indexOf(category)
+    return index >= 0 && appIndex >= 0 && index < appIndex
+  }
+  return {
+    hasRequirementsFirst: before(CATEGORY_UUID.COPY_REQS),
+    hasDependenciesBeforeCode: before(CATEGORY_UUID.RUN_PIP)
+  }
+}
+
+// Map the optimization toggles onto simulator build options
+const buildOptionsFor = (appliedOptimizations: string[]): BuildOptions => ({
+  dockerignore: appliedOptimizations.includes('.dockerignore') ? DEFAULT_DOCKERIGNORE : [],
+  pipNoCacheDir: appliedOptimizations.includes('--no-cache-dir'),
+  aptNoInstallRecommends: appliedOptimizations.includes('--no-install-recommends')
+})
+
+const EDITABLE_FILES = ['app.py', 'requirements.txt', 'templates/index.html', 'tests/test_app.py']
+
+// The edit the targets are scored against: day-to-day work touches the app
+// code, not the dependencies. The simulator's file picker is for exploring only.
+const SCORED_CHANGE = 'app.py'
+
 interface DropSlotProps {
   index: number
   instruction: DockerInstruction | null
+  stageLabel: string | null
   onDrop: (item: DockerInstruction, index: number) => void
   onRemove: (index: number) => void
 }
 
-const DropSlot: React.FC<DropSlotProps> = ({ index, instruction, onDrop, onRemove }) => {
+const DropSlot: React.FC<DropSlotProps> = ({ index, instruction, stageLabel, onDrop, onRemove }) => {
   const [{ isOver }, drop] = useDrop({
     accept: 'docker-instruction',
     drop: (item: DockerInstruction) => {
@@ -47,6 +192,11 @@ const DropSlot: React.FC<DropSlotProps> = ({ index, instruction, onDrop, onRemov
     >
       {instruction ? (
         <div className="flex items-center justify-between w-full">
+          {stageLabel && (
+            <span className="mr-2 px-2 py-0.5 rounded bg-purple-100 text-purple-700 text-xs font-semibold whitespace-nowrap">
+              {stageLabel}
+            </span>
+          )}
           <div className="flex-1">
             <div className="text-sm font-mono text-gray-800 text-center mb-1">
               {instruction.content}
@@ -116,11 +266,48 @@ const CacheCrash: React.FC = () => {
   const [lastValidation, setLastValidation] = useState<ReturnType<typeof validateOptimization> | null>(null)
   const [showOptimizations, setShowOptimizations] = useState(false)
   const [appliedOptimizations, setAppliedOptimizations] = useState<string[]>([])
-  const [buildTime, setBuildTime] = useState(45)
-  const [imageSize, setImageSize] = useState(450)
+  const [changedFile, setChangedFile] = useState('app.py')
 
   const mission = missionsData.missions.find(m => m.id === 2)
-  
+  const multiStage = appliedOptimizations.includes('multi-stage build')
+
+  useEffect(() => {
+    // Initialize game with better explanations
+    const instructionsWithExplanations = multiStage ? MULTI_STAGE_INSTRUCTIONS : SINGLE_STAGE_INSTRUCTIONS
+
+    // Switching to multi-stage keeps every placed step the new layout still has,
+    // in the same slot, so the player does not lose their work
+    const slots: (DockerInstruction | null)[] = new Array(instructionsWithExplanations.length).fill(null)
+    droppedInstructions.forEach((placed, index) => {
+      if (!placed || index >= slots.length) return
+      slots[index] = instructionsWithExplanations.find(inst => inst.id === placed.id) ?? null
+    })
+    const kept = new Set(slots.map(inst => inst?.id))
+
+    // Shuffle the remaining instructions for the puzzle
+    const shuffled = instructionsWithExplanations.filter(inst => !kept.has(inst.id)).sort(() => Math.random() - 0.5)
+    setAvailableInstructions(shuffled)
+    setDroppedInstructions(slots)
+  }, [mission, player, multiStage])
+
+  // Build the Dockerfile from scratch, then rebuild after editing one file.
+  // Build time is the rebuild time: that is what layer ordering speeds up.
+  const dockerfile = droppedInstructions.length === 0 || droppedInstructions.some(inst => inst === null)
+    ? null
+    : (droppedInstructions as DockerInstruction[]).map(inst => inst.content).join('\n')
+
+  const scoredSimulation = useMemo(() => dockerfile === null
+    ? null
+    : simulateRebuild(dockerfile, SCORED_CHANGE, DEFAULT_BUILD_CONTEXT, buildOptionsFor(appliedOptimizations))
+  , [dockerfile, appliedOptimizations])
+
+  const buildSimulation = useMemo(() => dockerfile === null
+    ? null
+    : changedFile === SCORED_CHANGE
+      ? scoredSimulation
+      : simulateRebuild(dockerfile, changedFile, DEFAULT_BUILD_CONTEXT, buildOptionsFor(appliedOptimizations))
+  , [dockerfile, appliedOptimizations, changedFile, scoredSimulation])
+
   if (!mission || !player) {
     navigate('/')
     return null
@@ -128,64 +315,9 @@ const CacheCrash: React.FC = () => {
 
   const difficultySettings = mission.difficulty[player.difficulty as keyof typeof mission.difficulty] as { hints: number; targetSize: number; targetTime: number }
 
-  useEffect(() => {
-    // Initialize game with better explanations
-    const instructionsWithExplanations: DockerInstruction[] = [
-      {
-        id: 'from',
-        content: 'FROM python:3.12-slim',
-        type: 'instruction',
-        explanation: 'Start with lightweight base image'
-      },
-      {
-        id: 'workdir',
-        content: 'WORKDIR /app',
-        type: 'instruction',
-        explanation: 'Set working directory'
-      },
-      {
-        id: 'copy-reqs',
-        content: 'COPY requirements.txt .',
-        type: 'instruction',
-        explanation: 'Copy dependency list first (for caching)'
-      },
-      {
-        id: 'install',
-        content: 'RUN pip install --no-cache-dir -r requirements.txt',
-        type: 'instruction',
-        explanation: 'Install dependencies (cached if reqs.txt unchanged)'
-      },
-      {
-        id: 'copy-app',
-        content: 'COPY . .',
-        type: 'instruction',
-        explanation: 'Copy application code last'
-      },
-      {
-        id: 'expose',
-        content: 'EXPOSE 8000',
-        type: 'instruction',
-        explanation: 'Document the port'
-      },
-      {
-        id: 'cmd',
-        content: 'CMD ["python", "app.py"]',
-        type: 'instruction',
-        explanation: 'Start the application'
-      }
-    ]
-    
-    // Shuffle instructions for the puzzle
-    const shuffled = [...instructionsWithExplanations].sort(() => Math.random() - 0.5)
-    setAvailableInstructions(shuffled)
-    
-    // Initialize empty drop zones
-    setDroppedInstructions(new Array(instructionsWithExplanations.length).fill(null))
-    
-    // Set initial build metrics
-    setBuildTime(45)
-    setImageSize(450)
-  }, [mission, player])
+  const slotStages = multiStage
+    ? stageLabels(droppedInstructions.map(inst => inst ? inst.content : null))
+    : droppedInstructions.map(() => null)
 
   const handleDrop = (item: DockerInstruction, index: number) => {
     // Remove the dragged item from the available list
@@ -201,9 +333,6 @@ const CacheCrash: React.FC = () => {
       newInstructions[index] = item
       return newInstructions
     })
-    
-    // Update build metrics based on layer order
-    updateBuildMetrics()
   }
 
   const handleRemove = (index: number) => {
@@ -219,48 +348,17 @@ const CacheCrash: React.FC = () => {
       newInstructions[index] = null
       return newInstructions
     })
-    
-    // Update build metrics
-    updateBuildMetrics()
   }
 
-  const updateBuildMetrics = () => {
-    const instructions = droppedInstructions.filter(inst => inst !== null) as DockerInstruction[]
-    
-    // Check for proper layer ordering (dependencies before code)
-    const hasRequirementsFirst = instructions.some(inst => 
-      inst.id === 'copy-reqs' && 
-      instructions.indexOf(inst) < instructions.findIndex(i => i.id === 'copy-app')
-    )
-    
-    const hasDependenciesBeforeCode = instructions.some(inst => 
-      inst.id === 'install' && 
-      instructions.indexOf(inst) < instructions.findIndex(i => i.id === 'copy-app')
-    )
-    
-    // Calculate build time and image size based on optimization
-    let newBuildTime = 45
-    let newImageSize = 450
-    
-    if (hasRequirementsFirst && hasDependenciesBeforeCode) {
-      newBuildTime = Math.max(newBuildTime - 15, 20)
-      newImageSize = Math.max(newImageSize - 50, 200)
-    }
-    
-    // Apply optimization bonuses
-    const optimizationBonus = appliedOptimizations.length * 5
-    newBuildTime = Math.max(newBuildTime - optimizationBonus, 15)
-    newImageSize = Math.max(newImageSize - (optimizationBonus * 2), 150)
-    
-    setBuildTime(newBuildTime)
-    setImageSize(newImageSize)
-  }
+  const buildTime = scoredSimulation ? Math.round(scoredSimulation.rebuild.totalTimeSec) : null
+  const imageSize = scoredSimulation ? Math.round(scoredSimulation.rebuild.imageSizeMb) : null
+  const sizeMet = imageSize !== null && imageSize <= (difficultySettings.targetSize || 400)
+  const timeMet = buildTime !== null && buildTime <= (difficultySettings.targetTime || 30)
 
   const applyOptimization = (optimization: string) => {
     if (appliedOptimizations.includes(optimization)) return
     
     setAppliedOptimizations(prev => [...prev, optimization])
-    updateBuildMetrics()
   }
 
   const validateOptimization = () => {
@@ -271,15 +369,7 @@ const CacheCrash: React.FC = () => {
     let correctOrder = 0
     
     // Check for proper layer ordering
-    const hasRequirementsFirst = instructions.some(inst => 
-      inst.id === 'copy-reqs' && 
-      instructions.indexOf(inst) < instructions.findIndex(i => i.id === 'copy-app')
-    )
-    
-    const hasDependenciesBeforeCode = instructions.some(inst => 
-      inst.id === 'install' && 
-      instructions.indexOf(inst) < instructions.findIndex(i => i.id === 'copy-app')
-    )
+    const { hasRequirementsFirst, hasDependenciesBeforeCode } = checkLayerOrder(instructions)
     
     if (hasRequirementsFirst) {
       correctOrder++
@@ -311,17 +401,19 @@ const CacheCrash: React.FC = () => {
     const targetSize = difficultySettings.targetSize || 400
     const targetTime = difficultySettings.targetTime || 30
     
-    if (imageSize <= targetSize) {
+    if (imageSize === null || buildTime === null) {
+      feedback.push("❌ Fill every step so the Dockerfile can be built")
+    } else if (sizeMet) {
       score += 20
       feedback.push(`✅ Image size ${imageSize}MB ≤ ${targetSize}MB target`)
     } else {
       feedback.push(`❌ Image size ${imageSize}MB > ${targetSize}MB target`)
     }
     
-    if (buildTime <= targetTime) {
+    if (buildTime !== null && timeMet) {
       score += 20
       feedback.push(`✅ Build time ${buildTime}s ≤ ${targetTime}s target`)
-    } else {
+    } else if (buildTime !== null) {
       feedback.push(`❌ Build time ${buildTime}s > ${targetTime}s target`)
     }
     
@@ -334,9 +426,9 @@ const CacheCrash: React.FC = () => {
       score: Math.max(0, Math.min(100, score)), 
       correctOrder, 
       total: 2,
-      targetsMet: imageSize <= targetSize && buildTime <= targetTime,
+      targetsMet: sizeMet && timeMet,
       feedback,
-      success: imageSize <= targetSize && buildTime <= targetTime && correctOrder === 2
+      success: sizeMet && timeMet && correctOrder === 2
     }
   }
 
@@ -531,15 +623,15 @@ const CacheCrash: React.FC = () => {
             <h2 className="text-xl font-bold text-gray-800 mb-4">Build Performance</h2>
             <div className="grid grid-cols-2 gap-6">
               <div className="text-center">
-                <div className={`text-3xl font-bold ${buildTime <= (difficultySettings.targetTime || 30) ? 'text-green-600' : 'text-red-600'}`}>
-                  {buildTime}s
+                <div className={`text-3xl font-bold ${timeMet ? 'text-green-600' : 'text-red-600'}`}>
+                  {buildTime === null ? '—' : `${buildTime}s`}
                 </div>
-                <div className="text-sm text-gray-600">Build Time</div>
+                <div className="text-sm text-gray-600">Rebuild Time (after editing {SCORED_CHANGE})</div>
                 <div className="text-xs text-gray-500">Target: {difficultySettings.targetTime || 30}s</div>
               </div>
               <div className="text-center">
-                <div className={`text-3xl font-bold ${imageSize <= (difficultySettings.targetSize || 400) ? 'text-green-600' : 'text-red-600'}`}>
-                  {imageSize}MB
+                <div className={`text-3xl font-bold ${sizeMet ? 'text-green-600' : 'text-red-600'}`}>
+                  {imageSize === null ? '—' : `${imageSize}MB`}
                 </div>
                 <div className="text-sm text-gray-600">Image Size</div>
                 <div className="text-xs text-gray-500">Target: {difficultySettings.targetSize || 400}MB</div>
@@ -547,6 +639,65 @@ const CacheCrash: React.FC = () => {
             </div>
           </div>
 
+          {/* Layer Cache Simulator */}
+          <div className="game-container p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-800 mb-2">Layer Cache Simulator</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Pick a file to edit and see which layers Docker can reuse and which it has to rebuild.
+              The targets above are always scored after an edit to {SCORED_CHANGE}.
+            </p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {EDITABLE_FILES.map((file) => (
+                <button
+                  key={file}
+                  onClick={() => setChangedFile(file)}
+                  className={`px-3 py-1 rounded-lg text-sm font-mono border transition-colors ${
+                    changedFile === file
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                  }`}
+                >
+                  ✏️ {file}
+                </button>
+              ))}
+            </div>
+            {buildSimulation ? (
+              <div className="space-y-2">
+                {buildSimulation.rebuild.layers.map((layer) => (
+                  <div
+                    key={layer.index}
+                    className={`flex items-center justify-between rounded-lg border p-2 text-sm ${
+                      layer.cached ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+                    }`}
+                  >
+                    <div className="flex-1">
+                      <div className="font-mono text-gray-800">{layer.instruction}</div>
+                      <div className="text-xs text-gray-600">
+                        {layer.reason}
+                        {buildSimulation.rebuild.stages.length > 1 && !buildSimulation.rebuild.stages[layer.stage]?.final && (
+                          <span className="ml-2 text-purple-700">· {layer.stageName ?? `stage ${layer.stage}`} stage, not in final image</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right text-xs text-gray-600 ml-4 whitespace-nowrap">
+                      <div className={`font-semibold ${layer.cached ? 'text-green-700' : 'text-red-700'}`}>
+                        {layer.cached ? 'CACHED' : 'REBUILT'} · {layer.hash.slice(0, 8)}
+                      </div>
+                      <div>{layer.durationSec}s · {layer.sizeMb}MB</div>
+                    </div>
+                  </div>
+                ))}
+                <div className="text-xs text-gray-500 pt-2">
+                  Cold build: {Math.round(buildSimulation.cold.totalTimeSec)}s · Build context: {buildSimulation.rebuild.contextSizeMb}MB ({buildSimulation.rebuild.contextTransferSec}s to send) · Cache hits: {buildSimulation.rebuild.cacheHits}/{buildSimulation.rebuild.layers.length}
+                </div>
+              </div>
+            ) : (
+              <div className="text-center text-gray-500 py-4 text-sm">
+                Fill every step of the Dockerfile to run the build simulation.
+              </div>
+            )}
+          </div>
+
           <div className="grid lg:grid-cols-2 gap-8">
             {/* Left Side - Available Instructions */}
             <div className="space-y-6">
@@ -586,6 +737,7 @@ const CacheCrash: React.FC = () => {
                       key={index}
                       index={index}
                       instruction={instruction}
+                      stageLabel={slotStages[index] ?? null}
                       onDrop={handleDrop}
                       onRemove={handleRemove}
                     />
@@ -5,36 +5,16 @@ import { useGameStore } from '../../store/gameStore'
 import ConceptCard from '../ConceptCard'
 import MissionQuiz from '../MissionQuiz'
 import missionsData from '../../missions.json'
-
-interface DeploymentConfig {
-  imageTag: string
-  port: number
-  environment: string
-  replicas: number
-  resources: {
-    cpu: string
-    memory: string
-  }
-  environmentVariables: Array<{
-    name: string
-    value: string
-  }>
-  healthCheck: {
-    enabled: boolean
-    path: string
-    interval: number
-  }
-  secrets: Array<{
-    name: string
-    key: string
-  }>
-}
+import RolloutSimulator from './RolloutSimulator'
+import { MANIFEST_FORMATS, renderManifest, type DeploymentConfig, type ManifestFormat } from './deploymentManifests'
+import { validateDeploymentConfig, type AppSpec, type DeploymentIssue } from './deploymentValidation'
+import { leakHuntProgress, moveToSecrets, scanDeployment, scanManifest } from './secretScanner'
 
 interface DeploymentSetting {
   id: string
   name: string
   description: string
-  type: 'text' | 'number' | 'select' | 'boolean' | 'array'
+  type: 'text' | 'number' | 'select' | 'boolean' | 'array' | 'quantity'
   required: boolean
   options?: string[]
   explanation: string
@@ -51,12 +31,16 @@ const DeployOrDie: React.FC = () => {
     replicas: 1,
     resources: {
       cpu: '',
-      memory: ''
+      memory: '',
+      requests: {
+        cpu: '',
+        memory: ''
+      }
     },
     environmentVariables: [],
     healthCheck: {
       enabled: false,
-      path: '',
+      path: '/health',
       interval: 30
     },
     secrets: []
@@ -71,8 +55,17 @@ const DeployOrDie: React.FC = () => {
   const [showExplanation, setShowExplanation] = useState(false)
   const [selectedSetting, setSelectedSetting] = useState<DeploymentSetting | null>(null)
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
+  const [manifestFormat, setManifestFormat] = useState<ManifestFormat>('kubernetes')
+  // Leak hunt variant: the leaky config the player started from, the fields
+  // they marked as suspect, and the leaks hints have pointed them to
+  const [leakHuntSeed, setLeakHuntSeed] = useState<DeploymentConfig | null>(null)
+  const [suspects, setSuspects] = useState<string[]>([])
+  const [hintedLeaks, setHintedLeaks] = useState<string[]>([])
+  const [noMoreLeakHints, setNoMoreLeakHints] = useState(false)
 
   const mission = missionsData.missions.find(m => m.id === 5)
+  const app = mission?.validation.app as AppSpec | undefined
+  const leakHunt = mission?.validation.leakHunt as { briefing: string; config: DeploymentConfig } | undefined
   
   if (!mission || !player) {
     navigate('/')
@@ -120,21 +113,21 @@ const DeployOrDie: React.FC = () => {
     {
       id: 'cpu',
       name: 'CPU Limit',
-      description: 'Maximum CPU resources per instance',
-      type: 'select',
+      description: 'CPU reserved (request) and allowed (limit) per instance',
+      type: 'quantity',
       required: true,
       options: ['100m', '200m', '500m', '1000m', '2000m'],
-      explanation: 'CPU limits prevent one application from consuming all server resources. "100m" = 0.1 CPU cores, "1000m" = 1 full CPU core.',
+      explanation: 'CPU limits prevent one application from consuming all server resources. "100m" = 0.1 CPU cores, "1000m" = 1 full CPU core. The request is what the scheduler reserves for the pod and can never be more than the limit.',
       category: 'scaling'
     },
     {
       id: 'memory',
       name: 'Memory Limit',
-      description: 'Maximum memory per instance',
-      type: 'select',
+      description: 'Memory reserved (request) and allowed (limit) per instance',
+      type: 'quantity',
       required: true,
       options: ['128Mi', '256Mi', '512Mi', '1Gi', '2Gi'],
-      explanation: 'Memory limits prevent memory leaks from crashing the server. "128Mi" = 128 megabytes, "1Gi" = 1 gigabyte.',
+      explanation: 'Memory limits prevent memory leaks from crashing the server. "128Mi" = 128 mebibytes, "1Gi" = 1 gibibyte. Watch the case: "128m" means 0.128 bytes. A pod that goes over its memory limit is OOM-killed.',
       category: 'scaling'
     },
     {
@@ -240,6 +233,15 @@ const DeployOrDie: React.FC = () => {
     }
   }
 
+  const handleResourceChange = (resource: 'cpu' | 'memory', kind: 'limit' | 'request', value: string) => {
+    setConfig(prev => ({
+      ...prev,
+      resources: kind === 'limit'
+        ? { ...prev.resources, [resource]: value }
+        : { ...prev.resources, requests: { ...prev.resources.requests, [resource]: value } }
+    }))
+  }
+
   const handleEnvironmentVariableAdd = () => {
     setConfig(prev => ({
       ...prev,
@@ -286,6 +288,36 @@ const DeployOrDie: React.FC = () => {
     }))
   }
 
+  const handleMoveToSecrets = (name: string) => {
+    setConfig(prev => moveToSecrets(prev, name))
+  }
+
+  const handleStartLeakHunt = () => {
+    if (!leakHunt) return
+    // Deep copy so edits never touch the mission data
+    const seed = JSON.parse(JSON.stringify(leakHunt.config)) as DeploymentConfig
+    setLeakHuntSeed(seed)
+    setConfig(JSON.parse(JSON.stringify(seed)))
+    setSuspects([])
+    setHintedLeaks([])
+    setNoMoreLeakHints(false)
+    setCurrentStep(0)
+  }
+
+  const handleToggleSuspect = (name: string) => {
+    setSuspects(prev => prev.includes(name) ? prev.filter(s => s !== name) : [...prev, name])
+  }
+
+  // Points the player at one leak they have not marked yet
+  const handleLeakHint = () => {
+    if (!leakHuntSeed) return
+    const next = leakHuntProgress(leakHuntSeed, config, suspects).missed.find(leak => !hintedLeaks.includes(leak.name))
+    setNoMoreLeakHints(!next)
+    if (!next) return
+    setHintedLeaks(prev => [...prev, next.name])
+    handleHintUsed()
+  }
+
   const handleNextStep = () => {
     if (currentStep < steps.length - 1) {
       setCurrentStep(currentStep + 1)
@@ -351,11 +383,14 @@ const DeployOrDie: React.FC = () => {
     if (config.replicas && config.replicas >= 1) score += 20
     else feedback.push("❌ At least 1 replica is required")
     
-    if (config.resources.cpu) score += 10
-    else feedback.push("❌ CPU limit is required")
+    const issues = validateDeploymentConfig(config, app)
+    const hasError = (field: DeploymentIssue['field']) => issues.some(i => i.field === field && i.severity === 'error')
+
+    if (config.resources.cpu && !hasError('cpu')) score += 10
+    else if (!config.resources.cpu) feedback.push("❌ CPU limit is required")
     
-    if (config.resources.memory) score += 10
-    else feedback.push("❌ Memory limit is required")
+    if (config.resources.memory && !hasError('memory')) score += 10
+    else if (!config.resources.memory) feedback.push("❌ Memory limit is required")
     
     // Bonus points for good practices
     if (config.replicas >= 2) {
@@ -363,7 +398,7 @@ const DeployOrDie: React.FC = () => {
       feedback.push("✅ Great! Using 2+ replicas for high availability")
     }
     
-    if (config.healthCheck.enabled) {
+    if (config.healthCheck.enabled && !hasError('healthCheck')) {
       score += 10
       feedback.push("✅ Excellent! Health checks enabled for monitoring")
     }
@@ -373,26 +408,46 @@ const DeployOrDie: React.FC = () => {
       feedback.push("✅ Good! Using environment variables for configuration")
     }
     
-    if (config.secrets.length > 0) {
+    // Secrets only help if nothing sensitive is left in plain sight
+    const leaks = scanDeployment(config)
+    if (config.secrets.length > 0 && leaks.length === 0) {
       score += 5
       feedback.push("✅ Perfect! Using secrets for sensitive data")
     }
-    
-    // Additional hints for common mistakes
-    if (config.port && (config.port < 1024 || config.port > 49151)) {
-      feedback.push("💡 Tip: Ports 1024-49151 are recommended for applications")
+    const tagLeak = leaks.find(leak => leak.location === 'imageTag')
+    if (tagLeak) {
+      score -= 10
+      feedback.push(`❌ The image tag ${tagLeak.masked} leaks a credential: ${tagLeak.reason}. Tags are public to anyone who can pull the image`)
     }
     
-    if (config.resources.cpu && config.resources.cpu === '100m') {
-      feedback.push("💡 Tip: Consider using more CPU for production workloads")
+    const hunt = leakHuntSeed ? leakHuntProgress(leakHuntSeed, config, suspects) : null
+    if (hunt) {
+      feedback.push(hunt.complete
+        ? `✅ Leak hunt: all ${hunt.total} leaks found and fixed`
+        : `❌ Leak hunt: ${hunt.found}/${hunt.total} leaks found, ${hunt.fixed}/${hunt.total} fixed`)
+      for (const leak of hunt.missed) {
+        feedback.push(`❌ You missed ${leak.name} (${leak.masked}): ${leak.reason}`)
+      }
+      for (const name of hunt.falseAlarms) {
+        feedback.push(`⚠️ ${name} was marked as a leak but holds nothing secret`)
+      }
+      for (const name of hunt.deleted) {
+        feedback.push(`❌ ${name} was deleted instead of moved to Secrets; the app still needs it`)
+      }
     }
     
-    if (config.resources.memory && config.resources.memory === '128Mi') {
-      feedback.push("💡 Tip: Consider using more memory for production workloads")
+    // Settings that are filled in but would break or weaken the deployment
+    for (const issue of issues) {
+      if (issue.severity === 'error') {
+        score -= 5
+        feedback.push(`❌ ${issue.message}`)
+      } else {
+        feedback.push(`💡 Tip: ${issue.message}`)
+      }
     }
     
     return {
-      success: score >= 80,
+      success: score >= 80 && (!hunt || hunt.complete),
       score: Math.max(0, Math.min(100, score)),
       feedback
     }
@@ -525,6 +580,13 @@ const DeployOrDie: React.FC = () => {
   }
 
   const currentStepSettings = steps[currentStep].settings
+  const configIssues = validateDeploymentConfig(config, app)
+  const manifest = renderManifest(config, manifestFormat)
+  // During the leak hunt the scanner's findings stay hidden until the player submits
+  const showLeaks = !leakHuntSeed
+  const leaks = showLeaks ? scanDeployment(config) : []
+  const leakedLines = new Map(showLeaks ? scanManifest(manifest).map(leak => [leak.line, leak]) : [])
+  const hunt = leakHuntSeed ? leakHuntProgress(leakHuntSeed, config, suspects) : null
 
   return (
     <div className="min-h-screen p-4">
@@ -549,13 +611,58 @@ const DeployOrDie: React.FC = () => {
                 </p>
               </div>
             </div>
-            <div className="text-right">
-              <div className="text-sm text-gray-500">Step {currentStep + 1} of {steps.length}</div>
-              <div className="text-lg font-bold text-blue-600">{steps[currentStep].title}</div>
+            <div className="flex items-center gap-4">
+              {leakHunt && (
+                <button
+                  onClick={handleStartLeakHunt}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  title="Start from a config full of leaked secrets"
+                >
+                  🕵️ Leak Hunt
+                </button>
+              )}
+              <div className="text-right">
+                <div className="text-sm text-gray-500">Step {currentStep + 1} of {steps.length}</div>
+                <div className="text-lg font-bold text-blue-600">{steps[currentStep].title}</div>
+              </div>
             </div>
           </div>
         </div>
 
+        {leakHuntSeed && leakHunt && hunt && (
+          <div className="game-container p-6 mb-6 border-l-4 border-red-500">
+            <div className="flex justify-between items-center mb-2">
+              <h2 className="text-xl font-bold text-gray-800">🕵️ Leak Hunt</h2>
+              <span className="font-bold text-gray-700">
+                🚩 {suspects.length} marked
+              </span>
+            </div>
+            <p className="text-sm text-gray-600 mb-3">{leakHunt.briefing}</p>
+            <p className="text-sm text-gray-600 mb-3">
+              Mark every field you think leaks a secret with 🚩, then fix it. You find out what you got right when you deploy.
+            </p>
+            {hintedLeaks.length > 0 && (
+              <ul className="text-sm space-y-1 mb-3">
+                {hunt.missed.filter(leak => hintedLeaks.includes(leak.name)).map((leak) => (
+                  <li key={`${leak.location}-${leak.name}`} className="text-yellow-700">
+                    💡 Take a closer look at <span className="font-mono">{leak.name}</span>: {leak.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {/* Always shown, so the button gives nothing away about what is left */}
+            <button
+              onClick={handleLeakHint}
+              className="px-3 py-1 text-sm bg-yellow-500 text-white rounded hover:bg-yellow-600"
+            >
+              💡 Hint: point me to a leak
+            </button>
+            {noMoreLeakHints && (
+              <span className="ml-3 text-sm text-gray-600">No more hints for this hunt.</span>
+            )}
+          </div>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Left Side - Configuration Form */}
           <div className="lg:col-span-2">
@@ -618,15 +725,60 @@ const DeployOrDie: React.FC = () => {
                       </select>
                     )}
                     
+                    {setting.type === 'quantity' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {(['request', 'limit'] as const).map(kind => (
+                          <label key={kind} className="text-xs text-gray-600">
+                            {kind === 'request' ? 'Request' : 'Limit'}{kind === 'limit' && <span className="text-red-500"> *</span>}
+                            <input
+                              type="text"
+                              list={`${setting.id}-suggestions`}
+                              value={kind === 'limit' ? config.resources[setting.id as 'cpu' | 'memory'] : config.resources.requests[setting.id as 'cpu' | 'memory']}
+                              onChange={(e) => handleResourceChange(setting.id as 'cpu' | 'memory', kind, e.target.value)}
+                              className={`w-full mt-1 p-3 border rounded-lg font-mono text-sm ${
+                                validationErrors[setting.id] && kind === 'limit' ? 'border-red-500' : 'border-gray-300'
+                              }`}
+                              placeholder={setting.options?.[2]}
+                            />
+                          </label>
+                        ))}
+                        <datalist id={`${setting.id}-suggestions`}>
+                          {setting.options?.map((option) => (
+                            <option key={option} value={option} />
+                          ))}
+                        </datalist>
+                      </div>
+                    )}
+                    
                     {setting.type === 'boolean' && (
-                      <div className="flex items-center space-x-3">
-                        <input
-                          type="checkbox"
-                          checked={config.healthCheck.enabled}
-                          onChange={(e) => handleConfigChange('healthCheck.enabled', e.target.checked)}
-                          className="w-4 h-4 text-blue-600 border-gray-300 rounded"
-                        />
-                        <span className="text-sm text-gray-700">Enable {setting.name}</span>
+                      <div className="space-y-2">
+                        <div className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            checked={config.healthCheck.enabled}
+                            onChange={(e) => handleConfigChange('healthCheck.enabled', e.target.checked)}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                          />
+                          <span className="text-sm text-gray-700">Enable {setting.name}</span>
+                        </div>
+                        {config.healthCheck.enabled && (
+                          <div className="flex space-x-2">
+                            <input
+                              type="text"
+                              value={config.healthCheck.path}
+                              onChange={(e) => handleConfigChange('healthCheck.path', e.target.value)}
+                              placeholder="Path, e.g. /health"
+                              className="flex-1 p-2 border border-gray-300 rounded font-mono text-sm"
+                            />
+                            <input
+                              type="number"
+                              value={config.healthCheck.interval || ''}
+                              onChange={(e) => handleConfigChange('healthCheck.interval', parseInt(e.target.value) || 0)}
+                              placeholder="Interval (s)"
+                              className="w-32 p-2 border border-gray-300 rounded"
+                            />
+                          </div>
+                        )}
                       </div>
                     )}
                     
@@ -638,30 +790,53 @@ const DeployOrDie: React.FC = () => {
                         >
                           Add Environment Variable
                         </button>
-                        {config.environmentVariables.map((envVar, index) => (
-                          <div key={index} className="flex space-x-2">
-                            <input
-                              type="text"
-                              value={envVar.name}
-                              onChange={(e) => handleEnvironmentVariableChange(index, 'name', e.target.value)}
-                              placeholder="Variable name"
-                              className="flex-1 p-2 border border-gray-300 rounded"
-                            />
-                            <input
-                              type="text"
-                              value={envVar.value}
-                              onChange={(e) => handleEnvironmentVariableChange(index, 'value', e.target.value)}
-                              placeholder="Value"
-                              className="flex-1 p-2 border border-gray-300 rounded"
-                            />
-                            <button
-                              onClick={() => handleEnvironmentVariableRemove(index)}
-                              className="px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700"
-                            >
-                              ×
-                            </button>
-                          </div>
-                        ))}
+                        {config.environmentVariables.map((envVar, index) => {
+                          const leaked = leaks.some(leak => leak.location === 'envVar' && leak.name === envVar.name.trim())
+                          const suspected = suspects.includes(envVar.name.trim())
+                          return (
+                            <div key={index} className="flex space-x-2">
+                              <input
+                                type="text"
+                                value={envVar.name}
+                                onChange={(e) => handleEnvironmentVariableChange(index, 'name', e.target.value)}
+                                placeholder="Variable name"
+                                className={`flex-1 p-2 border rounded ${leaked ? 'border-red-500 bg-red-50' : 'border-gray-300'}`}
+                              />
+                              <input
+                                type="text"
+                                value={envVar.value}
+                                onChange={(e) => handleEnvironmentVariableChange(index, 'value', e.target.value)}
+                                placeholder="Value"
+                                className={`flex-1 p-2 border rounded ${leaked ? 'border-red-500 bg-red-50' : 'border-gray-300'}`}
+                              />
+                              {leakHuntSeed && (
+                                <button
+                                  onClick={() => handleToggleSuspect(envVar.name.trim())}
+                                  disabled={!envVar.name.trim()}
+                                  className={`px-3 py-2 rounded border ${suspected ? 'bg-red-100 border-red-400' : 'bg-white border-gray-300 hover:border-red-400'}`}
+                                  title={suspected ? 'Unmark this variable' : 'Mark this variable as a leaked secret'}
+                                >
+                                  🚩
+                                </button>
+                              )}
+                              {(leaked || suspected) && (
+                                <button
+                                  onClick={() => handleMoveToSecrets(envVar.name.trim())}
+                                  className="px-3 py-2 bg-yellow-500 text-white rounded hover:bg-yellow-600 whitespace-nowrap"
+                                  title="Serve this value from Secrets instead"
+                                >
+                                  🔒 Move to Secrets
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleEnvironmentVariableRemove(index)}
+                                className="px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                              >
+                                ×
+                              </button>
+                            </div>
+                          )
+                        })}
                       </div>
                     )}
                     
@@ -703,6 +878,27 @@ const DeployOrDie: React.FC = () => {
                     {validationErrors[setting.id] && (
                       <p className="text-red-500 text-sm">{validationErrors[setting.id]}</p>
                     )}
+                    {setting.id === 'imageTag' && leakHuntSeed && (
+                      <button
+                        onClick={() => handleToggleSuspect('imageTag')}
+                        className={`mt-2 px-3 py-1 text-sm rounded border ${suspects.includes('imageTag') ? 'bg-red-100 border-red-400' : 'bg-white border-gray-300 hover:border-red-400'}`}
+                      >
+                        🚩 {suspects.includes('imageTag') ? 'Marked as leaking a secret' : 'Mark this tag as leaking a secret'}
+                      </button>
+                    )}
+                    {setting.id === 'imageTag' && leaks.filter(leak => leak.location === 'imageTag').map((leak) => (
+                      <p key={leak.name} className="text-red-500 text-sm">
+                        ❌ This tag leaks a credential: {leak.reason}. Image tags are visible to anyone who can pull the image
+                      </p>
+                    ))}
+                    {configIssues.filter(issue => issue.field === setting.id && (showLeaks || !issue.secretLeak)).map((issue, i) => (
+                      <p
+                        key={i}
+                        className={`text-sm ${issue.severity === 'error' ? 'text-red-500' : issue.severity === 'warning' ? 'text-yellow-700' : 'text-gray-500'}`}
+                      >
+                        {issue.severity === 'error' ? '❌' : issue.severity === 'warning' ? '⚠️' : 'ℹ️'} {issue.message}
+                      </p>
+                    ))}
                   </div>
                 ))}
               </div>
@@ -815,6 +1011,51 @@ const DeployOrDie: React.FC = () => {
           </div>
         </div>
 
+        {/* Live manifest preview, re-rendered on every field change */}
+        <div className="game-container p-6 mt-8">
+          <div className="flex justify-between items-start flex-wrap gap-4 mb-4">
+            <div>
+              <h2 className="text-xl font-bold text-gray-800 mb-1">📄 {manifest.fileName}</h2>
+              <p className="text-sm text-gray-600">
+                What your settings look like as {MANIFEST_FORMATS[manifestFormat].label} config. It updates as you fill in the form.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {(Object.keys(MANIFEST_FORMATS) as ManifestFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => setManifestFormat(format)}
+                  className={`px-3 py-1 text-sm rounded-lg border ${format === manifestFormat ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                >
+                  {MANIFEST_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <pre className="bg-gray-900 text-gray-100 rounded-lg p-4 text-xs font-mono overflow-auto max-h-96">
+            <code>
+              {manifest.yaml.split('\n').map((line, i) => {
+                const leak = leakedLines.get(i + 1)
+                return (
+                  <div
+                    key={i}
+                    className={leak ? 'bg-red-900 text-red-100' : undefined}
+                    title={leak ? `${leak.name}: ${leak.reason}` : undefined}
+                  >
+                    {line || ' '}
+                  </div>
+                )
+              })}
+            </code>
+          </pre>
+        </div>
+
+        <RolloutSimulator
+          replicas={config.replicas}
+          healthCheck={config.healthCheck.enabled}
+          strategies={mission.validation.validValues?.deployment_strategy ?? []}
+        />
+
         {/* Concept Card */}
         <div className="mt-8">
           <ConceptCard
@@ -8,22 +8,28 @@ import ConceptCard from '../ConceptCard'
 import MissionGuide from '../MissionGuide'
 import MissionQuiz from '../MissionQuiz'
 import missionsData from '../../missions.json'
+import { classify, stageLabels, validateDockerfile } from './dockerValidation'
+import { parseInstruction } from './dockerfileParser'
+import { formatFinding } from './dockerfileLinter'
 
 interface DockerBlock {
   id: string
   content: string
   type: 'directive'
   keyId: string
+  // Stage declared by a FROM ... AS <name> block
+  stageName: string | null
 }
 
 interface DropSlotProps {
   index: number
   block: DockerBlock | null
+  stageLabel: string | null
   onDrop: (item: DockerBlock, index: number) => void
   onRemove: (index: number) => void
 }
 
-const DropSlot: React.FC<DropSlotProps> = ({ index, block, onDrop, onRemove }) => {
+const DropSlot: React.FC<DropSlotProps> = ({ index, block, stageLabel, onDrop, onRemove }) => {
   const [{ isOver }, drop] = useDrop({
     accept: 'docker-block',
     drop: (item: DockerBlock) => {
@@ -47,6 +53,11 @@ const DropSlot: React.FC<DropSlotProps> = ({ index, block, onDrop, onRemove }) =
     >
       {block ? (
         <div className="flex items-center justify-between w-full">
+          {stageLabel && (
+            <span className="mr-2 px-2 py-0.5 rounded bg-purple-100 text-purple-700 text-xs font-semibold whitespace-nowrap">
+              {stageLabel}
+            </span>
+          )}
           <div className="text-sm font-mono text-gray-800 flex-1 text-center">
             {block.content}
           </div>
@@ -105,6 +116,7 @@ const DockerfileJigsaw: React.FC = () => {
   const [startTime] = useState(Date.now())
   const [showValidation, setShowValidation] = useState(false)
   const [timeSpentMs, setTimeSpentMs] = useState(0)
+  const [variantId, setVariantId] = useState<string | null>(null)
   interface LocalValidation {
     score: number
     correctCount: number
@@ -121,70 +133,37 @@ const DockerfileJigsaw: React.FC = () => {
     return null
   }
 
-  // Stable UUIDs per directive category to avoid string-based comparisons
-  const CATEGORY_UUID = {
-    FROM: '11111111-1111-4111-8111-111111111111',
-    WORKDIR: '22222222-2222-4222-8222-222222222222',
-    COPY_REQS: '33333333-3333-4333-8333-333333333333',
-    RUN_PIP: '44444444-4444-4444-8444-444444444444',
-    COPY_APP: '55555555-5555-4555-8555-555555555555',
-    EXPOSE: '66666666-6666-4666-8666-666666666666',
-    CMD: '77777777-7777-4777-8777-777777777777',
-    EXTRA: '88888888-8888-4888-8888-888888888888'
-  } as const
-
-  const LABEL_BY_UUID: Record<string, string> = {
-    [CATEGORY_UUID.FROM]: 'FROM',
-    [CATEGORY_UUID.WORKDIR]: 'WORKDIR',
-    [CATEGORY_UUID.COPY_REQS]: 'COPY requirements.txt',
-    [CATEGORY_UUID.RUN_PIP]: 'RUN pip install',
-    [CATEGORY_UUID.COPY_APP]: 'COPY .',
-    [CATEGORY_UUID.EXPOSE]: 'EXPOSE',
-    [CATEGORY_UUID.CMD]: 'CMD',
-    [CATEGORY_UUID.EXTRA]: 'EXTRA'
-  }
-  const LABEL_TO_UUID: Record<string, string> = {
-    'FROM': CATEGORY_UUID.FROM,
-    'WORKDIR': CATEGORY_UUID.WORKDIR,
-    'COPY requirements.txt': CATEGORY_UUID.COPY_REQS,
-    'RUN pip install': CATEGORY_UUID.RUN_PIP,
-    'COPY .': CATEGORY_UUID.COPY_APP,
-    'EXPOSE': CATEGORY_UUID.EXPOSE,
-    'CMD': CATEGORY_UUID.CMD
-  }
-
-  // No longer needed: comparisons use UUIDs end-to-end
-
-  // Classify a free-form instruction into a category UUID
-  const classify = (text: string): string => {
-    const t = text.trim().toUpperCase()
-    if (t.startsWith('FROM')) return CATEGORY_UUID.FROM
-    if (t.startsWith('WORKDIR')) return CATEGORY_UUID.WORKDIR
-    if (t.startsWith('COPY REQUIREMENTS.TXT')) return CATEGORY_UUID.COPY_REQS
-    if (t.startsWith('RUN PIP INSTALL')) return CATEGORY_UUID.RUN_PIP
-    if (t.startsWith('COPY .') || t.startsWith('COPY . .')) return CATEGORY_UUID.COPY_APP
-    if (t.startsWith('EXPOSE')) return CATEGORY_UUID.EXPOSE
-    if (t.startsWith('CMD')) return CATEGORY_UUID.CMD
-    return CATEGORY_UUID.EXTRA
-  }
+  // Puzzle variants (e.g. multi-stage) replace the classic blocks and required order
+  const variants = mission.validation?.variants || []
+  const activeVariant = variants.find(v => v.id === variantId) || null
+  const blocks = activeVariant ? activeVariant.blocks : (mission.validation?.blocks || [])
+  const requiredOrder = activeVariant ? activeVariant.requiredOrder : (mission.validation?.requiredOrder || [])
+  const requiredStages = activeVariant?.requiredStages ?? 1
 
   useEffect(() => {
     // Initialize game based on difficulty
-    const allBlocks = (mission.validation?.blocks || []).map((content) => ({
-      id: crypto.randomUUID(),
-      content,
-      type: 'directive' as const,
-      keyId: classify(content)
-    }))
+    const allBlocks = blocks.map((content) => {
+      const node = parseInstruction(content)
+      return {
+        id: crypto.randomUUID(),
+        content,
+        type: 'directive' as const,
+        keyId: classify(content),
+        stageName: node?.kind === 'from' ? node.stageName : null
+      }
+    })
     
     // Shuffle blocks for the puzzle
     const shuffled = [...allBlocks].sort(() => Math.random() - 0.5)
     setAvailableBlocks(shuffled)
     
     // Initialize empty drop zones based on required steps count
-    const totalRequired = (mission.validation?.requiredOrder || []).length
-    setDroppedBlocks(new Array(totalRequired).fill(null))
-  }, [mission, player])
+    setDroppedBlocks(new Array(requiredOrder.length).fill(null))
+  }, [mission, player, variantId])
+
+  const slotStages = requiredStages > 1
+    ? stageLabels(droppedBlocks.map(block => block ? block.content : null))
+    : droppedBlocks.map(() => null)
 
   const handleDrop = (item: DockerBlock, index: number) => {
     // Remove dragged item from available list
@@ -217,67 +196,36 @@ const DockerfileJigsaw: React.FC = () => {
     })
   }
 
-  const validateDockerfile = () => {
-    const requiredOrder = (mission.validation?.requiredOrder || [])
-      .map((r) => LABEL_TO_UUID[(r || '').trim()] || CATEGORY_UUID.EXTRA)
+  const validateJigsaw = () => {
     // Keep positional alignment; do not compress by filtering nulls
-    const currentOrder = droppedBlocks.map(block => block ? (block.keyId as string) : null)
+    const result = validateDockerfile(
+      droppedBlocks.map(block => block ? block.content : null),
+      requiredOrder,
+      { requiredStages }
+    )
+    const feedback = [...result.feedback]
 
-    let score = 0
-    let feedback: string[] = []
-    let correctCount = 0
-    
-    // Check each position
-    for (let i = 0; i < requiredOrder.length; i++) {
-      const required = requiredOrder[i]
-      const placed = currentOrder[i]
-      
-      if (placed) {
-        if (placed === required) {
-          correctCount++
-          score += 20
-          feedback.push(`✅ Step ${i + 1}: Correct!`)
-        } else {
-          const expectedLabel = LABEL_BY_UUID[required || ''] || (mission.validation?.requiredOrder?.[i] ?? 'Unknown')
-          const gotLabel = LABEL_BY_UUID[placed || ''] || 'Unknown'
-          feedback.push(`❌ Step ${i + 1}: Expected "${expectedLabel}" , got "${gotLabel}"`)
-        }
-      } else {
-        const expectedLabel = LABEL_BY_UUID[required || ''] || (mission.validation?.requiredOrder?.[i] ?? 'Unknown')
-        feedback.push(`❌ Step ${i + 1}: Missing "${expectedLabel}"`)
-      }
-    }
-    
     // Check for extra blocks
     const extraBlocks = droppedBlocks.filter((b) => b !== null).length - requiredOrder.length
     if (extraBlocks > 0) {
       feedback.push(`⚠️ You have ${extraBlocks} extra block(s)`)
     }
-    
-    // Bonus points for having all blocks
-    if (droppedBlocks.every(block => block !== null)) {
-      score += 10
-      feedback.push(`✅ All slots filled!`)
-    }
-    
+
+    // Lint the assembled Dockerfile for best-practice issues
+    result.lint.forEach(finding => feedback.push(formatFinding(finding)))
+
     // Provide hints for common mistakes
-    if (correctCount === 0) {
+    if (result.correctCount === 0) {
       feedback.push(`💡 Hint: Start with FROM (base image), then COPY (files), then RUN (commands)`)
-    } else if (correctCount < requiredOrder.length / 2) {
+    } else if (result.correctCount < result.total / 2) {
       feedback.push(`💡 Hint: Remember the order: FROM → COPY → RUN → EXPOSE → CMD`)
     }
-    
-    return { 
-      score: Math.max(0, Math.min(100, score)), 
-      correctCount, 
-      total: requiredOrder.length,
-      feedback,
-      success: correctCount === requiredOrder.length && droppedBlocks.every(block => block !== null)
-    }
+
+    return { ...result, feedback }
   }
 
   const handleSubmit = () => {
-    const validation = validateDockerfile()
+    const validation = validateJigsaw()
     const timeSpent = Date.now() - startTime
     setTimeSpentMs(timeSpent)
     setLastValidation(validation)
@@ -335,7 +283,7 @@ const DockerfileJigsaw: React.FC = () => {
   }
 
   if (gameCompleted) {
-    const validation = lastValidation || validateDockerfile()
+    const validation = lastValidation || validateJigsaw()
     
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
@@ -462,6 +410,41 @@ const DockerfileJigsaw: React.FC = () => {
           {/* Mission Guide */}
           <MissionGuide mission={mission} />
 
+          {/* Puzzle Variant */}
+          {variants.length > 0 && (
+            <div className="game-container p-4 mb-6">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-semibold text-gray-700 mr-2">Puzzle:</span>
+                <button
+                  onClick={() => setVariantId(null)}
+                  className={`px-3 py-1 rounded-lg text-sm border transition-colors ${
+                    activeVariant === null
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                  }`}
+                >
+                  Classic
+                </button>
+                {variants.map(variant => (
+                  <button
+                    key={variant.id}
+                    onClick={() => setVariantId(variant.id)}
+                    className={`px-3 py-1 rounded-lg text-sm border transition-colors ${
+                      activeVariant?.id === variant.id
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                    }`}
+                  >
+                    {variant.title}
+                  </button>
+                ))}
+              </div>
+              {activeVariant && (
+                <p className="text-sm text-gray-600 mt-2">{activeVariant.description}</p>
+              )}
+            </div>
+          )}
+
           <div className="grid lg:grid-cols-2 gap-8">
             {/* Left Side - Available Commands */}
             <div className="space-y-6">
@@ -501,6 +484,7 @@ const DockerfileJigsaw: React.FC = () => {
                       key={index}
                       index={index}
                       block={block}
+                      stageLabel={slotStages[index] ?? null}
                       onDrop={handleDrop}
                       onRemove={handleRemove}
                     />
@@ -546,7 +530,7 @@ const DockerfileJigsaw: React.FC = () => {
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <p className="text-blue-800 mb-2">The correct order should be:</p>
                 <ol className="list-decimal list-inside space-y-1 text-blue-700">
-                  {(mission.validation?.requiredOrder || []).map((step, index) => (
+                  {requiredOrder.map((step, index) => (
                     <li key={index} className="mb-1">{step}</li>
                   ))}
                 </ol>
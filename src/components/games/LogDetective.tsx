@@ -1,67 +1,48 @@
 import React, { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { useGameStore } from '../../store/gameStore'
+import { useGameStore, type InvestigationStep } from '../../store/gameStore'
 import ConceptCard from '../ConceptCard'
 import MissionQuiz from '../MissionQuiz'
 import missionsData from '../../missions.json'
+import { createRng } from './random'
+import LogViewer from './LogViewer'
+import { generateCiLog, stripTimestamp } from './logGenerator'
+import { classifyFlag, parseLog, type LogEntry } from './logViewer'
+import { fixStep, flagStep, scoreInvestigation } from './logDetection'
+import {
+  findScenarioErrors,
+  sampleScenarios,
+  type LogFinding,
+  type LogFixOption,
+  type LogScenario
+} from './logScenarios'
 
-interface LogError {
-  id: string
-  line: number
-  content: string
-  type: 'error' | 'warning' | 'info'
-  explanation: string
-  suggestedFix: string
-  choices: string[]
-  correctIndex: number
+interface LogError extends LogFinding {
   fixed: boolean
+  // Cards appear once the player flags a line belonging to the failure
+  revealed: boolean
 }
 
 interface ErrorCardProps {
   error: LogError
-  onFix: (error: LogError) => void
+  onAttempt: (error: LogError, option: LogFixOption) => void
 }
 
-const ErrorCard: React.FC<ErrorCardProps> = ({ error, onFix }) => {
+const ErrorCard: React.FC<ErrorCardProps> = ({ error, onAttempt }) => {
   const [selected, setSelected] = React.useState<number | null>(null)
   const [feedback, setFeedback] = React.useState<string>('')
 
-  const explainChoice = (choiceText: string, isCorrect: boolean) => {
-    if (isCorrect) {
-      if (error.explanation.includes('package')) {
-        return 'Because the error is about a missing package, adding it to requirements.txt ensures the environment installs it in CI.'
-      }
-      if (error.explanation.includes('version')) {
-        return 'The resolver cannot find the requested version. Choosing an existing version resolves dependency resolution.'
-      }
-      if (error.explanation.includes('file')) {
-        return 'The runtime cannot open the referenced file. Creating it or fixing the path addresses the root cause.'
-      }
-      return 'This option directly addresses the root cause indicated by the log message.'
-    }
-    // Incorrect rationale based on typical misconceptions
-    if (/CPU|runner/i.test(choiceText)) return 'Resource limits do not cause import/lookup errors in dependency resolution.'
-    if (/cache/i.test(choiceText)) return 'Clearing cache may help build flakiness, but it does not create missing packages/files.'
-    if (/Disable tests|Ignore|rerun/i.test(choiceText)) return 'Bypassing the failure hides the problem and won\'t make the pipeline healthy.'
-    if (/restart/i.test(choiceText)) return 'Restarting can fix flakes, but version-not-found is deterministic and needs a valid version.'
-    if (/Pin Python/i.test(choiceText)) return 'Changing Python version rarely fixes a bad package version constraint.'
-    if (/sudo/i.test(choiceText)) return 'Privilege changes do not fix dependency or file path issues.'
-    if (/Install Node\.js/i.test(choiceText)) return 'This issue is in the Python step; Node dependencies are unrelated.'
-    if (/Switch branch/i.test(choiceText)) return 'Branch switching doesn\'t repair missing files in the current workspace.'
-    if (/Increase log verbosity/i.test(choiceText)) return 'More logs can help diagnose, but it does not fix the underlying error.'
-    return 'This option does not address the cause indicated by the error message.'
-  }
-
   const handleApply = () => {
     if (selected === null) return
-    const choiceText = error.choices[selected]
-    const isCorrect = selected === error.correctIndex
-    if (isCorrect) {
-      setFeedback(`Correct: ${explainChoice(choiceText, true)}`)
-      onFix(error)
+    const option = error.options[selected]
+    onAttempt(error, option)
+    if (option.correct) {
+      setFeedback(`Correct: ${option.feedback}`)
+    } else if (option.symptom) {
+      setFeedback(`That only treats a symptom: ${option.feedback}`)
     } else {
-      setFeedback(`Not quite: ${explainChoice(choiceText, false)}`)
+      setFeedback(`Not quite: ${option.feedback}`)
     }
   }
 
@@ -74,7 +55,7 @@ const ErrorCard: React.FC<ErrorCardProps> = ({ error, onFix }) => {
       <div className="flex justify-between items-start mb-3">
         <div>
           <div className="font-semibold text-gray-800">
-            Line {error.line}: {error.type.toUpperCase()}
+            Line {error.line}: {error.title}
           </div>
           <div className="text-sm text-gray-600 mt-1">
             {error.explanation}
@@ -86,14 +67,14 @@ const ErrorCard: React.FC<ErrorCardProps> = ({ error, onFix }) => {
       </div>
       
       <div className="bg-gray-900 text-red-300 font-mono text-sm rounded p-3 mb-3">
-        {error.content}
+        {stripTimestamp(error.content).text}
       </div>
       
       {!error.fixed ? (
         <div className="bg-blue-50 border border-blue-200 rounded p-3 mb-3">
           <div className="text-sm font-semibold text-blue-800 mb-2">Choose a fix:</div>
           <div className="space-y-2">
-            {error.choices.map((choice, idx) => (
+            {error.options.map((option, idx) => (
               <label key={idx} className="flex items-start gap-2 cursor-pointer">
                 <input
                   type="radio"
@@ -102,7 +83,7 @@ const ErrorCard: React.FC<ErrorCardProps> = ({ error, onFix }) => {
                   checked={selected === idx}
                   onChange={() => setSelected(idx)}
                 />
-                <span className="text-sm text-blue-800">{choice}</span>
+                <span className="text-sm text-blue-800">{option.text}</span>
               </label>
             ))}
           </div>
@@ -112,7 +93,10 @@ const ErrorCard: React.FC<ErrorCardProps> = ({ error, onFix }) => {
         </div>
       ) : (
         <div className="bg-green-50 border border-green-200 rounded p-3 mb-3 text-sm text-green-800">
-          {error.suggestedFix}
+          <div>{error.suggestedFix}</div>
+          <div className="mt-2 text-xs text-green-700">
+            Causal chain: {error.chain.map(link => `${link.label} (line ${link.line})`).join(' → ')}
+          </div>
         </div>
       )}
       
@@ -133,6 +117,9 @@ const LogDetective: React.FC = () => {
   const navigate = useNavigate()
   const { player, updateMissionProgress, unlockNextMission } = useGameStore()
   const [logLines, setLogLines] = useState<string[]>([])
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([])
+  const [flags, setFlags] = useState<number[]>([])
+  const [path, setPath] = useState<InvestigationStep[]>([])
   const [errors, setErrors] = useState<LogError[]>([])
   const [gameCompleted, setGameCompleted] = useState(false)
   const [showQuiz, setShowQuiz] = useState(false)
@@ -142,6 +129,8 @@ const LogDetective: React.FC = () => {
   const [lastValidation, setLastValidation] = useState<ReturnType<typeof validateDetection> | null>(null)
   const [showInstructions, setShowInstructions] = useState(true)
   const [highlightedErrorId, setHighlightedErrorId] = useState<string | null>(null)
+  const [seed, setSeed] = useState(() => Math.floor(Math.random() * 1000000))
+  const [seedInput, setSeedInput] = useState('')
 
   const mission = missionsData.missions.find(m => m.id === 4)
   
@@ -151,108 +140,60 @@ const LogDetective: React.FC = () => {
   }
 
   useEffect(() => {
-    // Initialize log lines and errors with better explanations
-    const logLinesData = mission.validation?.logLines || []
-    const errorsData = mission.validation?.errors || []
-    
-    setLogLines(logLinesData)
-    
-    // Create error objects with better explanations
-    const errorObjects: LogError[] = []
-    logLinesData.forEach((line, index) => {
-      errorsData.forEach((errorText) => {
-        if (line.includes(errorText)) {
-          let explanation = ''
-          let suggestedFix = ''
-          let choices: string[] = []
-          let correctIndex = 0
-          
-          if (errorText.includes('ModuleNotFoundError')) {
-            explanation = 'Python can\'t find a required package'
-            suggestedFix = 'Add the missing package to requirements.txt'
-            choices = [
-              'Add the missing package to requirements.txt',
-              'Increase CPU limits of the CI runner',
-              'Clear the Docker cache and rebuild',
-              'Disable tests to bypass the error'
-            ]
-            correctIndex = 0
-          } else if (errorText.includes('Could not find a version')) {
-            explanation = 'The specified package version doesn\'t exist'
-            suggestedFix = 'Update to a valid version number'
-            choices = [
-              'Update to a valid version number',
-              'Restart the CI job',
-              'Pin Python to 3.6 in Dockerfile',
-              'Add sudo to the pipeline'
-            ]
-            correctIndex = 0
-          } else if (errorText.includes('FileNotFoundError')) {
-            explanation = 'A required file is missing'
-            suggestedFix = 'Create the missing file or check the file path'
-            choices = [
-              'Create the missing file or check the file path',
-              'Install Node.js dependencies',
-              'Switch branch and retry',
-              'Increase log verbosity'
-            ]
-            correctIndex = 0
-          } else {
-            explanation = 'Log indicates a potential issue'
-            suggestedFix = 'Investigate the log context and apply an appropriate fix'
-            choices = [
-              'Investigate the log context and apply an appropriate fix',
-              'Ignore and rerun',
-              'Comment out failing code',
-              'Turn off CI for this step'
-            ]
-            correctIndex = 0
-          }
-          
-          errorObjects.push({
-            id: `error-${index}`,
-            line: index + 1,
-            content: line,
-            type: line.includes('ERROR') ? 'error' : 'warning',
-            explanation,
-            suggestedFix,
-            choices,
-            correctIndex,
-            fixed: false
-          })
-        }
-      })
-    })
-    
-    setErrors(errorObjects)
-  }, [mission, player])
+    // Sample faults for the player's difficulty and generate a log around them
+    const pool = (mission.validation?.scenarios || []) as LogScenario[]
+    const { errors: count } = mission.difficulty[player.difficulty as keyof typeof mission.difficulty] as { hints: number; errors: number }
+    const rng = createRng(seed)
+    const scenarios = sampleScenarios(pool, player.difficulty, count, rng)
+    const { lines } = generateCiLog(scenarios, { seed })
+
+    setLogLines(lines)
+    setLogEntries(parseLog(lines))
+    setFlags([])
+    setPath([])
+    setErrors(findScenarioErrors(lines, scenarios, rng).map(finding => ({ ...finding, fixed: false, revealed: false })))
+  }, [mission, player, seed])
+
+  const handleNewLog = () => {
+    setSeed(Math.floor(Math.random() * 1000000))
+  }
 
-  const handleFixError = (error: LogError) => {
+  const handleReplaySeed = () => {
+    const value = Number(seedInput)
+    if (!Number.isInteger(value) || value < 0) return
+    setSeed(value)
+    setSeedInput('')
+  }
+
+  // Clicking a line toggles its root-cause flag and reveals the failure it belongs to
+  const handleLineClick = (lineNumber: number) => {
+    const wasFlagged = flags.includes(lineNumber)
+    setFlags(prev => wasFlagged ? prev.filter(l => l !== lineNumber) : [...prev, lineNumber])
+    setPath(prev => [...prev, flagStep(Date.now() - startTime, lineNumber, !wasFlagged, errors, logEntries)])
+    const { findingId } = classifyFlag(lineNumber, errors, logEntries)
+    if (!findingId || wasFlagged) return
+    setErrors(prev => prev.map(e => e.id === findingId ? { ...e, revealed: true } : e))
+    setHighlightedErrorId(findingId)
+    setTimeout(() => {
+      const el = document.getElementById(`error-card-${findingId}`)
+      if (el) {
+        el.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      }
+    }, 0)
+    setTimeout(() => setHighlightedErrorId(null), 1200)
+  }
+
+  const handleFixAttempt = (error: LogError, option: LogFixOption) => {
+    setPath(prev => [...prev, fixStep(Date.now() - startTime, error, option)])
+    if (!option.correct) return
     setErrors(prev => prev.map(e => 
       e.id === error.id ? { ...e, fixed: true } : e
     ))
   }
 
-  const validateDetection = () => {
-    const totalErrors = errors.length
-    const fixedErrors = errors.filter(e => e.fixed).length
-    
-    // Calculate score based on errors found and fixed
-    let score = 0
-    
-    // Points for finding errors (all errors are visible)
-    score += 40
-    
-    // Points for fixing errors
-    score += (fixedErrors / totalErrors) * 60
-    
-    return {
-      score: Math.round(score),
-      fixedErrors,
-      totalErrors,
-      allErrorsFixed: fixedErrors === totalErrors
-    }
-  }
+  // Replays the recorded path: root causes flagged first and fixed without
+  // detours through symptom-only fixes score highest
+  const validateDetection = () => scoreInvestigation(errors, path)
 
   const handleSubmit = () => {
     const validation = validateDetection()
@@ -264,7 +205,8 @@ const LogDetective: React.FC = () => {
       completed: validation.allErrorsFixed,
       timeSpent,
       hintsUsed,
-      score: validation.score
+      score: validation.score,
+      investigation: { seed, steps: path }
     })
     
     setGameCompleted(true)
@@ -349,6 +291,14 @@ const LogDetective: React.FC = () => {
                 <div className="text-2xl font-bold text-orange-600">{hintsUsed}</div>
                 <div className="text-sm text-gray-600">Hints Used</div>
               </div>
+              <div className="col-span-2">
+                <div className="text-2xl font-bold text-red-600">{validation.rootCausesFlagged}/{validation.totalErrors}</div>
+                <div className="text-sm text-gray-600">
+                  Root Causes Flagged
+                  {validation.symptomFixes > 0 && ` · ${validation.symptomFixes} symptom-only ${validation.symptomFixes === 1 ? 'fix' : 'fixes'} tried`}
+                  {validation.strayFlags > 0 && ` · ${validation.strayFlags} stray ${validation.strayFlags === 1 ? 'flag' : 'flags'}`}
+                </div>
+              </div>
             </div>
           </div>
           
@@ -427,8 +377,8 @@ const LogDetective: React.FC = () => {
                 <h2 className="text-xl font-bold text-gray-800 mb-4">How to Debug CI Logs</h2>
                 <div className="grid md:grid-cols-3 gap-4 text-sm">
                   <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                    <h3 className="font-semibold text-red-800 mb-2">1. Identify Errors</h3>
-                    <p className="text-red-700">Look for ERROR, FAILED, or exception messages in the logs</p>
+                    <h3 className="font-semibold text-red-800 mb-2">1. Flag the Root Cause</h3>
+                    <p className="text-red-700">Search or filter for ERROR, FAILED, or exceptions, then flag the first line that explains each failure</p>
                   </div>
                   <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                     <h3 className="font-semibold text-yellow-800 mb-2">2. Understand the Problem</h3>
@@ -454,35 +404,41 @@ const LogDetective: React.FC = () => {
           {/* Left Side - Log Viewer */}
           <div className="space-y-6">
             <div className="game-container p-6">
-              <h2 className="text-xl font-bold text-gray-800 mb-4">CI Pipeline Logs</h2>
-              <div className="bg-gray-900 text-green-400 font-mono text-sm rounded-lg p-4 max-h-96 overflow-y-auto">
-                {logLines.map((line, index) => {
-                  const error = errors.find(e => e.line === index + 1)
-                  const isError = error && !error.fixed
-                  
-                  return (
-                    <div
-                      key={index}
-                      onClick={() => {
-                        if (!error) return
-                        setHighlightedErrorId(error.id)
-                        const el = document.getElementById(`error-card-${error.id}`)
-                        if (el) {
-                          el.scrollIntoView({ behavior: 'smooth', block: 'center' })
-                        }
-                        setTimeout(() => setHighlightedErrorId(null), 1200)
-                      }}
-                      className={`${isError ? 'bg-red-900 text-red-300' : ''} p-1 rounded cursor-pointer hover:bg-gray-800`}
-                    >
-                      <span className="text-gray-500 mr-2">{String(index + 1).padStart(3, ' ')}</span>
-                      {line}
-                    </div>
-                  )
-                })}
+              <div className="flex justify-between items-center mb-4 gap-2 flex-wrap">
+                <h2 className="text-xl font-bold text-gray-800">CI Pipeline Logs</h2>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-500" title="Share this seed to replay the same log">Seed {seed}</span>
+                  <input
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value.replace(/\D/g, ''))}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleReplaySeed() }}
+                    placeholder="Replay seed"
+                    className="w-28 px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <button
+                    onClick={handleReplaySeed}
+                    disabled={!seedInput}
+                    className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-60"
+                  >
+                    Replay
+                  </button>
+                  <button
+                    onClick={handleNewLog}
+                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                  >
+                    🎲 New log
+                  </button>
+                </div>
               </div>
+              <LogViewer
+                lines={logLines}
+                flaggedLines={flags}
+                resolvedLines={errors.filter(e => e.fixed).map(e => e.line)}
+                onLineClick={handleLineClick}
+              />
               
               <div className="mt-4 text-sm text-gray-600">
-                Click on error lines (highlighted in red) to see details
+                Click the line where a failure starts to flag it 🚩. Later errors in the same job are usually symptoms of that first one.
               </div>
             </div>
           </div>
@@ -492,11 +448,16 @@ const LogDetective: React.FC = () => {
             <div className="game-container p-6">
               <h2 className="text-xl font-bold text-gray-800 mb-4">Error Analysis</h2>
               <div className="space-y-4">
-                {errors.map((error) => (
-                  <div id={`error-card-${error.id}`} key={error.id} className={`${highlightedErrorId === error.id ? 'ring-2 ring-blue-400 rounded-lg' : ''}`}>
+                {errors.every(e => !e.revealed) && (
+                  <div className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    {errors.length} failing {errors.length === 1 ? 'job needs' : 'jobs need'} investigating. Flag a line in the log to open its analysis.
+                  </div>
+                )}
+                {errors.filter(e => e.revealed).map((error) => (
+                  <div id={`error-card-${error.id}`} key={`${seed}-${error.id}`} className={`${highlightedErrorId === error.id ? 'ring-2 ring-blue-400 rounded-lg' : ''}`}>
                     <ErrorCard
                       error={error}
-                      onFix={handleFixError}
+                      onAttempt={handleFixAttempt}
                     />
                   </div>
                 ))}
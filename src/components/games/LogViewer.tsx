@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  defaultCollapsedGroups,
+  parseAnsi,
+  parseLog,
+  searchLog,
+  virtualWindow,
+  visibleEntries,
+  type LogEntry,
+  type LogLevel
+} from './logViewer'
+
+const ROW_HEIGHT = 20
+const VIEWPORT_HEIGHT = 384
+
+const ANSI_CLASSES: Record<string, string> = {
+  black: 'text-gray-500',
+  red: 'text-red-400',
+  green: 'text-green-400',
+  yellow: 'text-yellow-300',
+  blue: 'text-blue-400',
+  magenta: 'text-pink-400',
+  cyan: 'text-cyan-300',
+  white: 'text-white',
+  gray: 'text-gray-400'
+}
+
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  error: 'text-red-300',
+  warning: 'text-yellow-200',
+  info: 'text-gray-200'
+}
+
+interface LogViewerProps {
+  lines: string[]
+  flaggedLines: number[]
+  // Lines whose failure has been fixed
+  resolvedLines?: number[]
+  onLineClick: (lineNumber: number) => void
+}
+
+const AnsiText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseAnsi(text).map((segment, i) => (
+      <span key={i} className={`${segment.color ? ANSI_CLASSES[segment.color] : ''} ${segment.bold ? 'font-bold' : ''}`}>
+        {segment.text}
+      </span>
+    ))}
+  </>
+)
+
+// Virtualized CI log with folding groups, ANSI colors, regex search and level filter
+const LogViewer: React.FC<LogViewerProps> = ({ lines, flaggedLines, resolvedLines = [], onLineClick }) => {
+  const entries = useMemo(() => parseLog(lines), [lines])
+  const [collapsed, setCollapsed] = useState<Set<number>>(() => defaultCollapsedGroups(entries))
+  const [level, setLevel] = useState<LogLevel | 'all'>('all')
+  const [query, setQuery] = useState('')
+  const [currentMatch, setCurrentMatch] = useState(0)
+  const [scrollTop, setScrollTop] = useState(0)
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const pendingScroll = useRef<number | null>(null)
+
+  useEffect(() => {
+    setCollapsed(defaultCollapsedGroups(entries))
+    setCurrentMatch(0)
+    if (viewportRef.current) viewportRef.current.scrollTop = 0
+  }, [entries])
+
+  const visible = useMemo(() => visibleEntries(entries, { collapsed, level }), [entries, collapsed, level])
+  const search = useMemo(() => searchLog(entries, query), [entries, query])
+  const matchSet = useMemo(() => new Set(search.matches), [search])
+  const flagged = useMemo(() => new Set(flaggedLines), [flaggedLines])
+  const resolved = useMemo(() => new Set(resolvedLines), [resolvedLines])
+  const activeLine = search.matches[currentMatch] ?? null
+
+  // Scroll a requested line into the middle of the viewport once it is visible
+  useEffect(() => {
+    const target = pendingScroll.current
+    if (target === null || !viewportRef.current) return
+    const index = visible.findIndex((e) => e.number === target)
+    if (index === -1) return
+    viewportRef.current.scrollTop = Math.max(0, index * ROW_HEIGHT - VIEWPORT_HEIGHT / 2)
+    pendingScroll.current = null
+  }, [visible, activeLine])
+
+  const goToMatch = (index: number) => {
+    if (search.matches.length === 0) return
+    const wrapped = (index + search.matches.length) % search.matches.length
+    const line = search.matches[wrapped]
+    const entry = entries[line - 1]
+    // Reveal the match if a fold or the level filter hides it
+    if (entry.groupId !== null && collapsed.has(entry.groupId)) {
+      setCollapsed(prev => {
+        const next = new Set(prev)
+        next.delete(entry.groupId as number)
+        return next
+      })
+    }
+    if (level !== 'all' && !visible.some((e) => e.number === line)) setLevel('all')
+    pendingScroll.current = line
+    setCurrentMatch(wrapped)
+  }
+
+  const toggleGroup = (groupId: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(groupId)) next.delete(groupId)
+      else next.add(groupId)
+      return next
+    })
+  }
+
+  const setAllGroups = (fold: boolean) => {
+    setCollapsed(fold ? new Set(entries.filter((e) => e.groupTitle !== null).map((e) => e.number)) : new Set())
+  }
+
+  const win = virtualWindow(scrollTop, VIEWPORT_HEIGHT, ROW_HEIGHT, visible.length)
+
+  const renderRow = (entry: LogEntry) => {
+    const isMatch = matchSet.has(entry.number)
+    const isActive = entry.number === activeLine
+    const background = isActive
+      ? 'bg-blue-700'
+      : flagged.has(entry.number)
+        ? 'bg-amber-900'
+        : isMatch
+          ? 'bg-blue-900/60'
+          : ''
+    const gutter = (
+      <span className="inline-block w-14 text-right pr-2 text-gray-500 select-none">
+        {flagged.has(entry.number) ? '🚩' : resolved.has(entry.number) ? '✓' : ''}{entry.number}
+      </span>
+    )
+
+    if (entry.groupTitle !== null) {
+      const isCollapsed = collapsed.has(entry.groupId as number)
+      return (
+        <div
+          key={entry.number}
+          onClick={() => toggleGroup(entry.number)}
+          className={`${background} cursor-pointer hover:bg-gray-800 font-semibold text-gray-100`}
+          style={{ height: ROW_HEIGHT }}
+          title={entry.timestamp ?? undefined}
+        >
+          {gutter}
+          <span className="text-gray-400 mr-1">{isCollapsed ? '▶' : '▼'}</span>
+          {entry.groupTitle}
+        </div>
+      )
+    }
+
+    return (
+      <div
+        key={entry.number}
+        onClick={() => onLineClick(entry.number)}
+        className={`${background} ${LEVEL_CLASSES[entry.level]} cursor-pointer hover:bg-gray-800`}
+        style={{ height: ROW_HEIGHT }}
+        title={entry.timestamp ?? undefined}
+      >
+        {gutter}
+        {entry.groupId !== null && <span className="inline-block w-4" />}
+        <AnsiText text={entry.text} />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setCurrentMatch(0)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') goToMatch(currentMatch + (e.shiftKey ? -1 : 1))
+          }}
+          placeholder="Search (regex)"
+          className={`flex-1 min-w-[10rem] px-2 py-1 border rounded font-mono ${search.error ? 'border-red-500' : 'border-gray-300'}`}
+        />
+        <span className="text-gray-500 w-16 text-center">
+          {search.matches.length > 0 ? `${currentMatch + 1}/${search.matches.length}` : query && !search.error ? '0/0' : ''}
+        </span>
+        <button
+          onClick={() => goToMatch(currentMatch - 1)}
+          disabled={search.matches.length === 0}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+          title="Previous match (Shift+Enter)"
+        >
+          ↑
+        </button>
+        <button
+          onClick={() => goToMatch(currentMatch + 1)}
+          disabled={search.matches.length === 0}
+          className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+          title="Next match (Enter)"
+        >
+          ↓
+        </button>
+        <select
+          value={level}
+          onChange={(e) => setLevel(e.target.value as LogLevel | 'all')}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="all">All lines</option>
+          <option value="warning">Warnings + errors</option>
+          <option value="error">Errors only</option>
+        </select>
+        <button onClick={() => setAllGroups(false)} className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300">
+          Expand all
+        </button>
+        <button onClick={() => setAllGroups(true)} className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300">
+          Collapse all
+        </button>
+      </div>
+      {search.error && <div className="text-xs text-red-600 mb-2">{search.error}</div>}
+
+      <div
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="bg-gray-900 font-mono text-sm leading-5 rounded-lg overflow-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+      >
+        <div className="relative min-w-full w-max" style={{ height: win.totalHeight }}>
+          <div className="whitespace-pre" style={{ transform: `translateY(${win.offsetTop}px)` }}>
+            {visible.slice(win.start, win.end).map(renderRow)}
+          </div>
+        </div>
+        {visible.length === 0 && (
+          <div className="p-4 text-gray-400">No lines match this filter.</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LogViewer
@@ -1,288 +1,202 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import { useGameStore } from '../../store/gameStore'
 import ConceptCard from '../ConceptCard'
 import MissionQuiz from '../MissionQuiz'
 import missionsData from '../../missions.json'
-
-interface ServiceMetrics {
-  cpu: number
-  memory: number
-  responseTime: number
-  errorRate: number
-  requestsPerSecond: number
-}
-
-interface RecoveryStrategy {
-  name: string
-  description: string
-  timeToExecute: number
-  risk: 'low' | 'medium' | 'high'
-  whenToUse: string
-  effectiveness: number
-  explanation: string
-}
-
-interface Incident {
-  id: string
-  title: string
-  description: string
-  severity: 'critical' | 'warning' | 'info'
-  timestamp: Date
-  resolved: boolean
-  recommendedStrategy: string
+import {
+  ATTEMPT_OUTCOME_LABELS,
+  EDGE_SERVICE,
+  RECOVERY_STRATEGIES,
+  TOPOLOGY,
+  activeIncident,
+  createOutage,
+  declareIncident,
+  executingAttempt,
+  findService,
+  isOutageOver,
+  scoreOutage,
+  serviceHealth,
+  startStrategy,
+  tickOutage,
+  type OutageState,
+  type RecoveryStrategy,
+  type ServiceHealth,
+  type ServiceId
+} from './outageEngine'
+import {
+  actionEntry,
+  diffTimeline,
+  draftPostmortem,
+  type Postmortem,
+  type TimelineEntry
+} from './incidentTimeline'
+import PostmortemWriter from './PostmortemWriter'
+import { ALERT_METRICS, DEFAULT_ALERT_RULES, type AlertRule } from './alerting'
+import AlertRuleEditor from './AlertRuleEditor'
+import { budgetRemaining, firingSeverity, type Slo } from './slo'
+import SloPanel from './SloPanel'
+
+const SERVICE_HEALTH_STYLES: Record<ServiceHealth, string> = {
+  healthy: 'border-green-300 bg-green-50 text-green-700',
+  degraded: 'border-yellow-400 bg-yellow-50 text-yellow-700',
+  critical: 'border-red-500 bg-red-50 text-red-700'
 }
 
 const OutageSimulator: React.FC = () => {
   const navigate = useNavigate()
   const { player, updateMissionProgress, unlockNextMission } = useGameStore()
-  const [metrics, setMetrics] = useState<ServiceMetrics>({
-    cpu: 25,
-    memory: 40,
-    responseTime: 150,
-    errorRate: 2,
-    requestsPerSecond: 100
-  })
-  const [incidents, setIncidents] = useState<Incident[]>([])
+  const mission = missionsData.missions.find(m => m.id === 6)
+  const { timeLimit, slo } = (mission && player
+    ? mission.difficulty[player.difficulty as keyof typeof mission.difficulty]
+    : { timeLimit: 300, slo: { availability: 90, latencyP95Ms: 1000 } }) as { hints: number; timeLimit: number; slo: Slo }
+  const [seed, setSeed] = useState(() => Math.floor(Math.random() * 1000000))
+  const [seedInput, setSeedInput] = useState('')
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES)
+  // The clock only runs once the alert rules are set
+  const [shiftStarted, setShiftStarted] = useState(false)
+  const [sim, setSim] = useState<OutageState>(() => createOutage(seed, { durationSec: timeLimit, alertRules, slo }))
+  const [declareNote, setDeclareNote] = useState<string | null>(null)
   const [gameCompleted, setGameCompleted] = useState(false)
   const [showQuiz, setShowQuiz] = useState(false)
   const [hintsUsed, setHintsUsed] = useState(0)
   const [startTime] = useState(Date.now())
-  const [timeRemaining, setTimeRemaining] = useState(300) // 5 minutes
   const [selectedStrategy, setSelectedStrategy] = useState<RecoveryStrategy | null>(null)
-  const [strategyExecuting, setStrategyExecuting] = useState(false)
-  const [gamePhase, setGamePhase] = useState<'monitoring' | 'incident' | 'response' | 'resolution'>('monitoring')
+  // The service whose dashboard is open; strategies are aimed at it
+  const [inspectedId, setInspectedId] = useState<ServiceId>(EDGE_SERVICE)
   const [showInstructions, setShowInstructions] = useState(true)
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([])
+  const previousSim = useRef(sim)
+  // Set once the run ends; the quiz waits until the postmortem is in
+  const [runPassed, setRunPassed] = useState<boolean | null>(null)
 
-  const mission = missionsData.missions.find(m => m.id === 6)
-  
   if (!mission || !player) {
     navigate('/')
     return null
   }
 
-  const strategies: RecoveryStrategy[] = [
-    {
-      name: 'Rollback',
-      description: 'Revert to the last known good version',
-      timeToExecute: 5,
-      risk: 'low',
-      whenToUse: 'When you know the current version is broken',
-      effectiveness: 90,
-      explanation: 'Safest option - reverts to previous working state'
-    },
-    {
-      name: 'Hotfix',
-      description: 'Deploy a quick patch without full testing',
-      timeToExecute: 2,
-      risk: 'high',
-      whenToUse: 'When you need immediate fix and understand the issue',
-      effectiveness: 70,
-      explanation: 'Fastest option but risky - may introduce new issues'
-    },
-    {
-      name: 'Redeploy',
-      description: 'Deploy a tested fix through normal pipeline',
-      timeToExecute: 8,
-      risk: 'medium',
-      whenToUse: 'When you have a tested fix ready',
-      effectiveness: 85,
-      explanation: 'Balanced option - tested fix through normal process'
-    },
-    {
-      name: 'Scale Up',
-      description: 'Add more resources to handle increased load',
-      timeToExecute: 3,
-      risk: 'low',
-      whenToUse: 'When the issue is high load, not broken code',
-      effectiveness: 60,
-      explanation: 'Good for load issues but doesn\'t fix root cause'
-    }
-  ]
+  const { incidents } = sim
+  const inspected = findService(inspectedId)
+  const metrics = sim.metrics[inspectedId]
+  const edgeMetrics = sim.metrics[EDGE_SERVICE]
+  const timeRemaining = sim.durationSec - sim.tick
+  const openIncident = activeIncident(sim)
+  // Incidents nobody has been paged about or declared stay hidden
+  const knownIncidents = incidents.filter(i => i.detection)
+  const knownIncident = openIncident?.detection ? openIncident : null
+  const pages = sim.alerting?.pages ?? []
+  const latestCritical = [...pages].reverse().find(p => p.severity === 'critical')
+  const running = executingAttempt(sim)
+  const lastAttempt = sim.attempts[sim.attempts.length - 1]
+  const resolved = incidents.length > 0 && !openIncident
+  const gamePhase = resolved ? 'resolution' : running || selectedStrategy ? 'response' : knownIncident ? 'incident' : 'monitoring'
 
-  const healthThresholds = mission.validation?.healthThresholds || { critical: 20, warning: 50, healthy: 80 }
+  useEffect(() => {
+    if (!shiftStarted || gameCompleted || runPassed !== null) return
+    // One simulated second per real second; the state itself is a pure function of the seed
+    const interval = setInterval(() => setSim(prev => tickOutage(prev)), 1000)
+    return () => clearInterval(interval)
+  }, [shiftStarted, gameCompleted, runPassed, seed])
 
   useEffect(() => {
-    // Start the simulation
-    const interval = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 0) {
-          handleGameEnd()
-          return 0
-        }
-        return prev - 1
-      })
-      
-      // Simulate service degradation
-      if (gamePhase === 'monitoring' && Math.random() < 0.1) {
-        triggerIncident()
-      }
-      
-      // Update metrics based on current state
-      updateMetrics()
-    }, 1000)
+    // Record what changed in the simulation since the last state
+    const entries = diffTimeline(previousSim.current, sim)
+    previousSim.current = sim
+    if (entries.length > 0) setTimeline(prev => [...prev, ...entries])
+  }, [sim])
 
-    return () => clearInterval(interval)
-  }, [gamePhase])
-
-  const triggerIncident = () => {
-    const incidentTypes = [
-      {
-        title: 'High CPU Usage',
-        description: 'CPU usage has spiked to 95%, causing slow response times',
-        severity: 'critical' as const,
-        recommendedStrategy: 'Scale Up'
-      },
-      {
-        title: 'Memory Leak Detected',
-        description: 'Memory usage is increasing rapidly, service may crash soon',
-        severity: 'critical' as const,
-        recommendedStrategy: 'Rollback'
-      },
-      {
-        title: 'Database Connection Pool Exhausted',
-        description: 'All database connections are in use, new requests are failing',
-        severity: 'critical' as const,
-        recommendedStrategy: 'Scale Up'
-      },
-      {
-        title: 'High Error Rate',
-        description: 'Error rate has increased to 15%, affecting user experience',
-        severity: 'warning' as const,
-        recommendedStrategy: 'Rollback'
-      }
-    ]
-    
-    const incident = incidentTypes[Math.floor(Math.random() * incidentTypes.length)]
-    
-    setIncidents(prev => [...prev, {
-      id: `incident-${Date.now()}`,
-      ...incident,
-      timestamp: new Date(),
-      resolved: false
-    }])
-    
-    setGamePhase('incident')
+  useEffect(() => {
+    if (!lastAttempt?.outcome) return
+    setSelectedStrategy(null)
+    if (lastAttempt.outcome !== 'resolved') return
+    const timeout = setTimeout(() => finishRun(true), 2000)
+    return () => clearTimeout(timeout)
+  }, [lastAttempt?.finishedAt])
+
+  useEffect(() => {
+    if (isOutageOver(sim) && !resolved && runPassed === null) finishRun(false)
+  }, [sim.tick])
+
+  const resetShift = (value: number) => {
+    const fresh = createOutage(value, { durationSec: timeLimit, alertRules, slo })
+    setSim(fresh)
+    previousSim.current = fresh
+    setTimeline([])
+    setSelectedStrategy(null)
+    setInspectedId(EDGE_SERVICE)
+    setDeclareNote(null)
   }
 
-  const updateMetrics = () => {
-    setMetrics(prev => {
-      const newMetrics = { ...prev }
-      
-      // Simulate degradation if there are unresolved incidents
-      const unresolvedIncidents = incidents.filter(i => !i.resolved)
-      
-      if (unresolvedIncidents.length > 0) {
-        newMetrics.cpu = Math.min(prev.cpu + Math.random() * 10, 100)
-        newMetrics.memory = Math.min(prev.memory + Math.random() * 5, 100)
-        newMetrics.responseTime = Math.min(prev.responseTime + Math.random() * 50, 2000)
-        newMetrics.errorRate = Math.min(prev.errorRate + Math.random() * 2, 50)
-        newMetrics.requestsPerSecond = Math.max(prev.requestsPerSecond - Math.random() * 10, 0)
-      } else {
-        // Gradual recovery
-        newMetrics.cpu = Math.max(prev.cpu - Math.random() * 2, 25)
-        newMetrics.memory = Math.max(prev.memory - Math.random() * 1, 40)
-        newMetrics.responseTime = Math.max(prev.responseTime - Math.random() * 10, 150)
-        newMetrics.errorRate = Math.max(prev.errorRate - Math.random() * 0.5, 2)
-        newMetrics.requestsPerSecond = Math.min(prev.requestsPerSecond + Math.random() * 2, 100)
-      }
-      
-      return newMetrics
-    })
+  // Replays go back to the alert rules so the same outage can be tried with different ones
+  const handleReplaySeed = () => {
+    const value = Number(seedInput)
+    if (!Number.isInteger(value) || value < 0) return
+    setSeed(value)
+    resetShift(value)
+    setShiftStarted(false)
+    setSeedInput('')
+  }
+
+  const handleStartShift = () => {
+    resetShift(seed)
+    setShiftStarted(true)
+  }
+
+  const handleDeclareIncident = () => {
+    const declared = declareIncident(sim)
+    if (declared === sim) {
+      setDeclareNote('Nothing to declare: every service is within its normal range or recovering on its own.')
+      return
+    }
+    setDeclareNote(null)
+    setSim(declared)
+  }
+
+  const handleInspect = (id: ServiceId) => {
+    if (id === inspectedId) return
+    setInspectedId(id)
+    setTimeline(prev => [...prev, actionEntry(sim, 'service-inspected', id, `Opened the ${findService(id).name} dashboard`)])
   }
 
   const handleStrategySelect = (strategy: RecoveryStrategy) => {
     setSelectedStrategy(strategy)
-    setGamePhase('response')
+    setTimeline(prev => [...prev, actionEntry(sim, 'strategy-selected', null, `Chose ${strategy.name}: ${strategy.whenToUse.toLowerCase()}`)])
   }
 
-  const executeStrategy = async () => {
+  const executeStrategy = () => {
     if (!selectedStrategy) return
-    
-    setStrategyExecuting(true)
-    
-    // Simulate strategy execution time
-    await new Promise(resolve => setTimeout(resolve, selectedStrategy.timeToExecute * 1000))
-    
-    // Check if strategy was effective
-    const wasEffective = Math.random() < (selectedStrategy.effectiveness / 100)
-    
-    if (wasEffective) {
-      // Resolve incidents
-      setIncidents(prev => prev.map(incident => ({ ...incident, resolved: true })))
-      setGamePhase('resolution')
-      
-      setTimeout(() => {
-        const validation = validateResponse()
-        const timeSpent = Date.now() - startTime
-        
-        updateMissionProgress(6, {
-          completed: true,
-          timeSpent,
-          hintsUsed,
-          score: validation.score
-        })
-        
-        setGameCompleted(true)
-        
-        if (mission.quiz && mission.quiz.length > 0) {
-          setShowQuiz(true)
-        } else {
-          unlockNextMission()
-        }
-      }, 2000)
-    } else {
-      // Strategy failed, try again
-      setStrategyExecuting(false)
-      setSelectedStrategy(null)
-      setGamePhase('incident')
-    }
+    setSim(prev => startStrategy(prev, selectedStrategy.name, inspectedId))
   }
 
-  const validateResponse = () => {
-    let score = 0
-    
-    // Points for responding quickly
-    const responseTime = (300 - timeRemaining) / 60 // minutes
-    if (responseTime < 2) score += 30
-    else if (responseTime < 4) score += 20
-    else score += 10
-    
-    // Points for choosing appropriate strategy
-    if (selectedStrategy) {
-      if (selectedStrategy.risk === 'low') score += 25
-      else if (selectedStrategy.risk === 'medium') score += 15
-      else score += 5
-      
-      if (selectedStrategy.timeToExecute < 5) score += 20
-      else if (selectedStrategy.timeToExecute < 10) score += 15
-      else score += 10
-    }
-    
-    // Points for resolving incidents
-    const resolvedIncidents = incidents.filter(i => i.resolved).length
-    score += (resolvedIncidents / incidents.length) * 25
-    
-    return { score: Math.min(score, 100) }
-  }
+  // Outcomes depend only on whether the strategy addresses the root cause
+  const validateResponse = () => scoreOutage(sim)
 
-  const handleGameEnd = () => {
+  const finishRun = (incidentResolved: boolean) => {
     const validation = validateResponse()
     const timeSpent = Date.now() - startTime
+    const passed = incidentResolved && validation.score >= 70
     
     updateMissionProgress(6, {
-      completed: validation.score >= 70,
+      completed: passed,
       timeSpent,
       hintsUsed,
-      score: validation.score
+      score: validation.score,
+      outage: { seed }
     })
     
+    setRunPassed(passed)
+  }
+
+  const handlePostmortemSubmit = (_postmortem: Postmortem, markdown: string) => {
+    updateMissionProgress(6, {
+      outage: { seed, postmortem: markdown }
+    })
     setGameCompleted(true)
     
-    if (validation.score >= 70 && mission.quiz && mission.quiz.length > 0) {
+    if (runPassed && mission.quiz && mission.quiz.length > 0) {
       setShowQuiz(true)
-    } else if (validation.score >= 70) {
+    } else if (runPassed) {
       unlockNextMission()
     }
   }
@@ -313,9 +227,10 @@ const OutageSimulator: React.FC = () => {
   }
 
   const getHealthStatus = () => {
-    const avgHealth = (metrics.cpu + metrics.memory + (100 - metrics.errorRate)) / 3
-    if (avgHealth < healthThresholds.critical) return { status: 'critical', color: 'red', icon: '🚨' }
-    if (avgHealth < healthThresholds.warning) return { status: 'warning', color: 'yellow', icon: '⚠️' }
+    // Judged by how fast users are burning the error budget
+    const burning = sim.slo ? firingSeverity(sim.slo) : null
+    if (burning === 'critical' || (sim.slo && budgetRemaining(sim.slo) <= 0)) return { status: 'critical', color: 'red', icon: '🚨' }
+    if (burning === 'warning') return { status: 'warning', color: 'yellow', icon: '⚠️' }
     return { status: 'healthy', color: 'green', icon: '✅' }
   }
 
@@ -330,8 +245,20 @@ const OutageSimulator: React.FC = () => {
     )
   }
 
+  if (runPassed !== null && !gameCompleted) {
+    return (
+      <PostmortemWriter
+        timeline={timeline}
+        draft={draftPostmortem(sim, timeline)}
+        seed={seed}
+        onSubmit={handlePostmortemSubmit}
+      />
+    )
+  }
+
   if (gameCompleted) {
     const validation = validateResponse()
+    const passed = validation.resolved && validation.score >= 70
     
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
@@ -341,11 +268,11 @@ const OutageSimulator: React.FC = () => {
           className="game-container max-w-2xl w-full p-8 text-center"
         >
           <div className="text-6xl mb-6">
-            {validation.score >= 70 ? '🎯' : '⏰'}
+            {passed ? '🎯' : '⏰'}
           </div>
           
           <h1 className="text-3xl font-bold text-gray-800 mb-4">
-            {validation.score >= 70 ? 'Incident Resolved!' : 'Time Up!'}
+            {passed ? 'Incident Resolved!' : validation.resolved ? 'Incident Resolved, Slowly' : 'Time Up!'}
           </h1>
           
           <div className="bg-gray-50 rounded-lg p-6 mb-6">
@@ -356,7 +283,7 @@ const OutageSimulator: React.FC = () => {
                 <div className="text-sm text-gray-600">Score</div>
               </div>
               <div>
-                <div className="text-2xl font-bold text-green-600">{incidents.filter(i => i.resolved).length}</div>
+                <div className="text-2xl font-bold text-green-600">{incidents.filter(i => i.resolvedAt !== null).length}</div>
                 <div className="text-sm text-gray-600">Incidents Resolved</div>
               </div>
               <div>
@@ -367,10 +294,34 @@ const OutageSimulator: React.FC = () => {
                 <div className="text-2xl font-bold text-orange-600">{hintsUsed}</div>
                 <div className="text-sm text-gray-600">Hints Used</div>
               </div>
+              {sim.slo && (
+                <div>
+                  <div className={`text-2xl font-bold ${budgetRemaining(sim.slo) > 0 ? 'text-blue-600' : 'text-red-600'}`}>
+                    {Math.round(budgetRemaining(sim.slo) * 100)}%
+                  </div>
+                  <div className="text-sm text-gray-600">Error Budget Left</div>
+                </div>
+              )}
+              {validation.alerting && (
+                <>
+                  <div>
+                    <div className={`text-2xl font-bold ${validation.alerting.missedIncident ? 'text-red-600' : 'text-blue-600'}`}>
+                      {validation.alerting.timeToDetect !== null ? `${validation.alerting.timeToDetect}s` : validation.alerting.missedIncident ? 'Missed' : 'n/a'}
+                    </div>
+                    <div className="text-sm text-gray-600">Time to Page</div>
+                  </div>
+                  <div>
+                    <div className={`text-2xl font-bold ${validation.alerting.falsePages > 0 ? 'text-yellow-600' : 'text-green-600'}`}>
+                      {validation.alerting.falsePages}
+                    </div>
+                    <div className="text-sm text-gray-600">False Pages</div>
+                  </div>
+                </>
+              )}
             </div>
           </div>
           
-          {validation.score >= 70 ? (
+          {passed ? (
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
               <p className="text-green-800">
                 🎯 Excellent! You've successfully managed a production incident with quick response time and appropriate strategy selection.
@@ -429,6 +380,23 @@ const OutageSimulator: React.FC = () => {
               </div>
             </div>
             <div className="text-right">
+              <div className="flex items-center justify-end gap-2 text-sm mb-1">
+                <span className="text-gray-500" title="Share this seed so everyone runs the same outage">Seed {seed}</span>
+                <input
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value.replace(/\D/g, ''))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleReplaySeed() }}
+                  placeholder="Replay seed"
+                  className="w-28 px-2 py-1 border border-gray-300 rounded"
+                />
+                <button
+                  onClick={handleReplaySeed}
+                  disabled={!seedInput}
+                  className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300 transition-colors disabled:opacity-60"
+                >
+                  Replay
+                </button>
+              </div>
               <div className="text-sm text-gray-500">Time Remaining</div>
               <div className={`text-2xl font-bold ${timeRemaining < 60 ? 'text-red-600' : 'text-blue-600'}`}>
                 {Math.floor(timeRemaining / 60)}:{(timeRemaining % 60).toString().padStart(2, '0')}
@@ -476,6 +444,21 @@ const OutageSimulator: React.FC = () => {
           </motion.div>
         )}
 
+        {!shiftStarted ? (
+          <AlertRuleEditor rules={alertRules} onChange={setAlertRules} onStart={handleStartShift} />
+        ) : (
+        <>
+        {/* Critical page banner */}
+        {latestCritical && latestCritical.atSec >= sim.tick - 10 && !resolved && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-red-600 text-white rounded-lg p-4 mb-6 font-semibold"
+          >
+            📟 PAGE: {findService(latestCritical.service).name} {ALERT_METRICS[latestCritical.metric].label.toLowerCase()} at {latestCritical.value.toFixed(1)}{ALERT_METRICS[latestCritical.metric].unit}
+          </motion.div>
+        )}
+
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Left Side - Monitoring Dashboard */}
           <div className="space-y-6">
@@ -488,7 +471,31 @@ const OutageSimulator: React.FC = () => {
                   {healthStatus.status.toUpperCase()}
                 </div>
               </div>
-              
+
+              {/* Topology: each tile opens that service's dashboard */}
+              <div className="grid grid-cols-5 gap-2 mb-4">
+                {TOPOLOGY.map((service) => {
+                  const health = serviceHealth(sim.metrics[service.id])
+                  return (
+                    <button
+                      key={service.id}
+                      onClick={() => handleInspect(service.id)}
+                      title={`${service.description}${service.dependsOn.length > 0 ? `. Calls ${service.dependsOn.map(id => findService(id).name).join(' and ')}` : ''}`}
+                      className={`p-2 rounded-lg border-2 text-xs text-center transition-colors ${SERVICE_HEALTH_STYLES[health]} ${
+                        inspectedId === service.id ? 'ring-2 ring-blue-500' : ''
+                      }`}
+                    >
+                      <div className="font-semibold text-gray-800">{service.name}</div>
+                      <div>{health === 'critical' ? '🚨' : health === 'degraded' ? '⚠️' : '✅'}</div>
+                      {service.dependsOn.length > 0 && (
+                        <div className="text-gray-500">→ {service.dependsOn.map(id => findService(id).name).join(', ')}</div>
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+
+              <h3 className="font-semibold text-gray-700 mb-2">{inspected.name} dashboard</h3>
               <div className="grid grid-cols-2 gap-4">
                 <div className="text-center">
                   <div className={`text-2xl font-bold ${metrics.cpu > 80 ? 'text-red-600' : metrics.cpu > 60 ? 'text-yellow-600' : 'text-green-600'}`}>
@@ -517,21 +524,35 @@ const OutageSimulator: React.FC = () => {
               </div>
             </div>
 
+            {sim.slo && <SloPanel tracking={sim.slo} durationSec={sim.durationSec} edge={edgeMetrics} />}
+
             {/* Incidents */}
             <div className="game-container p-6">
-              <h2 className="text-xl font-bold text-gray-800 mb-4">Active Incidents</h2>
-              {incidents.length === 0 ? (
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Active Incidents</h2>
+                {sim.alerting && !knownIncident && !resolved && (
+                  <button
+                    onClick={handleDeclareIncident}
+                    title="Open an incident yourself when the dashboards look wrong but nothing has paged"
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  >
+                    📣 Declare Incident
+                  </button>
+                )}
+              </div>
+              {declareNote && <p className="text-sm text-yellow-700 mb-3">⚠️ {declareNote}</p>}
+              {knownIncidents.length === 0 ? (
                 <div className="text-center text-gray-500 py-8">
                   <div className="text-4xl mb-2">✅</div>
                   <p>No active incidents</p>
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {incidents.map((incident) => (
+                  {knownIncidents.map((incident) => (
                     <div
                       key={incident.id}
                       className={`p-4 rounded-lg border-2 ${
-                        incident.resolved
+                        incident.resolvedAt !== null
                           ? 'border-green-500 bg-green-50'
                           : incident.severity === 'critical'
                           ? 'border-red-500 bg-red-50'
@@ -543,16 +564,21 @@ const OutageSimulator: React.FC = () => {
                           <div className="font-semibold text-gray-800">{incident.title}</div>
                           <div className="text-sm text-gray-600">{incident.description}</div>
                           <div className="text-xs text-gray-500 mt-1">
-                            {incident.timestamp.toLocaleTimeString()}
+                            Started at {Math.floor(incident.startedAt / 60)}:{(incident.startedAt % 60).toString().padStart(2, '0')}
+                            {incident.resolvedAt !== null && `, resolved ${incident.resolvedAt - incident.startedAt}s later`}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {incident.detection?.via === 'page' ? 'Paged' : incident.detection?.via === 'manual' ? 'Declared' : 'Noticed'} at {Math.floor(incident.detection!.atSec / 60)}:{(incident.detection!.atSec % 60).toString().padStart(2, '0')} | Showing at: {findService(incident.detectedAt).name}
+                            {incident.resolvedAt !== null && ` | Started in: ${findService(incident.origin).name}`}
                           </div>
-                          {!incident.resolved && (
+                          {incident.resolvedAt === null && (
                             <div className="text-xs text-blue-600 mt-1">
                               Recommended: {incident.recommendedStrategy}
                             </div>
                           )}
                         </div>
                         <div className="text-2xl">
-                          {incident.resolved ? '✅' : incident.severity === 'critical' ? '🚨' : '⚠️'}
+                          {incident.resolvedAt !== null ? '✅' : incident.severity === 'critical' ? '🚨' : '⚠️'}
                         </div>
                       </div>
                     </div>
@@ -564,6 +590,27 @@ const OutageSimulator: React.FC = () => {
 
           {/* Right Side - Response Actions */}
           <div className="space-y-6">
+            {/* Pages */}
+            {sim.alerting && (
+              <div className="game-container p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Pages</h2>
+                {pages.length === 0 ? (
+                  <p className="text-sm text-gray-500">No alerts have fired{sim.alerting.rules.length === 0 ? ', and none are set up' : ''}.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm max-h-48 overflow-auto">
+                    {[...pages].reverse().map((page, i) => (
+                      <li key={i} className={page.severity === 'critical' ? 'text-red-700' : 'text-yellow-700'}>
+                        <span className="font-mono text-gray-400 mr-2">
+                          {Math.floor(page.atSec / 60)}:{(page.atSec % 60).toString().padStart(2, '0')}
+                        </span>
+                        {page.severity === 'critical' ? '📟' : '💬'} {findService(page.service).name} {ALERT_METRICS[page.metric].label.toLowerCase()} at {page.value.toFixed(1)}{ALERT_METRICS[page.metric].unit}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {/* Recovery Strategies */}
             {gamePhase === 'incident' && (
               <motion.div
@@ -572,8 +619,13 @@ const OutageSimulator: React.FC = () => {
                 className="game-container p-6"
               >
                 <h2 className="text-xl font-bold text-gray-800 mb-4">Recovery Strategies</h2>
+                {lastAttempt?.outcome && lastAttempt.outcome !== 'resolved' && (
+                  <div className={`p-3 mb-4 rounded-lg border text-sm ${lastAttempt.outcome === 'mitigated' ? 'bg-yellow-50 border-yellow-200 text-yellow-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+                    {lastAttempt.outcome === 'mitigated' ? '⏳' : '❌'} {lastAttempt.strategy} on {findService(lastAttempt.target).name} {ATTEMPT_OUTCOME_LABELS[lastAttempt.outcome]}
+                  </div>
+                )}
                 <div className="space-y-3">
-                  {strategies.map((strategy, index) => (
+                  {RECOVERY_STRATEGIES.map((strategy, index) => (
                     <button
                       key={index}
                       onClick={() => handleStrategySelect(strategy)}
@@ -588,7 +640,7 @@ const OutageSimulator: React.FC = () => {
                       <div className="font-semibold text-gray-800">{strategy.name}</div>
                       <div className="text-sm text-gray-600 mb-2">{strategy.description}</div>
                       <div className="text-xs text-gray-500">
-                        Time: {strategy.timeToExecute}min | Risk: {strategy.risk} | Effectiveness: {strategy.effectiveness}%
+                        Time: {strategy.timeToExecute}s | Risk: {strategy.risk}
                       </div>
                       <div className="text-xs text-gray-600 mt-1">{strategy.explanation}</div>
                     </button>
@@ -610,20 +662,44 @@ const OutageSimulator: React.FC = () => {
                   <div className="font-semibold text-gray-800 mb-2">{selectedStrategy.name}</div>
                   <div className="text-sm text-gray-600 mb-4">{selectedStrategy.description}</div>
                   <div className="text-xs text-gray-500 mb-4">
-                    Estimated time: {selectedStrategy.timeToExecute} minutes
+                    Estimated time: {selectedStrategy.timeToExecute} seconds
+                  </div>
+                  <label className="block text-sm text-gray-700 mb-4">
+                    Target service{' '}
+                    <select
+                      value={running ? running.target : inspectedId}
+                      onChange={(e) => handleInspect(e.target.value as ServiceId)}
+                      disabled={!!running}
+                      className="ml-2 p-1 border border-gray-300 rounded"
+                    >
+                      {TOPOLOGY.map((service) => (
+                        <option key={service.id} value={service.id}>{service.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="flex justify-center gap-2">
+                    <button
+                      onClick={() => setSelectedStrategy(null)}
+                      disabled={!!running}
+                      className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+                    >
+                      Back
+                    </button>
+                    <button
+                      onClick={executeStrategy}
+                      disabled={!!running}
+                      className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {running ? `Executing on ${findService(running.target).name}...` : `Execute on ${inspected.name}`}
+                    </button>
                   </div>
-                  <button
-                    onClick={executeStrategy}
-                    disabled={strategyExecuting}
-                    className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
-                  >
-                    {strategyExecuting ? 'Executing...' : 'Execute Strategy'}
-                  </button>
                 </div>
               </motion.div>
             )}
           </div>
         </div>
+        </>
+        )}
 
         {/* Concept Card */}
         <div className="mt-8">
@@ -645,10 +721,12 @@ const OutageSimulator: React.FC = () => {
             <div>
               <h4 className="font-semibold text-gray-700 mb-2">Response Priority:</h4>
               <div className="text-sm text-gray-600 space-y-1">
-                <div>1. Assess severity and impact</div>
-                <div>2. Choose appropriate strategy</div>
-                <div>3. Execute quickly but safely</div>
-                <div>4. Monitor and verify fix</div>
+                <div>1. Page on what users feel, not on every blip</div>
+                <div>2. Assess severity and impact</div>
+                <div>3. Follow the dependencies to the service where it started</div>
+                <div>4. Choose appropriate strategy for that service</div>
+                <div>5. Execute quickly but safely</div>
+                <div>6. Monitor and verify fix</div>
               </div>
             </div>
             <div>
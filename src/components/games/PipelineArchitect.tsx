@@ -1,13 +1,33 @@
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { DndProvider, useDrag, useDrop } from 'react-dnd'
-import { HTML5Backend } from 'react-dnd-html5-backend'
+import ReactFlow, {
+  Background,
+  Controls,
+  Handle,
+  MarkerType,
+  MiniMap,
+  Position,
+  type Connection,
+  type Edge,
+  type EdgeChange,
+  type Node,
+  type NodeChange,
+  type NodeProps,
+  type ReactFlowInstance
+} from 'reactflow'
+import 'reactflow/dist/style.css'
 import { useGameStore } from '../../store/gameStore'
 import ConceptCard from '../ConceptCard'
 import MissionGuide from '../MissionGuide'
 import MissionQuiz from '../MissionQuiz'
 import missionsData from '../../missions.json'
+import { assignJobIds, parseJobYaml, validateJobYaml } from './workflowCompiler'
+import { CI_DIALECTS, exportPipeline, isCiDialect, validatePipelineFile, type CiDialect } from './ciDialects'
+import { simulatePipeline, JOB_SETUP_SEC, type JobRunStatus } from './pipelineSimulator'
+import { analyzePipelineGraph, checkConnection, layoutByDepth } from './pipelineGraph'
+import { scorePipeline, type PipelineScore } from './pipelineScore'
+import { importWorkflow } from './workflowImporter'
 
 interface PipelineJob {
   id: string
@@ -20,69 +40,30 @@ interface PipelineJob {
   configured: boolean
 }
 
-interface JobNodeProps {
+interface JobNodeData {
   job: PipelineJob
   onConfigure: (job: PipelineJob) => void
-  onConnect: (fromJob: string, toJob: string) => void
-  onMove: (jobId: string, position: { x: number; y: number }) => void
   onRemove: (jobId: string) => void
-  getCanvasRect: () => DOMRect | null
+  highlight?: 'error' | 'warning' | null
 }
 
-const JobNode: React.FC<JobNodeProps> = ({ job, onConfigure, onConnect, onMove, onRemove, getCanvasRect }) => {
-  const [{ isDragging }, drag] = useDrag({
-    type: 'pipeline-job',
-    item: job,
-    end: (_item, monitor) => {
-      const client = monitor.getClientOffset()
-      const rect = getCanvasRect()
-      if (!client || !rect) return
-      // Center the drop roughly in the middle of the node (140x100)
-      const proposed = {
-        x: client.x - rect.left - 70,
-        y: client.y - rect.top - 50
-      }
-      onMove(job.id, proposed)
-    },
-    collect: (monitor) => ({
-      isDragging: monitor.isDragging()
-    })
-  })
-
-  const [{ isOver }, drop] = useDrop({
-    accept: 'pipeline-job',
-    drop: (droppedJob: PipelineJob) => {
-      if (droppedJob.id !== job.id) {
-        onConnect(droppedJob.id, job.id)
-      }
-    },
-    collect: (monitor) => ({
-      isOver: monitor.isOver()
-    })
-  })
-
+// reactflow node for a job. Connections are drawn from the right handle
+// (runs first) to the left handle of the job that waits for it.
+const JobNode: React.FC<NodeProps<JobNodeData>> = ({ data, selected }) => {
+  const { job, onConfigure, onRemove, highlight } = data
   return (
     <div
-      ref={(node) => {
-        drag(node)
-        drop(node)
-      }}
-      className={`job-node z-10 ${isDragging ? 'opacity-50' : ''} ${isOver ? 'ring-2 ring-blue-400' : ''}`}
-      style={{
-        position: 'absolute',
-        left: job.position.x,
-        top: job.position.y,
-        width: '140px',
-        height: '100px'
-      }}
+      className={`job-node rounded-lg ${selected ? 'ring-2 ring-blue-400' : highlight === 'error' ? 'ring-4 ring-red-500' : highlight === 'warning' ? 'ring-2 ring-yellow-400' : ''}`}
+      style={{ width: '140px' }}
     >
-      <div className={`bg-white border-2 rounded-lg p-3 cursor-move hover:shadow-lg transition-all ${
+      <Handle type="target" position={Position.Left} className="!w-3 !h-3 !bg-blue-500" />
+      <div className={`relative bg-white border-2 rounded-lg p-3 cursor-move hover:shadow-lg transition-all ${
         job.configured ? 'border-green-500 bg-green-50' : 'border-blue-500'
       }`}>
         <button
           onClick={(e) => { e.stopPropagation(); onRemove(job.id) }}
           title="Remove from canvas"
-          className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-red-600 text-white text-sm leading-6"
+          className="nodrag absolute -top-2 -right-2 w-6 h-6 rounded-full bg-red-600 text-white text-sm leading-6"
         >
           ×
         </button>
@@ -100,7 +81,7 @@ const JobNode: React.FC<JobNodeProps> = ({ job, onConfigure, onConnect, onMove,
             e.stopPropagation()
             onConfigure(job)
           }}
-          className={`w-full px-2 py-1 text-xs rounded transition-colors ${
+          className={`nodrag w-full px-2 py-1 text-xs rounded transition-colors ${
             job.configured 
               ? 'bg-green-600 text-white hover:bg-green-700' 
               : 'bg-blue-600 text-white hover:bg-blue-700'
@@ -109,20 +90,33 @@ const JobNode: React.FC<JobNodeProps> = ({ job, onConfigure, onConnect, onMove,
           {job.configured ? '✓ Configured' : 'Configure'}
         </button>
       </div>
+      <Handle type="source" position={Position.Right} className="!w-3 !h-3 !bg-green-500" />
     </div>
   )
 }
 
+const nodeTypes = { pipelineJob: JobNode }
+
 interface YAMLConfigModalProps {
   job: PipelineJob | null
+  // Workflow id the compiler gives this job (duplicate names get a suffix)
+  jobId: string
+  jobIds: string[]
   onClose: () => void
   onSave: (job: PipelineJob, yaml: string) => void
 }
 
-const YAMLConfigModal: React.FC<YAMLConfigModalProps> = ({ job, onClose, onSave }) => {
+const YAMLConfigModal: React.FC<YAMLConfigModalProps> = ({ job, jobId, jobIds, onClose, onSave }) => {
   const [yaml, setYaml] = useState('')
   const [selectedLine, setSelectedLine] = useState<number | null>(null)
 
+  const diagnostics = useMemo(
+    () => job ? validateJobYaml(yaml, jobId, jobIds) : [],
+    [yaml, job, jobId, jobIds]
+  )
+  const parsed = useMemo(() => parseJobYaml(yaml), [yaml])
+  const steps = Array.isArray(parsed?.steps) ? parsed?.steps as Record<string, unknown>[] : []
+
   useEffect(() => {
     if (job) {
       setYaml(job.yaml)
@@ -171,15 +165,16 @@ const YAMLConfigModal: React.FC<YAMLConfigModalProps> = ({ job, onClose, onSave
                   {yaml.split('\n').map((line, idx) => {
                     const isSelected = selectedLine === idx
                     const lineNum = (idx + 1).toString().padStart(2, ' ')
+                    const lineErrors = diagnostics.filter(d => d.line === idx + 1)
                     return (
                       <button
                         key={idx}
                         type="button"
                         onClick={() => setSelectedLine(idx)}
-                        title="Click for an explanation"
-                        className={`w-full text-left flex items-start gap-3 px-3 py-1.5 hover:bg-blue-50 ${isSelected ? 'bg-blue-100' : ''}`}
+                        title={lineErrors.length > 0 ? lineErrors.map(d => d.message).join('\n') : 'Click for an explanation'}
+                        className={`w-full text-left flex items-start gap-3 px-3 py-1.5 hover:bg-blue-50 ${isSelected ? 'bg-blue-100' : lineErrors.length > 0 ? 'bg-red-50' : ''}`}
                       >
-                        <span className="shrink-0 w-6 text-right text-xs text-gray-400 select-none">
+                        <span className={`shrink-0 w-6 text-right text-xs select-none ${lineErrors.length > 0 ? 'text-red-600 font-bold' : 'text-gray-400'}`}>
                           {lineNum}
                         </span>
                         <span className="whitespace-pre text-gray-800">
@@ -200,6 +195,25 @@ const YAMLConfigModal: React.FC<YAMLConfigModalProps> = ({ job, onClose, onSave
                   placeholder="Enter YAML configuration..."
                 />
               </div>
+
+              {diagnostics.length > 0 ? (
+                <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3 text-sm space-y-1">
+                  {diagnostics.map((d, i) => (
+                    <button
+                      key={i}
+                      type="button"
+                      onClick={() => setSelectedLine(d.line - 1)}
+                      className={`block text-left w-full ${d.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+                    >
+                      {d.severity === 'error' ? '❌' : '⚠️'} Line {d.line}: {d.message}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="mt-3 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+                  ✅ Valid GitHub Actions job
+                </div>
+              )}
             </div>
 
             {/* Right: Explanation panel */}
@@ -210,6 +224,9 @@ const YAMLConfigModal: React.FC<YAMLConfigModalProps> = ({ job, onClose, onSave
               ) : (
                 <div className="space-y-2">
                   <div className="text-xs text-gray-500">Line {selectedLine + 1}</div>
+                  {diagnostics.filter(d => d.line === selectedLine + 1).map((d, i) => (
+                    <p key={i} className="text-sm text-red-700">{d.message}</p>
+                  ))}
                   <pre className="text-sm bg-white border border-gray-200 rounded p-2 overflow-auto"><code className="font-mono">{yaml.split('\n')[selectedLine] || ''}</code></pre>
                   <p className="text-sm text-gray-800 leading-6">
                     {getYamlLineExplanation(yaml.split('\n')[selectedLine] || '', job.name)}
@@ -229,19 +246,19 @@ const YAMLConfigModal: React.FC<YAMLConfigModalProps> = ({ job, onClose, onSave
           </label>
           <div className="grid grid-cols-2 gap-2 text-sm">
             <div className="flex items-center">
-              <span className={`w-2 h-2 rounded-full mr-2 ${yaml.includes('name:') ? 'bg-green-500' : 'bg-gray-300'}`} />
+              <span className={`w-2 h-2 rounded-full mr-2 ${typeof parsed?.name === 'string' ? 'bg-green-500' : 'bg-gray-300'}`} />
               Job name
             </div>
             <div className="flex items-center">
-              <span className={`w-2 h-2 rounded-full mr-2 ${yaml.includes('runs-on:') ? 'bg-green-500' : 'bg-gray-300'}`} />
+              <span className={`w-2 h-2 rounded-full mr-2 ${parsed?.['runs-on'] ? 'bg-green-500' : 'bg-gray-300'}`} />
               Runner
             </div>
             <div className="flex items-center">
-              <span className={`w-2 h-2 rounded-full mr-2 ${yaml.includes('steps:') ? 'bg-green-500' : 'bg-gray-300'}`} />
+              <span className={`w-2 h-2 rounded-full mr-2 ${steps.length > 0 ? 'bg-green-500' : 'bg-gray-300'}`} />
               Steps
             </div>
             <div className="flex items-center">
-              <span className={`w-2 h-2 rounded-full mr-2 ${yaml.includes('uses:') ? 'bg-green-500' : 'bg-gray-300'}`} />
+              <span className={`w-2 h-2 rounded-full mr-2 ${steps.some(step => typeof step?.uses === 'string') ? 'bg-green-500' : 'bg-gray-300'}`} />
               Actions
             </div>
           </div>
@@ -266,10 +283,378 @@ const YAMLConfigModal: React.FC<YAMLConfigModalProps> = ({ job, onClose, onSave
   )
 }
 
-function getYamlLineExplanation(line: string, jobName: string): string {
+const RUN_STATUS_COLORS: Record<JobRunStatus, string> = {
+  success: 'bg-green-500',
+  failed: 'bg-red-500',
+  skipped: 'bg-gray-300',
+  blocked: 'bg-yellow-400'
+}
+
+const formatSeconds = (sec: number) => sec >= 60 ? `${Math.floor(sec / 60)}m ${sec % 60}s` : `${sec}s`
+
+interface PipelineTimelineProps {
+  jobs: PipelineJob[]
+}
+
+// Runs the canvas pipeline in the simulator and draws a Gantt chart of the result
+const PipelineTimeline: React.FC<PipelineTimelineProps> = ({ jobs }) => {
+  const [runners, setRunners] = useState(2)
+  const [flaky, setFlaky] = useState(false)
+  const [seed, setSeed] = useState(1)
+  const [expandedJob, setExpandedJob] = useState<string | null>(null)
+
+  const run = useMemo(
+    () => simulatePipeline(jobs, { runners, seed, failureRate: flaky ? 0.1 : 0 }),
+    [jobs, runners, seed, flaky]
+  )
+  const scale = Math.max(run.totalSec, 1)
+  const savedSec = run.serialSec - run.totalSec
+
+  return (
+    <div className="game-container p-6 mt-8">
+      <div className="flex justify-between items-start flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 mb-1">⏱️ Pipeline Run Timeline</h2>
+          <p className="text-sm text-gray-600">
+            Jobs start as soon as everything they need has finished and a runner is free.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            Runners
+            <select
+              value={runners}
+              onChange={(e) => setRunners(Number(e.target.value))}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={flaky} onChange={(e) => setFlaky(e.target.checked)} />
+            Flaky steps
+          </label>
+          <button
+            onClick={() => setSeed(prev => prev + 1)}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            ▶ Run again
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center mb-4">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-blue-600">{formatSeconds(run.totalSec)}</div>
+          <div className="text-xs text-gray-600">Total pipeline time</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-purple-600">{formatSeconds(run.criticalPathSec)}</div>
+          <div className="text-xs text-gray-600">Critical path</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-gray-700">{formatSeconds(run.serialSec)}</div>
+          <div className="text-xs text-gray-600">If run one by one</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-2xl font-bold text-green-600">{formatSeconds(Math.max(0, savedSec))}</div>
+          <div className="text-xs text-gray-600">Saved by parallelism</div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {run.jobs.map(job => {
+          const onCriticalPath = run.criticalPath.includes(job.jobId)
+          return (
+            <div key={job.jobId}>
+              <button
+                type="button"
+                onClick={() => setExpandedJob(expandedJob === job.jobId ? null : job.jobId)}
+                className="w-full flex items-center gap-3 text-left"
+              >
+                <div className="w-24 shrink-0 text-sm font-semibold text-gray-800 truncate">
+                  {job.name}
+                  {onCriticalPath && <span className="ml-1 text-purple-600" title="On the critical path">★</span>}
+                </div>
+                <div className="relative flex-1 h-7 bg-gray-100 rounded">
+                  {job.runner !== null && job.start > job.readyAt && (
+                    <div
+                      className="absolute h-full bg-yellow-100 border-y border-dashed border-yellow-400"
+                      style={{ left: `${(job.readyAt / scale) * 100}%`, width: `${((job.start - job.readyAt) / scale) * 100}%` }}
+                      title="Waiting for a free runner"
+                    />
+                  )}
+                  <div
+                    className={`absolute h-full rounded text-xs text-white px-2 leading-7 overflow-hidden whitespace-nowrap ${RUN_STATUS_COLORS[job.status]} ${onCriticalPath ? 'ring-2 ring-purple-500' : ''}`}
+                    style={{ left: `${(job.start / scale) * 100}%`, width: `${Math.max((job.durationSec / scale) * 100, 1)}%` }}
+                  >
+                    {job.runner !== null ? `runner ${job.runner + 1} · ${formatSeconds(job.durationSec)}` : ''}
+                  </div>
+                </div>
+                <div className="w-16 shrink-0 text-xs text-gray-600">{job.status}</div>
+              </button>
+              {expandedJob === job.jobId && (
+                <div className="ml-28 mt-1 mb-2 text-xs text-gray-700 space-y-1">
+                  {job.reason && <div className="text-gray-500 italic">{job.reason}</div>}
+                  {job.runner !== null && <div>Set up runner: {formatSeconds(JOB_SETUP_SEC)}</div>}
+                  {job.steps.map((step, i) => (
+                    <div key={i} className="flex gap-2">
+                      <span>{step.status === 'success' ? '✅' : step.status === 'failed' ? '❌' : '⏭️'}</span>
+                      <span className="font-mono truncate flex-1">{step.name}</span>
+                      <span>{step.status === 'skipped' ? '-' : formatSeconds(step.durationSec)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <p className="mt-4 text-xs text-gray-600">
+        ★ The critical path ({run.criticalPath.map(id => jobs.find(j => j.id === id)?.name ?? id).join(' → ') || 'none'}) is the longest chain of jobs that must run in order.
+        No number of runners can make the pipeline faster than it; yellow gaps show time spent waiting for a runner.
+      </p>
+    </div>
+  )
+}
+
+// Keywords whose meaning differs between CI dialects, checked before the shared explanations
+const DIALECT_EXPLANATIONS: Record<CiDialect, { pattern: RegExp; text: string }[]> = {
+  github: [
+    { pattern: /^'?on'?:/, text: 'Events that start this workflow, such as a push or a pull request.' },
+    { pattern: /^jobs:/, text: 'All jobs in the workflow. Jobs run in parallel unless one "needs" another.' }
+  ],
+  gitlab: [
+    { pattern: /^stages:/, text: 'GitLab runs stages in this order. Jobs in the same stage run in parallel.' },
+    { pattern: /^stage:/, text: 'Which stage this job belongs to. It starts after earlier stages finish unless "needs" says otherwise.' },
+    { pattern: /^image:/, text: 'Docker image the job runs inside. GitLab has no runs-on; the image provides the tools.' },
+    { pattern: /^services:/, text: 'Extra containers started next to the job, e.g. docker:dind so the job can build images.' },
+    { pattern: /^needs:/, text: 'Jobs this one waits for. With needs, a job can start as soon as those finish instead of waiting for the whole previous stage.' },
+    { pattern: /^script:/, text: 'Shell commands the job runs, one per list item. GitLab checks out the repository automatically.' },
+    { pattern: /^(before|after)_script:/, text: 'Commands run before or after the main script in every job that uses it.' },
+    { pattern: /^tags:/, text: 'Runner tags: only GitLab runners with all of these tags pick up the job.' },
+    { pattern: /^variables:/, text: 'Environment variables for the job. Predefined ones like $CI_COMMIT_SHA are always available.' }
+  ],
+  azure: [
+    { pattern: /^trigger:/, text: 'Branches that start this pipeline when pushed to.' },
+    { pattern: /^stages:/, text: 'Top-level phases of the pipeline. Each stage contains one or more jobs.' },
+    { pattern: /^-?\s*stage:/, text: 'Declares a stage by its id. Other stages refer to it in dependsOn.' },
+    { pattern: /^dependsOn:/, text: 'Stages (or jobs) that must finish successfully before this one starts. Azure\'s version of needs.' },
+    { pattern: /^jobs:/, text: 'Jobs in this stage. Each runs on its own agent.' },
+    { pattern: /^-?\s*job:/, text: 'Declares a job by its id. Ids may only contain letters, digits and underscores.' },
+    { pattern: /^pool:/, text: 'Which agent pool runs the job. Azure\'s equivalent of runs-on.' },
+    { pattern: /^vmImage:/, text: 'Microsoft-hosted agent image, such as ubuntu-latest.' },
+    { pattern: /^-?\s*checkout:/, text: 'Checks out the repository. "self" means the repo that contains this pipeline.' },
+    { pattern: /^-?\s*task:/, text: 'Runs a built-in or marketplace task by Name@majorVersion, like a GitHub action.' },
+    { pattern: /^inputs:/, text: 'Settings for the task above, like "with" in GitHub Actions.' },
+    { pattern: /^-?\s*script:/, text: 'Runs a shell command on the agent.' },
+    { pattern: /^displayName:/, text: 'Friendly name shown in the Azure DevOps run UI.' }
+  ]
+}
+
+interface WorkflowImportModalProps {
+  open: boolean
+  onClose: () => void
+  onImport: (jobs: PipelineJob[], workflowName: string | null) => void
+}
+
+// Paste a GitHub Actions workflow and analyze it on the canvas. Imported
+// pipelines are never submitted, so pasting a finished workflow cannot
+// complete the mission.
+const WorkflowImportModal: React.FC<WorkflowImportModalProps> = ({ open, onClose, onImport }) => {
+  const [text, setText] = useState('')
+  const result = useMemo(() => text.trim() ? importWorkflow(text) : null, [text])
+
+  if (!open) return null
+
+  const errors = result?.diagnostics.filter(d => d.severity === 'error') ?? []
+  const canImport = !!result && result.jobs.length > 0
+
+  const handleImport = () => {
+    if (!result) return
+    onImport(result.jobs, result.workflowName)
+    setText('')
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold text-gray-800 mb-2">Import a Workflow</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Paste a GitHub Actions workflow (.github/workflows/*.yml). Each job becomes a node and <span className="font-mono">needs:</span> become connections.
+          Imported workflows open in analysis mode: you get the score and diagnostics, but they cannot be submitted for the mission.
+        </p>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="w-full h-64 p-3 border border-gray-300 rounded-lg font-mono text-sm"
+          placeholder={'name: CI\non: [push]\njobs:\n  test:\n    runs-on: ubuntu-latest\n    steps:\n      - uses: actions/checkout@v4'}
+        />
+        {result && (
+          <div className="mt-3 space-y-1 text-sm">
+            <div className="text-gray-700">
+              Found <strong>{result.jobs.length}</strong> job{result.jobs.length === 1 ? '' : 's'}
+              {result.workflowName && <> in <strong>{result.workflowName}</strong></>}
+              {errors.length > 0 && <>, {errors.length} error{errors.length === 1 ? '' : 's'}</>}
+            </div>
+            {result.diagnostics.map((d, i) => (
+              <div key={i} className={d.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}>
+                {d.severity === 'error' ? '❌' : '⚠️'} Line {d.line}: {d.message}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end gap-3 mt-4">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className={`px-4 py-2 text-white rounded-lg ${canImport ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-400 cursor-not-allowed'}`}
+          >
+            🔍 Import &amp; Analyze
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface PipelineAnalysisPanelProps {
+  workflowName: string | null
+  validation: PipelineScore
+}
+
+// Score breakdown for an imported workflow, using the same rules as submitting the mission
+const PipelineAnalysisPanel: React.FC<PipelineAnalysisPanelProps> = ({ workflowName, validation }) => (
+  <div className="game-container p-6 mt-8 border-2 border-purple-300">
+    <h2 className="text-xl font-bold text-gray-800 mb-1">🔍 Pipeline Analysis{workflowName ? `: ${workflowName}` : ''}</h2>
+    <p className="text-sm text-gray-600 mb-4">
+      Scored with the mission rules. Edit the canvas to see the score change; nothing is recorded while analyzing.
+    </p>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center mb-4">
+      <div className="bg-gray-50 rounded-lg p-3">
+        <div className="text-2xl font-bold text-blue-600">{validation.score}/100</div>
+        <div className="text-xs text-gray-600">Score</div>
+      </div>
+      <div className="bg-gray-50 rounded-lg p-3">
+        <div className="text-2xl font-bold text-green-600">{validation.dependencyScore}</div>
+        <div className="text-xs text-gray-600">Dependency points</div>
+      </div>
+      <div className="bg-gray-50 rounded-lg p-3">
+        <div className="text-2xl font-bold text-purple-600">{validation.yamlScore}</div>
+        <div className="text-xs text-gray-600">YAML points</div>
+      </div>
+      <div className="bg-gray-50 rounded-lg p-3">
+        <div className={`text-2xl font-bold ${validation.workflowErrors.length > 0 ? 'text-red-600' : 'text-green-600'}`}>{validation.workflowErrors.length}</div>
+        <div className="text-xs text-gray-600">Workflow errors</div>
+      </div>
+    </div>
+    <ul className="text-sm space-y-1">
+      <li>{validation.allJobsPresent ? '✅ All required jobs present' : `❌ Missing jobs: ${validation.missingJobs.join(', ')}`}</li>
+      <li>{validation.properDependencies ? '✅ Test gates the build' : '❌ Build does not wait for Test (or the graph has a loop)'}</li>
+      <li>{validation.allConfigured ? '✅ Every job has valid YAML' : '⚠️ Some jobs have YAML errors'}</li>
+      {validation.graphDiagnostics.map((d, i) => (
+        <li key={i}>{d.severity === 'error' ? '❌' : '⚠️'} {d.message}</li>
+      ))}
+      {validation.workflowErrors.map((d, i) => (
+        <li key={`w${i}`}>❌ <span className="font-mono text-xs">{d.path}</span> {d.message}</li>
+      ))}
+    </ul>
+  </div>
+)
+
+interface PipelineExportPanelProps {
+  jobs: PipelineJob[]
+  dialects: CiDialect[]
+}
+
+// Shows the canvas exported in each CI dialect the mission allows, with clickable line explanations
+const PipelineExportPanel: React.FC<PipelineExportPanelProps> = ({ jobs, dialects }) => {
+  const [dialect, setDialect] = useState<CiDialect>(dialects[0] ?? 'github')
+  const [selectedLine, setSelectedLine] = useState<number | null>(null)
+
+  const result = useMemo(() => exportPipeline(jobs, dialect), [jobs, dialect])
+  const lineDiagnostics = useMemo(() => validatePipelineFile(result.yaml, dialect), [result, dialect])
+  const lines = result.yaml.split('\n')
+
+  return (
+    <div className="game-container p-6 mt-8">
+      <div className="flex justify-between items-start flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 mb-1">📄 {result.fileName}</h2>
+          <p className="text-sm text-gray-600">
+            Your canvas exported as {CI_DIALECTS[dialect].label}. Click a line to see what it means.
+          </p>
+        </div>
+        {dialects.length > 1 && (
+          <div className="flex gap-2">
+            {dialects.map(d => (
+              <button
+                key={d}
+                onClick={() => { setDialect(d); setSelectedLine(null) }}
+                className={`px-3 py-1 text-sm rounded-lg border ${d === dialect ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                {CI_DIALECTS[d].label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="grid lg:grid-cols-2 gap-4">
+        <div className="bg-gray-900 rounded-lg py-2 text-xs overflow-auto max-h-96 font-mono">
+          {lines.map((line, idx) => {
+            const hasError = lineDiagnostics.some(d => d.line === idx + 1)
+            return (
+              <button
+                key={idx}
+                type="button"
+                onClick={() => setSelectedLine(idx)}
+                className={`w-full text-left flex gap-3 px-3 ${selectedLine === idx ? 'bg-blue-900' : hasError ? 'bg-red-900' : 'hover:bg-gray-800'}`}
+              >
+                <span className="shrink-0 w-6 text-right text-gray-500 select-none">{idx + 1}</span>
+                <span className="whitespace-pre text-gray-100">{line.length === 0 ? '\u00A0' : line}</span>
+              </button>
+            )
+          })}
+        </div>
+        <div className="space-y-2 text-sm">
+          {selectedLine !== null && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-blue-900">
+              <div className="text-xs text-blue-600 mb-1">Line {selectedLine + 1}</div>
+              {getYamlLineExplanation(lines[selectedLine] ?? '', '', dialect)}
+            </div>
+          )}
+          {result.diagnostics.length === 0 ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-green-700">
+              ✅ Valid {CI_DIALECTS[dialect].label} file
+            </div>
+          ) : (
+            result.diagnostics.map((d, i) => (
+              <div
+                key={i}
+                className={`border rounded-lg p-3 ${d.severity === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}
+              >
+                {d.severity === 'error' ? '❌' : '⚠️'} <span className="font-mono text-xs">{d.path}</span> {d.message}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function getYamlLineExplanation(line: string, jobName: string, dialect: CiDialect = 'github'): string {
   const trimmed = line.trim()
   if (trimmed.length === 0) return 'Blank line for readability.'
 
+  const dialectMatch = DIALECT_EXPLANATIONS[dialect].find(e => e.pattern.test(trimmed))
+  if (dialectMatch) return dialectMatch.text
+
   // Top-level common keys
   if (trimmed.startsWith('name:')) {
     return 'Human-friendly label for this job. It appears in the CI run UI.'
@@ -346,22 +731,13 @@ const PipelineArchitect: React.FC = () => {
   const [timeSpentMs, setTimeSpentMs] = useState(0)
   const [lastValidation, setLastValidation] = useState<ReturnType<typeof validatePipeline> | null>(null)
   const [jobsAddedAtSubmit, setJobsAddedAtSubmit] = useState(0)
-  const canvasRef = useRef<HTMLDivElement>(null)
-
-  // Re-clamp job positions when the canvas resizes so nodes never end up off-canvas
-  useEffect(() => {
-    const handler = () => {
-      const canvasWidth = canvasRef.current?.clientWidth
-      if (!canvasWidth) return
-      const maxX = canvasWidth - 180
-      setPipelineJobs(prev => prev.map(j => ({
-        ...j,
-        position: { x: Math.min(Math.max(40, j.position.x), maxX), y: j.position.y }
-      })))
-    }
-    window.addEventListener('resize', handler)
-    return () => window.removeEventListener('resize', handler)
-  }, [])
+  const [connectionError, setConnectionError] = useState<{ message: string; loop: string[] } | null>(null)
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([])
+  const [selectedEdgeIds, setSelectedEdgeIds] = useState<string[]>([])
+  const [flowInstance, setFlowInstance] = useState<ReactFlowInstance | null>(null)
+  const [showImport, setShowImport] = useState(false)
+  // Analyze mode scores an imported pipeline without recording mission progress
+  const [analysis, setAnalysis] = useState<{ workflowName: string | null } | null>(null)
 
   const mission = missionsData.missions.find(m => m.id === 3)
   
@@ -465,19 +841,23 @@ steps:
   const handleJobDrop = (job: PipelineJob) => {
     // Add job to pipeline if not already there
     if (!pipelineJobs.find(j => j.id === job.id)) {
-      const canvasWidth = canvasRef.current?.clientWidth || 900
-      const boxWidth = 180 // job width + margin buffer
-      const baseX = 40 + pipelineJobs.length * 170
-      const clampedX = Math.min(baseX, Math.max(40, canvasWidth - boxWidth))
+      // New jobs have no dependencies yet, so they join the first column
       const newJob = {
         ...job,
-        position: { x: clampedX, y: 200 }
+        position: layoutByDepth([...pipelineJobs, job])[job.id]
       }
       setPipelineJobs(prev => [...prev, newJob])
     }
   }
 
   const handleJobConnect = (fromJobId: string, toJobId: string) => {
+    const check = checkConnection(pipelineJobs, fromJobId, toJobId)
+    if (!check.ok) {
+      // Dropping onto an existing connection is harmless, everything else needs explaining
+      if (check.reason !== 'duplicate') setConnectionError({ message: check.message, loop: check.loop })
+      return
+    }
+    setConnectionError(null)
     setPipelineJobs(prev => prev.map(job => {
       if (job.id === toJobId && !job.dependencies.includes(fromJobId)) {
         return {
@@ -489,82 +869,154 @@ steps:
     }))
   }
 
+  const handleRemoveDependency = (jobId: string, dependencyId: string) => {
+    setPipelineJobs(prev => prev.map(job =>
+      job.id === jobId ? { ...job, dependencies: job.dependencies.filter(d => d !== dependencyId) } : job
+    ))
+  }
+
   const handleMoveJob = (jobId: string, position: { x: number; y: number }) => {
-    const canvasWidth = canvasRef.current?.clientWidth || 900
-    const canvasHeight = 500
-    const maxX = canvasWidth - 180
-    const maxY = canvasHeight - 120
-    const clamped = {
-      x: Math.min(Math.max(10, position.x), maxX),
-      y: Math.min(Math.max(10, position.y), maxY)
-    }
-    setPipelineJobs(prev => prev.map(j => j.id === jobId ? { ...j, position: clamped } : j))
+    setPipelineJobs(prev => prev.map(j => j.id === jobId ? { ...j, position } : j))
   }
 
   const handleRemoveJob = (jobId: string) => {
-    setPipelineJobs(prev => prev.filter(j => j.id !== jobId))
+    // Jobs that waited on the removed one no longer need it
+    setPipelineJobs(prev => prev
+      .filter(j => j.id !== jobId)
+      .map(j => j.dependencies.includes(jobId) ? { ...j, dependencies: j.dependencies.filter(d => d !== jobId) } : j))
+    setSelectedNodeIds(prev => prev.filter(id => id !== jobId))
+  }
+
+  const handleAutoLayout = () => {
+    setPipelineJobs(prev => {
+      const positions = layoutByDepth(prev)
+      return prev.map(j => ({ ...j, position: positions[j.id] }))
+    })
+    // Wait for the new positions to render before fitting them into view
+    requestAnimationFrame(() => flowInstance?.fitView({ padding: 0.2 }))
+  }
+
+  // Edge ids encode the dependency: "<runs first>-><waits>"
+  const edgeId = (dependencyId: string, jobId: string) => `${dependencyId}->${jobId}`
+
+  const handleNodesChange = (changes: NodeChange[]) => {
+    for (const change of changes) {
+      if (change.type === 'position' && change.position) {
+        handleMoveJob(change.id, change.position)
+      } else if (change.type === 'select') {
+        setSelectedNodeIds(prev => change.selected ? [...new Set([...prev, change.id])] : prev.filter(id => id !== change.id))
+      } else if (change.type === 'remove') {
+        handleRemoveJob(change.id)
+      }
+    }
+  }
+
+  const handleEdgesChange = (changes: EdgeChange[]) => {
+    for (const change of changes) {
+      if (change.type === 'select') {
+        setSelectedEdgeIds(prev => change.selected ? [...new Set([...prev, change.id])] : prev.filter(id => id !== change.id))
+      } else if (change.type === 'remove') {
+        const [dependencyId, jobId] = change.id.split('->')
+        handleRemoveDependency(jobId, dependencyId)
+        setSelectedEdgeIds(prev => prev.filter(id => id !== change.id))
+      }
+    }
+  }
+
+  const handleFlowConnect = (connection: Connection) => {
+    if (connection.source && connection.target) {
+      handleJobConnect(connection.source, connection.target)
+    }
+  }
+
+  // Keyboard shortcuts on top of reactflow's own (Tab to focus, Enter to select, arrows to move, Delete to remove)
+  const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setSelectedNodeIds([])
+      setSelectedEdgeIds([])
+    } else if ((e.key === 'e' || e.key === 'E') && selectedNodeIds.length === 1) {
+      const job = pipelineJobs.find(j => j.id === selectedNodeIds[0])
+      if (job) {
+        e.preventDefault()
+        handleConfigureJob(job)
+      }
+    }
   }
 
   const handleConfigureJob = (job: PipelineJob) => {
     setConfiguringJob(job)
   }
 
+  // Workflow ids of the jobs on the canvas, as the compiler assigns them, so an
+  // imported job's `needs` resolve against the other imported jobs
+  const assignedJobIds = useMemo(() => assignJobIds(pipelineJobs), [pipelineJobs])
+  const workflowJobIds = useMemo(() => Object.values(assignedJobIds), [assignedJobIds])
+
   const handleSaveJobConfig = (job: PipelineJob, yaml: string) => {
+    // A job only counts as configured once its YAML has no errors
+    const hasErrors = validateJobYaml(yaml, assignedJobIds[job.id], workflowJobIds).some(d => d.severity === 'error')
     setPipelineJobs(prev => prev.map(j => 
-      j.id === job.id ? { ...j, yaml, configured: true } : j
+      j.id === job.id ? { ...j, yaml, configured: !hasErrors } : j
     ))
   }
 
-  const validatePipeline = () => {
-    const requiredJobs = mission.validation?.requiredJobs || []
-    
-    // Check if all required jobs are present
-    const presentJobsLower = pipelineJobs.map(job => job.name.toLowerCase())
-    const missingJobs = requiredJobs.filter(job => !presentJobsLower.includes(job.toLowerCase()))
-    
-    // Check if jobs have proper dependencies
-    let dependencyScore = 0
-    const hasTestFirst = pipelineJobs.some(job => 
-      job.name.toLowerCase() === 'test' && 
-      pipelineJobs.filter(j => j.dependencies.includes(job.id)).length > 0
-    )
-    
-    const hasBuildAfterTest = pipelineJobs.some(job => 
-      job.name.toLowerCase() === 'build' && 
-      job.dependencies.some(depId => {
-        const depJob = pipelineJobs.find(j => j.id === depId)
-        return depJob?.name.toLowerCase() === 'test'
-      })
-    )
-    
-    if (hasTestFirst) dependencyScore += 25
-    if (hasBuildAfterTest) dependencyScore += 25
-    
-    // Check YAML configuration quality
-    let yamlScore = 0
-    pipelineJobs.forEach(job => {
-      if (job.yaml.includes('runs-on: ubuntu-latest')) yamlScore += 10
-      if (job.yaml.includes('uses: actions/checkout@v4')) yamlScore += 10
-      if (job.yaml.includes('steps:')) yamlScore += 10
-      if (job.configured) yamlScore += 10
-    })
-    
-    // Make scoring more forgiving: smaller penalty per missing job
-    const totalScore = Math.min(100 - (missingJobs.length * 10) + dependencyScore + yamlScore, 100)
-    
-    return {
-      score: totalScore,
-      missingJobs,
-      dependencyScore,
-      yamlScore,
-      allJobsPresent: missingJobs.length === 0,
-      // Easier pass on dependencies: allow if at least one key relationship is correct
-      properDependencies: dependencyScore >= 25,
-      allConfigured: pipelineJobs.every(job => job.configured)
-    }
+  // CI dialects this mission teaches; the first one is shown by default
+  const missionDialects = ((mission.validation as { dialects?: string[] } | undefined)?.dialects ?? ['github']).filter(isCiDialect)
+  const graphDiagnostics = analyzePipelineGraph(pipelineJobs)
+
+  const jobHighlight = (jobId: string): 'error' | 'warning' | null => {
+    if (connectionError?.loop.includes(jobId)) return 'error'
+    const related = graphDiagnostics.filter(d => d.jobIds.includes(jobId))
+    if (related.some(d => d.severity === 'error')) return 'error'
+    return related.length > 0 ? 'warning' : null
+  }
+
+  const flowNodes: Node<JobNodeData>[] = pipelineJobs.map(job => ({
+    id: job.id,
+    type: 'pipelineJob',
+    position: job.position,
+    selected: selectedNodeIds.includes(job.id),
+    data: { job, onConfigure: handleConfigureJob, onRemove: handleRemoveJob, highlight: jobHighlight(job.id) }
+  }))
+
+  const cycleJobIds = new Set(graphDiagnostics.filter(d => d.kind === 'cycle').flatMap(d => d.jobIds))
+  const flowEdges: Edge[] = pipelineJobs.flatMap(job => job.dependencies
+    .filter(dep => pipelineJobs.some(j => j.id === dep))
+    .map(dep => {
+      const id = edgeId(dep, job.id)
+      const redundant = graphDiagnostics.some(d => d.kind === 'redundant' && d.edge?.job === job.id && d.edge.dependency === dep)
+      const inCycle = cycleJobIds.has(job.id) && cycleJobIds.has(dep)
+      const color = inCycle ? '#ef4444' : redundant ? '#eab308' : '#3b82f6'
+      return {
+        id,
+        source: dep,
+        target: job.id,
+        selected: selectedEdgeIds.includes(id),
+        animated: !redundant && !inCycle,
+        style: { stroke: color, strokeWidth: 2, strokeDasharray: redundant ? '6 4' : undefined },
+        markerEnd: { type: MarkerType.ArrowClosed, color }
+      }
+    }))
+
+  const validatePipeline = () => scorePipeline(pipelineJobs, mission.validation?.requiredJobs || [])
+
+  const handleImportWorkflow = (jobs: PipelineJob[], workflowName: string | null) => {
+    setPipelineJobs(jobs)
+    setConnectionError(null)
+    setSelectedNodeIds([])
+    setSelectedEdgeIds([])
+    setAnalysis({ workflowName })
+    requestAnimationFrame(() => flowInstance?.fitView({ padding: 0.2 }))
+  }
+
+  const handleExitAnalysis = () => {
+    setAnalysis(null)
+    setPipelineJobs([])
   }
 
   const handleSubmit = () => {
+    // Imported workflows are for analysis only and never count towards the mission
+    if (analysis) return
     const validation = validatePipeline()
     const timeSpent = Date.now() - startTime
     setTimeSpentMs(timeSpent)
@@ -698,7 +1150,7 @@ steps:
   }
 
   return (
-    <DndProvider backend={HTML5Backend}>
+    <>
       <div className="min-h-screen p-4">
         <div className="max-w-7xl mx-auto">
           {/* Header */}
@@ -772,10 +1224,10 @@ steps:
                         <span className="text-xl">2️⃣</span> Set Order
                       </h3>
                       <p className="text-green-700 mb-2">
-                        Drag a job ONTO another job to connect them. The dragged job runs FIRST.
+                        Drag from the green dot on a job to the blue dot on the job that should wait for it.
                       </p>
                       <p className="text-xs text-green-600 font-semibold">
-                        📌 Example: Drag "Build" onto "Test" = Test runs first, then Build
+                        📌 Example: Drag from "Test" to "Build" = Test runs first, then Build
                       </p>
                     </div>
                     <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
@@ -799,11 +1251,11 @@ steps:
                       <li><strong>Click "Test"</strong> from left panel → appears on canvas</li>
                       <li><strong>Click "Lint"</strong> → appears on canvas (can run parallel with Test)</li>
                       <li><strong>Click "Build"</strong> → appears on canvas</li>
-                      <li><strong>Drag "Build" onto "Test"</strong> → Build waits for Test to finish</li>
+                      <li><strong>Connect "Test" → "Build"</strong> → Build waits for Test to finish</li>
                       <li><strong>Click "Push"</strong> → appears on canvas</li>
-                      <li><strong>Drag "Push" onto "Build"</strong> → Push waits for Build</li>
+                      <li><strong>Connect "Build" → "Push"</strong> → Push waits for Build</li>
                       <li><strong>Click "Deploy"</strong> → appears on canvas</li>
-                      <li><strong>Drag "Deploy" onto "Push"</strong> → Deploy waits for Push</li>
+                      <li><strong>Connect "Push" → "Deploy"</strong> → Deploy waits for Push</li>
                       <li><strong>Click "Configure"</strong> on each job → Review YAML → Click "Save"</li>
                       <li><strong>All jobs show green "✓ Configured"</strong> → Click "Submit Pipeline"</li>
                     </ol>
@@ -868,43 +1320,109 @@ steps:
             {/* Right Side - Pipeline Canvas */}
             <div className="space-y-6">
               <div className="game-container p-6">
-                <h2 className="text-xl font-bold text-gray-800 mb-4">🏗️ Your Pipeline Canvas</h2>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-bold text-gray-800">🏗️ Your Pipeline Canvas</h2>
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700"
+                  >
+                    📥 Import YAML
+                  </button>
+                </div>
                 <p className="text-sm text-gray-600 mb-4">
-                  Drag jobs ONTO each other to connect them. The job you drag runs FIRST.
+                  Drag from a job's green dot (right) to another job's blue dot (left) to connect them. The job you drag from runs FIRST.
+                  Select a connection and press Delete to remove it.
                 </p>
-                <div ref={canvasRef} className="relative bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg overflow-x-auto pr-10" style={{ height: '500px', minHeight: '500px' }}>
+                {connectionError && (
+                  <div className="mb-4 bg-red-50 border-2 border-red-300 rounded-lg p-3 text-sm text-red-800">
+                    <div className="flex justify-between items-start gap-2">
+                      <strong>🔁 Connection rejected</strong>
+                      <button onClick={() => setConnectionError(null)} className="text-red-500 hover:text-red-700">×</button>
+                    </div>
+                    <p className="mt-1">{connectionError.message}</p>
+                    {connectionError.loop.length > 1 && (
+                      <div className="mt-2 flex items-center gap-1 flex-wrap font-mono text-xs">
+                        {connectionError.loop.map((id, i) => (
+                          <React.Fragment key={i}>
+                            {i > 0 && <span className="text-red-500">waits for →</span>}
+                            <span className="px-2 py-0.5 bg-white border border-red-300 rounded">
+                              {pipelineJobs.find(j => j.id === id)?.name ?? id}
+                            </span>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div
+                  className="relative bg-gray-50 border-2 border-dashed border-gray-300 rounded-lg overflow-hidden"
+                  style={{ height: '500px', minHeight: '500px' }}
+                  onKeyDown={handleCanvasKeyDown}
+                >
                   {pipelineJobs.length === 0 ? (
                     <div className="flex items-center justify-center h-full text-gray-500">
                       <div className="text-center">
                         <div className="text-4xl mb-4">🏗️</div>
                         <p className="font-semibold mb-2">Your pipeline canvas is empty</p>
                         <p className="text-sm">Click jobs from the left panel to add them here</p>
-                        <p className="text-xs mt-2 text-gray-400">Then drag them onto each other to set the order</p>
+                        <p className="text-xs mt-2 text-gray-400">Then connect them to set the order</p>
                       </div>
                     </div>
                   ) : (
-                    <>
-                      {pipelineJobs.map((job) => (
-                        <JobNode
-                          key={job.id}
-                          job={job}
-                          onConfigure={handleConfigureJob}
-                          onConnect={handleJobConnect}
-                          onMove={handleMoveJob}
-                          onRemove={handleRemoveJob}
-                          getCanvasRect={() => canvasRef.current ? canvasRef.current.getBoundingClientRect() : null}
-                        />
-                      ))}
-                      {/* Show connection hints */}
-                      {pipelineJobs.length > 1 && (
-                        <div className="absolute bottom-4 left-4 bg-blue-50 border border-blue-300 rounded-lg p-3 text-xs text-blue-800 max-w-xs">
-                          <strong>💡 Drag tip:</strong> Drag one job box ONTO another to connect them. The job you drag runs first.
-                        </div>
-                      )}
-                    </>
+                    <ReactFlow
+                      nodes={flowNodes}
+                      edges={flowEdges}
+                      nodeTypes={nodeTypes}
+                      onNodesChange={handleNodesChange}
+                      onEdgesChange={handleEdgesChange}
+                      onConnect={handleFlowConnect}
+                      onInit={setFlowInstance}
+                      deleteKeyCode={['Backspace', 'Delete']}
+                      fitView
+                      fitViewOptions={{ padding: 0.2 }}
+                      minZoom={0.3}
+                      maxZoom={2}
+                    >
+                      <Background gap={16} />
+                      <Controls />
+                      <MiniMap pannable zoomable nodeColor={(node) => (node.data as JobNodeData).job.configured ? '#22c55e' : '#3b82f6'} />
+                    </ReactFlow>
                   )}
                 </div>
+                <div className="mt-2 flex justify-between items-center gap-2 text-xs text-gray-500">
+                  <span>
+                    ⌨️ Tab to a job, Enter to select, arrows to move, E to edit YAML, Delete to remove a selected job or connection
+                  </span>
+                  <button
+                    onClick={handleAutoLayout}
+                    disabled={pipelineJobs.length === 0}
+                    className="shrink-0 px-3 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 text-gray-700"
+                  >
+                    ↔️ Auto-layout
+                  </button>
+                </div>
                 
+                {graphDiagnostics.length > 0 && (
+                  <div className="mt-4 space-y-2 text-sm">
+                    {graphDiagnostics.map((d, i) => (
+                      <div
+                        key={i}
+                        className={`flex justify-between items-center gap-2 border rounded-lg p-2 ${d.severity === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}
+                      >
+                        <span>{d.severity === 'error' ? '❌' : '⚠️'} {d.message}</span>
+                        {d.edge && (
+                          <button
+                            onClick={() => d.edge && handleRemoveDependency(d.edge.job, d.edge.dependency)}
+                            className="shrink-0 px-2 py-1 text-xs bg-white border border-current rounded hover:bg-gray-50"
+                          >
+                            Remove connection
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="mt-4 flex justify-between items-center">
                   <div className="text-sm text-gray-600 space-y-1">
                     <div>Jobs added: <span className="font-semibold">{pipelineJobs.length}/5</span></div>
@@ -917,22 +1435,40 @@ steps:
                       </div>
                     )}
                   </div>
-                  <button
-                    onClick={handleSubmit}
-                    disabled={pipelineJobs.length === 0}
-                    className={`px-6 py-2 text-white rounded-lg transition-colors ${
-                      pipelineJobs.length > 0
-                        ? 'bg-green-600 hover:bg-green-700'
-                        : 'bg-gray-400 cursor-not-allowed'
-                    }`}
-                  >
-                    Submit Pipeline
-                  </button>
+                  {analysis ? (
+                    <button
+                      onClick={handleExitAnalysis}
+                      className="px-6 py-2 text-white rounded-lg bg-gray-600 hover:bg-gray-700 transition-colors"
+                    >
+                      Exit Analysis
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSubmit}
+                      disabled={pipelineJobs.length === 0}
+                      className={`px-6 py-2 text-white rounded-lg transition-colors ${
+                        pipelineJobs.length > 0
+                          ? 'bg-green-600 hover:bg-green-700'
+                          : 'bg-gray-400 cursor-not-allowed'
+                      }`}
+                    >
+                      Submit Pipeline
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Analysis of an imported workflow */}
+          {analysis && <PipelineAnalysisPanel workflowName={analysis.workflowName} validation={validatePipeline()} />}
+
+          {/* Exported pipeline file */}
+          {pipelineJobs.length > 0 && <PipelineExportPanel jobs={pipelineJobs} dialects={missionDialects} />}
+
+          {/* Simulated run */}
+          {pipelineJobs.length > 0 && <PipelineTimeline jobs={pipelineJobs} />}
+
           {/* Concept Card */}
           <div className="mt-8">
             <ConceptCard
@@ -976,13 +1512,21 @@ steps:
         </div>
 
         {/* YAML Configuration Modal */}
+        <WorkflowImportModal
+          open={showImport}
+          onClose={() => setShowImport(false)}
+          onImport={handleImportWorkflow}
+        />
+
         <YAMLConfigModal
           job={configuringJob}
+          jobId={configuringJob ? assignedJobIds[configuringJob.id] : ''}
+          jobIds={workflowJobIds}
           onClose={() => setConfiguringJob(null)}
           onSave={handleSaveJobConfig}
         />
       </div>
-    </DndProvider>
+    </>
   )
 }
 
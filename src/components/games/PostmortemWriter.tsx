@@ -0,0 +1,167 @@
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  formatClock,
+  postmortemIssues,
+  postmortemToMarkdown,
+  type Postmortem,
+  type PostmortemField,
+  type TimelineEntry,
+  type TimelineEventKind
+} from './incidentTimeline'
+
+const EVENT_ICONS: Record<TimelineEventKind, string> = {
+  'incident-started': '🚨',
+  'alert-fired': '📟',
+  'incident-declared': '📣',
+  'service-inspected': '🔍',
+  'strategy-selected': '🧭',
+  'execution-started': '⚡',
+  'execution-finished': '⏱️',
+  'metrics-snapshot': '📈',
+  'incident-resolved': '✅',
+  'time-up': '⏰'
+}
+
+// Prompts that steer each section towards a blameless write-up
+const FIELDS: { id: Exclude<PostmortemField, 'actionItems'>; label: string; prompt: string }[] = [
+  { id: 'summary', label: 'Summary', prompt: 'What happened, how was it detected and how was it resolved?' },
+  { id: 'impact', label: 'Impact', prompt: 'Who was affected, how badly and for how long?' },
+  { id: 'rootCause', label: 'Root cause', prompt: 'Why did it happen? Describe the system conditions, not who made a mistake.' }
+]
+
+interface PostmortemWriterProps {
+  timeline: TimelineEntry[]
+  draft: Postmortem
+  seed: number
+  onSubmit: (postmortem: Postmortem, markdown: string) => void
+}
+
+// Guided blameless postmortem, prefilled from the incident timeline
+const PostmortemWriter: React.FC<PostmortemWriterProps> = ({ timeline, draft, seed, onSubmit }) => {
+  const [postmortem, setPostmortem] = useState<Postmortem>(draft)
+  const issues = postmortemIssues(postmortem)
+  const blocking = issues.some((issue) => issue.severity === 'error')
+  const markdown = postmortemToMarkdown(postmortem, timeline, seed)
+
+  const setField = (field: keyof Postmortem, value: string) => setPostmortem((prev) => ({ ...prev, [field]: value }))
+
+  const setActionItem = (index: number, value: string) =>
+    setPostmortem((prev) => ({ ...prev, actionItems: prev.actionItems.map((item, i) => i === index ? value : item) }))
+
+  const handleDownload = () => {
+    const blob = new Blob([markdown], { type: 'text/markdown' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `postmortem-seed-${seed}.md`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const issuesFor = (field: PostmortemField) => issues.filter((issue) => issue.field === field).map((issue, i) => (
+    <p key={i} className={`text-sm ${issue.severity === 'error' ? 'text-red-500' : 'text-yellow-700'}`}>
+      {issue.severity === 'error' ? '❌' : '⚠️'} {issue.message}
+    </p>
+  ))
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="game-container p-6 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">📝 Postmortem</h1>
+          <p className="text-gray-600">
+            Write up the incident while it is fresh. Blameless postmortems look at what the system allowed to happen, so the fix is a better system rather than a more careful person.
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-8">
+          <motion.div initial={{ opacity: 0, x: -20 }} animate={{ opacity: 1, x: 0 }} className="game-container p-6">
+            <h2 className="text-xl font-bold text-gray-800 mb-4">Incident Timeline</h2>
+            <ol className="space-y-2 text-sm max-h-[32rem] overflow-auto">
+              {timeline.map((entry, i) => (
+                <li
+                  key={i}
+                  className={entry.outcome === 'no-effect' || entry.outcome === 'worsened' ? 'text-red-700' : entry.kind === 'incident-resolved' ? 'text-green-700' : 'text-gray-700'}
+                >
+                  <span className="font-mono text-gray-400 mr-2">{formatClock(entry.atSec)}</span>
+                  {EVENT_ICONS[entry.kind]} {entry.note}
+                </li>
+              ))}
+            </ol>
+          </motion.div>
+
+          <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} className="game-container p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+              <input
+                value={postmortem.title}
+                onChange={(e) => setField('title', e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded"
+              />
+            </div>
+            {FIELDS.map((field) => (
+              <div key={field.id}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                <textarea
+                  value={postmortem[field.id]}
+                  onChange={(e) => setField(field.id, e.target.value)}
+                  placeholder={field.prompt}
+                  rows={3}
+                  className="w-full p-2 border border-gray-300 rounded text-sm"
+                />
+                {issuesFor(field.id)}
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Action items</label>
+              <div className="space-y-2">
+                {postmortem.actionItems.map((item, index) => (
+                  <div key={index} className="flex space-x-2">
+                    <input
+                      value={item}
+                      onChange={(e) => setActionItem(index, e.target.value)}
+                      placeholder="A change to the system, with an owner"
+                      className="flex-1 p-2 border border-gray-300 rounded text-sm"
+                    />
+                    <button
+                      onClick={() => setPostmortem((prev) => ({ ...prev, actionItems: prev.actionItems.filter((_, i) => i !== index) }))}
+                      className="px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setPostmortem((prev) => ({ ...prev, actionItems: [...prev.actionItems, ''] }))}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Add Action Item
+                </button>
+              </div>
+              {issuesFor('actionItems')}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                onClick={handleDownload}
+                className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                ⬇️ Download Markdown
+              </button>
+              <button
+                onClick={() => onSubmit(postmortem, markdown)}
+                disabled={blocking}
+                className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                Submit Postmortem
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PostmortemWriter
@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  DEFAULT_CANARY_WEIGHTS,
+  DEFAULT_MAX_SURGE,
+  DEFAULT_MAX_UNAVAILABLE,
+  ROLLOUT_STRATEGIES,
+  TICK_SEC,
+  isRolloutStrategy,
+  rolloutOptionErrors,
+  simulateRollout,
+  type PodPhase,
+  type RolloutOutcome,
+  type RolloutStrategy,
+  type SimPod
+} from './rolloutSimulator'
+
+const FRAME_MS = 600
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 120
+
+const POD_CLASSES: Record<PodPhase, string> = {
+  starting: 'bg-gray-300 animate-pulse',
+  ready: '',
+  failing: 'bg-red-500',
+  terminating: 'opacity-30'
+}
+
+const OUTCOME_TEXT: Record<RolloutOutcome, { className: string; text: string }> = {
+  completed: { className: 'bg-green-50 border-green-200 text-green-800', text: '✅ Rollout complete: every pod runs the new version with no user-facing errors.' },
+  'rolled-back': { className: 'bg-yellow-50 border-yellow-200 text-yellow-800', text: '↩️ The health check kept the bad pods out of traffic and the rollout was rolled back. Users never noticed.' },
+  degraded: { className: 'bg-red-50 border-red-200 text-red-800', text: '🔥 Nothing caught the bad release, so it is now serving users. Enable the health check and run it again.' }
+}
+
+interface RolloutSimulatorProps {
+  replicas: number
+  healthCheck: boolean
+  // Strategy names offered by the mission, e.g. rolling, blue-green, canary
+  strategies: string[]
+}
+
+const podColor = (pod: SimPod) => {
+  if (pod.phase === 'starting' || pod.phase === 'failing') return POD_CLASSES[pod.phase]
+  return `${pod.version === 'old' ? 'bg-blue-500' : 'bg-green-500'} ${POD_CLASSES[pod.phase]}`
+}
+
+const parseWeights = (text: string) =>
+  text.split(',').map((w) => w.trim()).filter(Boolean).map(Number)
+
+// Plays a release through the chosen strategy, pod by pod, with the error rate users see
+const RolloutSimulator: React.FC<RolloutSimulatorProps> = ({ replicas, healthCheck, strategies }) => {
+  const available = strategies.filter(isRolloutStrategy)
+  const [strategy, setStrategy] = useState<RolloutStrategy>(available[0] ?? 'rolling')
+  const [maxSurge, setMaxSurge] = useState(DEFAULT_MAX_SURGE)
+  const [maxUnavailable, setMaxUnavailable] = useState(DEFAULT_MAX_UNAVAILABLE)
+  const [weightsText, setWeightsText] = useState(DEFAULT_CANARY_WEIGHTS.join(', '))
+  const [badRelease, setBadRelease] = useState(false)
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  const options = useMemo(() => ({
+    strategy,
+    replicas: Math.max(1, replicas || 1),
+    maxSurge,
+    maxUnavailable,
+    canaryWeights: parseWeights(weightsText),
+    badRelease,
+    healthCheck
+  }), [strategy, replicas, maxSurge, maxUnavailable, weightsText, badRelease, healthCheck])
+  const problems = rolloutOptionErrors(options)
+  const result = useMemo(() => simulateRollout(options), [options])
+
+  useEffect(() => {
+    setFrameIndex(0)
+    setPlaying(false)
+  }, [result])
+
+  useEffect(() => {
+    if (!playing) return
+    const interval = setInterval(() => {
+      setFrameIndex(prev => {
+        if (prev >= result.frames.length - 1) {
+          setPlaying(false)
+          return prev
+        }
+        return prev + 1
+      })
+    }, FRAME_MS)
+    return () => clearInterval(interval)
+  }, [playing, result])
+
+  const frame = result.frames[frameIndex]
+  const finished = frameIndex === result.frames.length - 1
+  const lastTime = result.frames[result.frames.length - 1].timeSec || TICK_SEC
+  const points = result.frames
+    .slice(0, frameIndex + 1)
+    .map(f => `${(f.timeSec / lastTime) * CHART_WIDTH},${CHART_HEIGHT - f.errorRate * CHART_HEIGHT}`)
+    .join(' ')
+  const events = result.frames.slice(0, frameIndex + 1).flatMap(f => f.events.map(e => ({ timeSec: f.timeSec, text: e })))
+
+  return (
+    <div className="game-container p-6 mt-8">
+      <div className="flex justify-between items-start flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 mb-1">🎬 Rollout Simulator</h2>
+          <p className="text-sm text-gray-600">
+            {ROLLOUT_STRATEGIES[strategy].description}. Uses your {options.replicas} replica{options.replicas === 1 ? '' : 's'} and
+            health check ({healthCheck ? 'on' : 'off'}).
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {available.map(s => (
+            <button
+              key={s}
+              onClick={() => setStrategy(s)}
+              className={`px-3 py-1 text-sm rounded-lg border ${s === strategy ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+            >
+              {ROLLOUT_STRATEGIES[s].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        {strategy === 'rolling' && (
+          <>
+            <label className="flex items-center gap-2">
+              maxSurge
+              <input value={maxSurge} onChange={(e) => setMaxSurge(e.target.value)} className="w-16 border border-gray-300 rounded px-2 py-1 font-mono" />
+            </label>
+            <label className="flex items-center gap-2">
+              maxUnavailable
+              <input value={maxUnavailable} onChange={(e) => setMaxUnavailable(e.target.value)} className="w-16 border border-gray-300 rounded px-2 py-1 font-mono" />
+            </label>
+          </>
+        )}
+        {strategy === 'canary' && (
+          <label className="flex items-center gap-2">
+            Traffic weights (%)
+            <input value={weightsText} onChange={(e) => setWeightsText(e.target.value)} className="w-40 border border-gray-300 rounded px-2 py-1 font-mono" />
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={badRelease} onChange={(e) => setBadRelease(e.target.checked)} />
+          Bad release
+        </label>
+        <button
+          onClick={() => {
+            if (finished) setFrameIndex(0)
+            setPlaying(!playing)
+          }}
+          className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          {playing ? '⏸ Pause' : finished ? '↺ Replay' : '▶ Play'}
+        </button>
+        <button
+          onClick={() => setFrameIndex(prev => Math.min(prev + 1, result.frames.length - 1))}
+          disabled={playing || finished}
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+        >
+          Step
+        </button>
+      </div>
+
+      {problems.map(problem => (
+        <div key={problem} className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 mb-2 text-sm text-yellow-800">
+          ⚠️ {problem}. The run below falls back to a setting that can make progress.
+        </div>
+      ))}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div>
+          <div className="text-xs text-gray-500 mb-2">
+            t = {frame.timeSec}s · <span className="text-blue-600">■ old</span> <span className="text-green-600">■ new</span>{' '}
+            <span className="text-gray-400">■ starting</span> <span className="text-red-500">■ failing probe</span>
+          </div>
+          <div className="flex flex-wrap gap-2 min-h-[3rem]">
+            {frame.pods.map(pod => (
+              <div
+                key={pod.id}
+                className={`w-12 h-12 rounded text-[10px] text-white flex items-center justify-center transition-all duration-300 ${podColor(pod)}`}
+                title={`${pod.id}: ${pod.phase}`}
+              >
+                {pod.id}
+              </div>
+            ))}
+          </div>
+          <div className="mt-4">
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>Traffic to new version</span>
+              <span>{Math.round(frame.trafficToNew * 100)}%</span>
+            </div>
+            <div className="w-full bg-blue-200 rounded-full h-2">
+              <div className="bg-green-500 h-2 rounded-full transition-all duration-300" style={{ width: `${frame.trafficToNew * 100}%` }} />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>User-facing error rate</span>
+            <span className={frame.errorRate > 0 ? 'text-red-600 font-semibold' : ''}>{Math.round(frame.errorRate * 100)}%</span>
+          </div>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 bg-gray-50 border border-gray-200 rounded">
+            <polyline points={points} fill="none" stroke="#dc2626" strokeWidth="3" />
+          </svg>
+          <div className="mt-2 max-h-32 overflow-auto text-xs font-mono text-gray-700 space-y-0.5">
+            {events.map((e, i) => (
+              <div key={i}><span className="text-gray-400">{e.timeSec}s</span> {e.text}</div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {finished && (
+        <div className={`mt-4 border rounded-lg p-3 text-sm ${OUTCOME_TEXT[result.outcome].className}`}>
+          {OUTCOME_TEXT[result.outcome].text}
+          <div className="mt-1 text-xs">
+            Took {result.durationSec}s · peak error rate {Math.round(result.peakErrorRate * 100)}% · fewest ready pods {result.minReadyPods}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RolloutSimulator
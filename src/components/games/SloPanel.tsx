@@ -0,0 +1,96 @@
+import React from 'react'
+import type { ServiceMetrics } from './outageEngine'
+import { SLI_LABELS, burnDown, errorBudgets, estimateP95, type Sli, type SloTracking } from './slo'
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 120
+
+const SLI_COLORS: Record<Sli, string> = {
+  availability: '#2563eb',
+  latency: '#9333ea'
+}
+
+interface SloPanelProps {
+  tracking: SloTracking
+  durationSec: number
+  edge: ServiceMetrics
+}
+
+// SLO targets, what is left of each error budget and how fast it is burning
+const SloPanel: React.FC<SloPanelProps> = ({ tracking, durationSec, edge }) => {
+  const budgets = errorBudgets(tracking)
+  const requests = tracking.samples.reduce((sum, sample) => sum + sample.requests, 0)
+  const failed = tracking.samples.reduce((sum, sample) => sum + sample.failed, 0)
+  const availability = requests > 0 ? 100 * (1 - failed / requests) : 100
+  const p95 = estimateP95(edge.responseTime)
+  const history = burnDown(tracking)
+
+  const points = (sli: Sli) => [{ atSec: 0, availability: 1, latency: 1 }, ...history]
+    .map((point) => `${(point.atSec / durationSec) * CHART_WIDTH},${CHART_HEIGHT - Math.max(0, point[sli]) * CHART_HEIGHT}`)
+    .join(' ')
+
+  const rows: { sli: Sli; target: string; current: string; met: boolean }[] = [
+    {
+      sli: 'availability',
+      target: `${tracking.slo.availability}%`,
+      current: `${availability.toFixed(2)}%`,
+      met: availability >= tracking.slo.availability
+    },
+    {
+      sli: 'latency',
+      target: `${tracking.slo.latencyP95Ms}ms`,
+      current: `${p95.toFixed(0)}ms`,
+      met: p95 <= tracking.slo.latencyP95Ms
+    }
+  ]
+
+  return (
+    <div className="game-container p-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">SLOs and Error Budget</h2>
+      <table className="w-full text-sm mb-4">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="pb-1">SLO</th>
+            <th className="pb-1">Target</th>
+            <th className="pb-1">Now</th>
+            <th className="pb-1">Budget left</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.sli}>
+              <td className="font-medium" style={{ color: SLI_COLORS[row.sli] }}>{SLI_LABELS[row.sli]}</td>
+              <td>{row.target}</td>
+              <td className={row.met ? 'text-green-600' : 'text-red-600'}>{row.current}</td>
+              <td className={budgets[row.sli].remaining > 0.5 ? 'text-green-600' : budgets[row.sli].remaining > 0 ? 'text-yellow-600' : 'text-red-600 font-semibold'}>
+                {budgets[row.sli].remaining > 0 ? `${Math.round(budgets[row.sli].remaining * 100)}%` : 'Exhausted'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="text-xs text-gray-500 mb-1">Error budget remaining over the shift</div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 bg-gray-50 border border-gray-200 rounded">
+        {(['availability', 'latency'] as Sli[]).map((sli) => (
+          <polyline key={sli} points={points(sli)} fill="none" stroke={SLI_COLORS[sli]} strokeWidth="3" />
+        ))}
+      </svg>
+
+      {tracking.alerts.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {tracking.alerts.map((alert, i) => (
+            <li key={i} className={alert.severity === 'critical' ? 'text-red-700' : 'text-yellow-700'}>
+              <span className="font-mono text-gray-400 mr-2">
+                {Math.floor(alert.atSec / 60)}:{(alert.atSec % 60).toString().padStart(2, '0')}
+              </span>
+              🔥 {SLI_LABELS[alert.sli]} budget burning {alert.burnRate.toFixed(1)}x too fast over the last {alert.windowSec}s
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default SloPanel
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_ALERT_RULES,
+  alertRuleIssues,
+  describeRule,
+  evaluateAlerts,
+  initialAlertStatus,
+  scoreAlerting,
+  type AlertRule,
+  type Page
+} from '../alerting'
+import {
+  INCIDENT_TYPES,
+  MAX_BLIP_SEC,
+  TOPOLOGY,
+  createOutage,
+  declareIncident,
+  findService,
+  scoreOutage,
+  startStrategy,
+  tickOutage,
+  type OutageState
+} from '../outageEngine'
+
+const run = (state: OutageState, ticks: number) => {
+  let next = state
+  for (let i = 0; i < ticks; i++) next = tickOutage(next)
+  return next
+}
+
+const rule = (changes: Partial<AlertRule> = {}): AlertRule => ({ ...DEFAULT_ALERT_RULES[0], ...changes })
+
+const baselines = () => Object.fromEntries(TOPOLOGY.map((s) => [s.id, { ...s.baseline }])) as OutageState['metrics']
+
+const withEdgeErrors = (errorRate: number) => {
+  const metrics = baselines()
+  metrics['load-balancer'].errorRate = errorRate
+  return metrics
+}
+
+describe('Alert rules', () => {
+  it('fires once the condition has held for the whole window, once per breach', () => {
+    const rules = [rule({ forSec: 3 })]
+    let status = initialAlertStatus(rules)
+    const firedAt: number[] = []
+    const readings = [9, 9, 9, 9, 9, 2, 9, 9, 9, 9]
+    readings.forEach((errorRate, tick) => {
+      const result = evaluateAlerts(rules, status, withEdgeErrors(errorRate), tick)
+      status = result.status
+      if (result.fired.length > 0) firedAt.push(tick)
+    })
+    expect(firedAt).toEqual([3, 9])
+  })
+
+  it('supports rules that fire when a metric drops', () => {
+    const rules = [rule({ metric: 'requestsPerSecond', comparator: 'below', threshold: 100, forSec: 0 })]
+    const metrics = baselines()
+    metrics['load-balancer'].requestsPerSecond = 20
+    expect(evaluateAlerts(rules, initialAlertStatus(rules), metrics, 0).fired).toEqual([{ rule: rules[0], value: 20 }])
+  })
+
+  it('flags thresholds that normal readings already breach and awkward windows', () => {
+    const baseline = findService('load-balancer').baseline
+    expect(alertRuleIssues(rule(), baseline)).toEqual([])
+    expect(alertRuleIssues(rule({ threshold: 1 }), baseline).map((i) => i.severity)).toEqual(['error'])
+    expect(alertRuleIssues(rule({ threshold: NaN, forSec: 200 }), baseline).map((i) => i.message)).toEqual([
+      'Threshold must be a number',
+      'Window must be a whole number of seconds from 0 to 120'
+    ])
+    expect(alertRuleIssues(rule({ forSec: 2 }), baseline)[0].message).toBe('A window this short pages on every brief blip')
+    expect(alertRuleIssues(rule({ forSec: 90 }), baseline)[0].severity).toBe('warning')
+  })
+
+  it('describes a rule in words', () => {
+    expect(describeRule(rule(), 'Load Balancer')).toBe('Load Balancer error rate above 5% for 10s')
+  })
+})
+
+describe('Alerting score', () => {
+  const page = (atSec: number, incidentId: string | null, severity: Page['severity'] = 'critical'): Page => ({
+    ruleId: 'rule-1', atSec, service: 'load-balancer', metric: 'errorRate', value: 9, severity, incidentId
+  })
+  const incident = { id: 'db-pool', startedAt: 20 }
+
+  it('charges for slow detection, misses and noise', () => {
+    expect(scoreAlerting([page(35, 'db-pool')], incident)).toEqual({ timeToDetect: 15, missedIncident: false, falsePages: 0, penalty: 0 })
+    expect(scoreAlerting([page(60, 'db-pool')], incident).penalty).toBe(10)
+    expect(scoreAlerting([page(5, null), page(8, null, 'warning')], incident)).toEqual({
+      timeToDetect: null, missedIncident: true, falsePages: 2, penalty: 27
+    })
+    expect(scoreAlerting(Array.from({ length: 10 }, (_, i) => page(i, null)), null).penalty).toBe(20)
+  })
+})
+
+describe('Paging in the simulation', () => {
+  const dbOutage = (alertRules: AlertRule[]) =>
+    createOutage(2, { incidentTypes: INCIDENT_TYPES.filter((t) => t.id === 'db-pool'), alertRules })
+
+  it('keeps the incident hidden until a rule pages about it', () => {
+    const start = dbOutage(DEFAULT_ALERT_RULES)
+    const onset = run(start, start.plan.onsetTick)
+    expect(onset.incidents[0].detection).toBeNull()
+    expect(startStrategy(onset, 'Scale Up', 'database')).toBe(onset)
+
+    const paged = run(onset, 60)
+    const detection = paged.incidents[0].detection!
+    expect(detection.via).toBe('page')
+    expect(detection.atSec - start.plan.onsetTick).toBeGreaterThanOrEqual(DEFAULT_ALERT_RULES[0].forSec)
+    expect(paged.alerting!.pages.find((p) => p.incidentId === 'db-pool')?.atSec).toBe(detection.atSec)
+    expect(scoreOutage(paged).alerting).toMatchObject({ missedIncident: false, timeToDetect: detection.atSec - start.plan.onsetTick })
+  })
+
+  it('pages on blips with a short window and ignores them with a longer one', () => {
+    const blip = dbOutage([]).plan.blips[0]
+    const blipRule = rule({ service: blip.service, metric: 'errorRate', threshold: findService(blip.service).baseline.errorRate + 0.5 })
+    // A shift where only the blips happen
+    const quietShift = (forSec: number) => {
+      const state = dbOutage([{ ...blipRule, forSec }])
+      return run({ ...state, plan: { ...state.plan, onsetTick: Infinity } }, blip.startTick + blip.durationSec)
+    }
+    const noisy = quietShift(0).alerting!.pages
+    expect(noisy.length).toBeGreaterThan(0)
+    expect(noisy.every((p) => p.incidentId === null)).toBe(true)
+    expect(quietShift(MAX_BLIP_SEC).alerting!.pages).toEqual([])
+  })
+
+  it('lets the player declare an incident nobody was paged about', () => {
+    const start = dbOutage([])
+    expect(declareIncident(start)).toBe(start)
+    const declared = declareIncident(run(start, start.plan.onsetTick + 5))
+    expect(declared.incidents[0].detection).toEqual({ atSec: start.plan.onsetTick + 5, via: 'manual' })
+    expect(scoreOutage(declared).alerting).toMatchObject({ missedIncident: true, penalty: 20 })
+  })
+})
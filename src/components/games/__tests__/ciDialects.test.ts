@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import yaml from 'js-yaml'
+import missionsData from '../../../missions.json'
+import {
+  exportPipeline,
+  toNeutralJobs,
+  validateAzurePipelines,
+  validateGitLabCi
+} from '../ciDialects'
+
+const templates = (missionsData.missions.find((m) => m.id === 3)?.validation as { yamlTemplate: Record<string, string> }).yamlTemplate
+
+const canvasJobs = [
+  { id: 'job-test', name: 'Test', yaml: templates.test, dependencies: [] },
+  { id: 'job-lint', name: 'Lint', yaml: templates.lint, dependencies: [] },
+  { id: 'job-build', name: 'Build', yaml: templates.build, dependencies: ['job-test', 'job-lint'] },
+  { id: 'job-push', name: 'Push', yaml: templates.push, dependencies: ['job-build'] },
+  { id: 'job-deploy', name: 'Deploy', yaml: templates.deploy, dependencies: ['job-push'] }
+]
+
+describe('Neutral pipeline model', () => {
+  it('takes needs from the canvas and steps from the YAML', () => {
+    const [test, , build] = toNeutralJobs(canvasJobs)
+    expect(build.needs).toEqual(['test', 'lint'])
+    expect(test.steps[0]).toEqual({ action: 'actions/checkout@v4' })
+    expect(test.steps[3]).toEqual({ run: 'pytest' })
+  })
+
+  it('keeps both jobs when two names share an id', () => {
+    const jobs = [
+      { id: 'a', name: 'Build', yaml: templates.test, dependencies: [] },
+      { id: 'b', name: 'build!', yaml: templates.test, dependencies: ['a'] }
+    ]
+    expect(toNeutralJobs(jobs).map((job) => [job.id, job.needs])).toEqual([['build', []], ['build-2', ['build']]])
+    expect(exportPipeline(jobs, 'gitlab').diagnostics.filter((d) => d.severity === 'error')).toEqual([])
+  })
+})
+
+describe('GitHub Actions export', () => {
+  it('is built from the neutral model like the other dialects', () => {
+    const result = exportPipeline(canvasJobs, 'github')
+    expect(result.fileName).toBe('.github/workflows/ci.yml')
+    expect(result.diagnostics).toEqual([])
+    const doc = yaml.load(result.yaml) as { on: unknown; jobs: Record<string, any> }
+    expect(doc.on).toEqual({ push: { branches: ['main'] }, pull_request: { branches: ['main'] } })
+    expect(Object.keys(doc.jobs)).toEqual(toNeutralJobs(canvasJobs).map((job) => job.id))
+    expect(doc.jobs.build.needs).toEqual(['test', 'lint'])
+    expect(doc.jobs.push.steps).toEqual([
+      { uses: 'docker/build-push-action@v6', with: { push: true, tags: 'myapp:${{ github.sha }}' } }
+    ])
+  })
+
+  it('warns about job keys the neutral model leaves out', () => {
+    const jobs = [{ id: 'x', name: 'X', yaml: 'runs-on: ubuntu-latest\nif: github.ref == \'refs/heads/main\'\nsteps:\n  - run: make', dependencies: [] }]
+    expect(exportPipeline(jobs, 'github').diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', message: 'X: "if" is not supported by the export and was left out' })
+    ])
+  })
+})
+
+describe('GitLab CI export', () => {
+  it('renames jobs whose id is a reserved keyword', () => {
+    const jobs = [
+      { id: 'a', name: 'Cache', yaml: 'runs-on: ubuntu-latest\nsteps:\n  - run: make', dependencies: [] },
+      { id: 'b', name: 'Stages', yaml: 'runs-on: ubuntu-latest\nsteps:\n  - run: make', dependencies: ['a'] }
+    ]
+    const result = exportPipeline(jobs, 'gitlab')
+    const doc = yaml.load(result.yaml) as Record<string, any>
+    expect(doc.cache).toBeUndefined()
+    expect(doc.stages).toEqual(['cache-job', 'stages-job'])
+    expect(doc['stages-job'].needs).toEqual(['cache-job'])
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', message: 'Cache: "cache" is a reserved GitLab keyword, so this job is exported as "cache-job"' }),
+      expect.objectContaining({ severity: 'warning', message: 'Stages: "stages" is a reserved GitLab keyword, so this job is exported as "stages-job"' })
+    ])
+  })
+
+  it('produces a valid .gitlab-ci.yml with stages by depth', () => {
+    const result = exportPipeline(canvasJobs, 'gitlab')
+    expect(result.fileName).toBe('.gitlab-ci.yml')
+    expect(result.diagnostics).toEqual([])
+    const doc = yaml.load(result.yaml) as Record<string, any>
+    expect(doc.stages).toEqual(['test-lint', 'build', 'push', 'deploy'])
+    expect(doc.test).toMatchObject({ stage: 'test-lint', image: 'python:3.12', script: ['pip install -r requirements.txt', 'pytest'] })
+    expect(doc.build.needs).toEqual(['test', 'lint'])
+    expect(doc.push.script).toEqual(['docker build -t myapp:$CI_COMMIT_SHA .', 'docker push myapp:$CI_COMMIT_SHA'])
+  })
+
+  it('validates stages, scripts and needs', () => {
+    const diagnostics = validateGitLabCi([
+      'stages: [build, test]',
+      'compile:',
+      '  stage: build',
+      '  needs: [unit]',
+      '  script: make',
+      'unit:',
+      '  stage: test',
+      '  script: []',
+      'deploy:',
+      '  stage: deploy',
+      '  script: ./deploy.sh'
+    ].join('\n'))
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 4, message: '"compile" (stage build) cannot need "unit" from the later stage test' }),
+      expect.objectContaining({ line: 8, message: '"script" must be a command or a non-empty list of commands' }),
+      expect.objectContaining({ line: 10, message: 'Stage "deploy" is not listed in "stages"' })
+    ]))
+  })
+})
+
+describe('Azure Pipelines export', () => {
+  it('produces a valid azure-pipelines.yml with dependsOn', () => {
+    const result = exportPipeline(canvasJobs, 'azure')
+    expect(result.diagnostics).toEqual([])
+    const doc = yaml.load(result.yaml) as { stages: Record<string, any>[] }
+    const build = doc.stages.find((s) => s.stage === 'Build')
+    expect(build?.dependsOn).toEqual(['Test', 'Lint'])
+    expect(build?.jobs[0].steps).toEqual([
+      { checkout: 'self' },
+      { task: 'Docker@2', displayName: 'Build image', inputs: { command: 'build', repository: 'myapp', tags: '$(Build.SourceVersion)' } }
+    ])
+  })
+
+  it('validates step types, tasks and dependsOn', () => {
+    const diagnostics = validateAzurePipelines([
+      'trigger: [main]',
+      'stages:',
+      '  - stage: Build',
+      '    dependsOn: Ghost',
+      '    jobs:',
+      '      - job: build',
+      '        steps:',
+      '          - script: make',
+      '            task: Npm',
+      '          - bash: ls',
+      '            inputs:',
+      '              a: b'
+    ].join('\n'))
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 4, message: '"dependsOn" references unknown stage "Ghost"' }),
+      expect.objectContaining({ line: 8, message: 'A step cannot combine "script" and "task"' }),
+      expect.objectContaining({ line: 9, message: '"Npm" should look like TaskName@version' }),
+      expect.objectContaining({ line: 11, message: '"inputs" only applies to "task" steps' })
+    ]))
+  })
+
+  it('warns about actions it cannot translate', () => {
+    const jobs = [{ id: 'x', name: 'X', yaml: 'runs-on: ubuntu-latest\nsteps:\n  - uses: acme/custom@v1', dependencies: [] }]
+    const result = exportPipeline(jobs, 'azure')
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', message: 'X: "acme/custom@v1" has no Azure Pipelines task; replaced with a placeholder script' })
+    ])
+  })
+})
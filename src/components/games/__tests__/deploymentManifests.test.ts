@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import yaml from 'js-yaml'
+import {
+  SECRET_PLACEHOLDER,
+  renderCompose,
+  renderKubernetes,
+  renderManifest,
+  toComposeCpus,
+  toComposeMemory,
+  type DeploymentConfig
+} from '../deploymentManifests'
+
+const config: DeploymentConfig = {
+  imageTag: 'v1.2.3',
+  port: 8080,
+  environment: 'production',
+  replicas: 3,
+  resources: { cpu: '500m', memory: '512Mi', requests: { cpu: '250m', memory: '' } },
+  environmentVariables: [{ name: 'LOG_LEVEL', value: 'info' }, { name: '', value: 'ignored' }],
+  healthCheck: { enabled: true, path: 'healthz', interval: 15 },
+  secrets: [{ name: 'DATABASE_PASSWORD', key: 'db-password' }]
+}
+
+const blank: DeploymentConfig = {
+  imageTag: '',
+  port: 0,
+  environment: '',
+  replicas: 1,
+  resources: { cpu: '', memory: '', requests: { cpu: '', memory: '' } },
+  environmentVariables: [],
+  healthCheck: { enabled: false, path: '', interval: 30 },
+  secrets: []
+}
+
+const loadAll = (text: string) => yaml.loadAll(text) as Array<Record<string, any>>
+
+describe('Kubernetes manifests', () => {
+  it('renders a Deployment, Service, ConfigMap and Secret from the form', () => {
+    const docs = loadAll(renderKubernetes(config))
+    expect(docs.map((d) => d.kind)).toEqual(['Deployment', 'Service', 'ConfigMap', 'Secret'])
+    const [deployment, service, configMap, secret] = docs
+    const container = deployment.spec.template.spec.containers[0]
+    expect(deployment.spec.replicas).toBe(3)
+    expect(deployment.spec.selector.matchLabels).toEqual({ app: 'myapp' })
+    expect(container).toMatchObject({
+      image: 'ghcr.io/myorg/myapp:v1.2.3',
+      ports: [{ containerPort: 8080 }],
+      resources: { requests: { cpu: '250m' }, limits: { cpu: '500m', memory: '512Mi' } },
+      readinessProbe: { httpGet: { path: '/healthz', port: 8080 }, periodSeconds: 15 }
+    })
+    expect(container.env).toEqual([
+      { name: 'DATABASE_PASSWORD', valueFrom: { secretKeyRef: { name: 'myapp-secrets', key: 'db-password' } } }
+    ])
+    expect(service.spec.ports).toEqual([{ port: 80, targetPort: 8080, protocol: 'TCP' }])
+    expect(configMap.data).toEqual({ APP_ENV: 'production', LOG_LEVEL: 'info' })
+    expect(secret.stringData).toEqual({ 'db-password': SECRET_PLACEHOLDER })
+  })
+
+  it('leaves out what has not been filled in yet', () => {
+    const docs = loadAll(renderKubernetes(blank))
+    expect(docs.map((d) => d.kind)).toEqual(['Deployment'])
+    const container = docs[0].spec.template.spec.containers[0]
+    expect(container).toEqual({ name: 'myapp', image: 'ghcr.io/myorg/myapp:latest' })
+  })
+})
+
+describe('docker-compose', () => {
+  it('maps limits, secrets and the health check to compose syntax', () => {
+    const doc = yaml.load(renderCompose(config)) as Record<string, any>
+    const service = doc.services.myapp
+    expect(service.ports).toEqual(['8080'])
+    expect(service.environment).toEqual({
+      APP_ENV: 'production',
+      LOG_LEVEL: 'info',
+      DATABASE_PASSWORD_FILE: '/run/secrets/db-password'
+    })
+    expect(service.deploy).toEqual({
+      replicas: 3,
+      resources: { limits: { cpus: '0.5', memory: '512M' }, reservations: { cpus: '0.25' } }
+    })
+    expect(service.healthcheck.test).toEqual(['CMD', 'curl', '-f', 'http://localhost:8080/healthz'])
+    expect(doc.secrets).toEqual({ 'db-password': { file: './secrets/db-password' } })
+  })
+
+  it('publishes a fixed host port for a single replica', () => {
+    const doc = yaml.load(renderCompose({ ...config, replicas: 1 })) as Record<string, any>
+    expect(doc.services.myapp.ports).toEqual(['8080:8080'])
+  })
+
+  it('converts resource units', () => {
+    expect(toComposeCpus('2000m')).toBe('2')
+    expect(toComposeCpus('0.25')).toBe('0.25')
+    expect(toComposeMemory('1Gi')).toBe('1G')
+  })
+})
+
+describe('Format toggle', () => {
+  it('names the file for each format', () => {
+    expect(renderManifest(config, 'kubernetes').fileName).toBe('k8s/deployment.yaml')
+    expect(renderManifest(config, 'compose').fileName).toBe('docker-compose.yml')
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import missionsData from '../../../missions.json'
+import type { DeploymentConfig } from '../deploymentManifests'
+import {
+  matchRoute,
+  parseCpu,
+  parseMemory,
+  parseQuantity,
+  validateDeploymentConfig,
+  type AppSpec
+} from '../deploymentValidation'
+import { detectSecret } from '../secretScanner'
+
+const app = (missionsData.missions.find((m) => m.id === 5)?.validation as { app: AppSpec }).app
+
+const base: DeploymentConfig = {
+  imageTag: 'v1.0.0',
+  port: 8080,
+  environment: 'production',
+  replicas: 2,
+  resources: { cpu: '500m', memory: '512Mi', requests: { cpu: '250m', memory: '256Mi' } },
+  environmentVariables: [{ name: 'LOG_LEVEL', value: 'info' }],
+  healthCheck: { enabled: true, path: '/health', interval: 30 },
+  secrets: [{ name: 'DATABASE_PASSWORD', key: 'db-password' }]
+}
+
+const messages = (config: Partial<DeploymentConfig>) => validateDeploymentConfig({ ...base, ...config }, app).map((i) => `${i.severity} ${i.field}: ${i.message}`)
+
+describe('Kubernetes quantities', () => {
+  it('parses decimal, binary and exponent suffixes', () => {
+    expect(parseCpu('500m')).toBe(0.5)
+    expect(parseCpu('1.5')).toBe(1.5)
+    expect(parseCpu('1Gi')).toBeNull()
+    expect(parseMemory('512Mi')).toBe(512 * 2 ** 20)
+    expect(parseMemory('1G')).toBe(1e9)
+    expect(parseMemory('1e3')).toBe(1000)
+    expect(parseQuantity('1.5Gi')).toEqual({ value: 1.5 * 2 ** 30, suffix: 'Gi' })
+    expect(parseQuantity('12 Mi')).toBeNull()
+    expect(parseQuantity('lots')).toBeNull()
+  })
+})
+
+describe('Deployment config checks', () => {
+  it('accepts a sound production config', () => {
+    expect(messages({})).toEqual([])
+  })
+
+  it('catches unparseable quantities and milli-bytes of memory', () => {
+    expect(messages({ resources: { cpu: 'half', memory: '512m', requests: { cpu: '', memory: '' } } })).toEqual([
+      'error cpu: CPU limit "half" is not a CPU quantity; use cores ("0.5") or millicores ("500m")',
+      'error memory: Memory limit "512m" means 0.512 bytes (m is milli); you probably meant "512Mi"',
+      'info cpu: No requests set, so Kubernetes reserves the full limits for every pod'
+    ])
+  })
+
+  it('requires requests to fit under limits', () => {
+    expect(messages({ resources: { cpu: '500m', memory: '1Gi', requests: { cpu: '1', memory: '2Gi' } } })).toEqual([
+      'error cpu: CPU request (1) is above the limit (500m); Kubernetes rejects the pod',
+      'error memory: Memory request (2Gi) is above the limit (1Gi); Kubernetes rejects the pod'
+    ])
+  })
+
+  it('warns about undersized production resources', () => {
+    const issues = messages({ resources: { cpu: '100m', memory: '128Mi', requests: { cpu: '100m', memory: '128Mi' } } })
+    expect(issues.every((i) => i.startsWith('warning'))).toBe(true)
+    expect(issues).toHaveLength(2)
+  })
+
+  it('checks the port against the app', () => {
+    expect(messages({ port: 3000 })).toEqual(['error port: The app listens on 8080; connections to 3000 will be refused'])
+  })
+
+  it('validates env var names and finds duplicates', () => {
+    expect(messages({
+      environmentVariables: [
+        { name: '1ST_RUN', value: 'yes' },
+        { name: 'DATABASE_PASSWORD', value: '' },
+        { name: '', value: 'orphan' }
+      ]
+    })).toEqual([
+      'error envVars: "1ST_RUN" is not a valid variable name; use letters, digits and _ and do not start with a digit',
+      'error envVars: Environment variable 3 has a value but no name',
+      'error secrets: DATABASE_PASSWORD is defined twice (an environment variable and a secret); only one value will win'
+    ])
+  })
+
+  it('spots secrets kept in plain environment variables', () => {
+    expect(detectSecret('sk_live_abcdefghijkl', 'STRIPE_KEY')).toBe('its value looks like a Stripe key')
+    expect(detectSecret('postgres://app:hunter2@db:5432/app', 'DATABASE_URL')).toBe('its value looks like a URL with a password in it')
+    expect(detectSecret('abc', 'API_TOKEN')).toBe('its name says it holds a credential')
+    expect(detectSecret('postgres://db:5432/app', 'DATABASE_URL')).toBeNull()
+    expect(messages({ environmentVariables: [{ name: 'API_TOKEN', value: 'abc' }] })).toEqual([
+      'error envVars: API_TOKEN is stored in plain text but its name says it holds a credential; move it to Secrets'
+    ])
+  })
+
+  it('matches the health check path against declared routes', () => {
+    expect(matchRoute('/api/items/42', app.routes)?.path).toBe('/api/items/{id}')
+    expect(messages({ healthCheck: { enabled: true, path: '/healthz', interval: 30 } })).toEqual([
+      'error healthCheck: The app does not serve /healthz, so every probe gets a 404 and pods restart forever; try /health or /ready'
+    ])
+    expect(messages({ healthCheck: { enabled: true, path: '/api/items', interval: 30 } })[0]).toMatch(/^warning healthCheck: \/api\/items is an API route;/)
+    expect(messages({ healthCheck: { enabled: false, path: '/nowhere', interval: 0 } })).toEqual([])
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import missions from '../../../missions.json'
-import { classify, validateOrder, mapRequiredOrderToUUID } from '../dockerValidation'
+import { CATEGORY_UUID, classify, stageLabels, validateDockerfile, validateOrder, mapRequiredOrderToUUID } from '../dockerValidation'
 
 const mission1 = missions.missions.find((m) => m.id === 1)!
 
@@ -50,3 +50,87 @@ describe('Dockerfile validation (UUID-based)', () => {
 })
 
 
+
+describe('Dockerfile validation (semantic)', () => {
+  it('classifies equivalent spellings into the same category', () => {
+    expect(classify('COPY requirements*.txt ./')).toEqual(CATEGORY_UUID.COPY_REQS)
+    expect(classify('ADD requirements.txt /app/')).toEqual(CATEGORY_UUID.COPY_REQS)
+    expect(classify('copy ./ /app')).toEqual(CATEGORY_UUID.COPY_APP)
+    expect(classify('RUN ["pip", "install", "-r", "requirements.txt"]')).toEqual(CATEGORY_UUID.RUN_PIP)
+    expect(classify('RUN python -m pip install \\\n  -r requirements.txt')).toEqual(CATEGORY_UUID.RUN_PIP)
+    expect(classify('ENTRYPOINT ["gunicorn", "app:app"]')).toEqual(CATEGORY_UUID.CMD)
+  })
+
+  it('does not mistake look-alike instructions for required steps', () => {
+    expect(classify('HEALTHCHECK CMD curl -f http://localhost:8000/health')).toEqual(CATEGORY_UUID.EXTRA)
+    expect(classify('RUN apt-get install -y curl')).toEqual(CATEGORY_UUID.EXTRA)
+  })
+
+  it('validates placed contents and lints the assembled Dockerfile', () => {
+    const requiredLabels = mission1.validation!.requiredOrder!
+    const result = validateDockerfile([
+      'FROM python:3.12-slim',
+      'WORKDIR /app',
+      'COPY requirements.txt .',
+      'RUN pip install -r requirements.txt',
+      'COPY . .',
+      'EXPOSE 8000',
+      'CMD ["python", "app.py"]'
+    ], requiredLabels)
+    expect(result.success).toBe(true)
+    expect(result.lint.map((f) => f.ruleId)).toEqual(['DL3002', 'DL3042'])
+  })
+})
+
+describe('Dockerfile validation (multi-stage)', () => {
+  const variant = mission1.validation!.variants!.find((v) => v.id === 'multi-stage')!
+  const solution = [
+    'FROM python:3.12 AS builder',
+    'WORKDIR /build',
+    'COPY requirements.txt .',
+    'RUN pip install --prefix=/install -r requirements.txt',
+    'FROM python:3.12-slim AS runtime',
+    'WORKDIR /app',
+    'COPY --from=builder /install /usr/local',
+    'COPY . .',
+    'EXPOSE 8000',
+    'CMD ["python", "app.py"]'
+  ]
+
+  it('classifies stage copies separately from app copies', () => {
+    expect(classify('COPY --from=builder /install /usr/local')).toEqual(CATEGORY_UUID.COPY_FROM_STAGE)
+  })
+
+  it('accepts the builder/runtime split', () => {
+    const result = validateDockerfile(solution, variant.requiredOrder, { requiredStages: variant.requiredStages })
+    expect(result.success).toBe(true)
+    expect(result.stages.stageCount).toBe(2)
+  })
+
+  it('rejects copying from a stage that is not defined yet', () => {
+    const placed = [...solution]
+    placed[6] = 'COPY --from=runtime /app /app'
+    const result = validateDockerfile(placed, variant.requiredOrder, { requiredStages: 2 })
+    expect(result.success).toBe(false)
+    expect(result.stages.feedback).toContain('❌ COPY --from=runtime must reference a stage defined earlier')
+  })
+
+  it('treats an unknown --from name as an external image', () => {
+    const placed = [...solution]
+    placed[7] = 'COPY --from=nginx:alpine /etc/nginx/nginx.conf /etc/nginx/'
+    const result = validateDockerfile(placed, variant.requiredOrder, { requiredStages: 2 })
+    expect(result.stages.success).toBe(true)
+    expect(result.stages.feedback).toContain('⚠️ COPY --from=nginx:alpine is not a stage in this Dockerfile, so it is pulled as an external image')
+  })
+
+  it('rejects a single-stage Dockerfile', () => {
+    const result = validateDockerfile(solution.slice(4), variant.requiredOrder, { requiredStages: 2 })
+    expect(result.stages.success).toBe(false)
+  })
+
+  it('labels each slot with its stage', () => {
+    expect(stageLabels(['FROM a AS builder', 'RUN x', null, 'FROM b', 'CMD ["y"]'])).toEqual([
+      'builder', 'builder', 'builder', 'stage 1', 'stage 1'
+    ])
+  })
+})
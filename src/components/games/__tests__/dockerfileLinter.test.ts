@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { lintDockerfile } from '../dockerfileLinter'
+
+const ruleIds = (source: string) => lintDockerfile(source).map((f) => f.ruleId)
+
+describe('Dockerfile linter', () => {
+  it('accepts a clean Dockerfile', () => {
+    const source = [
+      'FROM python:3.12-slim',
+      'WORKDIR /app',
+      'COPY requirements.txt .',
+      'RUN pip install --no-cache-dir -r requirements.txt',
+      'COPY . .',
+      'USER app',
+      'CMD ["python", "app.py"]'
+    ].join('\n')
+    expect(lintDockerfile(source)).toEqual([])
+  })
+
+  it('flags latest and untagged base images', () => {
+    expect(ruleIds('FROM python:latest\nUSER app')).toContain('DL3007')
+    expect(ruleIds('FROM python\nUSER app')).toContain('DL3006')
+    expect(ruleIds('FROM python:3.12 AS build\nFROM build\nUSER app')).not.toContain('DL3006')
+  })
+
+  it('flags pip install without --no-cache-dir', () => {
+    const findings = lintDockerfile('FROM python:3.12\nRUN pip install -r requirements.txt\nUSER app')
+    expect(findings).toEqual([expect.objectContaining({ ruleId: 'DL3042', line: 2 })])
+  })
+
+  it('flags apt-get installs that skip cleanup', () => {
+    const dirty = ruleIds('FROM debian:12\nRUN apt-get update && apt-get install curl\nUSER app')
+    expect(dirty).toEqual(expect.arrayContaining(['DL3009', 'DL3014', 'DL3015']))
+
+    const clean = ruleIds([
+      'FROM debian:12',
+      'RUN apt-get update \\',
+      '  && apt-get install -y --no-install-recommends curl \\',
+      '  && rm -rf /var/lib/apt/lists/*',
+      'USER app'
+    ].join('\n'))
+    expect(clean).toEqual([])
+  })
+
+  it('flags containers that run as root', () => {
+    expect(ruleIds('FROM alpine:3.20')).toContain('DL3002')
+    expect(ruleIds('FROM alpine:3.20\nUSER root')).toContain('DL3002')
+  })
+
+  it('flags shell-form CMD and duplicate CMDs', () => {
+    expect(ruleIds('FROM alpine:3.20\nUSER app\nCMD python app.py')).toContain('DL3025')
+    expect(ruleIds('FROM alpine:3.20\nUSER app\nCMD ["a"]\nCMD ["b"]')).toContain('DL4003')
+  })
+
+  it('surfaces parse errors as findings', () => {
+    expect(lintDockerfile('FROM alpine:3.20\nUSER app\nCOPPY . .')[0]).toMatchObject({ ruleId: 'DL1000', line: 3 })
+  })
+})
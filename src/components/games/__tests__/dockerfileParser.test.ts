@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { parseDockerfile, parseInstruction, splitWords } from '../dockerfileParser'
+
+describe('Dockerfile parser', () => {
+  it('parses a basic Dockerfile into typed instructions', () => {
+    const ast = parseDockerfile([
+      'FROM python:3.12-slim AS base',
+      'WORKDIR /app',
+      'COPY requirements.txt .',
+      'RUN pip install --no-cache-dir -r requirements.txt',
+      'EXPOSE 8000/tcp 53/udp',
+      'CMD ["python", "app.py"]'
+    ].join('\n'))
+
+    expect(ast.errors).toEqual([])
+    expect(ast.instructions.map((i) => i.keyword)).toEqual(['FROM', 'WORKDIR', 'COPY', 'RUN', 'EXPOSE', 'CMD'])
+
+    const from = ast.instructions[0]
+    expect(from.kind).toBe('from')
+    if (from.kind === 'from') {
+      expect(from.image).toEqual({ raw: 'python:3.12-slim', name: 'python', tag: '3.12-slim', digest: null })
+      expect(from.stageName).toBe('base')
+    }
+
+    const expose = ast.instructions[4]
+    if (expose.kind === 'expose') {
+      expect(expose.ports).toEqual([{ port: '8000', protocol: 'tcp' }, { port: '53', protocol: 'udp' }])
+    }
+
+    const cmd = ast.instructions[5]
+    if (cmd.kind === 'command') {
+      expect(cmd.command.form).toBe('exec')
+      expect(cmd.command.argv).toEqual(['python', 'app.py'])
+    }
+  })
+
+  it('joins line continuations and skips comments inside them', () => {
+    const ast = parseDockerfile([
+      'FROM debian:12',
+      '# install tools',
+      'RUN apt-get update \\',
+      '  # curl is needed for the health check',
+      '  && apt-get install -y curl',
+      'USER app'
+    ].join('\n'))
+
+    const run = ast.instructions[1]
+    expect(run.line).toBe(3)
+    expect(run.endLine).toBe(5)
+    if (run.kind === 'command') {
+      expect(run.command.text).toContain('apt-get update')
+      expect(run.command.text).toContain('apt-get install -y curl')
+      expect(run.command.text).not.toContain('health check')
+    }
+    expect(ast.comments.map((c) => c.line)).toEqual([2, 4])
+    expect(ast.instructions[2].line).toBe(6)
+  })
+
+  it('extracts flags before arguments', () => {
+    const copy = parseInstruction('COPY --from=builder --chown=app:app /out/app /usr/local/bin/app')
+    expect(copy?.kind).toBe('copy')
+    if (copy?.kind === 'copy') {
+      expect(copy.flags).toEqual([{ name: 'from', value: 'builder' }, { name: 'chown', value: 'app:app' }])
+      expect(copy.from).toBe('builder')
+      expect(copy.sources).toEqual(['/out/app'])
+      expect(copy.destination).toBe('/usr/local/bin/app')
+    }
+
+    const from = parseInstruction('FROM --platform=linux/amd64 ghcr.io/org/app@sha256:abc')
+    if (from?.kind === 'from') {
+      expect(from.flags).toEqual([{ name: 'platform', value: 'linux/amd64' }])
+      expect(from.image.name).toBe('ghcr.io/org/app')
+      expect(from.image.digest).toBe('sha256:abc')
+      expect(from.image.tag).toBeNull()
+    }
+  })
+
+  it('collects heredoc bodies', () => {
+    const ast = parseDockerfile([
+      'FROM alpine:3.20',
+      'RUN <<EOF',
+      'pip install flask',
+      'EOF',
+      'COPY <<-CONF /etc/app.conf',
+      '\tport=8000',
+      '\tCONF',
+      'CMD ["sh"]'
+    ].join('\n'))
+
+    expect(ast.errors).toEqual([])
+    const run = ast.instructions[1]
+    expect(run.heredocs).toEqual([{ delimiter: 'EOF', body: 'pip install flask', stripTabs: false }])
+    if (run.kind === 'command') expect(run.command.text).toContain('pip install flask')
+
+    const copy = ast.instructions[2]
+    if (copy.kind === 'copy') {
+      expect(copy.heredocs[0].body).toBe('port=8000')
+      expect(copy.destination).toBe('/etc/app.conf')
+    }
+    expect(ast.instructions[3].line).toBe(8)
+  })
+
+  it('honours the escape parser directive', () => {
+    const ast = parseDockerfile(['# escape=`', 'FROM mcr.microsoft.com/windows:ltsc2022', 'RUN dir `', '  C:\\'].join('\n'))
+    expect(ast.directives).toEqual({ escape: '`' })
+    expect(ast.instructions).toHaveLength(2)
+    expect(ast.instructions[1].endLine).toBe(4)
+  })
+
+  it('reports unknown instructions and missing FROM', () => {
+    const ast = parseDockerfile('WORKDIR /app\nCOPPY . .')
+    expect(ast.errors.map((e) => e.line)).toEqual([1, 2])
+  })
+
+  it('splits words respecting quotes', () => {
+    expect(splitWords('pip install "flask[async]" \'a b\'')).toEqual(['pip', 'install', 'flask[async]', 'a b'])
+  })
+})
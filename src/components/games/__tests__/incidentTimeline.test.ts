@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { INCIDENT_TYPES, createOutage, startStrategy, tickOutage, type OutageState } from '../outageEngine'
+import {
+  SNAPSHOT_INTERVAL_SEC,
+  actionEntry,
+  diffTimeline,
+  draftPostmortem,
+  postmortemIssues,
+  postmortemToMarkdown,
+  type Postmortem,
+  type TimelineEntry
+} from '../incidentTimeline'
+
+// Steps the simulation the way the component does, recording the timeline
+const record = (state: OutageState, timeline: TimelineEntry[], ticks: number) => {
+  let current = state
+  for (let i = 0; i < ticks; i++) {
+    const next = tickOutage(current)
+    timeline.push(...diffTimeline(current, next))
+    current = next
+  }
+  return current
+}
+
+const dbOutage = () => createOutage(2, { incidentTypes: INCIDENT_TYPES.filter((t) => t.id === 'db-pool') })
+
+// Misses once on the API, then scales up the database
+const playThrough = () => {
+  const timeline: TimelineEntry[] = []
+  let state = dbOutage()
+  state = record(state, timeline, state.plan.onsetTick + 20)
+  timeline.push(actionEntry(state, 'service-inspected', 'api', 'Opened the API dashboard'))
+  for (const target of ['api', 'database'] as const) {
+    const started = startStrategy(state, 'Scale Up', target)
+    timeline.push(...diffTimeline(state, started))
+    state = record(started, timeline, 3)
+  }
+  return { state, timeline }
+}
+
+describe('Incident timeline', () => {
+  it('records detection, attempts, snapshots and resolution in order', () => {
+    const { state, timeline } = playThrough()
+    const onset = state.plan.onsetTick
+    expect(timeline.filter((e) => e.kind !== 'metrics-snapshot').map((e) => [e.atSec, e.kind, e.outcome ?? null])).toEqual([
+      [onset, 'incident-started', null],
+      [onset + 20, 'service-inspected', null],
+      [onset + 20, 'execution-started', null],
+      [onset + 23, 'execution-finished', 'no-effect'],
+      [onset + 23, 'execution-started', null],
+      [onset + 26, 'execution-finished', 'resolved'],
+      [onset + 26, 'incident-resolved', null]
+    ])
+    expect(timeline[0].note).toBe('Database Connection Pool Exhausted started, showing at the Load Balancer')
+    const snapshots = timeline.filter((e) => e.kind === 'metrics-snapshot')
+    expect(snapshots.length).toBeGreaterThan(0)
+    expect(snapshots.every((e) => e.atSec % SNAPSHOT_INTERVAL_SEC === 0)).toBe(true)
+  })
+
+  it('notes when the shift ends with the incident still open', () => {
+    const timeline: TimelineEntry[] = []
+    record(createOutage(4, { durationSec: 60 }), timeline, 60)
+    expect(timeline[timeline.length - 1].kind).toBe('time-up')
+  })
+})
+
+describe('Postmortem draft', () => {
+  it('is prefilled from the timeline', () => {
+    const { state, timeline } = playThrough()
+    const draft = draftPostmortem(state, timeline)
+    expect(draft.title).toBe('Database Connection Pool Exhausted in the Database')
+    expect(draft.summary).toContain('2 recovery attempts were made. Scale Up on the Database resolved it')
+    expect(draft.impact).toMatch(/^Users saw error rates up to \d+\.\d% and response times up to \d+ms at the Load Balancer for 26s\.$/)
+    expect(draft.rootCause).toContain('connection pool running out of connections')
+    expect(draft.actionItems).toEqual([
+      'Review connection pool sizing and timeouts for the Database',
+      'Link the Load Balancer alert to the Database dashboard so responders trace the origin before acting'
+    ])
+    expect(postmortemIssues(draft)).toEqual([])
+  })
+
+  it('leaves the root cause for the player when the incident was not resolved', () => {
+    const timeline: TimelineEntry[] = []
+    const state = record(dbOutage(), timeline, 300)
+    const draft = draftPostmortem(state, timeline)
+    expect(draft.rootCause).toBe('')
+    expect(draft.summary).toContain('still unresolved')
+    expect(postmortemIssues(draft).map((i) => i.field)).toEqual(['rootCause'])
+  })
+})
+
+describe('Postmortem checks and export', () => {
+  const postmortem: Postmortem = {
+    title: 'Database pool exhausted',
+    summary: 'Checkout failed for 30s.',
+    impact: 'Users saw errors.',
+    rootCause: 'Dana was careless with the pool size.',
+    actionItems: ['Alert on pool usage | saturation', '']
+  }
+
+  it('flags missing sections and blame', () => {
+    expect(postmortemIssues({ ...postmortem, summary: ' ', actionItems: [] })).toEqual([
+      { field: 'summary', severity: 'error', message: 'Summarise what happened in a sentence or two' },
+      { field: 'actionItems', severity: 'error', message: 'Add at least one action item so this does not happen again' },
+      { field: 'rootCause', severity: 'warning', message: '"careless" points at people; keep it blameless by describing what the system allowed to happen' }
+    ])
+  })
+
+  it('exports Markdown with the timeline as a table', () => {
+    const { timeline } = playThrough()
+    const markdown = postmortemToMarkdown(postmortem, timeline.slice(0, 1), 2)
+    expect(markdown).toContain('# Postmortem: Database pool exhausted')
+    expect(markdown).toContain('_Blameless postmortem for Outage Simulator seed 2_')
+    expect(markdown).toMatch(/\| 0:\d\d \| Database Connection Pool Exhausted started, showing at the Load Balancer \|/)
+    expect(markdown).toContain('- [ ] Alert on pool usage | saturation')
+    expect(markdown.trim().endsWith('saturation')).toBe(true)
+  })
+})
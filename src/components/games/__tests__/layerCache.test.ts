@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_BUILD_CONTEXT,
+  DEFAULT_DOCKERIGNORE,
+  applyDockerignore,
+  matchesPattern,
+  simulateBuild,
+  simulateRebuild
+} from '../layerCache'
+
+const goodOrder = [
+  'FROM python:3.12-slim',
+  'WORKDIR /app',
+  'COPY requirements.txt .',
+  'RUN pip install --no-cache-dir -r requirements.txt',
+  'COPY . .',
+  'EXPOSE 8000',
+  'CMD ["python", "app.py"]'
+].join('\n')
+
+const badOrder = [
+  'FROM python:3.12-slim',
+  'WORKDIR /app',
+  'COPY . .',
+  'RUN pip install --no-cache-dir -r requirements.txt',
+  'EXPOSE 8000',
+  'CMD ["python", "app.py"]'
+].join('\n')
+
+describe('Layer cache simulator', () => {
+  it('is deterministic', () => {
+    const first = simulateBuild(goodOrder)
+    const second = simulateBuild(goodOrder)
+    expect(first.layers.map((l) => l.hash)).toEqual(second.layers.map((l) => l.hash))
+    expect(first.totalTimeSec).toEqual(second.totalTimeSec)
+  })
+
+  it('rebuilds nothing when no file changed', () => {
+    const cold = simulateBuild(goodOrder)
+    const warm = simulateBuild(goodOrder, DEFAULT_BUILD_CONTEXT, {}, cold.cache)
+    expect(warm.cacheHits).toBe(warm.layers.length)
+    expect(warm.totalTimeSec).toBeLessThan(cold.totalTimeSec)
+  })
+
+  it('keeps the dependency layer cached when only app code changes', () => {
+    const { rebuild } = simulateRebuild(goodOrder, 'app.py')
+    expect(rebuild.layers.map((l) => l.cached)).toEqual([true, true, true, true, false, false, false])
+    expect(rebuild.layers[4].reason).toBe('Files changed: app.py')
+    expect(rebuild.layers[5].reason).toBe('Parent layer was rebuilt')
+  })
+
+  it('explains a base image change without blaming a parent layer', () => {
+    const cold = simulateBuild(goodOrder)
+    const bumped = simulateBuild(goodOrder.replace('python:3.12-slim', 'python:3.13-slim'), DEFAULT_BUILD_CONTEXT, {}, cold.cache)
+    expect(bumped.layers[0]).toMatchObject({ cached: false, reason: 'Base image changed to "python:3.13-slim"' })
+    expect(bumped.layers[1].reason).toBe('Parent layer was rebuilt')
+  })
+
+  it('reinstalls dependencies on every code change when code is copied first', () => {
+    const good = simulateRebuild(goodOrder, 'app.py').rebuild
+    const bad = simulateRebuild(badOrder, 'app.py').rebuild
+    const pipLayer = bad.layers.find((l) => l.instruction.startsWith('RUN pip'))!
+    expect(pipLayer.cached).toBe(false)
+    expect(bad.totalTimeSec).toBeGreaterThan(good.totalTimeSec + 20)
+  })
+
+  it('invalidates the dependency layer when requirements.txt changes', () => {
+    const { rebuild } = simulateRebuild(goodOrder, 'requirements.txt')
+    expect(rebuild.layers[2]).toMatchObject({ cached: false, reason: 'Files changed: requirements.txt' })
+    expect(rebuild.layers[3].cached).toBe(false)
+  })
+
+  it('shrinks the image when .dockerignore excludes junk', () => {
+    const plain = simulateBuild(goodOrder)
+    const ignored = simulateBuild(goodOrder, DEFAULT_BUILD_CONTEXT, { dockerignore: DEFAULT_DOCKERIGNORE })
+    expect(ignored.imageSizeMb).toBeLessThan(plain.imageSizeMb - 100)
+    expect(ignored.contextSizeMb).toBeLessThan(1)
+  })
+
+  it('charges for the pip cache without --no-cache-dir', () => {
+    const withCache = simulateBuild(goodOrder.replace('--no-cache-dir ', ''))
+    const withoutCache = simulateBuild(goodOrder)
+    expect(withCache.imageSizeMb).toBeGreaterThan(withoutCache.imageSizeMb)
+    const fixed = simulateBuild(goodOrder.replace('--no-cache-dir ', ''), DEFAULT_BUILD_CONTEXT, { pipNoCacheDir: true })
+    expect(fixed.imageSizeMb).toEqual(withoutCache.imageSizeMb)
+  })
+
+  it('matches copy sources and ignore patterns like Docker', () => {
+    expect(matchesPattern('requirements-dev.txt', 'requirements*.txt')).toBe(true)
+    expect(matchesPattern('templates/index.html', 'templates/')).toBe(true)
+    expect(matchesPattern('src/app.pyc', '**/*.pyc')).toBe(true)
+    expect(matchesPattern('app.py', 'requirements.txt')).toBe(false)
+    expect(applyDockerignore(DEFAULT_BUILD_CONTEXT, DEFAULT_DOCKERIGNORE).map((f) => f.path)).toEqual([
+      'requirements.txt', 'app.py', 'templates/index.html', 'static/style.css', 'tests/test_app.py'
+    ])
+  })
+
+  it('only counts the final stage towards image size', () => {
+    const multiStage = [
+      'FROM python:3.12 AS builder',
+      'WORKDIR /build',
+      'COPY requirements.txt .',
+      'RUN pip install --prefix=/install -r requirements.txt',
+      'FROM python:3.12-slim AS runtime',
+      'WORKDIR /app',
+      'COPY --from=builder /install /usr/local',
+      'COPY . .',
+      'CMD ["python", "app.py"]'
+    ].join('\n')
+    const result = simulateBuild(multiStage, DEFAULT_BUILD_CONTEXT, { dockerignore: DEFAULT_DOCKERIGNORE })
+    expect(result.stages.map((s) => [s.name, s.final])).toEqual([['builder', false], ['runtime', true]])
+    // Slim base plus installed packages; the builder's 1GB base and pip cache stay behind
+    expect(result.imageSizeMb).toBeLessThan(200)
+    expect(result.stages[0].sizeMb).toBeGreaterThan(1000)
+
+    const copyFrom = result.layers.find((l) => l.instruction.startsWith('COPY --from'))!
+    expect(copyFrom.sizeMb).toBe(70)
+
+    // Installing straight into the slim image keeps the build leftovers
+    const singleStage = simulateBuild(goodOrder, DEFAULT_BUILD_CONTEXT, { dockerignore: DEFAULT_DOCKERIGNORE })
+    expect(singleStage.imageSizeMb).toBeGreaterThan(result.imageSizeMb + 20)
+  })
+
+  it('rebuilds COPY --from when the source stage changes', () => {
+    const multiStage = [
+      'FROM python:3.12 AS builder',
+      'COPY requirements.txt .',
+      'RUN pip install --prefix=/install -r requirements.txt',
+      'FROM python:3.12-slim',
+      'COPY --from=builder /install /usr/local',
+      'COPY app.py .'
+    ].join('\n')
+    const { rebuild } = simulateRebuild(multiStage, 'requirements.txt')
+    expect(rebuild.layers[4]).toMatchObject({ cached: false, reason: 'Stage "builder" was rebuilt' })
+
+    const appOnly = simulateRebuild(multiStage, 'app.py').rebuild
+    expect(appOnly.layers.map((l) => l.cached)).toEqual([true, true, true, true, true, false])
+  })
+})
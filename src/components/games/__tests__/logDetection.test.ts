@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import missionsData from '../../../missions.json'
+import { createRng } from '../random'
+import { findScenarioErrors, type LogScenario } from '../logScenarios'
+import { generateCiLog } from '../logGenerator'
+import { parseLog } from '../logViewer'
+import { fixStep, flagStep, scoreInvestigation } from '../logDetection'
+
+const pool = (missionsData.missions.find((m) => m.id === 4)?.validation as { scenarios: LogScenario[] }).scenarios
+const scenarios = [pool.find((s) => s.id === 'pip-missing-module') as LogScenario]
+const { lines } = generateCiLog(scenarios, { seed: 4 })
+const entries = parseLog(lines)
+const [finding] = findScenarioErrors(lines, scenarios, createRng(4))
+const option = (predicate: (o: LogScenario['options'][number]) => boolean) => finding.options.find(predicate) as LogScenario['options'][number]
+const correct = option((o) => o.correct)
+const symptomOnly = option((o) => !!o.symptom)
+const unrelatedGuess = option((o) => !o.correct && !o.symptom)
+
+describe('Causal chain findings', () => {
+  it('locate every link from the root cause to the job failure', () => {
+    expect(finding.chain.map((link) => link.label)).toEqual(['Import error', 'Test failure', 'Job fails'])
+    const [root, test, job] = finding.chain.map((link) => link.line)
+    expect(root).toBe(finding.line)
+    expect(root).toBeLessThan(test)
+    expect(test).toBeLessThan(job)
+    expect(finding.relatedLines).toEqual([test, job])
+  })
+})
+
+describe('Investigation scoring', () => {
+  it('gives full marks for flagging the root cause first and fixing it', () => {
+    const result = scoreInvestigation([finding], [
+      flagStep(1000, finding.line, true, [finding], entries),
+      fixStep(2000, finding, correct)
+    ])
+    expect(result).toMatchObject({ score: 100, rootCausesFlagged: 1, strayFlags: 0, symptomFixes: 0, allErrorsFixed: true })
+  })
+
+  it('rewards the originating line over downstream symptoms', () => {
+    const symptomFirst = scoreInvestigation([finding], [
+      flagStep(0, finding.relatedLines[1], true, [finding], entries),
+      flagStep(0, finding.line, true, [finding], entries),
+      fixStep(0, finding, correct)
+    ])
+    expect(symptomFirst.findings[0]).toMatchObject({ rootFlagged: true, rootFlaggedFirst: false, flagCredit: 0.75 })
+    expect(symptomFirst.score).toBe(90)
+    const symptomOnlyFlag = scoreInvestigation([finding], [flagStep(0, finding.relatedLines[0], true, [finding], entries)])
+    expect(symptomOnlyFlag.score).toBe(10)
+  })
+
+  it('penalizes fixing symptoms before the root cause', () => {
+    const result = scoreInvestigation([finding], [
+      flagStep(0, finding.line, true, [finding], entries),
+      fixStep(0, finding, symptomOnly),
+      fixStep(0, finding, unrelatedGuess),
+      fixStep(0, finding, correct),
+      fixStep(0, finding, symptomOnly)
+    ])
+    expect(result.findings[0]).toMatchObject({ symptomFixes: 1, wrongFixes: 1, fixCredit: 0.65 })
+    expect(result.symptomFixes).toBe(1)
+    expect(result.score).toBe(79)
+  })
+
+  it('only counts stray flags still standing at the end', () => {
+    const steps = [
+      flagStep(0, 1, true, [finding], entries),
+      flagStep(0, 2, true, [finding], entries),
+      flagStep(0, 2, false, [finding], entries),
+      flagStep(0, finding.line, true, [finding], entries)
+    ]
+    expect(steps.map((s) => s.verdict)).toEqual(['unrelated', 'unrelated', 'unrelated', 'root-cause'])
+    expect(steps[3].note).toBe(`Flagged line ${finding.line}: root cause of "Missing Python package"`)
+    expect(scoreInvestigation([finding], steps)).toMatchObject({ strayFlags: 1, score: 30 })
+  })
+
+  it('takes back flag credit when the root cause is unflagged', () => {
+    const result = scoreInvestigation([finding], [
+      flagStep(0, finding.line, true, [finding], entries),
+      flagStep(0, finding.line, false, [finding], entries),
+      fixStep(0, finding, correct)
+    ])
+    expect(result.findings[0]).toMatchObject({ rootFlagged: false, rootFlaggedFirst: false, flagCredit: 0 })
+    expect(result).toMatchObject({ rootCausesFlagged: 0, score: 60 })
+  })
+})
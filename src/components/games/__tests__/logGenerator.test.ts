@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import missionsData from '../../../missions.json'
+import { createRng } from '../random'
+import { findScenarioErrors, sampleScenarios, type LogScenario } from '../logScenarios'
+import { generateCiLog, hasFaultGenerator, stripTimestamp } from '../logGenerator'
+import { stripAnsi } from '../logViewer'
+
+const pool = (missionsData.missions.find((m) => m.id === 4)?.validation as { scenarios: LogScenario[] }).scenarios
+
+describe('CI log generator', () => {
+  it('has a generator for every scenario whose output matches its whole causal chain', () => {
+    for (const scenario of pool) {
+      expect(hasFaultGenerator(scenario.id)).toBe(true)
+      for (const seed of [1, 2, 3]) {
+        const { lines } = generateCiLog([scenario], { seed })
+        for (const { label, pattern } of scenario.chain) {
+          expect(lines.some((line) => new RegExp(pattern).test(stripAnsi(line))), `${scenario.id}: ${label}`).toBe(true)
+        }
+        const [finding] = findScenarioErrors(lines, [scenario], createRng(seed))
+        expect(finding.chain.map((link) => link.label)).toEqual(scenario.chain.map((link) => link.label))
+      }
+    }
+  })
+
+  it('injects one failing job per fault and a finding for each', () => {
+    const scenarios = sampleScenarios(pool, 'advanced', 5, createRng(9))
+    const log = generateCiLog(scenarios, { seed: 9 })
+    const faulty = log.jobs.filter((j) => j.scenarioId)
+    expect(faulty.map((j) => j.scenarioId).sort()).toEqual(scenarios.map((s) => s.id).sort())
+    expect(log.jobs.length).toBeGreaterThan(faulty.length)
+    expect(new Set(log.jobs.map((j) => j.name)).size).toBe(log.jobs.length)
+    expect(findScenarioErrors(log.lines, scenarios, createRng(9))).toHaveLength(5)
+  })
+
+  it('is reproducible from a seed', () => {
+    const scenarios = pool.slice(0, 3)
+    expect(generateCiLog(scenarios, { seed: 42 }).lines).toEqual(generateCiLog(scenarios, { seed: 42 }).lines)
+    expect(generateCiLog(scenarios, { seed: 42 }).lines).not.toEqual(generateCiLog(scenarios, { seed: 43 }).lines)
+  })
+
+  it('emits balanced groups with increasing timestamps', () => {
+    const { lines } = generateCiLog(pool.slice(0, 4), { seed: 5 })
+    const texts = lines.map((line) => stripTimestamp(line).text)
+    expect(texts.filter((t) => t.startsWith('::group::')).length).toBe(texts.filter((t) => t === '::endgroup::').length)
+    const stamps = lines.map((line) => stripTimestamp(line).timestamp).filter((t): t is string => t !== null)
+    expect(stamps.length).toBe(lines.filter((line) => line !== '').length)
+    expect([...stamps].sort()).toEqual(stamps)
+  })
+
+  it('falls back to the log excerpt for scenarios without a generator', () => {
+    const custom = { ...pool[0], id: 'custom', category: 'custom' }
+    const { lines, jobs } = generateCiLog([custom], { seed: 1, timestamps: false })
+    expect(jobs.find((j) => j.scenarioId === 'custom')?.name).toBe('custom')
+    expect(lines).toContain("E       ModuleNotFoundError: No module named 'requests'")
+    expect(lines.filter((line) => line === '::group::Run pytest')).toHaveLength(0)
+  })
+})
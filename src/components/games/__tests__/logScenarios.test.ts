@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import missionsData from '../../../missions.json'
+import { createRng } from '../random'
+import {
+  buildScenarioLog,
+  findScenarioErrors,
+  sampleScenarios,
+  validateScenarios,
+  type LogScenario
+} from '../logScenarios'
+
+const pool = (missionsData.missions.find((m) => m.id === 4)?.validation as { scenarios: LogScenario[] }).scenarios
+const byId = (id: string) => pool.find((s) => s.id === id) as LogScenario
+
+describe('Log scenario pool', () => {
+  it('is valid and covers the common failure categories', () => {
+    expect(validateScenarios(pool)).toEqual([])
+    expect(new Set(pool.map((s) => s.category))).toEqual(
+      new Set(['pip', 'files', 'docker', 'resources', 'network', 'permissions'])
+    )
+  })
+
+  it('reports broken scenario data', () => {
+    const broken = { ...byId('missing-file'), chain: [{ label: 'Root', pattern: '(unclosed' }, { label: 'Job fails', pattern: 'never matches' }], options: [] }
+    expect(validateScenarios([broken])).toEqual([
+      'Scenario "missing-file" link 1 (Root) is not a valid regular expression',
+      'Scenario "missing-file" link 2 (Job fails) does not match its own log',
+      'Scenario "missing-file" needs exactly one correct option, found 0',
+      'Scenario "missing-file" needs at least two options'
+    ])
+  })
+})
+
+describe('Scenario sampling', () => {
+  it('only uses scenarios at or below the player difficulty', () => {
+    const picked = sampleScenarios(pool, 'beginner', 3, createRng(1))
+    expect(picked).toHaveLength(3)
+    expect(picked.every((s) => s.difficulty === 'beginner')).toBe(true)
+  })
+
+  it('prefers the player level and distinct categories', () => {
+    const picked = sampleScenarios(pool, 'advanced', 5, createRng(7))
+    expect(picked.slice(0, 3).every((s) => s.difficulty === 'advanced')).toBe(true)
+    expect(new Set(picked.map((s) => s.category)).size).toBe(5)
+  })
+
+  it('is reproducible from a seed', () => {
+    const ids = (seed: number) => sampleScenarios(pool, 'intermediate', 4, createRng(seed)).map((s) => s.id)
+    expect(ids(42)).toEqual(ids(42))
+  })
+})
+
+describe('Finding errors in a log', () => {
+  it('reports one finding per scenario on the primary line with filled templates', () => {
+    const scenarios = [byId('pip-missing-module'), byId('pip-version-not-found')]
+    const lines = buildScenarioLog(scenarios)
+    const findings = findScenarioErrors(lines, scenarios, createRng(3))
+    expect(findings).toHaveLength(2)
+    expect(findings[0]).toMatchObject({
+      scenarioId: 'pip-missing-module',
+      line: 15,
+      content: "E       ModuleNotFoundError: No module named 'requests'",
+      relatedLines: [19, 21],
+      suggestedFix: 'Add requests to requirements.txt so the install step provides it'
+    })
+    expect(findings[1].explanation).toBe('pip cannot find fastapi==99.9.9 on the package index, so the version pin is wrong')
+  })
+
+  it('shuffles options without losing the correct one', () => {
+    const scenario = byId('oom-killed')
+    const orders = [1, 2, 3, 4, 5].map((seed) =>
+      findScenarioErrors(scenario.log, [scenario], createRng(seed))[0].options.map((o) => o.text).join('|')
+    )
+    expect(new Set(orders).size).toBeGreaterThan(1)
+    const [finding] = findScenarioErrors(scenario.log, [scenario], createRng(1))
+    expect(finding.options.filter((o) => o.correct)).toHaveLength(1)
+    expect(finding.explanation).toContain("'pytest -n 8'")
+  })
+})
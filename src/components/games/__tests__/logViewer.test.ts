@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import missionsData from '../../../missions.json'
+import { createRng } from '../random'
+import { findScenarioErrors, type LogScenario } from '../logScenarios'
+import { generateCiLog } from '../logGenerator'
+import {
+  classifyFlag,
+  defaultCollapsedGroups,
+  detectLevel,
+  parseAnsi,
+  parseLog,
+  searchLog,
+  virtualWindow,
+  visibleEntries
+} from '../logViewer'
+
+const pool = (missionsData.missions.find((m) => m.id === 4)?.validation as { scenarios: LogScenario[] }).scenarios
+
+const log = [
+  '2024-05-14T09:12:00.0000000Z ::group::Run pip install',
+  '2024-05-14T09:12:00.1000000Z Collecting requests',
+  '2024-05-14T09:12:00.2000000Z \x1b[33mWARNING: Retrying\x1b[0m',
+  '2024-05-14T09:12:00.3000000Z ::endgroup::',
+  '2024-05-14T09:12:00.4000000Z ::group::Run pytest',
+  '2024-05-14T09:12:00.5000000Z test_a.py \x1b[31mFAILED\x1b[0m',
+  '2024-05-14T09:12:00.6000000Z ::endgroup::'
+]
+
+describe('Log parsing', () => {
+  it('splits ANSI escapes into colored segments', () => {
+    expect(parseAnsi('ok \x1b[1;31mFAILED\x1b[0m done')).toEqual([
+      { text: 'ok ', color: null, bold: false },
+      { text: 'FAILED', color: 'red', bold: true },
+      { text: ' done', color: null, bold: false }
+    ])
+  })
+
+  it('detects levels from text and color', () => {
+    expect(detectLevel("E       ModuleNotFoundError: No module named 'x'")).toBe('error')
+    expect(detectLevel('Error: Process completed with exit code 137.')).toBe('error')
+    expect(detectLevel('\x1b[33mWARNING: Retrying\x1b[0m')).toBe('warning')
+    expect(detectLevel('\x1b[31m1 failed\x1b[0m')).toBe('error')
+    expect(detectLevel('collected 15 items')).toBe('info')
+  })
+
+  it('tracks groups and strips timestamps', () => {
+    const entries = parseLog(log)
+    expect(entries[0]).toMatchObject({ groupTitle: 'Run pip install', groupId: 1, timestamp: '2024-05-14T09:12:00.0000000Z' })
+    expect(entries[2]).toMatchObject({ groupId: 1, level: 'warning', text: '\x1b[33mWARNING: Retrying\x1b[0m' })
+    expect(entries[3].isGroupEnd).toBe(true)
+    expect(entries[5]).toMatchObject({ groupId: 5, level: 'error' })
+  })
+})
+
+describe('Folding, filtering and search', () => {
+  it('opens only groups with errors and hides folded lines', () => {
+    const entries = parseLog(log)
+    const collapsed = defaultCollapsedGroups(entries)
+    expect([...collapsed]).toEqual([1])
+    expect(visibleEntries(entries, { collapsed, level: 'all' }).map((e) => e.number)).toEqual([1, 5, 6])
+  })
+
+  it('filters by level as a flat list', () => {
+    const entries = parseLog(log)
+    expect(visibleEntries(entries, { collapsed: new Set([1, 5]), level: 'warning' }).map((e) => e.number)).toEqual([3, 6])
+    expect(visibleEntries(entries, { collapsed: new Set(), level: 'error' }).map((e) => e.number)).toEqual([6])
+  })
+
+  it('searches with regular expressions and reports bad ones', () => {
+    const entries = parseLog(log)
+    expect(searchLog(entries, 'retry|failed').matches).toEqual([3, 6])
+    expect(searchLog(entries, 'run p(ip|ytest)').matches).toEqual([1, 5])
+    expect(searchLog(entries, '(').error).toBeTruthy()
+  })
+
+  it('windows long logs to the rows in view', () => {
+    expect(virtualWindow(2000, 400, 20, 5000, 5)).toEqual({ start: 95, end: 125, offsetTop: 1900, totalHeight: 100000 })
+    expect(virtualWindow(0, 400, 20, 8, 5)).toEqual({ start: 0, end: 8, offsetTop: 0, totalHeight: 160 })
+  })
+})
+
+describe('Root-cause flags', () => {
+  const scenarios = [pool.find((s) => s.id === 'pip-missing-module') as LogScenario]
+  const { lines } = generateCiLog(scenarios, { seed: 4 })
+  const entries = parseLog(lines)
+  const [finding] = findScenarioErrors(lines, scenarios, createRng(4))
+
+  it('recognizes the originating line', () => {
+    expect(classifyFlag(finding.line, [finding], entries)).toEqual({ verdict: 'root-cause', findingId: finding.id })
+  })
+
+  it('treats chain links and later errors in the same job as symptoms', () => {
+    expect(classifyFlag(finding.relatedLines[0], [finding], entries).verdict).toBe('symptom')
+    const laterError = entries.find((e) => e.number > finding.line && e.level === 'error' && !finding.relatedLines.includes(e.number))
+    expect(classifyFlag(laterError?.number as number, [finding], entries).verdict).toBe('symptom')
+  })
+
+  it('marks lines outside any failure as unrelated', () => {
+    expect(classifyFlag(1, [finding], entries)).toEqual({ verdict: 'unrelated', findingId: null })
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EDGE_SERVICE,
+  INCIDENT_TYPES,
+  ONSET_WINDOW,
+  TOPOLOGY,
+  activeIncident,
+  assessStrategy,
+  createOutage,
+  entryPointFor,
+  findService,
+  findStrategy,
+  observeTopology,
+  planOutage,
+  scoreOutage,
+  serviceHealth,
+  startStrategy,
+  tickOutage,
+  type OutageState,
+  type ServiceId,
+  type StrategyName
+} from '../outageEngine'
+
+const run = (state: OutageState, ticks: number) => {
+  let next = state
+  for (let i = 0; i < ticks; i++) next = tickOutage(next)
+  return next
+}
+
+const untilIncident = (seed: number, incidentId?: string) => {
+  const state = createOutage(seed, { incidentTypes: incidentId ? INCIDENT_TYPES.filter((t) => t.id === incidentId) : undefined })
+  return run(state, state.plan.onsetTick)
+}
+
+const origin = (state: OutageState) => state.plan.origin
+
+const respond = (state: OutageState, strategy: StrategyName, target: ServiceId = origin(state)) =>
+  run(startStrategy(state, strategy, target), findStrategy(strategy).timeToExecute)
+
+const baseline = (id: ServiceId) => findService(id).baseline
+
+describe('Seeded outages', () => {
+  it('replays the same run from the same seed', () => {
+    const a = run(createOutage(42), 90)
+    const b = run(createOutage(42), 90)
+    expect(a).toEqual(b)
+    expect(run(createOutage(43), 90)).not.toEqual(a)
+  })
+
+  it('plans the incident inside the onset window, in one of its origins', () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const { onsetTick, incident, origin } = planOutage(seed)
+      expect(onsetTick).toBeGreaterThanOrEqual(ONSET_WINDOW[0])
+      expect(onsetTick).toBeLessThanOrEqual(ONSET_WINDOW[1])
+      expect(INCIDENT_TYPES).toContain(incident)
+      expect(incident.origins).toContain(origin)
+    }
+  })
+
+  it('keeps metrics at baseline until the incident starts', () => {
+    const planned = createOutage(7)
+    const state = { ...planned, plan: { ...planned.plan, blips: [] } }
+    const before = run(state, state.plan.onsetTick - 1)
+    expect(before.incidents).toEqual([])
+    for (const service of TOPOLOGY) expect(before.metrics[service.id]).toEqual(service.baseline)
+    const after = run(before, 20)
+    expect(activeIncident(after)?.id).toBe(state.plan.incident.id)
+    expect(after.metrics[origin(state)].errorRate).toBeGreaterThan(baseline(origin(state)).errorRate)
+  })
+})
+
+describe('Recovery strategies', () => {
+  it('resolve only the root causes they address', () => {
+    const rollback = findStrategy('Rollback')
+    const scaleUp = findStrategy('Scale Up')
+    expect(assessStrategy(rollback, { rootCause: 'bad-release', origin: 'api' }, 'api')).toBe('resolved')
+    expect(assessStrategy(rollback, { rootCause: 'traffic-surge', origin: 'api' }, 'api')).toBe('no-effect')
+    expect(assessStrategy(scaleUp, { rootCause: 'memory-leak', origin: 'cache' }, 'cache')).toBe('mitigated')
+    expect(assessStrategy(findStrategy('Hotfix'), { rootCause: 'connection-pool', origin: 'database' }, 'database')).toBe('worsened')
+  })
+
+  it('has a fixing strategy for every incident, including the recommended one', () => {
+    for (const type of INCIDENT_TYPES) {
+      expect(findStrategy(type.recommendedStrategy).fixes, type.id).toContain(type.rootCause)
+    }
+  })
+
+  it('resolves the incident and lets metrics recover', () => {
+    const resolved = respond(untilIncident(1, 'high-cpu'), 'Scale Up')
+    expect(activeIncident(resolved)).toBeNull()
+    expect(resolved.attempts.map((a) => a.outcome)).toEqual(['resolved'])
+    const recovered = run(resolved, 60)
+    expect(recovered.metrics[origin(resolved)].cpu).toBeCloseTo(baseline(origin(resolved)).cpu, 0)
+  })
+
+  it('keeps degrading after a strategy that misses the root cause', () => {
+    const start = untilIncident(1, 'high-cpu')
+    const missed = respond(start, 'Rollback')
+    expect(missed.attempts[0].outcome).toBe('no-effect')
+    expect(activeIncident(missed)).not.toBeNull()
+    expect(missed.metrics[origin(start)].cpu).toBeGreaterThan(start.metrics[origin(start)].cpu)
+
+    const worse = respond(start, 'Hotfix')
+    expect(activeIncident(worse)?.pace).toBe(1.5)
+  })
+
+  it('ignores a second strategy while one is running', () => {
+    const started = startStrategy(untilIncident(3), 'Redeploy', 'api')
+    expect(startStrategy(started, 'Rollback', 'api')).toBe(started)
+    expect(startStrategy(createOutage(3), 'Rollback', 'api').attempts).toEqual([])
+  })
+})
+
+describe('Topology', () => {
+  it('surfaces incidents at the edge unless they are confined to the worker', () => {
+    expect(entryPointFor('database')).toBe(EDGE_SERVICE)
+    expect(entryPointFor('cache')).toBe(EDGE_SERVICE)
+    expect(entryPointFor('worker')).toBe('worker')
+  })
+
+  it('adds a dependency\'s latency and errors to its callers', () => {
+    const own = Object.fromEntries(TOPOLOGY.map((s) => [s.id, { ...s.baseline }])) as OutageState['metrics']
+    own.database = { ...own.database, responseTime: 208, errorRate: 10.1, cpu: 90 }
+    const seen = observeTopology(own)
+    expect(seen.api.responseTime).toBe(baseline('api').responseTime + 200)
+    expect(seen['load-balancer'].responseTime).toBe(baseline('load-balancer').responseTime + 200)
+    expect(seen.worker.errorRate).toBeCloseTo(baseline('worker').errorRate + 9)
+    expect(seen.api.cpu).toBe(baseline('api').cpu)
+    expect(seen.cache).toEqual(baseline('cache'))
+  })
+
+  it('shows the origin as the deepest unhealthy service', () => {
+    const state = run(untilIncident(2, 'db-pool'), 30)
+    expect(serviceHealth(state.metrics.database)).not.toBe('healthy')
+    expect(serviceHealth(state.metrics.api)).not.toBe('healthy')
+    expect(serviceHealth(state.metrics.cache)).toBe('healthy')
+    expect(activeIncident(state)).toMatchObject({ origin: 'database', detectedAt: EDGE_SERVICE })
+  })
+
+  it('only resolves the incident when the strategy targets its origin', () => {
+    const start = untilIncident(2, 'db-pool')
+    const wrongService = respond(start, 'Scale Up', 'api')
+    expect(wrongService.attempts[0].outcome).toBe('no-effect')
+    expect(activeIncident(wrongService)).not.toBeNull()
+    expect(activeIncident(respond(wrongService, 'Scale Up'))).toBeNull()
+
+    const hotfixed = respond(start, 'Hotfix', 'cache')
+    expect(hotfixed.attempts[0].outcome).toBe('worsened')
+    expect(hotfixed.ownMetrics.cache.errorRate).toBeGreaterThan(4)
+  })
+})
+
+describe('Scoring', () => {
+  it('rewards a fast, low-risk fix and charges for misses', () => {
+    const clean = scoreOutage(respond(untilIncident(5, 'error-rate'), 'Rollback'))
+    expect(clean).toEqual({ score: 95, resolved: true, timeToResolve: 5, missedAttempts: 0, alerting: null, budgets: null })
+
+    const afterMiss = scoreOutage(respond(respond(untilIncident(5, 'error-rate'), 'Scale Up'), 'Rollback'))
+    expect(afterMiss.score).toBe(85)
+    expect(afterMiss.missedAttempts).toBe(1)
+  })
+
+  it('gives nothing for an unresolved incident', () => {
+    const timedOut = run(createOutage(9, { durationSec: 60 }), 100)
+    expect(timedOut.tick).toBe(60)
+    expect(scoreOutage(timedOut)).toMatchObject({ score: 0, resolved: false })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzePipelineGraph,
+  checkConnection,
+  dependencyDepths,
+  findDependencyPath,
+  graphPenalty,
+  layoutByDepth
+} from '../pipelineGraph'
+
+const job = (id: string, dependencies: string[] = []) => ({ id, name: id.toUpperCase(), dependencies })
+
+const chain = [job('test'), job('build', ['test']), job('push', ['build']), job('deploy', ['push'])]
+
+describe('Pipeline graph analysis', () => {
+  it('finds dependency paths', () => {
+    expect(findDependencyPath(chain, 'deploy', 'test')).toEqual(['deploy', 'push', 'build', 'test'])
+    expect(findDependencyPath(chain, 'test', 'deploy')).toBeNull()
+  })
+
+  it('rejects connections that would close a loop', () => {
+    const result = checkConnection(chain, 'deploy', 'test')
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.reason).toBe('cycle')
+    expect(result.loop).toEqual(['test', 'deploy', 'push', 'build', 'test'])
+    expect(result.message).toContain('TEST → DEPLOY → PUSH → BUILD → TEST')
+  })
+
+  it('rejects self and duplicate connections, accepts new ones', () => {
+    expect(checkConnection(chain, 'test', 'test')).toMatchObject({ ok: false, reason: 'self' })
+    expect(checkConnection(chain, 'test', 'build')).toMatchObject({ ok: false, reason: 'duplicate' })
+    expect(checkConnection(chain, 'test', 'deploy')).toEqual({ ok: true })
+  })
+
+  it('reports a clean chain as healthy', () => {
+    expect(analyzePipelineGraph(chain)).toEqual([])
+  })
+
+  it('reports cycles and the jobs stuck behind them', () => {
+    const diagnostics = analyzePipelineGraph([job('a', ['b']), job('b', ['a']), job('c', ['a'])])
+    expect(diagnostics.map((d) => d.kind)).toEqual(['cycle', 'unreachable'])
+    expect(diagnostics[0].jobIds.sort()).toEqual(['a', 'b'])
+    expect(diagnostics[1]).toMatchObject({ jobIds: ['c'], severity: 'error' })
+  })
+
+  it('reports isolated jobs, dangling and transitive edges', () => {
+    const diagnostics = analyzePipelineGraph([
+      job('test'),
+      job('build', ['test']),
+      job('deploy', ['build', 'test', 'gone']),
+      job('lint')
+    ])
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'dangling', edge: { job: 'deploy', dependency: 'gone' } }),
+      expect.objectContaining({ kind: 'unreachable', jobIds: ['lint'] }),
+      expect.objectContaining({ kind: 'redundant', edge: { job: 'deploy', dependency: 'test' } })
+    ]))
+    expect(diagnostics).toHaveLength(3)
+    expect(graphPenalty(diagnostics)).toBe(15)
+  })
+})
+
+describe('Pipeline auto-layout', () => {
+  it('places jobs in columns by dependency depth', () => {
+    const jobs = [job('test'), job('lint'), job('build', ['test', 'lint']), job('deploy', ['build'])]
+    expect(Object.fromEntries(dependencyDepths(jobs))).toEqual({ test: 0, lint: 0, build: 1, deploy: 2 })
+    expect(layoutByDepth(jobs, { columnWidth: 100, rowHeight: 50, origin: { x: 0, y: 0 } })).toEqual({
+      test: { x: 0, y: 0 },
+      lint: { x: 0, y: 50 },
+      build: { x: 100, y: 0 },
+      deploy: { x: 200, y: 0 }
+    })
+  })
+
+  it('terminates on loops', () => {
+    const depths = dependencyDepths([job('a', ['b']), job('b', ['a'])])
+    expect([...depths.keys()].sort()).toEqual(['a', 'b'])
+  })
+})
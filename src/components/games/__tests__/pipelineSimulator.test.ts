@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { JOB_SETUP_SEC, simulatePipeline } from '../pipelineSimulator'
+
+const job = (id: string, dependencies: string[] = [], steps = ['  - run: echo hi']) => ({
+  id,
+  name: id,
+  yaml: ['runs-on: ubuntu-latest', 'steps:', ...steps].join('\n'),
+  dependencies
+})
+
+const pipeline = [
+  job('test', [], ['  - uses: actions/checkout@v4', '  - run: pip install -r requirements.txt', '  - run: pytest']),
+  job('lint', [], ['  - uses: actions/checkout@v4', '  - run: flake8 .']),
+  job('build', ['test', 'lint'], ['  - uses: docker/build-push-action@v6']),
+  job('deploy', ['build'])
+]
+
+describe('Pipeline simulator', () => {
+  it('is deterministic for a seed', () => {
+    expect(simulatePipeline(pipeline, { seed: 7 })).toEqual(simulatePipeline(pipeline, { seed: 7 }))
+  })
+
+  it('never starts a job before its needs finish', () => {
+    const run = simulatePipeline(pipeline, { runners: 4 })
+    const byId = Object.fromEntries(run.jobs.map((j) => [j.jobId, j]))
+    expect(byId.build.start).toBe(Math.max(byId.test.end, byId.lint.end))
+    expect(byId.deploy.start).toBe(byId.build.end)
+    expect(run.status).toBe('success')
+  })
+
+  it('runs independent jobs in parallel when runners allow', () => {
+    const parallel = simulatePipeline(pipeline, { runners: 2 })
+    const serial = simulatePipeline(pipeline, { runners: 1 })
+    expect(parallel.jobs.find((j) => j.jobId === 'lint')?.start).toBe(0)
+    expect(serial.totalSec).toBe(serial.serialSec)
+    expect(parallel.totalSec).toBeLessThan(serial.totalSec)
+    expect(parallel.totalSec).toBe(parallel.criticalPathSec)
+    expect(serial.queuedSec).toBeGreaterThan(0)
+  })
+
+  it('finds the critical path through the longest branch', () => {
+    const run = simulatePipeline(pipeline)
+    expect(run.criticalPath).toEqual(['test', 'build', 'deploy'])
+    expect(run.criticalPathSec).toBe(run.jobs.filter((j) => run.criticalPath.includes(j.jobId)).reduce((s, j) => s + j.durationSec, 0))
+  })
+
+  it('skips everything downstream of a failure', () => {
+    const run = simulatePipeline(pipeline, { failureRate: 1 })
+    const byId = Object.fromEntries(run.jobs.map((j) => [j.jobId, j]))
+    expect(byId.test.status).toBe('failed')
+    expect(byId.test.steps.map((s) => s.status)).toEqual(['failed', 'skipped', 'skipped'])
+    expect(byId.build.status).toBe('skipped')
+    expect(byId.deploy.status).toBe('skipped')
+    expect(byId.deploy.reason).toMatch(/build/)
+    expect(run.status).toBe('failed')
+  })
+
+  it('charges setup time per job and blocks jobs caught in a loop', () => {
+    const run = simulatePipeline([job('a', ['b']), job('b', ['a']), job('c')])
+    expect(run.jobs.map((j) => j.status)).toEqual(['blocked', 'blocked', 'success'])
+    expect(run.jobs[2].durationSec).toBeGreaterThan(JOB_SETUP_SEC)
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BAD_RELEASE_ERROR_RATE,
+  PROGRESS_DEADLINE_TICKS,
+  resolvePodCount,
+  rolloutOptionErrors,
+  simulateRollout,
+  type RolloutFrame
+} from '../rolloutSimulator'
+
+const ready = (frame: RolloutFrame) => frame.pods.filter((p) => p.phase === 'ready').length
+const live = (frame: RolloutFrame) => frame.pods.filter((p) => p.phase !== 'terminating').length
+
+describe('Rolling update', () => {
+  it('stays within maxSurge and maxUnavailable', () => {
+    const result = simulateRollout({ strategy: 'rolling', replicas: 4, maxSurge: 1, maxUnavailable: 1 })
+    expect(result.outcome).toBe('completed')
+    for (const frame of result.frames) {
+      expect(live(frame)).toBeLessThanOrEqual(5)
+      expect(ready(frame)).toBeGreaterThanOrEqual(3)
+    }
+    const last = result.frames[result.frames.length - 1]
+    expect(last.pods.every((p) => p.version === 'new' && p.phase === 'ready')).toBe(true)
+    expect(result.peakErrorRate).toBe(0)
+  })
+
+  it('never drops below full capacity with maxUnavailable 0', () => {
+    const result = simulateRollout({ strategy: 'rolling', replicas: 3, maxSurge: 1, maxUnavailable: 0 })
+    expect(result.outcome).toBe('completed')
+    expect(result.minReadyPods).toBe(3)
+  })
+
+  it('resolves percentages like a Deployment does', () => {
+    expect(resolvePodCount('25%', 10, 'up')).toBe(3)
+    expect(resolvePodCount('25%', 10, 'down')).toBe(2)
+    expect(resolvePodCount(2, 10, 'up')).toBe(2)
+    expect(rolloutOptionErrors({ strategy: 'rolling', replicas: 3, maxSurge: 0, maxUnavailable: '10%' })).toEqual([
+      'maxSurge and maxUnavailable cannot both be 0, or no pod can ever be replaced'
+    ])
+  })
+})
+
+describe('Blue-green', () => {
+  it('switches all traffic at once when green is ready', () => {
+    const result = simulateRollout({ strategy: 'blue-green', replicas: 2 })
+    const traffic = result.frames.map((f) => f.trafficToNew)
+    expect(new Set(traffic)).toEqual(new Set([0, 1]))
+    expect(Math.max(...result.frames.map(live))).toBe(4)
+    expect(result.outcome).toBe('completed')
+  })
+})
+
+describe('Canary', () => {
+  it('walks through the traffic weights', () => {
+    const result = simulateRollout({ strategy: 'canary', replicas: 4, canaryWeights: [20, 50, 100] })
+    const shares = [...new Set(result.frames.map((f) => f.trafficToNew))]
+    expect(shares).toEqual([0, 0.2, 0.5, 1])
+    expect(result.outcome).toBe('completed')
+  })
+
+  it('reports bad weights', () => {
+    expect(rolloutOptionErrors({ strategy: 'canary', replicas: 2, canaryWeights: [50, 20, 100] })).toEqual(['Canary weights must increase at every step'])
+    expect(rolloutOptionErrors({ strategy: 'canary', replicas: 2, canaryWeights: [10, 50] })).toEqual(['The last canary step must send 100% of traffic'])
+  })
+})
+
+describe('Bad release', () => {
+  it('is rolled back without user errors when the health check catches it', () => {
+    for (const strategy of ['rolling', 'blue-green', 'canary'] as const) {
+      const result = simulateRollout({ strategy, replicas: 4, badRelease: true, healthCheck: true })
+      expect(result.outcome, strategy).toBe('rolled-back')
+      expect(result.peakErrorRate, strategy).toBe(0)
+      expect(result.durationSec, strategy).toBeGreaterThanOrEqual(PROGRESS_DEADLINE_TICKS * 5)
+      expect(result.frames[result.frames.length - 1].pods.every((p) => p.version === 'old')).toBe(true)
+    }
+  })
+
+  it('reaches users when there is no health check', () => {
+    const rolling = simulateRollout({ strategy: 'rolling', replicas: 4, badRelease: true, healthCheck: false })
+    expect(rolling.outcome).toBe('degraded')
+    expect(rolling.peakErrorRate).toBe(BAD_RELEASE_ERROR_RATE)
+    const errors = rolling.frames.map((f) => f.errorRate)
+    expect(errors.every((rate, i) => i === 0 || rate >= errors[i - 1])).toBe(true)
+  })
+
+  it('limits the blast radius of a canary to its weight', () => {
+    const canary = simulateRollout({ strategy: 'canary', replicas: 4, badRelease: true, healthCheck: false, canaryWeights: [10, 100] })
+    const rates = [...new Set(canary.frames.map((f) => f.errorRate))]
+    expect(rates).toEqual([0, 0.1 * BAD_RELEASE_ERROR_RATE, BAD_RELEASE_ERROR_RATE])
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import missionsData from '../../../missions.json'
+import {
+  EDGE_SERVICE,
+  INCIDENT_TYPES,
+  createOutage,
+  findService,
+  findStrategy,
+  scoreOutage,
+  startStrategy,
+  tickOutage,
+  type OutageState
+} from '../outageEngine'
+import {
+  budgetRemaining,
+  burnDown,
+  burnRate,
+  createSloTracking,
+  errorBudgets,
+  estimateP95,
+  firingSeverity,
+  sampleSlo,
+  trackSlo,
+  type Slo
+} from '../slo'
+
+const run = (state: OutageState, ticks: number) => {
+  let next = state
+  for (let i = 0; i < ticks; i++) next = tickOutage(next)
+  return next
+}
+
+const slo: Slo = { availability: 90, latencyP95Ms: 1000 }
+const edge = findService(EDGE_SERVICE).baseline
+
+// Tracks `seconds` of edge traffic at the given error rate
+const track = (errorRate: number, seconds: number, tracking = createSloTracking(slo, 100 * 100)) => {
+  let next = tracking
+  for (let i = 0; i < seconds; i++) next = trackSlo(next, { ...edge, errorRate }, next.samples.length + 1)
+  return next
+}
+
+describe('SLO targets', () => {
+  it('are defined for every Outage Simulator difficulty and met by normal traffic', () => {
+    const mission = missionsData.missions.find((m) => m.id === 6)!
+    for (const level of Object.values(mission.difficulty) as { slo?: Slo }[]) {
+      expect(level.slo?.availability).toBeLessThan(100 - edge.errorRate)
+      expect(level.slo!.latencyP95Ms).toBeGreaterThan(estimateP95(edge.responseTime))
+    }
+  })
+})
+
+describe('Error budget', () => {
+  it('counts failed and slow requests from the edge metrics', () => {
+    const sample = sampleSlo(slo, { ...edge, errorRate: 10, responseTime: 1000 }, 5)
+    expect(sample).toMatchObject({ atSec: 5, requests: 100, failed: 10 })
+    expect(sample.slow).toBeCloseTo(100 * Math.exp(-1))
+  })
+
+  it('sizes the budget from the expected traffic and burns it down', () => {
+    const tracking = track(20, 25)
+    const { availability } = errorBudgets(tracking)
+    expect(availability.allowed).toBeCloseTo(1000)
+    expect(availability.consumed).toBeCloseTo(500)
+    expect(availability.remaining).toBeCloseTo(0.5)
+    const history = burnDown(tracking)
+    expect(history).toHaveLength(25)
+    expect(history[history.length - 1].availability).toBeCloseTo(0.5)
+    expect(history[0].availability).toBeGreaterThan(history[1].availability)
+    expect(budgetRemaining(track(100, 20))).toBe(0)
+  })
+})
+
+describe('Burn-rate alerts', () => {
+  it('measures how much faster than an even spend a window burns', () => {
+    expect(burnRate(track(5, 10), 'availability', 10)).toBeCloseTo(0.5)
+    expect(burnRate(track(50, 10), 'availability', 10)).toBeCloseTo(5)
+  })
+
+  it('fires each rule once per breach, waiting for its window to fill', () => {
+    const burning = track(100, 9)
+    expect(burning.alerts).toEqual([])
+    const fast = track(100, 3, burning)
+    expect(fast.alerts.map((a) => [a.atSec, a.sli, a.windowSec, a.severity])).toEqual([[10, 'availability', 10, 'critical']])
+    expect(firingSeverity(fast)).toBe('critical')
+    const calm = track(edge.errorRate, 20, fast)
+    expect(firingSeverity(calm)).toBeNull()
+    expect(calm.alerts).toHaveLength(1)
+  })
+})
+
+describe('Scoring against the error budget', () => {
+  const outage = (seed: number) => createOutage(seed, { incidentTypes: INCIDENT_TYPES.filter((t) => t.id === 'db-pool'), slo })
+  const fixAfter = (seed: number, delay: number) => {
+    const start = outage(seed)
+    const detected = run(start, start.plan.onsetTick + delay)
+    return run(startStrategy(detected, 'Scale Up', 'database'), findStrategy('Scale Up').timeToExecute + 60)
+  }
+
+  it('tracks every second of the run at the edge', () => {
+    const state = run(outage(2), 30)
+    expect(state.slo!.samples.map((s) => s.atSec)).toEqual(Array.from({ length: 30 }, (_, i) => i + 1))
+  })
+
+  it('scores a fix by the budget it saved rather than by the clock', () => {
+    const quick = fixAfter(2, 5)
+    const slow = fixAfter(2, 60)
+    expect(scoreOutage(quick).budgets!.availability.remaining).toBeGreaterThan(scoreOutage(slow).budgets!.availability.remaining)
+    expect(scoreOutage(quick).score).toBeGreaterThan(scoreOutage(slow).score)
+    expect(scoreOutage(slow).score).toBe(25 + 0 + 25 + 20)
+  })
+})
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest'
+import missionsData from '../../../missions.json'
+import {
+  assignJobIds,
+  buildLineIndex,
+  compileWorkflow,
+  toJobId,
+  validateJobYaml,
+  validateWorkflow
+} from '../workflowCompiler'
+
+const templates = (missionsData.missions.find((m) => m.id === 3)?.validation as { yamlTemplate: Record<string, string> }).yamlTemplate
+
+const canvasJobs = [
+  { id: 'job-test', name: 'Test', yaml: templates.test, dependencies: [] },
+  { id: 'job-lint', name: 'Lint', yaml: templates.lint, dependencies: [] },
+  { id: 'job-build', name: 'Build', yaml: templates.build, dependencies: ['job-test', 'job-lint'] },
+  { id: 'job-push', name: 'Push', yaml: templates.push, dependencies: ['job-build'] },
+  { id: 'job-deploy', name: 'Deploy', yaml: templates.deploy, dependencies: ['job-push'] }
+]
+
+const errorsOf = (text: string) => validateWorkflow(text).filter((d) => d.severity === 'error')
+
+describe('Workflow line index', () => {
+  it('maps keys and sequence items to their lines', () => {
+    const index = buildLineIndex([
+      'on: push',
+      'jobs:',
+      '  test:',
+      '    runs-on: ubuntu-latest',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '      - name: Run',
+      '        run: |',
+      '          pytest',
+      '          echo done',
+      '        env:',
+      '          CI: true'
+    ].join('\n'))
+    expect(index.get('jobs.test')).toBe(3)
+    expect(index.get('jobs.test.steps[0].uses')).toBe(6)
+    expect(index.get('jobs.test.steps[1]')).toBe(7)
+    expect(index.get('jobs.test.steps[1].run')).toBe(8)
+    expect(index.get('jobs.test.steps[1].env.CI')).toBe(12)
+  })
+})
+
+describe('Workflow validator', () => {
+  it('accepts a well-formed workflow', () => {
+    expect(validateWorkflow([
+      'name: CI',
+      'on: [push, pull_request]',
+      'jobs:',
+      '  test:',
+      '    runs-on: ubuntu-latest',
+      '    strategy:',
+      '      matrix:',
+      '        python: ["3.11", "3.12"]',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '      - uses: actions/setup-python@v5',
+      '        with:',
+      '          python-version: ${{ matrix.python }}',
+      '      - run: pytest'
+    ].join('\n'))).toEqual([])
+  })
+
+  it('reports YAML syntax errors on the offending line', () => {
+    const [diagnostic] = validateWorkflow('on: push\njobs:\n  test:\n    steps: [\n')
+    expect(diagnostic.severity).toBe('error')
+    expect(diagnostic.message).toMatch(/YAML syntax error/)
+    expect(diagnostic.line).toBeGreaterThanOrEqual(4)
+  })
+
+  it('requires a trigger and known events', () => {
+    expect(errorsOf('jobs:\n  a:\n    runs-on: x\n    steps:\n      - run: ls').map((d) => d.message))
+      .toContain('Workflow needs an "on" trigger (e.g. push or pull_request)')
+    const [bad] = errorsOf('on:\n  pushh:\njobs:\n  a:\n    runs-on: x\n    steps:\n      - run: ls')
+    expect(bad).toMatchObject({ line: 2, message: 'Unknown trigger event "pushh"' })
+  })
+
+  it('checks uses/run exclusivity and with usage per step', () => {
+    const errors = errorsOf([
+      'on: push',
+      'jobs:',
+      '  a:',
+      '    runs-on: ubuntu-latest',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '        run: ls',
+      '      - name: nothing',
+      '      - run: ls',
+      '        with:',
+      '          x: 1'
+    ].join('\n'))
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 6, message: 'A step cannot have both "uses" and "run"' }),
+      expect.objectContaining({ line: 8, message: 'A step needs either "uses" or "run"' }),
+      expect.objectContaining({ line: 10, message: '"with" only applies to steps that "uses" an action' })
+    ]))
+  })
+
+  it('checks needs, runs-on and env', () => {
+    const errors = errorsOf([
+      'on: push',
+      'jobs:',
+      '  a:',
+      '    needs: [ghost]',
+      '    env:',
+      '      bad-name: 1',
+      '    steps:',
+      '      - run: ls'
+    ].join('\n'))
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 3, message: 'Job "a" is missing "runs-on"' }),
+      expect.objectContaining({ line: 4, message: '"needs" references unknown job "ghost"' }),
+      expect.objectContaining({ line: 6, message: '"bad-name" is not a valid environment variable name' })
+    ]))
+  })
+
+  it('rejects dependency loops', () => {
+    const errors = errorsOf([
+      'on: push',
+      'jobs:',
+      '  a:',
+      '    needs: b',
+      '    runs-on: x',
+      '    steps: [{ run: ls }]',
+      '  b:',
+      '    needs: a',
+      '    runs-on: x',
+      '    steps: [{ run: ls }]'
+    ].join('\n'))
+    expect(errors.map((d) => d.message)).toContain('Jobs depend on each other in a loop: a → b → a')
+  })
+
+  it('checks matrix keys against their uses', () => {
+    const errors = errorsOf([
+      'on: push',
+      'jobs:',
+      '  a:',
+      '    runs-on: ${{ matrix.os }}',
+      '    strategy:',
+      '      matrix:',
+      '        os: [ubuntu-latest, windows-latest]',
+      '        exclude:',
+      '          - node: 18',
+      '    steps:',
+      '      - run: echo ${{ matrix.python }}'
+    ].join('\n'))
+    expect(errors.map((d) => d.message)).toEqual(expect.arrayContaining([
+      'exclude references unknown matrix key "node"',
+      '"matrix.python" is used but the matrix has no "python" key'
+    ]))
+  })
+})
+
+describe('Job snippet validation', () => {
+  it('accepts every mission template', () => {
+    const ids = Object.keys(templates)
+    for (const [id, snippet] of Object.entries(templates)) {
+      expect(validateJobYaml(snippet, id, ids)).toEqual([])
+    }
+  })
+
+  it('reports lines relative to the snippet', () => {
+    const [diagnostic] = validateJobYaml('name: Test\nruns-on: ubuntu-latest\nsteps:\n  - uses: checkout\n', 'test', ['test'])
+    expect(diagnostic).toMatchObject({ line: 4, path: 'jobs.test.steps[0].uses' })
+  })
+})
+
+describe('Workflow compiler', () => {
+  it('compiles the canvas into a valid workflow', () => {
+    const result = compileWorkflow(canvasJobs)
+    expect(result.diagnostics).toEqual([])
+    expect(result.yaml).toMatch(/^on:/m)
+    const jobs = result.document.jobs as Record<string, { needs?: unknown }>
+    expect(Object.keys(jobs)).toEqual(['test', 'lint', 'build', 'push', 'deploy'])
+    expect(jobs.build.needs).toEqual(['test', 'lint'])
+    expect(jobs.deploy.needs).toBe('push')
+    expect(validateWorkflow(result.yaml)).toEqual([])
+  })
+
+  it('uses canvas connections over snippet needs and warns on mismatch', () => {
+    const jobs = canvasJobs.map((j) => j.id === 'job-build' ? { ...j, dependencies: ['job-test'] } : j)
+    const result = compileWorkflow(jobs)
+    expect((result.document.jobs as Record<string, { needs?: unknown }>).build.needs).toBe('test')
+    const line = buildLineIndex(result.yaml).get('jobs.build.needs')
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', path: 'jobs.build.needs', line })
+    ])
+    expect(result.yaml.split('\n')[line! - 1].trim()).toBe('needs: test')
+  })
+
+  it('numbers jobs whose names share an id instead of dropping one', () => {
+    const jobs = [
+      { id: 'a', name: 'Build', yaml: templates.test, dependencies: [] },
+      { id: 'b', name: 'build!', yaml: templates.test, dependencies: ['a'] }
+    ]
+    const result = compileWorkflow(jobs)
+    expect(result.jobIds).toEqual({ a: 'build', b: 'build-2' })
+    expect((result.document.jobs as Record<string, { needs?: unknown }>)['build-2'].needs).toBe('build')
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', path: 'jobs.build-2', line: buildLineIndex(result.yaml).get('jobs.build-2') })
+    ])
+  })
+
+  it('derives job ids from names', () => {
+    expect(toJobId('Build & Push')).toBe('build-push')
+    expect(toJobId('  ')).toBe('job')
+    expect(assignJobIds([{ id: '1', name: 'Test' }, { id: '2', name: 'test' }, { id: '3', name: 'TEST' }])).toEqual({ 1: 'test', 2: 'test-2', 3: 'test-3' })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { importWorkflow } from '../workflowImporter'
+import { scorePipeline } from '../pipelineScore'
+import { compileWorkflow } from '../workflowCompiler'
+
+const workflow = [
+  'name: CI',
+  'on: [push]',
+  'jobs:',
+  '  test:',
+  '    name: Unit tests',
+  '    runs-on: ubuntu-latest',
+  '    strategy:',
+  '      matrix:',
+  '        python: ["3.11", "3.12"]',
+  '    steps:',
+  '      - uses: actions/checkout@v4',
+  '      - run: pytest',
+  '  lint:',
+  '    runs-on: ubuntu-latest',
+  '    steps:',
+  '      - uses: actions/checkout@v4',
+  '      - run: flake8 .',
+  '  build:',
+  '    needs: [test, lint]',
+  '    runs-on: ubuntu-latest',
+  '    steps:',
+  '      - uses: actions/checkout@v4',
+  '      - run: docker build .',
+  '  release:',
+  '    needs: build',
+  '    uses: ./.github/workflows/release.yml'
+].join('\n')
+
+describe('Workflow importer', () => {
+  it('turns jobs into canvas nodes with needs as dependencies', () => {
+    const result = importWorkflow(workflow)
+    expect(result.workflowName).toBe('CI')
+    expect(result.jobs.map((j) => j.id)).toEqual(['imported-test', 'imported-lint', 'imported-build'])
+    const build = result.jobs.find((j) => j.name === 'build')
+    expect(build?.dependencies).toEqual(['imported-test', 'imported-lint'])
+    expect(build?.position.x).toBeGreaterThan(result.jobs[0].position.x)
+    expect(result.jobs[0]).toMatchObject({ description: 'Unit tests', configured: true })
+    expect(result.jobs[0].yaml).toContain('matrix:')
+  })
+
+  it('reports unsupported constructs on their lines', () => {
+    const { diagnostics } = importWorkflow(workflow)
+    expect(diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ severity: 'warning', line: 7, message: expect.stringContaining('matrix jobs are shown as a single node') }),
+      expect.objectContaining({ severity: 'error', line: 26, message: expect.stringContaining('reusable workflow') })
+    ]))
+  })
+
+  it('round-trips through the compiler', () => {
+    const { jobs } = importWorkflow(workflow)
+    const compiled = compileWorkflow(jobs)
+    expect(Object.keys(compiled.document.jobs as object)).toEqual(['test', 'lint', 'build'])
+    expect(compiled.diagnostics.filter((d) => d.severity === 'error')).toEqual([])
+  })
+
+  it('rejects other dialects and broken YAML', () => {
+    expect(importWorkflow('stages: [build]\nbuild:\n  script: make').diagnostics[0].message).toMatch(/GitLab CI or Azure/)
+    const broken = importWorkflow('jobs:\n  a: [\n')
+    expect(broken.jobs).toEqual([])
+    expect(broken.diagnostics[0].message).toMatch(/YAML syntax error/)
+  })
+})
+
+describe('Pipeline scoring', () => {
+  it('scores an imported pipeline with the game rules', () => {
+    const { jobs } = importWorkflow(workflow)
+    const score = scorePipeline(jobs, ['test', 'lint', 'build', 'push', 'deploy'])
+    expect(score.missingJobs).toEqual(['push', 'deploy'])
+    expect(score.dependencyScore).toBe(50)
+    expect(score.properDependencies).toBe(true)
+    expect(score.allConfigured).toBe(true)
+    expect(score.score).toBe(100)
+  })
+
+  it('penalizes dependency loops', () => {
+    const jobs = [
+      { id: 'a', name: 'test', yaml: 'runs-on: x\nsteps:\n  - run: ls', dependencies: ['b'], configured: true },
+      { id: 'b', name: 'build', yaml: 'runs-on: x\nsteps:\n  - run: ls', dependencies: ['a'], configured: true }
+    ]
+    const score = scorePipeline(jobs, ['test', 'build'])
+    expect(score.properDependencies).toBe(false)
+    expect(score.graphDiagnostics.map((d) => d.kind)).toEqual(['cycle'])
+    expect(score.score).toBe(80)
+  })
+})
@@ -0,0 +1,139 @@
+// On-call alerting for the Outage Simulator.
+// Players write alert rules over service metrics before the shift starts. A
+// rule fires once its condition has held for its whole window and stays
+// firing until the condition clears, so a rule pages once per breach rather
+// than every second. Short windows catch incidents sooner but also page on
+// brief blips; thresholds close to normal readings page all the time.
+
+import type { ServiceId, ServiceMetrics } from './outageEngine'
+
+export type AlertMetric = keyof ServiceMetrics
+export type AlertComparator = 'above' | 'below'
+// Critical alerts page the on-call engineer; warnings go to the team channel
+export type AlertSeverity = 'critical' | 'warning'
+
+export interface AlertRule {
+  id: string
+  service: ServiceId
+  metric: AlertMetric
+  comparator: AlertComparator
+  threshold: number
+  // Seconds the condition must hold before the rule fires
+  forSec: number
+  severity: AlertSeverity
+}
+
+export interface AlertRuleStatus {
+  // Tick the current breach started, or null while the condition is clear
+  breachingSince: number | null
+  firing: boolean
+}
+
+export interface Page {
+  ruleId: string
+  atSec: number
+  service: ServiceId
+  metric: AlertMetric
+  value: number
+  severity: AlertSeverity
+  // Incident open when the page fired; null for a false alarm
+  incidentId: string | null
+}
+
+export interface AlertIssue {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; unit: string; defaultComparator: AlertComparator }> = {
+  errorRate: { label: 'Error rate', unit: '%', defaultComparator: 'above' },
+  responseTime: { label: 'Response time', unit: 'ms', defaultComparator: 'above' },
+  cpu: { label: 'CPU', unit: '%', defaultComparator: 'above' },
+  memory: { label: 'Memory', unit: '%', defaultComparator: 'above' },
+  requestsPerSecond: { label: 'Requests/s', unit: '', defaultComparator: 'below' }
+}
+
+// Longest window a rule may wait before firing
+export const MAX_ALERT_WINDOW_SEC = 120
+
+// A starting point that watches what users feel at the edge
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'rule-1', service: 'load-balancer', metric: 'errorRate', comparator: 'above', threshold: 5, forSec: 10, severity: 'critical' }
+]
+
+export const describeRule = (rule: AlertRule, serviceName: string) => {
+  const { label, unit } = ALERT_METRICS[rule.metric]
+  return `${serviceName} ${label.toLowerCase()} ${rule.comparator} ${rule.threshold}${unit} for ${rule.forSec}s`
+}
+
+const breaches = (rule: AlertRule, value: number) =>
+  rule.comparator === 'above' ? value > rule.threshold : value < rule.threshold
+
+export const initialAlertStatus = (rules: AlertRule[]): Record<string, AlertRuleStatus> =>
+  Object.fromEntries(rules.map((rule) => [rule.id, { breachingSince: null, firing: false }]))
+
+// Checks every rule against this tick's metrics. Returns the new status and
+// the rules that started firing on this tick.
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  status: Record<string, AlertRuleStatus>,
+  metrics: Record<ServiceId, ServiceMetrics>,
+  tick: number
+) => {
+  const next: Record<string, AlertRuleStatus> = {}
+  const fired: { rule: AlertRule; value: number }[] = []
+  for (const rule of rules) {
+    const value = metrics[rule.service][rule.metric]
+    const previous = status[rule.id] ?? { breachingSince: null, firing: false }
+    if (!breaches(rule, value)) {
+      next[rule.id] = { breachingSince: null, firing: false }
+      continue
+    }
+    const breachingSince = previous.breachingSince ?? tick
+    const firing = tick - breachingSince >= rule.forSec
+    if (firing && !previous.firing) fired.push({ rule, value })
+    next[rule.id] = { breachingSince, firing }
+  }
+  return { status: next, fired }
+}
+
+// Problems with a rule, judged against the service's normal readings
+export const alertRuleIssues = (rule: AlertRule, baseline: ServiceMetrics): AlertIssue[] => {
+  const issues: AlertIssue[] = []
+  const { label, unit } = ALERT_METRICS[rule.metric]
+  if (!Number.isFinite(rule.threshold)) {
+    issues.push({ severity: 'error', message: 'Threshold must be a number' })
+  } else if (breaches(rule, baseline[rule.metric])) {
+    issues.push({ severity: 'error', message: `${label} is normally ${baseline[rule.metric]}${unit}, so this rule fires all shift long` })
+  }
+  if (!Number.isInteger(rule.forSec) || rule.forSec < 0 || rule.forSec > MAX_ALERT_WINDOW_SEC) {
+    issues.push({ severity: 'error', message: `Window must be a whole number of seconds from 0 to ${MAX_ALERT_WINDOW_SEC}` })
+  } else if (rule.forSec < 5) {
+    issues.push({ severity: 'warning', message: 'A window this short pages on every brief blip' })
+  } else if (rule.forSec > 60) {
+    issues.push({ severity: 'warning', message: 'A window this long lets users suffer for a minute before anyone is paged' })
+  }
+  return issues
+}
+
+export interface AlertingScore {
+  // Seconds from the incident starting to the first page about it
+  timeToDetect: number | null
+  missedIncident: boolean
+  falsePages: number
+  penalty: number
+}
+
+// Misses and slow detection cost the most; noise costs per page, more for
+// critical pages that wake someone up
+export const scoreAlerting = (pages: Page[], incident: { id: string; startedAt: number } | null): AlertingScore => {
+  const first = incident ? pages.find((p) => p.incidentId === incident.id) : undefined
+  const timeToDetect = incident && first ? first.atSec - incident.startedAt : null
+  const missedIncident = incident !== null && !first
+  const noise = pages.filter((p) => p.incidentId === null)
+  let penalty = 0
+  if (missedIncident) penalty += 20
+  else if (timeToDetect !== null && timeToDetect > 30) penalty += 10
+  penalty += Math.min(20, noise.reduce((sum, p) => sum + (p.severity === 'critical' ? 5 : 2), 0))
+  return { timeToDetect, missedIncident, falsePages: noise.length, penalty }
+}
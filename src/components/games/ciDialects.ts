@@ -0,0 +1,552 @@
+// CI dialects for Pipeline Architect.
+// Canvas jobs are converted into a dialect-neutral pipeline model, which can
+// then be exported as GitHub Actions, GitLab CI or Azure Pipelines YAML.
+// Each dialect has its own validator so exported (or hand-written) files get
+// per-line diagnostics just like the GitHub workflow validator.
+
+import yaml from 'js-yaml'
+import { dependencyDepths } from './pipelineGraph'
+import {
+  DEFAULT_TRIGGERS,
+  DiagnosticCollector,
+  assignJobIds,
+  buildLineIndex,
+  findCycle,
+  isMapping,
+  normalizeNeeds,
+  parseJobYaml,
+  parseYaml,
+  toJobId,
+  validateWorkflow,
+  type PathSegment,
+  type WorkflowDiagnostic,
+  type WorkflowJobSource
+} from './workflowCompiler'
+
+export type CiDialect = 'github' | 'gitlab' | 'azure'
+
+export const CI_DIALECTS: Record<CiDialect, { label: string; fileName: string }> = {
+  github: { label: 'GitHub Actions', fileName: '.github/workflows/ci.yml' },
+  gitlab: { label: 'GitLab CI', fileName: '.gitlab-ci.yml' },
+  azure: { label: 'Azure Pipelines', fileName: 'azure-pipelines.yml' }
+}
+
+export const isCiDialect = (value: unknown): value is CiDialect =>
+  typeof value === 'string' && value in CI_DIALECTS
+
+// One step, described by intent rather than by any dialect's syntax
+export interface NeutralStep {
+  name?: string
+  // Reusable action/task reference, e.g. actions/checkout@v4
+  action?: string
+  inputs?: Record<string, unknown>
+  run?: string
+}
+
+export interface NeutralJob {
+  id: string
+  name: string
+  needs: string[]
+  runner: string
+  env: Record<string, unknown>
+  steps: NeutralStep[]
+}
+
+export interface PipelineExport {
+  dialect: CiDialect
+  fileName: string
+  yaml: string
+  diagnostics: WorkflowDiagnostic[]
+}
+
+// Build the neutral model from canvas jobs. Canvas connections decide `needs`.
+export const toNeutralJobs = (jobs: WorkflowJobSource[]): NeutralJob[] => {
+  const ids = assignJobIds(jobs)
+  return jobs.map((job) => {
+    const body = parseJobYaml(job.yaml) ?? {}
+    const steps = Array.isArray(body.steps) ? body.steps.filter(isMapping) : []
+    return {
+      id: ids[job.id],
+      name: typeof body.name === 'string' ? body.name : job.name,
+      needs: job.dependencies.map((dep) => ids[dep]).filter(Boolean),
+      runner: typeof body['runs-on'] === 'string' ? body['runs-on'] : 'ubuntu-latest',
+      env: isMapping(body.env) ? body.env : {},
+      steps: steps.map((step) => ({
+        ...(typeof step.name === 'string' ? { name: step.name } : {}),
+        ...(typeof step.uses === 'string' ? { action: step.uses } : {}),
+        ...(isMapping(step.with) ? { inputs: step.with } : {}),
+        ...(typeof step.run === 'string' ? { run: step.run } : {})
+      }))
+    }
+  })
+}
+
+// Job and step keys the neutral model carries; anything else is left out of every export
+const NEUTRAL_JOB_KEYS = ['name', 'needs', 'runs-on', 'env', 'steps']
+const NEUTRAL_STEP_KEYS = ['name', 'uses', 'with', 'run']
+
+// Warnings about what the neutral model changes or leaves out, shared by all dialects
+const neutralWarnings = (jobs: WorkflowJobSource[], neutral: NeutralJob[]) => {
+  const warnings: string[] = []
+  jobs.forEach((job, index) => {
+    const { id, needs } = neutral[index]
+    if (id !== toJobId(job.name)) {
+      warnings.push(`${job.name}: another job is also named "${toJobId(job.name)}", so this one is exported as "${id}"`)
+    }
+    const body = parseJobYaml(job.yaml) ?? {}
+    const declared = normalizeNeeds(body.needs) ?? []
+    if (body.needs !== undefined && [...declared].sort().join(',') !== [...needs].sort().join(',')) {
+      warnings.push(`${job.name}: YAML says needs [${declared.join(', ')}] but the canvas connects [${needs.join(', ')}]; the canvas wins`)
+    }
+    const steps = Array.isArray(body.steps) ? body.steps.filter(isMapping) : []
+    const dropped = new Set([
+      ...Object.keys(body).filter((key) => !NEUTRAL_JOB_KEYS.includes(key)),
+      ...steps.flatMap((step) => Object.keys(step).filter((key) => !NEUTRAL_STEP_KEYS.includes(key)).map((key) => `steps.${key}`))
+    ])
+    for (const key of dropped) warnings.push(`${job.name}: "${key}" is not supported by the export and was left out`)
+  })
+  return warnings
+}
+
+const actionName = (action: string) => action.split('@')[0]
+
+const dumpYaml = (document: unknown) => yaml.dump(document, { lineWidth: -1, noRefs: true })
+
+// Translate GitHub expressions to another dialect's predefined variables
+const EXPRESSIONS: Record<Exclude<CiDialect, 'github'>, Record<string, string>> = {
+  gitlab: { 'github.sha': '$CI_COMMIT_SHA', 'github.ref_name': '$CI_COMMIT_REF_NAME', 'github.run_number': '$CI_PIPELINE_IID' },
+  azure: { 'github.sha': '$(Build.SourceVersion)', 'github.ref_name': '$(Build.SourceBranchName)', 'github.run_number': '$(Build.BuildId)' }
+}
+
+const translateExpressions = (value: string, dialect: Exclude<CiDialect, 'github'>, warn: (message: string) => void) =>
+  value.replace(/\$\{\{\s*([^}]+?)\s*\}\}/g, (match, expression: string) => {
+    const translated = EXPRESSIONS[dialect][expression]
+    if (translated) return translated
+    warn(`No ${CI_DIALECTS[dialect].label} equivalent for "${match}"; copied as-is`)
+    return match
+  })
+
+// Split "myapp:tag" into repository and tag
+const splitImageTag = (tags: unknown) => {
+  const text = typeof tags === 'string' ? tags.split(/[,\n]/)[0].trim() : 'myapp:latest'
+  const colon = text.lastIndexOf(':')
+  return colon > 0 ? { repository: text.slice(0, colon), tag: text.slice(colon + 1) } : { repository: text, tag: 'latest' }
+}
+
+// ---------------------------------------------------------------------------
+// GitHub Actions
+
+export const toGitHubActions = (jobs: NeutralJob[]): { document: Record<string, unknown>; warnings: string[] } => {
+  const document: Record<string, unknown> = {
+    name: 'CI',
+    on: DEFAULT_TRIGGERS,
+    jobs: Object.fromEntries(jobs.map((job) => [job.id, {
+      name: job.name,
+      ...(job.needs.length > 0 ? { needs: job.needs.length === 1 ? job.needs[0] : job.needs } : {}),
+      'runs-on': job.runner,
+      ...(Object.keys(job.env).length > 0 ? { env: job.env } : {}),
+      steps: job.steps.map((step) => ({
+        ...(step.name !== undefined ? { name: step.name } : {}),
+        ...(step.action !== undefined ? { uses: step.action } : {}),
+        ...(step.inputs !== undefined ? { with: step.inputs } : {}),
+        ...(step.run !== undefined ? { run: step.run } : {})
+      }))
+    }]))
+  }
+  return { document, warnings: [] }
+}
+
+// ---------------------------------------------------------------------------
+// GitLab CI
+
+// Top-level keys GitLab reads as pipeline configuration rather than jobs
+const GITLAB_RESERVED = ['stages', 'variables', 'default', 'include', 'workflow', 'image', 'services', 'before_script', 'after_script', 'cache', 'types']
+
+const gitlabImage = (job: NeutralJob) => {
+  for (const step of job.steps) {
+    if (!step.action) continue
+    const name = actionName(step.action)
+    if (name === 'actions/setup-python') return `python:${step.inputs?.['python-version'] ?? '3.12'}`
+    if (name === 'actions/setup-node') return `node:${step.inputs?.['node-version'] ?? '20'}`
+    if (name === 'docker/build-push-action') return 'docker:24'
+  }
+  return job.runner.startsWith('ubuntu') ? 'ubuntu:22.04' : job.runner
+}
+
+// Rename jobs whose id is a reserved keyword, the same way duplicate names get a suffix
+const renameReservedJobs = (jobs: NeutralJob[], warnings: string[]): NeutralJob[] => {
+  const taken = new Set(jobs.map((job) => job.id))
+  const renamed = new Map<string, string>()
+  for (const job of jobs) {
+    if (!GITLAB_RESERVED.includes(job.id)) continue
+    let id = `${job.id}-job`
+    for (let n = 2; taken.has(id); n++) id = `${job.id}-job-${n}`
+    taken.add(id)
+    renamed.set(job.id, id)
+    warnings.push(`${job.name}: "${job.id}" is a reserved GitLab keyword, so this job is exported as "${id}"`)
+  }
+  const rename = (id: string) => renamed.get(id) ?? id
+  return jobs.map((job) => ({ ...job, id: rename(job.id), needs: job.needs.map(rename) }))
+}
+
+export const toGitLabCi = (neutralJobs: NeutralJob[]): { document: Record<string, unknown>; warnings: string[] } => {
+  const warnings: string[] = []
+  const jobs = renameReservedJobs(neutralJobs, warnings)
+  const depths = dependencyDepths(jobs.map((j) => ({ id: j.id, name: j.name, dependencies: j.needs })))
+  // One stage per dependency depth, named after the jobs in it
+  const stageOf = new Map<number, string[]>()
+  for (const job of jobs) {
+    const depth = depths.get(job.id) ?? 0
+    stageOf.set(depth, [...(stageOf.get(depth) ?? []), job.id])
+  }
+  const stageNames = new Map([...stageOf.entries()].map(([depth, ids]) => [depth, ids.join('-')]))
+  const stages = [...stageNames.entries()].sort(([a], [b]) => a - b).map(([, name]) => name)
+
+  const document: Record<string, unknown> = { stages }
+  for (const job of jobs) {
+    const warn = (message: string) => warnings.push(`${job.name}: ${message}`)
+    const script: string[] = []
+    const image = gitlabImage(job)
+    for (const step of job.steps) {
+      if (step.run) {
+        script.push(...step.run.split('\n').map((l) => l.trim()).filter(Boolean).map((l) => translateExpressions(l, 'gitlab', warn)))
+        continue
+      }
+      if (!step.action) continue
+      const name = actionName(step.action)
+      if (name === 'actions/checkout' || name.startsWith('actions/setup-')) continue
+      if (name === 'docker/build-push-action') {
+        const { repository, tag } = splitImageTag(step.inputs?.tags)
+        const ref = translateExpressions(`${repository}:${tag}`, 'gitlab', warn)
+        script.push(`docker build -t ${ref} .`)
+        if (step.inputs?.push === true) script.push(`docker push ${ref}`)
+        continue
+      }
+      warn(`"${step.action}" has no GitLab equivalent; replaced with a placeholder script line`)
+      script.push(`echo "TODO: replace ${step.action}"`)
+    }
+    if (script.length === 0) script.push(`echo "${job.name}"`)
+    document[job.id] = {
+      stage: stageNames.get(depths.get(job.id) ?? 0),
+      image,
+      ...(image.startsWith('docker:') ? { services: ['docker:24-dind'] } : {}),
+      ...(job.needs.length > 0 ? { needs: job.needs } : {}),
+      ...(Object.keys(job.env).length > 0 ? { variables: job.env } : {}),
+      script
+    }
+  }
+  return { document, warnings }
+}
+
+const GITLAB_JOB_KEYS = [
+  'stage', 'image', 'services', 'script', 'before_script', 'after_script', 'needs', 'dependencies', 'variables',
+  'rules', 'only', 'except', 'when', 'artifacts', 'cache', 'tags', 'allow_failure', 'timeout', 'retry',
+  'environment', 'extends', 'trigger', 'parallel', 'interruptible', 'coverage', 'resource_group'
+]
+const GITLAB_DEFAULT_STAGES = ['.pre', 'build', 'test', 'deploy', '.post']
+
+const isScriptValue = (value: unknown) =>
+  (typeof value === 'string' && value.trim() !== '') ||
+  (Array.isArray(value) && value.length > 0 && value.every((line) => typeof line === 'string' || Array.isArray(line)))
+
+export const validateGitLabCi = (text: string): WorkflowDiagnostic[] => {
+  const { value, diagnostic } = parseYaml(text)
+  if (diagnostic) return [diagnostic]
+  const out = new DiagnosticCollector(buildLineIndex(text))
+  if (!isMapping(value)) {
+    out.error([], '.gitlab-ci.yml must be a mapping of jobs')
+    return out.diagnostics
+  }
+  let stages = GITLAB_DEFAULT_STAGES
+  if ('stages' in value) {
+    if (!Array.isArray(value.stages) || !value.stages.every((s) => typeof s === 'string')) {
+      out.error(['stages'], '"stages" must be a list of stage names')
+    } else {
+      stages = ['.pre', ...value.stages, '.post']
+    }
+  }
+
+  const jobIds = Object.keys(value).filter((key) => !GITLAB_RESERVED.includes(key) && !key.startsWith('.'))
+  if (jobIds.length === 0) out.error([], 'Pipeline defines no jobs')
+  const graph: Record<string, string[]> = {}
+  for (const jobId of jobIds) {
+    const path: PathSegment[] = [jobId]
+    const job = value[jobId]
+    if (!isMapping(job)) {
+      out.error(path, `Job "${jobId}" must be a mapping`)
+      continue
+    }
+    for (const key of Object.keys(job)) {
+      if (!GITLAB_JOB_KEYS.includes(key)) out.error([...path, key], `Unknown job key "${key}"`)
+    }
+    if (!('script' in job) && !('trigger' in job) && !('extends' in job)) {
+      out.error(path, `Job "${jobId}" needs a "script"`)
+    } else if ('script' in job && !isScriptValue(job.script)) {
+      out.error([...path, 'script'], '"script" must be a command or a non-empty list of commands')
+    }
+    const stage = job.stage ?? 'test'
+    if (typeof stage !== 'string' || !stages.includes(stage)) {
+      out.error([...path, 'stage'], `Stage "${String(stage)}" is not listed in "stages"`)
+    }
+    if ('image' in job && !(typeof job.image === 'string' || (isMapping(job.image) && typeof job.image.name === 'string'))) {
+      out.error([...path, 'image'], '"image" must be an image name or { name: ... }')
+    }
+    const needs: string[] = []
+    if ('needs' in job) {
+      if (!Array.isArray(job.needs)) {
+        out.error([...path, 'needs'], '"needs" must be a list of job names')
+      } else {
+        job.needs.forEach((need, i) => {
+          const name = typeof need === 'string' ? need : isMapping(need) && typeof need.job === 'string' ? need.job : null
+          if (name === null) {
+            out.error([...path, 'needs', i], 'Each "needs" entry must be a job name or { job: name }')
+          } else if (name === jobId) {
+            out.error([...path, 'needs', i], `Job "${jobId}" cannot need itself`)
+          } else if (!jobIds.includes(name)) {
+            out.error([...path, 'needs', i], `"needs" references unknown job "${name}"`)
+          } else {
+            needs.push(name)
+            const other = value[name]
+            const otherStage = isMapping(other) ? other.stage ?? 'test' : 'test'
+            if (typeof stage === 'string' && typeof otherStage === 'string' && stages.indexOf(otherStage) > stages.indexOf(stage)) {
+              out.error([...path, 'needs', i], `"${jobId}" (stage ${stage}) cannot need "${name}" from the later stage ${otherStage}`)
+            }
+          }
+        })
+      }
+    }
+    graph[jobId] = needs
+  }
+  const cycle = findCycle(graph)
+  if (cycle) out.error([cycle[0], 'needs'], `Jobs depend on each other in a loop: ${cycle.join(' → ')}`)
+  return out.diagnostics
+}
+
+// ---------------------------------------------------------------------------
+// Azure Pipelines
+
+// Azure identifiers allow letters, digits and underscores only
+const azureId = (id: string) => {
+  const cleaned = id.replace(/[^A-Za-z0-9_]/g, '_')
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`
+}
+
+const stageId = (job: NeutralJob) => {
+  const id = azureId(job.id)
+  return id.charAt(0).toUpperCase() + id.slice(1)
+}
+
+export const toAzurePipelines = (jobs: NeutralJob[]): { document: Record<string, unknown>; warnings: string[] } => {
+  const warnings: string[] = []
+  const byId = new Map(jobs.map((job) => [job.id, job]))
+  const stages = jobs.map((job) => {
+    const warn = (message: string) => warnings.push(`${job.name}: ${message}`)
+    const steps: Record<string, unknown>[] = []
+    for (const step of job.steps) {
+      if (step.run) {
+        steps.push({
+          script: translateExpressions(step.run, 'azure', warn),
+          displayName: step.name ?? step.run.split('\n')[0]
+        })
+        continue
+      }
+      if (!step.action) continue
+      const name = actionName(step.action)
+      if (name === 'actions/checkout') {
+        steps.push({ checkout: 'self' })
+      } else if (name === 'actions/setup-python') {
+        steps.push({ task: 'UsePythonVersion@0', inputs: { versionSpec: String(step.inputs?.['python-version'] ?? '3.12') } })
+      } else if (name === 'actions/setup-node') {
+        steps.push({ task: 'NodeTool@0', inputs: { versionSpec: `${step.inputs?.['node-version'] ?? '20'}.x` } })
+      } else if (name === 'docker/build-push-action') {
+        const { repository, tag } = splitImageTag(step.inputs?.tags)
+        steps.push({
+          task: 'Docker@2',
+          displayName: step.name ?? (step.inputs?.push === true ? 'Build and push image' : 'Build image'),
+          inputs: {
+            command: step.inputs?.push === true ? 'buildAndPush' : 'build',
+            repository,
+            tags: translateExpressions(tag, 'azure', warn)
+          }
+        })
+      } else {
+        warn(`"${step.action}" has no Azure Pipelines task; replaced with a placeholder script`)
+        steps.push({ script: `echo "TODO: replace ${step.action}"`, displayName: step.action })
+      }
+    }
+    if (steps.length === 0) steps.push({ script: `echo "${job.name}"`, displayName: job.name })
+    const dependsOn = job.needs.map((need) => byId.get(need)).filter((j): j is NeutralJob => Boolean(j)).map(stageId)
+    return {
+      stage: stageId(job),
+      displayName: job.name,
+      ...(dependsOn.length > 0 ? { dependsOn } : {}),
+      jobs: [{
+        job: azureId(job.id),
+        displayName: job.name,
+        pool: { vmImage: job.runner },
+        ...(Object.keys(job.env).length > 0 ? { variables: job.env } : {}),
+        steps
+      }]
+    }
+  })
+  return { document: { trigger: ['main'], stages }, warnings }
+}
+
+const AZURE_TOP_KEYS = ['name', 'trigger', 'pr', 'schedules', 'resources', 'parameters', 'variables', 'pool', 'stages', 'jobs', 'steps', 'extends']
+const AZURE_STAGE_KEYS = ['stage', 'displayName', 'dependsOn', 'condition', 'variables', 'pool', 'jobs']
+const AZURE_JOB_KEYS = ['job', 'deployment', 'displayName', 'dependsOn', 'condition', 'pool', 'variables', 'steps', 'strategy', 'timeoutInMinutes', 'continueOnError', 'container', 'services', 'workspace', 'environment']
+const AZURE_STEP_TYPES = ['script', 'bash', 'pwsh', 'powershell', 'task', 'checkout', 'download', 'publish', 'template']
+const AZURE_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const toIdList = (value: unknown): string[] | null => {
+  if (value === undefined) return []
+  if (typeof value === 'string') return [value]
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) return value as string[]
+  return null
+}
+
+const checkAzureDependsOn = (
+  value: unknown, ownId: string, known: string[], path: PathSegment[], out: DiagnosticCollector, what: string
+): string[] => {
+  const ids = toIdList(value)
+  if (ids === null) {
+    out.error([...path, 'dependsOn'], '"dependsOn" must be a name or a list of names')
+    return []
+  }
+  return ids.filter((id) => {
+    if (id === ownId) out.error([...path, 'dependsOn'], `${what} "${ownId}" cannot depend on itself`)
+    else if (!known.includes(id)) out.error([...path, 'dependsOn'], `"dependsOn" references unknown ${what.toLowerCase()} "${id}"`)
+    else return true
+    return false
+  })
+}
+
+const checkAzureSteps = (steps: unknown, path: PathSegment[], out: DiagnosticCollector) => {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    out.error(path, '"steps" must be a non-empty list')
+    return
+  }
+  steps.forEach((step, i) => {
+    const stepPath = [...path, i]
+    if (!isMapping(step)) {
+      out.error(stepPath, 'Each step must be a mapping such as { script: ... } or { task: ... }')
+      return
+    }
+    const types = AZURE_STEP_TYPES.filter((type) => type in step)
+    if (types.length === 0) out.error(stepPath, `A step needs one of: ${AZURE_STEP_TYPES.slice(0, 6).join(', ')}`)
+    if (types.length > 1) out.error(stepPath, `A step cannot combine ${types.map((t) => `"${t}"`).join(' and ')}`)
+    if ('task' in step && (typeof step.task !== 'string' || !/^[\w.-]+@\d+$/.test(step.task))) {
+      out.error([...stepPath, 'task'], `"${String(step.task)}" should look like TaskName@version`)
+    }
+    if ('inputs' in step) {
+      if (!('task' in step)) out.error([...stepPath, 'inputs'], '"inputs" only applies to "task" steps')
+      else if (!isMapping(step.inputs)) out.error([...stepPath, 'inputs'], '"inputs" must be a mapping')
+    }
+  })
+}
+
+const checkAzureJobs = (jobs: unknown, path: PathSegment[], out: DiagnosticCollector) => {
+  if (!Array.isArray(jobs) || jobs.length === 0) {
+    out.error(path, '"jobs" must be a non-empty list')
+    return
+  }
+  const ids = jobs.map((job) => isMapping(job) ? job.job ?? job.deployment : undefined).filter((id): id is string => typeof id === 'string')
+  const graph: Record<string, string[]> = {}
+  jobs.forEach((job, i) => {
+    const jobPath = [...path, i]
+    if (!isMapping(job)) {
+      out.error(jobPath, 'Each job must be a mapping with "job" and "steps"')
+      return
+    }
+    for (const key of Object.keys(job)) {
+      if (!AZURE_JOB_KEYS.includes(key)) out.error([...jobPath, key], `Unknown job key "${key}"`)
+    }
+    const id = job.job ?? job.deployment
+    if (typeof id !== 'string' || !AZURE_ID_PATTERN.test(id)) {
+      out.error(jobPath, 'Job needs a "job" name made of letters, digits and _')
+      return
+    }
+    if (ids.indexOf(id) !== ids.lastIndexOf(id)) out.error([...jobPath, 'job'], `Duplicate job name "${id}"`)
+    if ('pool' in job && !(typeof job.pool === 'string' || isMapping(job.pool))) {
+      out.error([...jobPath, 'pool'], '"pool" must be a pool name or { vmImage: ... }')
+    }
+    graph[id] = checkAzureDependsOn(job.dependsOn, id, ids, jobPath, out, 'Job')
+    if ('job' in job) checkAzureSteps(job.steps, [...jobPath, 'steps'], out)
+  })
+  const cycle = findCycle(graph)
+  if (cycle) out.error(path, `Jobs depend on each other in a loop: ${cycle.join(' → ')}`)
+}
+
+export const validateAzurePipelines = (text: string): WorkflowDiagnostic[] => {
+  const { value, diagnostic } = parseYaml(text)
+  if (diagnostic) return [diagnostic]
+  const out = new DiagnosticCollector(buildLineIndex(text))
+  if (!isMapping(value)) {
+    out.error([], 'azure-pipelines.yml must be a mapping')
+    return out.diagnostics
+  }
+  for (const key of Object.keys(value)) {
+    if (!AZURE_TOP_KEYS.includes(key)) out.error([key], `Unknown pipeline key "${key}"`)
+  }
+  const levels = ['stages', 'jobs', 'steps'].filter((key) => key in value)
+  if (levels.length === 0) out.error([], 'Pipeline needs "stages", "jobs" or "steps"')
+  if (levels.length > 1) out.error([levels[1]], `Use only one of ${levels.map((l) => `"${l}"`).join(', ')} at the top level`)
+
+  if ('steps' in value) checkAzureSteps(value.steps, ['steps'], out)
+  if ('jobs' in value) checkAzureJobs(value.jobs, ['jobs'], out)
+  if ('stages' in value) {
+    const stages = value.stages
+    if (!Array.isArray(stages) || stages.length === 0) {
+      out.error(['stages'], '"stages" must be a non-empty list')
+      return out.diagnostics
+    }
+    const ids = stages.map((s) => isMapping(s) ? s.stage : undefined).filter((id): id is string => typeof id === 'string')
+    const graph: Record<string, string[]> = {}
+    stages.forEach((stage, i) => {
+      const path = ['stages', i]
+      if (!isMapping(stage)) {
+        out.error(path, 'Each stage must be a mapping with "stage" and "jobs"')
+        return
+      }
+      for (const key of Object.keys(stage)) {
+        if (!AZURE_STAGE_KEYS.includes(key)) out.error([...path, key], `Unknown stage key "${key}"`)
+      }
+      if (typeof stage.stage !== 'string' || !AZURE_ID_PATTERN.test(stage.stage)) {
+        out.error(path, 'Stage needs a "stage" name made of letters, digits and _')
+        return
+      }
+      if (ids.indexOf(stage.stage) !== ids.lastIndexOf(stage.stage)) out.error([...path, 'stage'], `Duplicate stage name "${stage.stage}"`)
+      graph[stage.stage] = checkAzureDependsOn(stage.dependsOn, stage.stage, ids, path, out, 'Stage')
+      checkAzureJobs(stage.jobs, [...path, 'jobs'], out)
+    })
+    const cycle = findCycle(graph)
+    if (cycle) out.error(['stages'], `Stages depend on each other in a loop: ${cycle.join(' → ')}`)
+  }
+  return out.diagnostics
+}
+
+// ---------------------------------------------------------------------------
+
+export const validatePipelineFile = (text: string, dialect: CiDialect): WorkflowDiagnostic[] => {
+  if (dialect === 'gitlab') return validateGitLabCi(text)
+  if (dialect === 'azure') return validateAzurePipelines(text)
+  return validateWorkflow(text)
+}
+
+const conversionWarnings = (warnings: string[], fileName: string): WorkflowDiagnostic[] =>
+  [...new Set(warnings)].map((message) => ({ severity: 'warning', line: 1, path: fileName, message }))
+
+// Export canvas jobs in the given dialect and validate the result
+export const exportPipeline = (jobs: WorkflowJobSource[], dialect: CiDialect): PipelineExport => {
+  const { fileName } = CI_DIALECTS[dialect]
+  const neutral = toNeutralJobs(jobs)
+  const exporter = dialect === 'github' ? toGitHubActions : dialect === 'gitlab' ? toGitLabCi : toAzurePipelines
+  const { document, warnings } = exporter(neutral)
+  const text = dialect === 'github' ? dumpYaml(document).replace(/^'on':/m, 'on:') : dumpYaml(document)
+  return {
+    dialect,
+    fileName,
+    yaml: text,
+    diagnostics: [...conversionWarnings([...neutralWarnings(jobs, neutral), ...warnings], fileName), ...validatePipelineFile(text, dialect)]
+  }
+}
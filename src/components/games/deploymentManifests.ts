@@ -0,0 +1,241 @@
+// Manifests for Deploy or Die.
+// The deployment form is rendered as the files a team would actually commit:
+// Kubernetes Deployment, Service, ConfigMap and Secret objects, or a
+// docker-compose file for running the same image on a single host. Fields the
+// player has not filled in yet are left out rather than guessed.
+
+import yaml from 'js-yaml'
+
+export interface DeploymentConfig {
+  imageTag: string
+  port: number
+  environment: string
+  replicas: number
+  // cpu and memory are the limits
+  resources: {
+    cpu: string
+    memory: string
+    requests: {
+      cpu: string
+      memory: string
+    }
+  }
+  environmentVariables: Array<{
+    name: string
+    value: string
+  }>
+  healthCheck: {
+    enabled: boolean
+    path: string
+    interval: number
+  }
+  secrets: Array<{
+    // Environment variable the app reads
+    name: string
+    // Key inside the secret store
+    key: string
+  }>
+}
+
+export type ManifestFormat = 'kubernetes' | 'compose'
+
+export const MANIFEST_FORMATS: Record<ManifestFormat, { label: string; fileName: string }> = {
+  kubernetes: { label: 'Kubernetes', fileName: 'k8s/deployment.yaml' },
+  compose: { label: 'docker-compose', fileName: 'docker-compose.yml' }
+}
+
+export interface ManifestOptions {
+  appName?: string
+  image?: string
+}
+
+export interface RenderedManifest {
+  format: ManifestFormat
+  fileName: string
+  yaml: string
+}
+
+export const DEFAULT_APP_NAME = 'myapp'
+export const DEFAULT_IMAGE = 'ghcr.io/myorg/myapp'
+// Secrets never leave the form, so the rendered Secret carries a placeholder
+export const SECRET_PLACEHOLDER = 'REPLACE_ME'
+
+const dumpYaml = (document: unknown) => yaml.dump(document, { lineWidth: -1, noRefs: true })
+
+export const isValidPort = (port: number) => Number.isInteger(port) && port >= 1 && port <= 65535
+
+const imageRef = (config: DeploymentConfig, image: string) => `${image}:${config.imageTag || 'latest'}`
+
+const configuredEnv = (config: DeploymentConfig) => {
+  const env: Record<string, string> = {}
+  if (config.environment) env.APP_ENV = config.environment
+  for (const { name, value } of config.environmentVariables) {
+    if (name.trim()) env[name.trim()] = value
+  }
+  return env
+}
+
+const configuredSecrets = (config: DeploymentConfig) =>
+  config.secrets
+    .map((s) => ({ name: s.name.trim(), key: s.key.trim() }))
+    .filter((s) => s.name && s.key)
+
+const healthPath = (config: DeploymentConfig) => {
+  const path = config.healthCheck.path.trim() || '/health'
+  return path.startsWith('/') ? path : `/${path}`
+}
+
+const kubernetesProbe = (config: DeploymentConfig) => ({
+  httpGet: { path: healthPath(config), port: config.port },
+  periodSeconds: config.healthCheck.interval || 30
+})
+
+// Kubernetes takes millicores ("500m") where compose takes fractional cpus ("0.5")
+export const toComposeCpus = (cpu: string) => {
+  const match = cpu.match(/^(\d+)m$/)
+  return match ? String(Number(match[1]) / 1000) : cpu
+}
+
+// Kubernetes binary suffixes ("512Mi") to the compose byte units ("512M")
+export const toComposeMemory = (memory: string) => memory.replace(/([KMGT])i$/, '$1')
+
+export const renderKubernetes = (config: DeploymentConfig, options: ManifestOptions = {}): string => {
+  const appName = options.appName ?? DEFAULT_APP_NAME
+  const labels: Record<string, string> = { app: appName }
+  if (config.environment) labels.environment = config.environment
+  const env = configuredEnv(config)
+  const secrets = configuredSecrets(config)
+  const hasPort = isValidPort(config.port)
+  const documents: unknown[] = []
+
+  const container: Record<string, unknown> = {
+    name: appName,
+    image: imageRef(config, options.image ?? DEFAULT_IMAGE)
+  }
+  if (hasPort) container.ports = [{ containerPort: config.port }]
+  if (Object.keys(env).length > 0) container.envFrom = [{ configMapRef: { name: `${appName}-config` } }]
+  if (secrets.length > 0) {
+    container.env = secrets.map((s) => ({
+      name: s.name,
+      valueFrom: { secretKeyRef: { name: `${appName}-secrets`, key: s.key } }
+    }))
+  }
+  const limits: Record<string, string> = {}
+  if (config.resources.cpu) limits.cpu = config.resources.cpu
+  if (config.resources.memory) limits.memory = config.resources.memory
+  const requests: Record<string, string> = {}
+  if (config.resources.requests.cpu) requests.cpu = config.resources.requests.cpu
+  if (config.resources.requests.memory) requests.memory = config.resources.requests.memory
+  const resources: Record<string, unknown> = {}
+  if (Object.keys(requests).length > 0) resources.requests = requests
+  if (Object.keys(limits).length > 0) resources.limits = limits
+  if (Object.keys(resources).length > 0) container.resources = resources
+  if (config.healthCheck.enabled && hasPort) {
+    container.readinessProbe = kubernetesProbe(config)
+    container.livenessProbe = kubernetesProbe(config)
+  }
+
+  documents.push({
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: { name: appName, labels },
+    spec: {
+      replicas: config.replicas,
+      selector: { matchLabels: { app: appName } },
+      template: {
+        metadata: { labels },
+        spec: { containers: [container] }
+      }
+    }
+  })
+
+  if (hasPort) {
+    documents.push({
+      apiVersion: 'v1',
+      kind: 'Service',
+      metadata: { name: appName, labels },
+      spec: {
+        selector: { app: appName },
+        ports: [{ port: 80, targetPort: config.port, protocol: 'TCP' }]
+      }
+    })
+  }
+
+  if (Object.keys(env).length > 0) {
+    documents.push({
+      apiVersion: 'v1',
+      kind: 'ConfigMap',
+      metadata: { name: `${appName}-config`, labels },
+      data: env
+    })
+  }
+
+  if (secrets.length > 0) {
+    documents.push({
+      apiVersion: 'v1',
+      kind: 'Secret',
+      metadata: { name: `${appName}-secrets`, labels },
+      type: 'Opaque',
+      stringData: Object.fromEntries(secrets.map((s) => [s.key, SECRET_PLACEHOLDER]))
+    })
+  }
+
+  return documents.map(dumpYaml).join('---\n')
+}
+
+export const renderCompose = (config: DeploymentConfig, options: ManifestOptions = {}): string => {
+  const appName = options.appName ?? DEFAULT_APP_NAME
+  const secrets = configuredSecrets(config)
+  const hasPort = isValidPort(config.port)
+  const service: Record<string, unknown> = {
+    image: imageRef(config, options.image ?? DEFAULT_IMAGE),
+    restart: 'unless-stopped'
+  }
+  // Several replicas cannot share one host port, so let Docker pick them
+  if (hasPort) service.ports = [config.replicas > 1 ? `${config.port}` : `${config.port}:${config.port}`]
+
+  // Compose mounts secrets as files, so the app is pointed at the file instead
+  const env: Record<string, string> = configuredEnv(config)
+  for (const s of secrets) env[`${s.name}_FILE`] = `/run/secrets/${s.key}`
+  if (Object.keys(env).length > 0) service.environment = env
+  if (secrets.length > 0) service.secrets = [...new Set(secrets.map((s) => s.key))]
+
+  if (config.healthCheck.enabled && hasPort) {
+    service.healthcheck = {
+      test: ['CMD', 'curl', '-f', `http://localhost:${config.port}${healthPath(config)}`],
+      interval: `${config.healthCheck.interval || 30}s`,
+      retries: 3
+    }
+  }
+
+  const deploy: Record<string, unknown> = {}
+  if (config.replicas >= 1) deploy.replicas = config.replicas
+  const limits: Record<string, string> = {}
+  if (config.resources.cpu) limits.cpus = toComposeCpus(config.resources.cpu)
+  if (config.resources.memory) limits.memory = toComposeMemory(config.resources.memory)
+  // Compose calls requests "reservations"
+  const reservations: Record<string, string> = {}
+  if (config.resources.requests.cpu) reservations.cpus = toComposeCpus(config.resources.requests.cpu)
+  if (config.resources.requests.memory) reservations.memory = toComposeMemory(config.resources.requests.memory)
+  const resources: Record<string, unknown> = {}
+  if (Object.keys(limits).length > 0) resources.limits = limits
+  if (Object.keys(reservations).length > 0) resources.reservations = reservations
+  if (Object.keys(resources).length > 0) deploy.resources = resources
+  if (Object.keys(deploy).length > 0) service.deploy = deploy
+
+  const document: Record<string, unknown> = { services: { [appName]: service } }
+  if (secrets.length > 0) {
+    document.secrets = Object.fromEntries(secrets.map((s) => [s.key, { file: `./secrets/${s.key}` }]))
+  }
+  return dumpYaml(document)
+}
+
+export const renderManifest = (
+  config: DeploymentConfig,
+  format: ManifestFormat,
+  options: ManifestOptions = {}
+): RenderedManifest => ({
+  format,
+  fileName: MANIFEST_FORMATS[format].fileName,
+  yaml: format === 'kubernetes' ? renderKubernetes(config, options) : renderCompose(config, options)
+})
@@ -0,0 +1,221 @@
+// Semantic checks for Deploy or Die.
+// Resource values are parsed as Kubernetes quantities (so "512m" of memory is
+// caught as half a byte rather than accepted as text), requests are compared
+// to limits, env var names are checked the way the kubelet would, and the
+// health check path is matched against the routes the app actually serves.
+
+import type { DeploymentConfig } from './deploymentManifests'
+import { detectSecret } from './secretScanner'
+
+export type DeploymentIssueSeverity = 'error' | 'warning' | 'info'
+
+// Matches the ids of the form settings so issues can be shown next to them
+export type DeploymentField = 'port' | 'cpu' | 'memory' | 'envVars' | 'secrets' | 'healthCheck'
+
+export interface DeploymentIssue {
+  field: DeploymentField
+  severity: DeploymentIssueSeverity
+  message: string
+  // Set when the issue points out a leaked secret, which the leak hunt keeps
+  // hidden until the player submits
+  secretLeak?: boolean
+}
+
+export interface AppRoute {
+  path: string
+  kind: 'page' | 'api' | 'health' | 'metrics'
+}
+
+export interface AppSpec {
+  port: number
+  routes: AppRoute[]
+}
+
+const DECIMAL_SUFFIX: Record<string, number> = { n: 1e-9, u: 1e-6, m: 1e-3, '': 1, k: 1e3, M: 1e6, G: 1e9, T: 1e12, P: 1e15, E: 1e18 }
+const BINARY_SUFFIX: Record<string, number> = { Ki: 2 ** 10, Mi: 2 ** 20, Gi: 2 ** 30, Ti: 2 ** 40, Pi: 2 ** 50, Ei: 2 ** 60 }
+const QUANTITY = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+))(?:([eE][+-]?\d+)|(Ki|Mi|Gi|Ti|Pi|Ei|[numkMGTPE]))?$/
+
+export interface Quantity {
+  value: number
+  suffix: string
+}
+
+// Kubernetes quantity syntax: a decimal number with an optional decimal
+// (m, k, M, G...), binary (Ki, Mi, Gi...) or exponent (e3) suffix
+export const parseQuantity = (text: string): Quantity | null => {
+  const match = text.trim().match(QUANTITY)
+  if (!match) return null
+  const [, number, exponent, suffix = ''] = match
+  const base = Number(number)
+  if (exponent) return { value: base * 10 ** Number(exponent.slice(1)), suffix: exponent }
+  const scale = BINARY_SUFFIX[suffix] ?? DECIMAL_SUFFIX[suffix]
+  return { value: base * scale, suffix }
+}
+
+// CPU in cores: "500m" is 0.5, "2" is 2
+export const parseCpu = (text: string): number | null => {
+  const quantity = parseQuantity(text)
+  return quantity && !(quantity.suffix in BINARY_SUFFIX) ? quantity.value : null
+}
+
+// Memory in bytes: "512Mi" is 536870912, "1G" is 1000000000
+export const parseMemory = (text: string): number | null => parseQuantity(text)?.value ?? null
+
+export const formatBytes = (bytes: number) => {
+  for (const [suffix, size] of Object.entries(BINARY_SUFFIX).reverse()) {
+    if (bytes >= size) return `${Math.round((bytes / size) * 10) / 10}${suffix}`
+  }
+  return `${bytes} bytes`
+}
+
+// What the kubelet accepts as an env var name for it to be usable from a shell
+export const ENV_VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+const SECRET_KEY_NAME = /^[-._a-zA-Z0-9]+$/
+// Env vars set by the manifests themselves
+export const RESERVED_ENV_VARS = ['APP_ENV']
+
+const ROUTE_KIND_LABELS: Record<AppRoute['kind'], string> = {
+  page: 'a page',
+  api: 'an API route',
+  health: 'a health endpoint',
+  metrics: 'the metrics endpoint'
+}
+
+const routePattern = (path: string) =>
+  new RegExp(`^${path.split(/\{[^}]+\}/).map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^/]+')}/?$`)
+
+export const matchRoute = (path: string, routes: AppRoute[]): AppRoute | null => {
+  const bare = path.split('?')[0]
+  return routes.find((r) => routePattern(r.path).test(bare)) ?? null
+}
+
+const checkResources = (config: DeploymentConfig, issues: DeploymentIssue[]) => {
+  const { cpu, memory, requests } = config.resources
+  const production = config.environment === 'production'
+
+  const cpuLimit = cpu ? parseCpu(cpu) : null
+  const cpuRequest = requests.cpu ? parseCpu(requests.cpu) : null
+  for (const [label, text, value] of [['CPU limit', cpu, cpuLimit], ['CPU request', requests.cpu, cpuRequest]] as const) {
+    if (!text) continue
+    if (value === null) issues.push({ field: 'cpu', severity: 'error', message: `${label} "${text}" is not a CPU quantity; use cores ("0.5") or millicores ("500m")` })
+    else if (value <= 0) issues.push({ field: 'cpu', severity: 'error', message: `${label} must be more than 0` })
+    else if (value < 0.001) issues.push({ field: 'cpu', severity: 'error', message: `${label} "${text}" is finer than 1m, the smallest CPU unit` })
+  }
+  if (cpuLimit !== null && cpuRequest !== null && cpuRequest > cpuLimit) {
+    issues.push({ field: 'cpu', severity: 'error', message: `CPU request (${requests.cpu}) is above the limit (${cpu}); Kubernetes rejects the pod` })
+  }
+  if (production && cpuLimit !== null && cpuLimit > 0 && cpuLimit < 0.25) {
+    issues.push({ field: 'cpu', severity: 'warning', message: `${cpu} is under a quarter of a core; production traffic will be throttled` })
+  }
+
+  const memoryLimit = memory ? parseMemory(memory) : null
+  const memoryRequest = requests.memory ? parseMemory(requests.memory) : null
+  for (const [label, text, value] of [['Memory limit', memory, memoryLimit], ['Memory request', requests.memory, memoryRequest]] as const) {
+    if (!text) continue
+    const suffix = parseQuantity(text)?.suffix
+    if (value === null) issues.push({ field: 'memory', severity: 'error', message: `${label} "${text}" is not a memory quantity; use Mi or Gi, e.g. "512Mi"` })
+    else if (suffix === 'm') issues.push({ field: 'memory', severity: 'error', message: `${label} "${text}" means ${value} bytes (m is milli); you probably meant "${text.slice(0, -1)}Mi"` })
+    else if (value < 4 * 2 ** 20) issues.push({ field: 'memory', severity: 'error', message: `${label} "${text}" is ${formatBytes(value)}, too little to start a container` })
+  }
+  if (memoryLimit !== null && memoryRequest !== null && memoryRequest > memoryLimit) {
+    issues.push({ field: 'memory', severity: 'error', message: `Memory request (${requests.memory}) is above the limit (${memory}); Kubernetes rejects the pod` })
+  }
+  if (production && memoryLimit !== null && memoryLimit >= 4 * 2 ** 20 && memoryLimit <= 128 * 2 ** 20) {
+    issues.push({ field: 'memory', severity: 'warning', message: `${memory} leaves little headroom; production workloads are often OOM-killed at this size` })
+  }
+
+  if ((cpu || memory) && !requests.cpu && !requests.memory) {
+    issues.push({ field: 'cpu', severity: 'info', message: 'No requests set, so Kubernetes reserves the full limits for every pod' })
+  }
+}
+
+const checkPort = (config: DeploymentConfig, app: AppSpec | undefined, issues: DeploymentIssue[]) => {
+  if (!config.port) return
+  if (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535) {
+    issues.push({ field: 'port', severity: 'error', message: 'Port must be a whole number between 1 and 65535' })
+    return
+  }
+  if (app && config.port !== app.port) {
+    issues.push({ field: 'port', severity: 'error', message: `The app listens on ${app.port}; connections to ${config.port} will be refused` })
+  }
+  if (config.port < 1024) {
+    issues.push({ field: 'port', severity: 'warning', message: `Ports below 1024 need root inside the container; prefer ${app?.port ?? 8080}` })
+  }
+}
+
+const checkEnv = (config: DeploymentConfig, issues: DeploymentIssue[]) => {
+  const seen = new Map<string, string>()
+  const define = (name: string, source: string, field: DeploymentField) => {
+    const earlier = seen.get(name)
+    if (earlier) issues.push({ field, severity: 'error', message: `${name} is defined twice (${earlier} and ${source}); only one value will win` })
+    else seen.set(name, source)
+  }
+
+  config.environmentVariables.forEach(({ name, value }, i) => {
+    const trimmed = name.trim()
+    const label = `Environment variable ${i + 1}`
+    if (!trimmed) {
+      if (value.trim()) issues.push({ field: 'envVars', severity: 'error', message: `${label} has a value but no name` })
+      return
+    }
+    if (!ENV_VAR_NAME.test(trimmed)) {
+      issues.push({ field: 'envVars', severity: 'error', message: `"${trimmed}" is not a valid variable name; use letters, digits and _ and do not start with a digit` })
+    }
+    if (RESERVED_ENV_VARS.includes(trimmed)) {
+      issues.push({ field: 'envVars', severity: 'warning', message: `${trimmed} is set from the Environment field; this entry would override it` })
+    }
+    define(trimmed, 'an environment variable', 'envVars')
+    const leak = detectSecret(value, trimmed)
+    if (leak) {
+      issues.push({ field: 'envVars', severity: 'error', message: `${trimmed} is stored in plain text but ${leak}; move it to Secrets`, secretLeak: true })
+    }
+  })
+
+  config.secrets.forEach(({ name, key }, i) => {
+    const label = `Secret ${i + 1}`
+    const trimmed = name.trim()
+    if (!trimmed || !key.trim()) {
+      if (trimmed || key.trim()) issues.push({ field: 'secrets', severity: 'error', message: `${label} needs both a variable name and a secret key` })
+      return
+    }
+    if (!ENV_VAR_NAME.test(trimmed)) {
+      issues.push({ field: 'secrets', severity: 'error', message: `"${trimmed}" is not a valid variable name; use letters, digits and _ and do not start with a digit` })
+    }
+    if (!SECRET_KEY_NAME.test(key.trim())) {
+      issues.push({ field: 'secrets', severity: 'error', message: `Secret key "${key.trim()}" may only contain letters, digits, -, _ and .` })
+    }
+    define(trimmed, 'a secret', 'secrets')
+  })
+}
+
+const checkHealthCheck = (config: DeploymentConfig, app: AppSpec | undefined, issues: DeploymentIssue[]) => {
+  const { enabled, path, interval } = config.healthCheck
+  if (!enabled) return
+  if (!path.trim()) {
+    issues.push({ field: 'healthCheck', severity: 'error', message: 'Health check needs a path to probe, e.g. /health' })
+  } else if (!path.trim().startsWith('/')) {
+    issues.push({ field: 'healthCheck', severity: 'error', message: `Health check path "${path.trim()}" must start with /` })
+  } else if (app) {
+    const route = matchRoute(path.trim(), app.routes)
+    if (!route) {
+      const health = app.routes.filter((r) => r.kind === 'health').map((r) => r.path)
+      issues.push({ field: 'healthCheck', severity: 'error', message: `The app does not serve ${path.trim()}, so every probe gets a 404 and pods restart forever; try ${health.join(' or ')}` })
+    } else if (route.kind !== 'health') {
+      issues.push({ field: 'healthCheck', severity: 'warning', message: `${path.trim()} is ${ROUTE_KIND_LABELS[route.kind]}; probing it does real work and can fail for reasons unrelated to pod health` })
+    }
+  }
+  if (!Number.isInteger(interval) || interval < 1) {
+    issues.push({ field: 'healthCheck', severity: 'error', message: 'Health check interval must be at least 1 second' })
+  } else if (interval > 60) {
+    issues.push({ field: 'healthCheck', severity: 'warning', message: `A ${interval}s interval means a broken pod can take minutes to be noticed` })
+  }
+}
+
+export const validateDeploymentConfig = (config: DeploymentConfig, app?: AppSpec): DeploymentIssue[] => {
+  const issues: DeploymentIssue[] = []
+  checkPort(config, app, issues)
+  checkResources(config, issues)
+  checkEnv(config, issues)
+  checkHealthCheck(config, app, issues)
+  return issues
+}
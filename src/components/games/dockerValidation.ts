@@ -1,3 +1,6 @@
+import { parseDockerfile, parseInstruction, type DockerfileAST, type DockerInstructionNode } from './dockerfileParser'
+import { lintAst, type LintFinding } from './dockerfileLinter'
+
 export const CATEGORY_UUID = {
   FROM: '11111111-1111-4111-8111-111111111111',
   WORKDIR: '22222222-2222-4222-8222-222222222222',
@@ -6,6 +9,7 @@ export const CATEGORY_UUID = {
   COPY_APP: '55555555-5555-4555-8555-555555555555',
   EXPOSE: '66666666-6666-4666-8666-666666666666',
   CMD: '77777777-7777-4777-8777-777777777777',
+  COPY_FROM_STAGE: '99999999-9999-4999-8999-999999999999',
   EXTRA: '88888888-8888-4888-8888-888888888888'
 } as const
 
@@ -17,6 +21,7 @@ export const LABEL_BY_UUID: Record<string, string> = {
   [CATEGORY_UUID.COPY_APP]: 'COPY .',
   [CATEGORY_UUID.EXPOSE]: 'EXPOSE',
   [CATEGORY_UUID.CMD]: 'CMD',
+  [CATEGORY_UUID.COPY_FROM_STAGE]: 'COPY --from',
   [CATEGORY_UUID.EXTRA]: 'EXTRA'
 }
 
@@ -27,21 +32,43 @@ export const LABEL_TO_UUID: Record<string, string> = {
   'RUN pip install': CATEGORY_UUID.RUN_PIP,
   'COPY .': CATEGORY_UUID.COPY_APP,
   'EXPOSE': CATEGORY_UUID.EXPOSE,
-  'CMD': CATEGORY_UUID.CMD
+  'CMD': CATEGORY_UUID.CMD,
+  'COPY --from': CATEGORY_UUID.COPY_FROM_STAGE
 }
 
-export const classify = (text: string): string => {
-  const t = text.trim().toUpperCase()
-  if (t.startsWith('FROM')) return CATEGORY_UUID.FROM
-  if (t.startsWith('WORKDIR')) return CATEGORY_UUID.WORKDIR
-  if (t.startsWith('COPY REQUIREMENTS.TXT')) return CATEGORY_UUID.COPY_REQS
-  if (t.startsWith('RUN PIP INSTALL')) return CATEGORY_UUID.RUN_PIP
-  if (t.startsWith('COPY .')) return CATEGORY_UUID.COPY_APP
-  if (t.startsWith('EXPOSE')) return CATEGORY_UUID.EXPOSE
-  if (t.startsWith('CMD')) return CATEGORY_UUID.CMD
-  return CATEGORY_UUID.EXTRA
+const DEPENDENCY_MANIFEST = /(^|\/)(requirements[^/]*\.txt|requirements\/[^/]+\.txt|pyproject\.toml|poetry\.lock|Pipfile(\.lock)?)$/i
+const APP_SOURCE = /^\.\/?$|^\*$/
+
+export const isDependencyManifest = (source: string) => DEPENDENCY_MANIFEST.test(source.trim())
+
+// Classify a parsed instruction by what it does, not how it is spelled
+export const classifyNode = (node: DockerInstructionNode | null): string => {
+  if (!node) return CATEGORY_UUID.EXTRA
+  switch (node.kind) {
+    case 'from':
+      return CATEGORY_UUID.FROM
+    case 'copy':
+      if (node.from) return CATEGORY_UUID.COPY_FROM_STAGE
+      if (node.sources.length > 0 && node.sources.every(isDependencyManifest)) return CATEGORY_UUID.COPY_REQS
+      if (node.sources.some((s) => APP_SOURCE.test(s))) return CATEGORY_UUID.COPY_APP
+      return CATEGORY_UUID.EXTRA
+    case 'command':
+      if (node.keyword === 'RUN' && /\b(pip3?|python3?\s+-m\s+pip)\s+install\b/.test(node.command.text)) {
+        return CATEGORY_UUID.RUN_PIP
+      }
+      if (node.keyword === 'CMD' || node.keyword === 'ENTRYPOINT') return CATEGORY_UUID.CMD
+      return CATEGORY_UUID.EXTRA
+    case 'expose':
+      return CATEGORY_UUID.EXPOSE
+    case 'value':
+      return node.keyword === 'WORKDIR' ? CATEGORY_UUID.WORKDIR : CATEGORY_UUID.EXTRA
+    default:
+      return CATEGORY_UUID.EXTRA
+  }
 }
 
+export const classify = (text: string): string => classifyNode(parseInstruction(text))
+
 export const mapRequiredOrderToUUID = (requiredOrder: string[]): string[] => {
   return requiredOrder.map((r) => LABEL_TO_UUID[(r || '').trim()] || CATEGORY_UUID.EXTRA)
 }
@@ -54,6 +81,22 @@ export interface ValidationResult {
   success: boolean
 }
 
+export interface StageValidationResult {
+  stageCount: number
+  feedback: string[]
+  success: boolean
+}
+
+export interface DockerfileValidationResult extends ValidationResult {
+  lint: LintFinding[]
+  stages: StageValidationResult
+}
+
+export interface DockerfileValidationOptions {
+  // Number of FROM stages the puzzle expects; above 1 enables multi-stage checks
+  requiredStages?: number
+}
+
 export const validateOrder = (
   placedKeyIds: (string | null)[],
   requiredOrderLabels: string[]
@@ -98,4 +141,108 @@ export const validateOrder = (
   }
 }
 
+// Validate the placed instructions as one Dockerfile: parse it, classify each
+// instruction semantically and lint the whole file for best-practice issues
+export const validateDockerfile = (
+  placedContents: (string | null)[],
+  requiredOrderLabels: string[],
+  options: DockerfileValidationOptions = {}
+): DockerfileValidationResult => {
+  const ast = parseDockerfile(placedContents.filter((c): c is string => c !== null).join('\n'))
+  let cursor = 0
+  const placedKeyIds = placedContents.map((content) => {
+    if (content === null) return null
+    const nodes = ast.instructions.filter((n) => n.line > cursor && n.line <= cursor + content.split('\n').length)
+    cursor += content.split('\n').length
+    return nodes.length > 0 ? classifyNode(nodes[0]) : CATEGORY_UUID.EXTRA
+  })
+  const order = validateOrder(placedKeyIds, requiredOrderLabels)
+  const stages = validateStages(ast, options.requiredStages)
+  return {
+    ...order,
+    feedback: [...order.feedback, ...stages.feedback],
+    success: order.success && stages.success,
+    lint: lintAst(ast),
+    stages
+  }
+}
 
+// Name each slot by the stage it belongs to, following the nearest FROM above it
+export const stageLabels = (placedContents: (string | null)[]): (string | null)[] => {
+  let stageIndex = -1
+  let stageName: string | null = null
+  return placedContents.map((content) => {
+    const node = content ? parseInstruction(content) : null
+    if (node?.kind === 'from') {
+      stageIndex++
+      stageName = node.stageName
+    }
+    if (stageIndex < 0) return null
+    return stageName ?? `stage ${stageIndex}`
+  })
+}
+
+// Check the stage structure of a multi-stage Dockerfile
+export const validateStages = (ast: DockerfileAST, requiredStages = 1): StageValidationResult => {
+  const feedback: string[] = []
+  let success = true
+  const stages: { name: string | null; nodes: DockerInstructionNode[] }[] = []
+
+  for (const node of ast.instructions) {
+    if (node.kind === 'from') {
+      stages.push({ name: node.stageName, nodes: [] })
+    } else {
+      stages[stages.length - 1]?.nodes.push(node)
+    }
+  }
+
+  if (stages.length < requiredStages) {
+    success = false
+    feedback.push(`❌ Expected ${requiredStages} stages (FROM instructions), found ${stages.length}`)
+  } else if (requiredStages > 1) {
+    feedback.push(`✅ ${stages.length} build stages`)
+  }
+
+  // A --from name that is not a stage in this file is an external image (e.g. nginx:alpine)
+  const stageNames = new Set(stages.map((stage) => stage.name?.toLowerCase()).filter(Boolean))
+  const isStageRef = (from: string) => /^\d+$/.test(from) || stageNames.has(from.toLowerCase())
+  const seen = new Set<string>()
+  stages.forEach((stage, index) => {
+    const name = stage.name?.toLowerCase()
+    if (name && seen.has(name)) {
+      success = false
+      feedback.push(`❌ Stage name "${stage.name}" is used more than once`)
+    }
+    for (const node of stage.nodes) {
+      if (node.kind !== 'copy' || !node.from) continue
+      const ref = node.from.toLowerCase()
+      if (!isStageRef(ref)) {
+        feedback.push(`⚠️ COPY --from=${node.from} is not a stage in this Dockerfile, so it is pulled as an external image`)
+        continue
+      }
+      const valid = /^\d+$/.test(ref) ? Number(ref) < index : seen.has(ref)
+      if (!valid) {
+        success = false
+        feedback.push(`❌ COPY --from=${node.from} must reference a stage defined earlier`)
+      }
+    }
+    if (name) seen.add(name)
+  })
+
+  if (requiredStages > 1 && stages.length >= requiredStages) {
+    const finalStage = stages[stages.length - 1]
+    const copiesArtifacts = finalStage.nodes.some((n) => n.kind === 'copy' && !!n.from && isStageRef(n.from))
+    const installsDeps = finalStage.nodes.some((n) => classifyNode(n) === CATEGORY_UUID.RUN_PIP)
+    if (!copiesArtifacts) {
+      success = false
+      feedback.push('❌ The final stage should COPY --from the builder stage instead of rebuilding')
+    } else if (installsDeps) {
+      success = false
+      feedback.push('❌ Install dependencies in the builder stage, not the final image')
+    } else {
+      feedback.push('✅ Final stage only receives built artifacts from the builder')
+    }
+  }
+
+  return { stageCount: stages.length, feedback, success }
+}
@@ -0,0 +1,182 @@
+// Rule-based Dockerfile linter over the parsed AST.
+// Rule ids follow hadolint's numbering so learners can look them up.
+
+import {
+  parseDockerfile,
+  type CommandInstruction,
+  type DockerfileAST,
+  type FromInstruction
+} from './dockerfileParser'
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+export interface LintFinding {
+  ruleId: string
+  severity: LintSeverity
+  line: number
+  message: string
+}
+
+export interface LintRule {
+  id: string
+  severity: LintSeverity
+  description: string
+  check: (ast: DockerfileAST) => { line: number; message: string }[]
+}
+
+const runCommands = (ast: DockerfileAST) =>
+  ast.instructions.filter(
+    (i): i is CommandInstruction => i.kind === 'command' && i.keyword === 'RUN'
+  )
+
+const fromInstructions = (ast: DockerfileAST) =>
+  ast.instructions.filter((i): i is FromInstruction => i.kind === 'from')
+
+// Stage names can be used as base images; those are not registry tags
+const stageNames = (ast: DockerfileAST) =>
+  new Set(fromInstructions(ast).map((f) => f.stageName?.toLowerCase()).filter(Boolean))
+
+const isPipInstall = (text: string) => /\b(pip3?|python3?\s+-m\s+pip)\s+install\b/.test(text)
+const isAptInstall = (text: string) => /\bapt-get\s+(?:\S+\s+)*install\b/.test(text)
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'DL3006',
+    severity: 'warning',
+    description: 'Always tag the version of an image explicitly',
+    check: (ast) => {
+      const stages = stageNames(ast)
+      return fromInstructions(ast)
+        .filter((f) => f.image.name && f.image.name !== 'scratch' && !stages.has(f.image.name.toLowerCase()))
+        .filter((f) => !f.image.tag && !f.image.digest)
+        .map((f) => ({ line: f.line, message: `Image "${f.image.name}" has no tag; builds will drift as it changes` }))
+    }
+  },
+  {
+    id: 'DL3007',
+    severity: 'warning',
+    description: 'Using latest is prone to errors; pin a specific version',
+    check: (ast) => fromInstructions(ast)
+      .filter((f) => f.image.tag?.toLowerCase() === 'latest')
+      .map((f) => ({ line: f.line, message: `"${f.image.raw}" uses the latest tag; pin a version instead` }))
+  },
+  {
+    id: 'DL3042',
+    severity: 'warning',
+    description: 'Avoid the pip cache in images with --no-cache-dir',
+    check: (ast) => runCommands(ast)
+      .filter((r) => isPipInstall(r.command.text) && !/--no-cache-dir\b/.test(r.command.text))
+      .map((r) => ({ line: r.line, message: 'pip install without --no-cache-dir keeps downloaded wheels in the image' }))
+  },
+  {
+    id: 'DL3009',
+    severity: 'info',
+    description: 'Delete the apt-get lists after installing something',
+    check: (ast) => runCommands(ast)
+      .filter((r) => isAptInstall(r.command.text) && !/rm\s+-[a-z]*r[a-z]*f?[a-z]*\s+\/var\/lib\/apt\/lists/.test(r.command.text))
+      .map((r) => ({ line: r.line, message: 'apt-get install without removing /var/lib/apt/lists in the same RUN bloats the layer' }))
+  },
+  {
+    id: 'DL3015',
+    severity: 'info',
+    description: 'Avoid additional packages by specifying --no-install-recommends',
+    check: (ast) => runCommands(ast)
+      .filter((r) => isAptInstall(r.command.text) && !/--no-install-recommends\b/.test(r.command.text))
+      .map((r) => ({ line: r.line, message: 'apt-get install without --no-install-recommends pulls in extra packages' }))
+  },
+  {
+    id: 'DL3014',
+    severity: 'warning',
+    description: 'Use the -y switch to avoid manual input',
+    check: (ast) => runCommands(ast)
+      .filter((r) => isAptInstall(r.command.text) && !/\s(-y|--yes|--assume-yes|-qq?y)\b/.test(r.command.text))
+      .map((r) => ({ line: r.line, message: 'apt-get install without -y will wait for input and hang the build' }))
+  },
+  {
+    id: 'DL3002',
+    severity: 'warning',
+    description: 'Last USER should not be root',
+    check: (ast) => {
+      const users = ast.instructions.filter((i) => i.keyword === 'USER')
+      const last = users[users.length - 1]
+      if (!last) {
+        const firstFrom = fromInstructions(ast)[0]
+        return ast.instructions.length > 0
+          ? [{ line: firstFrom?.line ?? 1, message: 'No USER instruction; the container will run as root' }]
+          : []
+      }
+      const value = last.kind === 'value' ? last.value.split(':')[0] : ''
+      return value === 'root' || value === '0'
+        ? [{ line: last.line, message: 'The final USER is root; switch to an unprivileged user' }]
+        : []
+    }
+  },
+  {
+    id: 'DL3025',
+    severity: 'warning',
+    description: 'Use arguments JSON notation for CMD and ENTRYPOINT arguments',
+    check: (ast) => ast.instructions
+      .filter((i): i is CommandInstruction => i.kind === 'command' && (i.keyword === 'CMD' || i.keyword === 'ENTRYPOINT'))
+      .filter((i) => i.command.form === 'shell')
+      .map((i) => ({ line: i.line, message: `${i.keyword} in shell form will not receive signals; use ["exec", "form"]` }))
+  },
+  {
+    id: 'DL3000',
+    severity: 'error',
+    description: 'Use absolute WORKDIR',
+    check: (ast) => ast.instructions
+      .filter((i) => i.kind === 'value' && i.keyword === 'WORKDIR')
+      .filter((i) => i.kind === 'value' && !/^(\/|[A-Za-z]:[\\/]|\$)/.test(i.value))
+      .map((i) => ({ line: i.line, message: 'WORKDIR should be an absolute path' }))
+  },
+  {
+    id: 'DL3020',
+    severity: 'error',
+    description: 'Use COPY instead of ADD for files and folders',
+    check: (ast) => ast.instructions
+      .filter((i) => i.kind === 'copy' && i.keyword === 'ADD')
+      .filter((i) => i.kind === 'copy' && i.sources.every((s) => !/^https?:\/\//.test(s) && !/\.(tar|tgz|tar\.\w+)$/.test(s)))
+      .map((i) => ({ line: i.line, message: 'ADD is only needed for URLs and archives; use COPY for local files' }))
+  },
+  {
+    id: 'DL4003',
+    severity: 'warning',
+    description: 'Multiple CMD instructions found',
+    check: (ast) => {
+      // Only the last CMD of each stage takes effect
+      const findings: { line: number; message: string }[] = []
+      let seenCmd = false
+      for (const instruction of ast.instructions) {
+        if (instruction.kind === 'from') seenCmd = false
+        if (instruction.keyword !== 'CMD') continue
+        if (seenCmd) findings.push({ line: instruction.line, message: 'Only the last CMD takes effect; earlier ones are ignored' })
+        seenCmd = true
+      }
+      return findings
+    }
+  }
+]
+
+export const lintAst = (ast: DockerfileAST, rules: LintRule[] = LINT_RULES): LintFinding[] => {
+  const findings: LintFinding[] = ast.errors.map((e) => ({
+    ruleId: 'DL1000',
+    severity: 'error' as const,
+    line: e.line,
+    message: e.message
+  }))
+  for (const rule of rules) {
+    for (const hit of rule.check(ast)) {
+      findings.push({ ruleId: rule.id, severity: rule.severity, ...hit })
+    }
+  }
+  return findings.sort((a, b) => a.line - b.line)
+}
+
+export const lintDockerfile = (source: string, rules: LintRule[] = LINT_RULES): LintFinding[] => {
+  return lintAst(parseDockerfile(source), rules)
+}
+
+export const formatFinding = (finding: LintFinding): string => {
+  const icon = finding.severity === 'error' ? '❌' : finding.severity === 'warning' ? '⚠️' : '💡'
+  return `${icon} Line ${finding.line} [${finding.ruleId}]: ${finding.message}`
+}
@@ -0,0 +1,415 @@
+// Dockerfile parser: turns Dockerfile source into a typed AST.
+// Handles parser directives, comments, line continuations, flags,
+// JSON (exec) form arguments and heredocs.
+
+export interface DockerfileFlag {
+  name: string
+  value: string | null
+}
+
+export interface Heredoc {
+  delimiter: string
+  body: string
+  stripTabs: boolean
+}
+
+export interface CommandForm {
+  form: 'exec' | 'shell'
+  argv: string[]
+  text: string
+}
+
+export interface ImageReference {
+  raw: string
+  name: string
+  tag: string | null
+  digest: string | null
+}
+
+interface BaseInstruction {
+  keyword: string
+  raw: string
+  args: string
+  flags: DockerfileFlag[]
+  heredocs: Heredoc[]
+  line: number
+  endLine: number
+}
+
+export interface FromInstruction extends BaseInstruction {
+  kind: 'from'
+  image: ImageReference
+  stageName: string | null
+}
+
+export interface CopyInstruction extends BaseInstruction {
+  kind: 'copy'
+  sources: string[]
+  destination: string | null
+  from: string | null
+}
+
+export interface CommandInstruction extends BaseInstruction {
+  kind: 'command'
+  command: CommandForm
+}
+
+export interface KeyValueInstruction extends BaseInstruction {
+  kind: 'keyValue'
+  pairs: { key: string; value: string | null }[]
+}
+
+export interface ExposeInstruction extends BaseInstruction {
+  kind: 'expose'
+  ports: { port: string; protocol: 'tcp' | 'udp' }[]
+}
+
+export interface HealthcheckInstruction extends BaseInstruction {
+  kind: 'healthcheck'
+  command: CommandForm | null
+}
+
+export interface ValueInstruction extends BaseInstruction {
+  kind: 'value'
+  value: string
+}
+
+export type DockerInstructionNode =
+  | FromInstruction
+  | CopyInstruction
+  | CommandInstruction
+  | KeyValueInstruction
+  | ExposeInstruction
+  | HealthcheckInstruction
+  | ValueInstruction
+
+export interface DockerfileComment {
+  line: number
+  text: string
+}
+
+export interface DockerfileParseError {
+  line: number
+  message: string
+}
+
+export interface DockerfileAST {
+  directives: Record<string, string>
+  instructions: DockerInstructionNode[]
+  comments: DockerfileComment[]
+  errors: DockerfileParseError[]
+}
+
+export const KNOWN_INSTRUCTIONS = [
+  'ADD', 'ARG', 'CMD', 'COPY', 'ENTRYPOINT', 'ENV', 'EXPOSE', 'FROM', 'HEALTHCHECK',
+  'LABEL', 'MAINTAINER', 'ONBUILD', 'RUN', 'SHELL', 'STOPSIGNAL', 'USER', 'VOLUME', 'WORKDIR'
+] as const
+
+const FLAG_INSTRUCTIONS = new Set(['FROM', 'COPY', 'ADD', 'RUN', 'HEALTHCHECK'])
+const HEREDOC_INSTRUCTIONS = new Set(['RUN', 'COPY', 'ADD'])
+const HEREDOC_PATTERN = /<<(-?)(["']?)([A-Za-z_][A-Za-z0-9_]*)\2/g
+const DIRECTIVE_PATTERN = /^#\s*([a-zA-Z][a-zA-Z0-9_-]*)\s*=\s*(.+?)\s*$/
+
+// Split a shell-ish argument string into words, honouring quotes and the escape character
+export const splitWords = (input: string, escapeChar = '\\'): string[] => {
+  const words: string[] = []
+  let current = ''
+  let quote: '"' | "'" | null = null
+  let inWord = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quote) {
+      if (ch === quote) {
+        quote = null
+      } else if (ch === escapeChar && quote === '"' && i + 1 < input.length) {
+        current += input[++i]
+      } else {
+        current += ch
+      }
+      continue
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch
+      inWord = true
+    } else if (ch === escapeChar && i + 1 < input.length) {
+      current += input[++i]
+      inWord = true
+    } else if (/\s/.test(ch)) {
+      if (inWord) {
+        words.push(current)
+        current = ''
+        inWord = false
+      }
+    } else {
+      current += ch
+      inWord = true
+    }
+  }
+  if (inWord) words.push(current)
+  return words
+}
+
+const parseJsonArray = (args: string): string[] | null => {
+  const trimmed = args.trim()
+  if (!trimmed.startsWith('[')) return null
+  try {
+    const parsed: unknown = JSON.parse(trimmed)
+    if (Array.isArray(parsed) && parsed.every((p) => typeof p === 'string')) {
+      return parsed as string[]
+    }
+  } catch {
+    // Not valid JSON: Docker falls back to shell form
+  }
+  return null
+}
+
+export const parseImageReference = (raw: string): ImageReference => {
+  let rest = raw
+  let digest: string | null = null
+  const at = rest.indexOf('@')
+  if (at >= 0) {
+    digest = rest.slice(at + 1)
+    rest = rest.slice(0, at)
+  }
+  let tag: string | null = null
+  const colon = rest.lastIndexOf(':')
+  if (colon > rest.lastIndexOf('/')) {
+    tag = rest.slice(colon + 1)
+    rest = rest.slice(0, colon)
+  }
+  return { raw, name: rest, tag, digest }
+}
+
+const parseCommand = (args: string, heredocs: Heredoc[], escapeChar: string): CommandForm => {
+  const exec = parseJsonArray(args)
+  if (exec) {
+    return { form: 'exec', argv: exec, text: exec.join(' ') }
+  }
+  const body = heredocs.map((h) => h.body).join('\n')
+  const text = body ? `${args}\n${body}` : args
+  return { form: 'shell', argv: splitWords(args, escapeChar), text }
+}
+
+// Pull leading --flag[=value] words off the argument string
+const extractFlags = (args: string, escapeChar: string): { flags: DockerfileFlag[]; rest: string } => {
+  const flags: DockerfileFlag[] = []
+  let rest = args.trimStart()
+  while (rest.startsWith('--')) {
+    const match = rest.match(/^--([A-Za-z][A-Za-z0-9-]*)(?:=("[^"]*"|'[^']*'|\S*))?(\s+|$)/)
+    if (!match) break
+    const rawValue = match[2]
+    flags.push({
+      name: match[1],
+      value: rawValue === undefined ? null : (splitWords(rawValue, escapeChar)[0] ?? '')
+    })
+    rest = rest.slice(match[0].length)
+  }
+  return { flags, rest }
+}
+
+const parseKeyValues = (keyword: string, args: string, escapeChar: string) => {
+  const pairs: { key: string; value: string | null }[] = []
+  const words = splitWords(args, escapeChar)
+  // Legacy "ENV key value with spaces" form
+  if ((keyword === 'ENV' || keyword === 'LABEL') && words.length > 0 && !words[0].includes('=')) {
+    const [key, ...value] = words
+    pairs.push({ key, value: value.join(' ') })
+    return pairs
+  }
+  for (const word of words) {
+    const eq = word.indexOf('=')
+    if (eq >= 0) {
+      pairs.push({ key: word.slice(0, eq), value: word.slice(eq + 1) })
+    } else {
+      pairs.push({ key: word, value: null })
+    }
+  }
+  return pairs
+}
+
+const buildInstruction = (
+  base: Omit<BaseInstruction, 'flags'>,
+  escapeChar: string,
+  errors: DockerfileParseError[]
+): DockerInstructionNode => {
+  const { keyword } = base
+  const { flags, rest } = FLAG_INSTRUCTIONS.has(keyword)
+    ? extractFlags(base.args, escapeChar)
+    : { flags: [], rest: base.args }
+  const node = { ...base, flags }
+
+  switch (keyword) {
+    case 'FROM': {
+      const words = splitWords(rest, escapeChar)
+      if (words.length === 0) {
+        errors.push({ line: base.line, message: 'FROM requires a base image' })
+      }
+      const asIndex = words.findIndex((w) => w.toUpperCase() === 'AS')
+      const stageName = asIndex >= 0 ? words[asIndex + 1] ?? null : null
+      if (asIndex >= 0 && !stageName) {
+        errors.push({ line: base.line, message: 'FROM ... AS requires a stage name' })
+      }
+      return { ...node, kind: 'from', image: parseImageReference(words[0] ?? ''), stageName }
+    }
+    case 'COPY':
+    case 'ADD': {
+      const words = parseJsonArray(rest) ?? splitWords(rest, escapeChar)
+      // Heredoc markers stand in for inline source files
+      const heredocNames = new Set(base.heredocs.map((h) => h.delimiter))
+      const cleaned = words.filter((w) => {
+        const m = w.match(/^<<-?["']?([A-Za-z_][A-Za-z0-9_]*)["']?$/)
+        return !(m && heredocNames.has(m[1]))
+      })
+      if (cleaned.length < 2 && heredocNames.size === 0) {
+        errors.push({ line: base.line, message: `${keyword} requires at least one source and a destination` })
+      }
+      const hasDestination = cleaned.length >= 2 || heredocNames.size > 0
+      const sources = hasDestination ? cleaned.slice(0, -1) : cleaned
+      const destination = hasDestination ? cleaned[cleaned.length - 1] ?? null : null
+      const fromFlag = flags.find((f) => f.name === 'from')
+      return { ...node, kind: 'copy', sources, destination, from: fromFlag?.value ?? null }
+    }
+    case 'RUN':
+    case 'CMD':
+    case 'ENTRYPOINT':
+    case 'SHELL':
+      return { ...node, kind: 'command', command: parseCommand(rest, base.heredocs, escapeChar) }
+    case 'ENV':
+    case 'ARG':
+    case 'LABEL':
+      return { ...node, kind: 'keyValue', pairs: parseKeyValues(keyword, rest, escapeChar) }
+    case 'EXPOSE': {
+      const ports = splitWords(rest, escapeChar).map((p) => {
+        const [port, protocol] = p.split('/')
+        return { port, protocol: protocol?.toLowerCase() === 'udp' ? 'udp' as const : 'tcp' as const }
+      })
+      return { ...node, kind: 'expose', ports }
+    }
+    case 'HEALTHCHECK': {
+      const trimmed = rest.trim()
+      if (trimmed.toUpperCase() === 'NONE') {
+        return { ...node, kind: 'healthcheck', command: null }
+      }
+      const cmd = trimmed.replace(/^CMD\s+/i, '')
+      if (cmd === trimmed) {
+        errors.push({ line: base.line, message: 'HEALTHCHECK must be NONE or CMD <command>' })
+      }
+      return { ...node, kind: 'healthcheck', command: parseCommand(cmd, [], escapeChar) }
+    }
+    default:
+      return { ...node, kind: 'value', value: rest.trim() }
+  }
+}
+
+export const parseDockerfile = (source: string): DockerfileAST => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const directives: Record<string, string> = {}
+  const instructions: DockerInstructionNode[] = []
+  const comments: DockerfileComment[] = []
+  const errors: DockerfileParseError[] = []
+
+  // Parser directives are only honoured before the first instruction, comment or blank line
+  let i = 0
+  while (i < lines.length) {
+    const match = lines[i].match(DIRECTIVE_PATTERN)
+    if (!match || match[1].toLowerCase() in directives) break
+    directives[match[1].toLowerCase()] = match[2]
+    i++
+  }
+  const escapeChar = directives.escape === '`' ? '`' : '\\'
+
+  while (i < lines.length) {
+    const startLine = i + 1
+    const first = lines[i]
+    const trimmedFirst = first.trim()
+
+    if (trimmedFirst === '') {
+      i++
+      continue
+    }
+    if (trimmedFirst.startsWith('#')) {
+      comments.push({ line: startLine, text: trimmedFirst.replace(/^#\s?/, '') })
+      i++
+      continue
+    }
+
+    // Join continuation lines, dropping comment lines inside the continuation
+    const rawLines = [first]
+    let logical = ''
+    let current = first
+    while (true) {
+      const trimmedEnd = current.replace(/\s+$/, '')
+      if (trimmedEnd.endsWith(escapeChar) && i + 1 < lines.length) {
+        logical += trimmedEnd.slice(0, -1)
+        i++
+        current = lines[i]
+        rawLines.push(current)
+        while (current.trim().startsWith('#') && i + 1 < lines.length) {
+          comments.push({ line: i + 1, text: current.trim().replace(/^#\s?/, '') })
+          i++
+          current = lines[i]
+          rawLines.push(current)
+        }
+        continue
+      }
+      logical += trimmedEnd.endsWith(escapeChar) ? trimmedEnd.slice(0, -1) : current
+      break
+    }
+    i++
+
+    const match = logical.trim().match(/^(\S+)(?:\s+([\s\S]*))?$/)
+    const keyword = (match?.[1] ?? '').toUpperCase()
+    const args = (match?.[2] ?? '').trim()
+
+    if (!(KNOWN_INSTRUCTIONS as readonly string[]).includes(keyword)) {
+      errors.push({ line: startLine, message: `Unknown instruction "${match?.[1] ?? logical.trim()}"` })
+      continue
+    }
+    if (instructions.length === 0 && keyword !== 'FROM' && keyword !== 'ARG') {
+      errors.push({ line: startLine, message: `Dockerfile must start with FROM (found ${keyword})` })
+    }
+
+    // Heredoc bodies follow the instruction line, one per marker, in order
+    const heredocs: Heredoc[] = []
+    if (HEREDOC_INSTRUCTIONS.has(keyword) && !args.startsWith('[')) {
+      for (const marker of args.matchAll(HEREDOC_PATTERN)) {
+        const stripTabs = marker[1] === '-'
+        const delimiter = marker[3]
+        const body: string[] = []
+        let closed = false
+        while (i < lines.length) {
+          const bodyLine = lines[i]
+          rawLines.push(bodyLine)
+          i++
+          const candidate = stripTabs ? bodyLine.replace(/^\t+/, '') : bodyLine
+          if (candidate === delimiter) {
+            closed = true
+            break
+          }
+          body.push(candidate)
+        }
+        if (!closed) {
+          errors.push({ line: startLine, message: `Unterminated heredoc "${delimiter}"` })
+        }
+        heredocs.push({ delimiter, body: body.join('\n'), stripTabs })
+      }
+    }
+
+    instructions.push(buildInstruction({
+      keyword,
+      raw: rawLines.join('\n'),
+      args,
+      heredocs,
+      line: startLine,
+      endLine: startLine + rawLines.length - 1
+    }, escapeChar, errors))
+  }
+
+  return { directives, instructions, comments, errors }
+}
+
+// Parse a single instruction (e.g. a jigsaw block); returns null for blank or comment-only text
+export const parseInstruction = (text: string): DockerInstructionNode | null => {
+  return parseDockerfile(text).instructions[0] ?? null
+}
@@ -0,0 +1,246 @@
+// Incident timeline and postmortem drafting for the Outage Simulator.
+// The timeline is built by comparing consecutive simulation states, so every
+// incident, attempt and resolution is recorded at the tick it happened, with
+// a snapshot of every service's metrics, along with every page and when the
+// incident was declared. Player actions that do not change
+// the simulation (opening a dashboard, picking a strategy) are added by the
+// component. After the run the timeline prefills a blameless postmortem.
+
+import { describeRule } from './alerting'
+import {
+  ATTEMPT_OUTCOME_LABELS,
+  activeIncident,
+  findService,
+  isOutageOver,
+  type AttemptOutcome,
+  type OutageState,
+  type RootCause,
+  type ServiceId,
+  type ServiceMetrics
+} from './outageEngine'
+import { errorBudgets } from './slo'
+
+export type TimelineEventKind =
+  | 'incident-started'
+  | 'alert-fired'
+  | 'incident-declared'
+  | 'service-inspected'
+  | 'strategy-selected'
+  | 'execution-started'
+  | 'execution-finished'
+  | 'metrics-snapshot'
+  | 'incident-resolved'
+  | 'time-up'
+
+export interface TimelineEntry {
+  // Seconds since the shift started
+  atSec: number
+  kind: TimelineEventKind
+  service: ServiceId | null
+  note: string
+  // Set on execution-finished entries
+  outcome?: AttemptOutcome
+  metrics: Record<ServiceId, ServiceMetrics>
+}
+
+export interface Postmortem {
+  title: string
+  summary: string
+  impact: string
+  rootCause: string
+  actionItems: string[]
+}
+
+export type PostmortemField = 'summary' | 'impact' | 'rootCause' | 'actionItems'
+
+export interface PostmortemIssue {
+  field: PostmortemField
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// How often metrics are sampled while an incident is open
+export const SNAPSHOT_INTERVAL_SEC = 15
+
+export const ROOT_CAUSE_DESCRIPTIONS: Record<RootCause, string> = {
+  'traffic-surge': 'more traffic than it had capacity for',
+  'memory-leak': 'a release that leaks memory',
+  'connection-pool': 'its connection pool running out of connections',
+  'bad-release': 'a faulty release'
+}
+
+const ROOT_CAUSE_ACTION_ITEMS: Record<RootCause, string> = {
+  'traffic-surge': 'Set up autoscaling for the {service} based on CPU',
+  'memory-leak': 'Add a memory usage check to the {service} load tests in CI',
+  'connection-pool': 'Review connection pool sizing and timeouts for the {service}',
+  'bad-release': 'Ship {service} releases behind a canary so faulty builds reach fewer users'
+}
+
+// Words that point at people rather than at the system
+const BLAME_LANGUAGE = /\b(blame[sd]?|fault|careless(ly)?|stupid|incompetent|lazy|human error|should have known)\b/i
+
+export const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+
+const serviceName = (id: ServiceId) => findService(id).name
+
+export const actionEntry = (
+  state: OutageState,
+  kind: 'service-inspected' | 'strategy-selected',
+  service: ServiceId | null,
+  note: string
+): TimelineEntry => ({ atSec: state.tick, kind, service, note, metrics: state.metrics })
+
+// Everything that happened between two consecutive states
+export const diffTimeline = (prev: OutageState, next: OutageState): TimelineEntry[] => {
+  const entries: TimelineEntry[] = []
+  const add = (kind: TimelineEventKind, service: ServiceId | null, note: string, outcome?: AttemptOutcome) =>
+    entries.push({ atSec: next.tick, kind, service, note, ...(outcome ? { outcome } : {}), metrics: next.metrics })
+
+  for (const incident of next.incidents.slice(prev.incidents.length)) {
+    add('incident-started', incident.detectedAt, `${incident.title} started, showing at the ${serviceName(incident.detectedAt)}`)
+  }
+  for (const page of next.alerting?.pages.slice(prev.alerting?.pages.length ?? 0) ?? []) {
+    const rule = next.alerting!.rules.find((r) => r.id === page.ruleId)!
+    add('alert-fired', page.service, `${page.severity === 'critical' ? 'Paged' : 'Warned'}: ${describeRule(rule, serviceName(rule.service))}`)
+  }
+  next.incidents.forEach((incident, i) => {
+    if (incident.detection?.via === 'manual' && !prev.incidents[i]?.detection) {
+      add('incident-declared', incident.detectedAt, `${incident.title} declared from the dashboards`)
+    }
+  })
+  for (const attempt of next.attempts.slice(prev.attempts.length)) {
+    add('execution-started', attempt.target, `Started ${attempt.strategy} on the ${serviceName(attempt.target)}`)
+  }
+  next.attempts.forEach((attempt, i) => {
+    if (attempt.outcome && !prev.attempts[i]?.outcome) {
+      add('execution-finished', attempt.target, `${attempt.strategy} on the ${serviceName(attempt.target)} ${ATTEMPT_OUTCOME_LABELS[attempt.outcome]}`, attempt.outcome)
+    }
+  })
+  next.incidents.forEach((incident, i) => {
+    if (incident.resolvedAt !== null && prev.incidents[i]?.resolvedAt === null) {
+      add('incident-resolved', incident.origin, `${incident.title} resolved ${incident.resolvedAt - incident.startedAt}s after it started in the ${serviceName(incident.origin)}`)
+    }
+  })
+
+  const open = activeIncident(next)
+  if (open && next.tick > prev.tick && next.tick % SNAPSHOT_INTERVAL_SEC === 0) {
+    const seen = next.metrics[open.detectedAt]
+    add('metrics-snapshot', open.detectedAt, `${serviceName(open.detectedAt)} at ${seen.errorRate.toFixed(1)}% errors, ${seen.responseTime.toFixed(0)}ms`)
+  }
+  if (open && isOutageOver(next) && !isOutageOver(prev)) {
+    add('time-up', open.detectedAt, `Shift ended with ${open.title} still open`)
+  }
+  return entries
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+// A first draft for the player to edit. The root cause is only filled in when
+// the player found it; otherwise writing it is part of the exercise.
+export const draftPostmortem = (state: OutageState, timeline: TimelineEntry[]): Postmortem => {
+  const incident = state.incidents[0]
+  if (!incident) {
+    return { title: 'Quiet shift', summary: 'No incident occurred during the shift.', impact: 'None.', rootCause: '', actionItems: [] }
+  }
+
+  const origin = serviceName(incident.origin)
+  const detected = serviceName(incident.detectedAt)
+  const resolved = incident.resolvedAt !== null
+  const fix = state.attempts.find((a) => a.outcome === 'resolved')
+  const misses = state.attempts.filter((a) => a.outcome !== 'resolved' && a.outcome !== null)
+  const end = incident.resolvedAt ?? state.tick
+
+  const detection = incident.detection
+  const summary = [
+    `At ${formatClock(incident.startedAt)} ${incident.title.toLowerCase()} started showing at the ${detected}.`,
+    ...(detection && detection.via !== 'unmonitored'
+      ? [`It was ${detection.via === 'page' ? 'paged' : 'declared from the dashboards'} ${detection.atSec - incident.startedAt}s later.`]
+      : []),
+    `${plural(state.attempts.length, 'recovery attempt')} ${state.attempts.length === 1 ? 'was' : 'were'} made.`,
+    fix
+      ? `${fix.strategy} on the ${serviceName(fix.target)} resolved it at ${formatClock(end)}, ${end - incident.startedAt}s after it started.`
+      : `It was still unresolved when the shift ended at ${formatClock(end)}.`
+  ].join(' ')
+
+  const during = timeline.filter((e) => e.atSec >= incident.startedAt && e.atSec <= end).map((e) => e.metrics[incident.detectedAt])
+  const peakErrors = Math.max(0, ...during.map((m) => m.errorRate))
+  const peakLatency = Math.max(0, ...during.map((m) => m.responseTime))
+  const audience = incident.detectedAt === 'worker' ? 'Background jobs' : 'Users'
+  const budgets = state.slo ? errorBudgets(state.slo) : null
+  const used = (remaining: number) => Math.round((1 - remaining) * 100)
+  const impact = `${audience} saw error rates up to ${peakErrors.toFixed(1)}% and response times up to ${peakLatency.toFixed(0)}ms at the ${detected} for ${end - incident.startedAt}s.` +
+    (budgets ? ` By the end of the shift ${used(budgets.availability.remaining)}% of the availability and ${used(budgets.latency.remaining)}% of the latency error budget had been used.` : '')
+
+  const rootCause = resolved
+    ? `The ${origin} was hit by ${ROOT_CAUSE_DESCRIPTIONS[incident.rootCause]}.` +
+      (incident.origin !== incident.detectedAt ? ` Its latency and errors passed through its callers to the ${detected}, where the incident was noticed.` : '')
+    : ''
+
+  // Misses on the right service mean the wrong strategy; elsewhere, the wrong service
+  const wrongStrategies = new Set(misses.filter((a) => a.target === incident.origin).map((a) => a.strategy))
+  const wrongServices = misses.some((a) => a.target !== incident.origin)
+  const actionItems = [
+    ROOT_CAUSE_ACTION_ITEMS[incident.rootCause].replace('{service}', origin),
+    ...[...wrongStrategies].map((strategy) => `Document in the runbook that ${strategy} does not help when the cause is ${ROOT_CAUSE_DESCRIPTIONS[incident.rootCause]}`),
+    ...(wrongServices || end - incident.startedAt > 60
+      ? [`Link the ${detected} alert to the ${origin} dashboard so responders trace the origin before acting`]
+      : []),
+    ...(state.alerting && detection?.via !== 'page'
+      ? [`Add an alert on the ${detected} error rate so this incident pages the on-call engineer`]
+      : [])
+  ]
+
+  return { title: `${incident.title} in the ${origin}`, summary, impact, rootCause, actionItems }
+}
+
+export const postmortemIssues = (postmortem: Postmortem): PostmortemIssue[] => {
+  const issues: PostmortemIssue[] = []
+  const required: [PostmortemField, string, string][] = [
+    ['summary', postmortem.summary, 'Summarise what happened in a sentence or two'],
+    ['impact', postmortem.impact, 'Describe who was affected, how badly and for how long'],
+    ['rootCause', postmortem.rootCause, 'Explain why the incident happened, not just what broke']
+  ]
+  for (const [field, text, message] of required) {
+    if (!text.trim()) issues.push({ field, severity: 'error', message })
+  }
+  if (postmortem.actionItems.every((item) => !item.trim())) {
+    issues.push({ field: 'actionItems', severity: 'error', message: 'Add at least one action item so this does not happen again' })
+  }
+  for (const [field, text] of [...required, ['actionItems', postmortem.actionItems.join(' ')] as const]) {
+    const match = text.match(BLAME_LANGUAGE)
+    if (match) {
+      issues.push({ field, severity: 'warning', message: `"${match[0]}" points at people; keep it blameless by describing what the system allowed to happen` })
+    }
+  }
+  return issues
+}
+
+export const postmortemToMarkdown = (postmortem: Postmortem, timeline: TimelineEntry[], seed: number) =>
+  [
+    `# Postmortem: ${postmortem.title}`,
+    '',
+    `_Blameless postmortem for Outage Simulator seed ${seed}_`,
+    '',
+    '## Summary',
+    '',
+    postmortem.summary.trim(),
+    '',
+    '## Impact',
+    '',
+    postmortem.impact.trim(),
+    '',
+    '## Root cause',
+    '',
+    postmortem.rootCause.trim() || '_Not determined_',
+    '',
+    '## Timeline',
+    '',
+    '| Time | Event |',
+    '| --- | --- |',
+    ...timeline.map((entry) => `| ${formatClock(entry.atSec)} | ${entry.note.replace(/\|/g, '\\|')} |`),
+    '',
+    '## Action items',
+    '',
+    ...postmortem.actionItems.filter((item) => item.trim()).map((item) => `- [ ] ${item.trim()}`),
+    ''
+  ].join('\n')
@@ -0,0 +1,416 @@
+// Deterministic Docker layer-cache simulator.
+// Every instruction becomes a layer whose cache key is derived from the parent
+// layer, the instruction text and (for COPY/ADD) the files it copies, so editing
+// a file invalidates exactly the layers Docker would rebuild.
+// Multi-stage builds are modelled per stage: only the final stage ships, and
+// COPY --from carries over a stage's artifacts but not its caches or tools.
+
+import {
+  parseDockerfile,
+  type CommandInstruction,
+  type CopyInstruction,
+  type DockerfileAST,
+  type DockerInstructionNode
+} from './dockerfileParser'
+import { hashSeed } from './random'
+
+export interface BuildContextFile {
+  path: string
+  sizeKb: number
+  version: number
+  content?: string
+}
+
+export interface BuildOptions {
+  // Patterns excluded from the build context (.dockerignore)
+  dockerignore?: string[]
+  // Treat every pip install as if it passed --no-cache-dir
+  pipNoCacheDir?: boolean
+  // Treat every apt-get install as if it passed --no-install-recommends
+  aptNoInstallRecommends?: boolean
+}
+
+export interface SimulatedLayer {
+  index: number
+  stage: number
+  stageName: string | null
+  instruction: string
+  keyword: string
+  line: number
+  hash: string
+  parentHash: string
+  cached: boolean
+  reason: string
+  durationSec: number
+  sizeMb: number
+  // Portion of the layer that COPY --from in a later stage would carry over
+  artifactMb: number
+  inputFiles: { path: string; version: number }[]
+}
+
+export interface SimulatedStage {
+  index: number
+  name: string | null
+  baseImage: string
+  sizeMb: number
+  artifactMb: number
+  final: boolean
+}
+
+export type LayerCache = Map<string, SimulatedLayer>
+
+export interface BuildResult {
+  layers: SimulatedLayer[]
+  stages: SimulatedStage[]
+  contextSizeMb: number
+  contextTransferSec: number
+  totalTimeSec: number
+  imageSizeMb: number
+  cacheHits: number
+  cache: LayerCache
+}
+
+export const DEFAULT_DOCKERIGNORE = ['.git', '.venv', '__pycache__', '**/*.pyc']
+
+// The sample Flask project used by Cache Crash
+export const DEFAULT_BUILD_CONTEXT: BuildContextFile[] = [
+  { path: 'requirements.txt', sizeKb: 1, version: 1, content: 'flask==3.0.3\ngunicorn==22.0.0\nrequests==2.32.3\nsqlalchemy==2.0.31\npydantic==2.8.2' },
+  { path: 'app.py', sizeKb: 4, version: 1 },
+  { path: 'templates/index.html', sizeKb: 3, version: 1 },
+  { path: 'static/style.css', sizeKb: 2, version: 1 },
+  { path: 'tests/test_app.py', sizeKb: 3, version: 1 },
+  { path: '.git/objects/pack/pack-1.pack', sizeKb: 35 * 1024, version: 1 },
+  { path: '.venv/lib/python3.12/site-packages/bundle', sizeKb: 120 * 1024, version: 1 },
+  { path: '__pycache__/app.cpython-312.pyc', sizeKb: 2 * 1024, version: 1 }
+]
+
+// Approximate compressed sizes of common base images
+const BASE_IMAGE_SIZES_MB: Record<string, number> = {
+  'python:3.12-slim': 125,
+  'python:3.12': 1020,
+  'python:3.12-alpine': 52,
+  'alpine': 8,
+  'debian': 117,
+  'ubuntu': 78,
+  'node': 1100,
+  'nginx': 187,
+  'scratch': 0
+}
+
+const COST = {
+  pullMbPerSec: 40,
+  copyMbPerSec: 20,
+  contextMbPerSec: 50,
+  contextOverheadSec: 1,
+  metadataSec: 0.1,
+  copyOverheadSec: 0.3,
+  pipBaseSec: 4,
+  pipPerPackageSec: 5,
+  pipPerPackageMb: 14,
+  pipCacheRatio: 0.25,
+  pipLeftoversRatio: 0.4,
+  aptUpdateSec: 6,
+  aptPerPackageSec: 4,
+  aptPerPackageMb: 25,
+  aptListsMb: 40,
+  aptRecommendsRatio: 1,
+  genericRunSec: 2,
+  genericRunMb: 1,
+  externalCopyMb: 10
+}
+
+// Stable short content hashes, as 8 hex digits
+export const hashString = (input: string): string => hashSeed(input).toString(16).padStart(8, '0')
+
+const globToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/$/, '')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '.*')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?')
+  // A pattern also matches everything below a matching directory
+  return new RegExp(`^${escaped}(?:/.*)?$`)
+}
+
+export const matchesPattern = (path: string, pattern: string): boolean => {
+  const normalized = pattern.trim()
+  if (normalized === '.' || normalized === './' || normalized === '*') return true
+  return globToRegExp(normalized).test(path)
+}
+
+export const applyDockerignore = (context: BuildContextFile[], patterns: string[] = []): BuildContextFile[] => {
+  return context.filter((file) => !patterns.some((p) => matchesPattern(file.path, p)))
+}
+
+export const modifyFile = (context: BuildContextFile[], path: string): BuildContextFile[] => {
+  return context.map((file) => file.path === path ? { ...file, version: file.version + 1 } : file)
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+const baseImageSize = (image: string): number => {
+  if (image in BASE_IMAGE_SIZES_MB) return BASE_IMAGE_SIZES_MB[image]
+  const name = image.split(':')[0]
+  if (name in BASE_IMAGE_SIZES_MB) return BASE_IMAGE_SIZES_MB[name]
+  return /slim|alpine/.test(image) ? 100 : 500
+}
+
+// Count packages installed by a pip command, reading requirements files from the context
+const countPipPackages = (text: string, context: BuildContextFile[]): number => {
+  let count = 0
+  const words = text.split(/\s+/)
+  const installAt = words.indexOf('install')
+  for (let i = installAt + 1; i > 0 && i < words.length; i++) {
+    const word = words[i]
+    if (word === '&&' || word === ';') break
+    if (word === '-r' || word === '--requirement') {
+      const file = context.find((f) => f.path === words[i + 1]?.replace(/^\.\//, ''))
+      count += (file?.content ?? '').split('\n').filter((l) => l.trim() && !l.trim().startsWith('#')).length
+      i++
+    } else if (!word.startsWith('-')) {
+      count++
+    }
+  }
+  return Math.max(count, 1)
+}
+
+const countAptPackages = (text: string): number => {
+  const match = text.match(/apt-get\s+(?:\S+\s+)*?install\s+([^&;|]*)/)
+  if (!match) return 0
+  return match[1].split(/\s+/).filter((w) => w && !w.startsWith('-')).length
+}
+
+interface LayerCost {
+  durationSec: number
+  sizeMb: number
+  artifactMb: number
+}
+
+const runCost = (node: CommandInstruction, context: BuildContextFile[], options: BuildOptions): LayerCost => {
+  const text = node.command.text
+  let durationSec = 0
+  let sizeMb = 0
+  let artifactMb = 0
+  let matched = false
+
+  if (/\b(pip3?|python3?\s+-m\s+pip)\s+install\b/.test(text)) {
+    const packages = countPipPackages(text, context)
+    const depsMb = packages * COST.pipPerPackageMb
+    const keepsCache = !options.pipNoCacheDir && !/--no-cache-dir\b/.test(text)
+    durationSec += COST.pipBaseSec + packages * COST.pipPerPackageSec
+    // Building wheels leaves headers, build directories and bytecode next to the packages
+    sizeMb += depsMb * (1 + COST.pipLeftoversRatio) + (keepsCache ? depsMb * COST.pipCacheRatio : 0)
+    // Only the installed packages travel to later stages; leftovers and the download cache stay behind
+    artifactMb += depsMb
+    matched = true
+  }
+  if (/\bapt-get\s+update\b/.test(text)) {
+    durationSec += COST.aptUpdateSec
+    if (!/\/var\/lib\/apt\/lists/.test(text)) sizeMb += COST.aptListsMb
+    matched = true
+  }
+  const aptPackages = countAptPackages(text)
+  if (aptPackages > 0) {
+    const recommends = !options.aptNoInstallRecommends && !/--no-install-recommends\b/.test(text)
+    durationSec += aptPackages * COST.aptPerPackageSec * (recommends ? 1 + COST.aptRecommendsRatio : 1)
+    sizeMb += aptPackages * COST.aptPerPackageMb * (recommends ? 1 + COST.aptRecommendsRatio : 1)
+    matched = true
+  }
+  if (!matched) {
+    durationSec += COST.genericRunSec
+    sizeMb += COST.genericRunMb
+    artifactMb += COST.genericRunMb
+  }
+  return { durationSec, sizeMb, artifactMb }
+}
+
+const copiedFiles = (node: CopyInstruction, context: BuildContextFile[]): BuildContextFile[] => {
+  // Stage copies do not read from the build context
+  if (node.from) return []
+  return context.filter((file) => node.sources.some((s) => matchesPattern(file.path, s)))
+}
+
+interface StageState {
+  index: number
+  name: string | null
+  baseImage: string
+  lastHash: string
+  layers: SimulatedLayer[]
+}
+
+const stageSize = (stage: StageState) => stage.layers.reduce((sum, l) => sum + l.sizeMb, 0)
+const stageArtifacts = (stage: StageState) => stage.layers.reduce((sum, l) => sum + l.artifactMb, 0)
+
+// Resolve a stage reference (name or numeric index) against the stages defined so far
+const findStage = (stages: StageState[], ref: string | null): StageState | undefined => {
+  if (ref === null) return undefined
+  if (/^\d+$/.test(ref)) return stages[Number(ref)]
+  return stages.find((s) => s.name?.toLowerCase() === ref.toLowerCase())
+}
+
+const layerCost = (
+  node: DockerInstructionNode,
+  files: BuildContextFile[],
+  context: BuildContextFile[],
+  options: BuildOptions,
+  sourceStage: StageState | undefined
+): LayerCost => {
+  switch (node.kind) {
+    case 'from': {
+      // Building on an earlier stage reuses it locally; nothing is pulled
+      if (sourceStage) return { durationSec: 0, sizeMb: stageSize(sourceStage), artifactMb: 0 }
+      const sizeMb = baseImageSize(node.image.raw)
+      return { durationSec: sizeMb / COST.pullMbPerSec, sizeMb, artifactMb: 0 }
+    }
+    case 'copy': {
+      if (node.from) {
+        const sizeMb = sourceStage ? stageArtifacts(sourceStage) : COST.externalCopyMb
+        return { durationSec: COST.copyOverheadSec + sizeMb / COST.copyMbPerSec, sizeMb, artifactMb: sizeMb }
+      }
+      const sizeMb = files.reduce((sum, f) => sum + f.sizeKb, 0) / 1024
+      return { durationSec: COST.copyOverheadSec + sizeMb / COST.copyMbPerSec, sizeMb, artifactMb: sizeMb }
+    }
+    case 'command':
+      return node.keyword === 'RUN'
+        ? runCost(node, context, options)
+        : { durationSec: COST.metadataSec, sizeMb: 0, artifactMb: 0 }
+    default:
+      return { durationSec: COST.metadataSec, sizeMb: 0, artifactMb: 0 }
+  }
+}
+
+// Explain why a layer missed the cache by comparing with the layer that used to sit here
+const missReason = (
+  node: DockerInstructionNode,
+  parentHash: string,
+  parentCached: boolean,
+  inputFiles: { path: string; version: number }[],
+  cache: LayerCache,
+  sourceStage?: StageState
+): string => {
+  if (cache.size === 0) return 'No cache yet (cold build)'
+  // FROM has no parent layer: only its base image (or the stage it continues) decides the cache
+  if (node.kind === 'from') {
+    return sourceStage ? `Stage "${node.image.raw}" was rebuilt` : `Base image changed to "${node.image.raw}"`
+  }
+  if (!parentCached) return 'Parent layer was rebuilt'
+  if (node.kind === 'copy' && node.from) return `Stage "${node.from}" was rebuilt`
+  const previous = [...cache.values()].find((l) => l.parentHash === parentHash && l.instruction === node.raw)
+  if (previous) {
+    const changed = inputFiles
+      .filter((f) => previous.inputFiles.find((p) => p.path === f.path)?.version !== f.version)
+      .map((f) => f.path)
+    if (changed.length > 0) return `Files changed: ${changed.join(', ')}`
+  }
+  return 'Instruction changed'
+}
+
+export const simulateBuild = (
+  dockerfile: string | DockerfileAST,
+  buildContext: BuildContextFile[] = DEFAULT_BUILD_CONTEXT,
+  options: BuildOptions = {},
+  cache: LayerCache = new Map()
+): BuildResult => {
+  const ast = typeof dockerfile === 'string' ? parseDockerfile(dockerfile) : dockerfile
+  const context = applyDockerignore(buildContext, options.dockerignore)
+  const contextSizeMb = context.reduce((sum, f) => sum + f.sizeKb, 0) / 1024
+  const contextTransferSec = COST.contextOverheadSec + contextSizeMb / COST.contextMbPerSec
+
+  const layers: SimulatedLayer[] = []
+  const stages: StageState[] = []
+  const nextCache: LayerCache = new Map()
+  let parentHash = ''
+  let parentCached = true
+
+  ast.instructions.forEach((node, index) => {
+    const files = node.kind === 'copy' ? copiedFiles(node, context) : []
+    const inputFiles = files.map((f) => ({ path: f.path, version: f.version }))
+    const sourceStage = node.kind === 'from'
+      ? findStage(stages, node.image.raw)
+      : node.kind === 'copy' ? findStage(stages, node.from) : undefined
+
+    if (node.kind === 'from') {
+      stages.push({
+        index: stages.length,
+        name: node.stageName,
+        baseImage: node.image.raw,
+        lastHash: '',
+        layers: []
+      })
+    }
+    const stage = stages[stages.length - 1]
+
+    // FROM starts a fresh chain (or continues an earlier stage); everything else builds on its parent.
+    // COPY --from also depends on the last layer of the stage it copies from.
+    const keySource = node.kind === 'from'
+      ? sourceStage ? `stage:${sourceStage.lastHash}` : `from:${node.image.raw}`
+      : `${parentHash}|${node.raw}|${inputFiles.map((f) => `${f.path}@${f.version}`).join(',')}|${sourceStage?.lastHash ?? ''}`
+    const hash = hashString(keySource)
+    const cost = layerCost(node, files, context, options, sourceStage)
+    const cached = cache.has(hash)
+
+    const layer: SimulatedLayer = {
+      index,
+      stage: stage?.index ?? 0,
+      stageName: stage?.name ?? null,
+      instruction: node.raw,
+      keyword: node.keyword,
+      line: node.line,
+      hash,
+      parentHash,
+      cached,
+      reason: cached ? 'Cache hit' : missReason(node, parentHash, parentCached, inputFiles, cache, sourceStage),
+      durationSec: cached ? 0 : round(cost.durationSec),
+      sizeMb: round(cost.sizeMb),
+      artifactMb: round(cost.artifactMb),
+      inputFiles
+    }
+    layers.push(layer)
+    stage?.layers.push(layer)
+    if (stage) stage.lastHash = hash
+    nextCache.set(hash, layer)
+    parentHash = hash
+    parentCached = cached
+  })
+
+  // Keep older entries so switching back to a previous version still hits the cache
+  cache.forEach((layer, hash) => {
+    if (!nextCache.has(hash)) nextCache.set(hash, layer)
+  })
+
+  const finalStage = stages[stages.length - 1]
+  return {
+    layers,
+    stages: stages.map((s) => ({
+      index: s.index,
+      name: s.name,
+      baseImage: s.baseImage,
+      sizeMb: round(stageSize(s)),
+      artifactMb: round(stageArtifacts(s)),
+      final: s === finalStage
+    })),
+    contextSizeMb: round(contextSizeMb),
+    contextTransferSec: round(contextTransferSec),
+    totalTimeSec: round(contextTransferSec + layers.reduce((sum, l) => sum + l.durationSec, 0)),
+    // Only the final stage ends up in the shipped image
+    imageSizeMb: round(finalStage ? stageSize(finalStage) : 0),
+    cacheHits: layers.filter((l) => l.cached).length,
+    cache: nextCache
+  }
+}
+
+// Build once from scratch, then again after editing one file, reusing the first build's cache
+export const simulateRebuild = (
+  dockerfile: string | DockerfileAST,
+  changedPath: string,
+  buildContext: BuildContextFile[] = DEFAULT_BUILD_CONTEXT,
+  options: BuildOptions = {}
+): { cold: BuildResult; rebuild: BuildResult } => {
+  const cold = simulateBuild(dockerfile, buildContext, options)
+  const rebuild = simulateBuild(dockerfile, modifyFile(buildContext, changedPath), options, cold.cache)
+  return { cold, rebuild }
+}
@@ -0,0 +1,116 @@
+// Scoring for Log Detective. The player's path (flags and fix attempts, in
+// the order they happened) is replayed against each failure's causal chain:
+// flagging the originating line first earns the most, fixes that only
+// silence a symptom cost points, and the path itself is kept so an
+// instructor can review how the player reasoned.
+
+import type { InvestigationStep } from '../../store/gameStore'
+import { classifyFlag, type LogEntry } from './logViewer'
+import type { LogFinding, LogFixOption } from './logScenarios'
+
+export const FLAG_POINTS = 40
+export const FIX_POINTS = 60
+
+const SYMPTOM_FIX_PENALTY = 0.25
+const WRONG_FIX_PENALTY = 0.1
+const STRAY_FLAG_PENALTY = 0.25
+
+export interface FindingReview {
+  findingId: string
+  title: string
+  rootFlagged: boolean
+  // The first flag on this failure was its root cause, not a symptom
+  rootFlaggedFirst: boolean
+  symptomFlags: number
+  fixed: boolean
+  symptomFixes: number
+  wrongFixes: number
+  flagCredit: number
+  fixCredit: number
+}
+
+export interface InvestigationScore {
+  score: number
+  findings: FindingReview[]
+  rootCausesFlagged: number
+  strayFlags: number
+  symptomFixes: number
+  fixedErrors: number
+  totalErrors: number
+  allErrorsFixed: boolean
+}
+
+export const flagStep = (
+  atMs: number,
+  line: number,
+  flagged: boolean,
+  findings: LogFinding[],
+  entries: LogEntry[]
+): InvestigationStep => {
+  if (!flagged) return { atMs, action: 'unflag', line, findingId: null, verdict: 'unrelated', note: `Removed the flag on line ${line}` }
+  const { verdict, findingId } = classifyFlag(line, findings, entries)
+  const finding = findings.find((f) => f.id === findingId)
+  const link = finding?.chain.find((l) => l.line === line)
+  const note = !finding
+    ? `Flagged line ${line}, which is not part of any failure`
+    : verdict === 'root-cause'
+      ? `Flagged line ${line}: root cause of "${finding.title}"`
+      : `Flagged line ${line}: symptom (${link?.label ?? 'later error'}) of "${finding.title}"`
+  return { atMs, action: 'flag', line, findingId, verdict, note }
+}
+
+export const fixStep = (atMs: number, finding: LogFinding, option: LogFixOption): InvestigationStep => ({
+  atMs,
+  action: 'fix',
+  line: finding.line,
+  findingId: finding.id,
+  verdict: option.correct ? 'correct-fix' : option.symptom ? 'symptom-fix' : 'wrong-fix',
+  note: `Tried "${option.text}" for "${finding.title}"`
+})
+
+export const scoreInvestigation = (findings: LogFinding[], steps: InvestigationStep[]): InvestigationScore => {
+  // Replay flags so only the ones still standing at the end earn credit
+  const standing = new Map<number, InvestigationStep>()
+  for (const step of steps) {
+    if (step.line === null) continue
+    if (step.action === 'flag') standing.set(step.line, step)
+    if (step.action === 'unflag') standing.delete(step.line)
+  }
+  const finalFlags = [...standing.values()]
+  const strayFlags = finalFlags.filter((s) => s.verdict === 'unrelated').length
+
+  const reviews = findings.map((finding): FindingReview => {
+    const mine = steps.filter((s) => s.findingId === finding.id)
+    const flags = finalFlags.filter((s) => s.findingId === finding.id)
+    const fixes = mine.filter((s) => s.action === 'fix')
+    const rootFlagged = flags.some((s) => s.verdict === 'root-cause')
+    // Going straight to the root cause still counts if that flag was kept
+    const rootFlaggedFirst = rootFlagged && mine.find((s) => s.action === 'flag')?.verdict === 'root-cause'
+    const symptomFlags = flags.filter((s) => s.verdict === 'symptom').length
+    const fixed = fixes.some((s) => s.verdict === 'correct-fix')
+    // Only attempts before the fix landed count against the player
+    const beforeFix = fixed ? fixes.slice(0, fixes.findIndex((s) => s.verdict === 'correct-fix')) : fixes
+    const symptomFixes = beforeFix.filter((s) => s.verdict === 'symptom-fix').length
+    const wrongFixes = beforeFix.filter((s) => s.verdict === 'wrong-fix').length
+    const flagCredit = rootFlaggedFirst ? 1 : rootFlagged ? 0.75 : symptomFlags > 0 ? 0.25 : 0
+    const fixCredit = fixed ? Math.max(0.25, 1 - symptomFixes * SYMPTOM_FIX_PENALTY - wrongFixes * WRONG_FIX_PENALTY) : 0
+    return { findingId: finding.id, title: finding.title, rootFlagged, rootFlaggedFirst, symptomFlags, fixed, symptomFixes, wrongFixes, flagCredit, fixCredit }
+  })
+
+  const total = findings.length
+  const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0)
+  const flagShare = total === 0 ? 1 : Math.max(0, (sum(reviews.map((r) => r.flagCredit)) - strayFlags * STRAY_FLAG_PENALTY) / total)
+  const fixShare = total === 0 ? 1 : sum(reviews.map((r) => r.fixCredit)) / total
+  const fixedErrors = reviews.filter((r) => r.fixed).length
+
+  return {
+    score: Math.round(FLAG_POINTS * flagShare + FIX_POINTS * fixShare),
+    findings: reviews,
+    rootCausesFlagged: reviews.filter((r) => r.rootFlagged).length,
+    strayFlags,
+    symptomFixes: sum(reviews.map((r) => r.symptomFixes)),
+    fixedErrors,
+    totalErrors: total,
+    allErrorsFixed: fixedErrors === total
+  }
+}
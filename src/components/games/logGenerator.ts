@@ -0,0 +1,472 @@
+// Seeded generator for GitHub Actions job logs used by Log Detective.
+// Every fault scenario becomes a failing job built from realistic healthy
+// steps (checkout, setup-python, pip, pytest, docker) followed by the step
+// that breaks. Healthy jobs are mixed in as noise. The same seed and
+// scenarios always produce the same log, so runs can be replayed.
+
+import { createRng, pick, randomInt, shuffle, type Rng } from './random'
+import type { LogScenario } from './logScenarios'
+
+export interface LogStep {
+  title: string
+  lines: string[]
+  durationSec: number
+}
+
+export interface GeneratedJob {
+  name: string
+  steps: LogStep[]
+  // Scenario injected into this job, null for healthy noise jobs
+  scenarioId: string | null
+}
+
+export interface GeneratedLog {
+  seed: number
+  lines: string[]
+  jobs: GeneratedJob[]
+}
+
+export interface LogGeneratorOptions {
+  seed: number
+  timestamps?: boolean
+  // Start of the run in epoch milliseconds
+  startedAt?: number
+}
+
+type FaultGenerator = (rng: Rng) => { job: string; steps: LogStep[] }
+
+const PACKAGES = ['requests', 'httpx', 'pydantic', 'sqlalchemy', 'redis', 'boto3', 'pandas', 'numpy', 'fastapi', 'uvicorn', 'jinja2', 'celery']
+const TEST_FILES = ['tests/test_api.py', 'tests/test_models.py', 'tests/test_auth.py', 'tests/test_utils.py', 'tests/test_tasks.py']
+const PYTHON_VERSIONS = ['3.11.9', '3.12.3']
+
+const hex = (rng: Rng, length: number) =>
+  Array.from({ length }, () => '0123456789abcdef'[Math.floor(rng() * 16)]).join('')
+
+const version = (rng: Rng) => `${randomInt(rng, 0, 3)}.${randomInt(rng, 0, 30)}.${randomInt(rng, 0, 9)}`
+
+const shellScript = (rng: Rng) => `/home/runner/work/_temp/${hex(rng, 8)}-${hex(rng, 4)}.sh`
+
+// pytest and pip color their output; the log viewer renders these escapes
+const red = (text: string) => `\x1b[31m${text}\x1b[0m`
+const green = (text: string) => `\x1b[32m${text}\x1b[0m`
+const yellow = (text: string) => `\x1b[33m${text}\x1b[0m`
+
+const exitLine = (code: number) => `Error: Process completed with exit code ${code}.`
+
+// Healthy steps
+
+const checkoutStep = (rng: Rng): LogStep => ({
+  title: 'actions/checkout@v4',
+  lines: [
+    'Syncing repository: acme/myapp',
+    'Getting Git version info',
+    '/usr/bin/git version',
+    'git version 2.45.1',
+    'Fetching the repository',
+    `[command]/usr/bin/git -c protocol.version=2 fetch --no-tags --prune --no-recurse-submodules --depth=1 origin +${hex(rng, 40)}:refs/remotes/origin/main`,
+    `HEAD is now at ${hex(rng, 7)} Merge pull request #${randomInt(rng, 100, 999)} from acme/feature`
+  ],
+  durationSec: randomInt(rng, 1, 3)
+})
+
+const setupPythonStep = (rng: Rng, python: string): LogStep => ({
+  title: 'actions/setup-python@v5',
+  lines: [
+    'Installed versions',
+    `Successfully set up CPython (${python})`
+  ],
+  durationSec: randomInt(rng, 1, 4)
+})
+
+const pinVersions = (rng: Rng, packages: string[]) => packages.map((name) => ({ name, version: version(rng) }))
+
+const collectLines = (rng: Rng, pins: { name: string; version: string }[]) =>
+  pins.flatMap(({ name, version }) => [
+    `Collecting ${name}==${version}`,
+    `  Downloading ${name}-${version}-py3-none-any.whl (${randomInt(rng, 20, 900)} kB)`
+  ])
+
+const pipInstallStep = (rng: Rng, packages: string[]): LogStep => {
+  const pins = pinVersions(rng, packages)
+  return {
+    title: 'pip install -r requirements.txt',
+    lines: [
+      ...collectLines(rng, pins),
+      `Installing collected packages: ${packages.join(', ')}`,
+      `Successfully installed ${pins.map(({ name, version }) => `${name}-${version}`).join(' ')}`
+    ],
+    durationSec: randomInt(rng, 8, 40)
+  }
+}
+
+const pytestHeader = (rng: Rng, python: string, items: number) => [
+  '============================= test session starts ==============================',
+  `platform linux -- Python ${python}, pytest-8.${randomInt(rng, 0, 2)}.0, pluggy-1.5.0`,
+  'rootdir: /home/runner/work/myapp/myapp',
+  `collected ${items} items`,
+  ''
+]
+
+const progressLines = (rng: Rng, files: string[], items: number) => {
+  let done = 0
+  return files.map((file, i) => {
+    const count = i === files.length - 1 ? items - done : randomInt(rng, 1, Math.max(1, Math.floor(items / files.length)))
+    done += count
+    return `${file} ${'.'.repeat(count)} [${String(Math.round((done / items) * 100)).padStart(3)}%]`
+  })
+}
+
+const pytestStep = (rng: Rng, python: string): LogStep => {
+  const items = randomInt(rng, 12, 60)
+  return {
+    title: 'pytest',
+    lines: [
+      ...pytestHeader(rng, python, items),
+      ...progressLines(rng, shuffle(rng, TEST_FILES).slice(0, 3), items),
+      '',
+      green(`============================== ${items} passed in ${randomInt(rng, 1, 9)}.${randomInt(rng, 10, 99)}s ==============================`)
+    ],
+    durationSec: randomInt(rng, 5, 30)
+  }
+}
+
+const buildKitPrelude = (rng: Rng, python: string) => [
+  '#1 [internal] load build definition from Dockerfile',
+  `#1 transferring dockerfile: ${randomInt(rng, 200, 600)}B done`,
+  '#1 DONE 0.0s',
+  '#2 [internal] load .dockerignore',
+  '#2 DONE 0.0s',
+  `#3 [internal] load metadata for docker.io/library/python:${python.slice(0, 4)}-slim`,
+  `#3 DONE 0.${randomInt(rng, 1, 9)}s`,
+  `#4 [1/5] FROM docker.io/library/python:${python.slice(0, 4)}-slim`,
+  '#4 DONE 0.0s',
+  '#5 [2/5] WORKDIR /app',
+  '#5 CACHED'
+]
+
+const dockerBuildStep = (rng: Rng, python: string): LogStep => ({
+  title: 'docker build -t myapp .',
+  lines: [
+    ...buildKitPrelude(rng, python),
+    '#6 [3/5] COPY requirements.txt .',
+    '#6 DONE 0.0s',
+    '#7 [4/5] RUN pip install -r requirements.txt',
+    `#7 DONE ${randomInt(rng, 10, 40)}.${randomInt(rng, 0, 9)}s`,
+    '#8 [5/5] COPY src/ ./src',
+    '#8 DONE 0.1s',
+    '#9 exporting to image',
+    `#9 writing image sha256:${hex(rng, 64)} done`,
+    '#9 naming to docker.io/library/myapp done'
+  ],
+  durationSec: randomInt(rng, 20, 90)
+})
+
+const flake8Step = (rng: Rng): LogStep => ({ title: 'flake8 src tests', lines: [], durationSec: randomInt(rng, 1, 5) })
+
+const mypyStep = (rng: Rng): LogStep => ({
+  title: 'mypy src',
+  lines: [`Success: no issues found in ${randomInt(rng, 20, 80)} source files`],
+  durationSec: randomInt(rng, 4, 20)
+})
+
+// Steps every Python job runs before its own work
+const pythonPrelude = (rng: Rng, packages: string[] = shuffle(rng, PACKAGES).slice(0, 4)) => {
+  const python = pick(rng, PYTHON_VERSIONS)
+  return { python, steps: [checkoutStep(rng), setupPythonStep(rng, python), pipInstallStep(rng, packages)] }
+}
+
+// Fault generators, keyed by scenario id. Each one must produce lines that
+// match every link of its scenario's causal chain in missions.json.
+const FAULTS: Record<string, FaultGenerator> = {
+  'pip-missing-module': (rng) => {
+    const [missing, ...installed] = shuffle(rng, PACKAGES).slice(0, 5)
+    const { python, steps } = pythonPrelude(rng, installed)
+    const file = pick(rng, TEST_FILES)
+    const test = `test_${pick(rng, ['list_users', 'create_order', 'refresh_token', 'send_email'])}`
+    const items = randomInt(rng, 12, 60)
+    return {
+      job: 'test',
+      steps: [...steps, {
+        title: 'pytest',
+        lines: [
+          ...pytestHeader(rng, python, items),
+          `${file}::${test} ${red('FAILED')} [ ${randomInt(rng, 10, 90)}%]`,
+          '',
+          '=================================== FAILURES ===================================',
+          `${'_'.repeat(24)} ${test} ${'_'.repeat(24)}`,
+          '',
+          `    def ${test}():`,
+          `>       import ${missing}`,
+          red(`E       ModuleNotFoundError: No module named '${missing}'`),
+          '',
+          `${file}:${randomInt(rng, 3, 80)}: ModuleNotFoundError`,
+          '=========================== short test summary info ============================',
+          `${red('FAILED')} ${file}::${test} - ModuleNotFoundError: No module named '${missing}'`,
+          red(`========================= 1 failed, ${items - 1} passed in ${randomInt(rng, 1, 9)}.${randomInt(rng, 10, 99)}s =========================`),
+          exitLine(1)
+        ],
+        durationSec: randomInt(rng, 5, 30)
+      }]
+    }
+  },
+  'pip-version-not-found': (rng) => {
+    const pin = `${pick(rng, PACKAGES)}==${randomInt(rng, 50, 99)}.${randomInt(rng, 0, 9)}.${randomInt(rng, 0, 9)}`
+    const python = pick(rng, PYTHON_VERSIONS)
+    const at = () => `#7 ${randomInt(rng, 1, 9)}.${randomInt(rng, 100, 999)}`
+    return {
+      job: 'build',
+      steps: [checkoutStep(rng), {
+        title: 'docker build -t myapp .',
+        lines: [
+          ...buildKitPrelude(rng, python),
+          '#6 [3/5] COPY requirements.txt .',
+          '#6 DONE 0.0s',
+          '#7 [4/5] RUN pip install -r requirements.txt',
+          `${at()} ${red(`ERROR: Could not find a version that satisfies the requirement ${pin} (from versions: ${version(rng)}, ${version(rng)}, ${version(rng)})`)}`,
+          `${at()} ${red(`ERROR: No matching distribution found for ${pin}`)}`,
+          '#7 ERROR: process "/bin/sh -c pip install -r requirements.txt" did not complete successfully: exit code: 1',
+          exitLine(1)
+        ],
+        durationSec: randomInt(rng, 5, 20)
+      }]
+    }
+  },
+  'missing-file': (rng) => {
+    const [script, file] = pick(rng, [
+      ['scripts/seed_db.py', 'data/fixtures.json'],
+      ['scripts/migrate.py', 'config/settings.yaml'],
+      ['scripts/load_env.py', '.env.ci']
+    ])
+    const { steps } = pythonPrelude(rng)
+    return {
+      job: 'seed',
+      steps: [...steps, {
+        title: `python ${script}`,
+        lines: [
+          'Traceback (most recent call last):',
+          `  File "/home/runner/work/myapp/myapp/${script}", line ${randomInt(rng, 5, 60)}, in <module>`,
+          `    with open('${file}') as fh:`,
+          `FileNotFoundError: [Errno 2] No such file or directory: '${file}'`,
+          exitLine(1)
+        ],
+        durationSec: 1
+      }]
+    }
+  },
+  'script-permission-denied': (rng) => {
+    const script = pick(rng, ['./scripts/deploy.sh', './scripts/release.sh', './bin/smoke-test.sh'])
+    return {
+      job: 'deploy',
+      steps: [checkoutStep(rng), {
+        title: `${script} ${pick(rng, ['staging', 'production'])}`,
+        lines: [`${shellScript(rng)}: line 1: ${script}: Permission denied`, exitLine(126)],
+        durationSec: 0
+      }]
+    }
+  },
+  'docker-copy-missing': (rng) => {
+    const source = pick(rng, ['src', 'app', 'config'])
+    const ref = hex(rng, 6)
+    const python = pick(rng, PYTHON_VERSIONS)
+    return {
+      job: 'build',
+      steps: [checkoutStep(rng), {
+        title: 'docker build -t myapp .',
+        lines: [
+          ...buildKitPrelude(rng, python),
+          `#6 [3/5] COPY ${source}/ ./${source}`,
+          `#6 ERROR: failed to calculate checksum of ref ${ref}: "/${source}": not found`,
+          '------',
+          ` > [3/5] COPY ${source}/ ./${source}:`,
+          '------',
+          `ERROR: failed to solve: failed to compute cache key: failed to calculate checksum of ref ${ref}: "/${source}": not found`,
+          exitLine(1)
+        ],
+        durationSec: randomInt(rng, 2, 6)
+      }]
+    }
+  },
+  'oom-killed': (rng) => {
+    const { python, steps } = pythonPrelude(rng)
+    const workers = pick(rng, [4, 6, 8])
+    const items = randomInt(rng, 120, 400)
+    return {
+      job: 'test',
+      steps: [...steps, {
+        title: `pytest -n ${workers}`,
+        lines: [
+          ...pytestHeader(rng, python, items).slice(0, 3),
+          `created: ${workers}/${workers} workers`,
+          `${workers} workers [${items} items]`,
+          '',
+          `${'.'.repeat(72)} [ ${randomInt(rng, 20, 60)}%]`,
+          '.'.repeat(randomInt(rng, 10, 60)),
+          `${shellScript(rng)}: line 1:  ${randomInt(rng, 1000, 9999)} Killed                  pytest -n ${workers}`,
+          exitLine(137)
+        ],
+        durationSec: randomInt(rng, 60, 300)
+      }]
+    }
+  },
+  'pip-network-timeout': (rng) => {
+    const packages = shuffle(rng, PACKAGES).slice(0, 3)
+    const stuck = packages[packages.length - 1]
+    const retry = (total: number) =>
+      yellow(`WARNING: Retrying (Retry(total=${total}, connect=None, read=None, redirect=None, status=None)) after connection broken by 'NewConnectionError('<pip._vendor.urllib3.connection.HTTPSConnection object at 0x7f${hex(rng, 8)}>: Failed to establish a new connection: [Errno -3] Temporary failure in name resolution')': /simple/${stuck}/`)
+    return {
+      job: 'test',
+      steps: [checkoutStep(rng), setupPythonStep(rng, pick(rng, PYTHON_VERSIONS)), {
+        title: 'pip install -r requirements.txt',
+        lines: [
+          ...collectLines(rng, pinVersions(rng, packages.slice(0, -1))),
+          `Collecting ${stuck}==${version(rng)}`,
+          ...[4, 3, 2, 1, 0].slice(0, randomInt(rng, 2, 5)).map(retry),
+          red(`ERROR: Could not install packages due to an OSError: HTTPSConnectionPool(host='${pick(rng, ['files.pythonhosted.org', 'pypi.org'])}', port=443): Max retries exceeded with url: /simple/${stuck}/`),
+          exitLine(1)
+        ],
+        durationSec: randomInt(rng, 30, 120)
+      }]
+    }
+  },
+  'pip-resolution-conflict': (rng) => {
+    const conflict = pick(rng, [
+      { pin: 'requests==2.25.0', dependent: 'httpx-oauth 0.13.0', needs: 'requests>=2.28' },
+      { pin: 'numpy==1.21.0', dependent: 'pandas 2.2.1', needs: 'numpy>=1.22.4' },
+      { pin: 'protobuf==3.20.3', dependent: 'grpcio-tools 1.62.0', needs: 'protobuf>=4.21.6' }
+    ])
+    const [dependentName, dependentVersion] = conflict.dependent.split(' ')
+    return {
+      job: 'test',
+      steps: [checkoutStep(rng), setupPythonStep(rng, pick(rng, PYTHON_VERSIONS)), {
+        title: 'pip install -r requirements.txt',
+        lines: [
+          `Collecting ${conflict.pin}`,
+          `Collecting ${dependentName}==${dependentVersion}`,
+          `INFO: pip is looking at multiple versions of ${dependentName} to determine which version is compatible with other requirements. This could take a while.`,
+          red(`ERROR: Cannot install -r requirements.txt (line ${randomInt(rng, 2, 12)}) and ${conflict.pin} because these package versions have conflicting dependencies.`),
+          '',
+          'The conflict is caused by:',
+          `    The user requested ${conflict.pin}`,
+          `    ${conflict.dependent} depends on ${conflict.needs}`,
+          '',
+          red('ERROR: ResolutionImpossible: for help visit https://pip.pypa.io/en/latest/topics/dependency-resolution/#dealing-with-dependency-conflicts'),
+          exitLine(1)
+        ],
+        durationSec: randomInt(rng, 10, 60)
+      }]
+    }
+  },
+  'docker-socket-permission': (rng) => ({
+    job: 'build',
+    steps: [checkoutStep(rng), {
+      title: 'docker build -t myapp .',
+      lines: [
+        'permission denied while trying to connect to the Docker daemon socket at unix:///var/run/docker.sock: Post "http://%2Fvar%2Frun%2Fdocker.sock/v1.45/build?t=myapp": dial unix /var/run/docker.sock: connect: permission denied',
+        exitLine(1)
+      ],
+      durationSec: 0
+    }]
+  }),
+  'registry-tls-timeout': (rng) => {
+    const registry = pick(rng, ['ghcr.io', 'quay.io', 'registry-1.docker.io'])
+    const image = `${registry}/acme/myapp:${hex(rng, 7)}`
+    return {
+      job: 'publish',
+      steps: [checkoutStep(rng), dockerBuildStep(rng, pick(rng, PYTHON_VERSIONS)), {
+        title: `docker push ${image}`,
+        lines: [
+          `The push refers to repository [${image.split(':')[0]}]`,
+          ...Array.from({ length: randomInt(rng, 2, 4) }, () => `${hex(rng, 12)}: Preparing`),
+          `${hex(rng, 12)}: Pushing  ${randomInt(rng, 10, 90)}.${randomInt(rng, 0, 9)}MB/${randomInt(rng, 100, 300)}MB`,
+          `Get "https://${registry}/v2/": net/http: TLS handshake timeout`,
+          exitLine(1)
+        ],
+        durationSec: randomInt(rng, 20, 90)
+      }]
+    }
+  }
+}
+
+// Scenarios without a generator reuse their log excerpt as the failing step
+const excerptFault = (scenario: LogScenario): { job: string; steps: LogStep[] } => ({
+  job: scenario.category,
+  steps: [{
+    title: scenario.title,
+    lines: scenario.log.filter((line) => !line.startsWith('::group::') && line !== '::endgroup::'),
+    durationSec: 5
+  }]
+})
+
+const HEALTHY_JOBS: Record<string, (rng: Rng) => LogStep[]> = {
+  lint: (rng) => [checkoutStep(rng), setupPythonStep(rng, pick(rng, PYTHON_VERSIONS)), flake8Step(rng)],
+  typecheck: (rng) => {
+    const { steps } = pythonPrelude(rng)
+    return [...steps, mypyStep(rng)]
+  },
+  'unit-tests': (rng) => {
+    const { python, steps } = pythonPrelude(rng)
+    return [...steps, pytestStep(rng, python)]
+  },
+  image: (rng) => [checkoutStep(rng), dockerBuildStep(rng, pick(rng, PYTHON_VERSIONS))]
+}
+
+export const hasFaultGenerator = (scenarioId: string) => scenarioId in FAULTS
+
+const timestamp = (rng: Rng, ms: number) =>
+  new Date(ms).toISOString().replace('Z', `${String(randomInt(rng, 0, 9999)).padStart(4, '0')}Z`)
+
+// Split a raw log line into its timestamp and the text after it
+export const stripTimestamp = (line: string): { timestamp: string | null; text: string } => {
+  const match = line.match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d+Z) (.*)$/)
+  return match ? { timestamp: match[1], text: match[2] } : { timestamp: null, text: line }
+}
+
+export const generateCiLog = (
+  scenarios: LogScenario[],
+  { seed, timestamps = true, startedAt = Date.UTC(2024, 4, 14, 9, 12, 0) }: LogGeneratorOptions
+): GeneratedLog => {
+  const rng = createRng(seed)
+
+  // One failing job per scenario, plus one or two healthy jobs as noise
+  const faulty: GeneratedJob[] = scenarios.map((scenario) => {
+    const generator = FAULTS[scenario.id]
+    const { job, steps } = generator ? generator(createRng(`${seed}:${scenario.id}`)) : excerptFault(scenario)
+    return { name: job, steps, scenarioId: scenario.id }
+  })
+  const healthy: GeneratedJob[] = shuffle(rng, Object.keys(HEALTHY_JOBS))
+    .slice(0, randomInt(rng, 1, 2))
+    .map((name) => ({ name, steps: HEALTHY_JOBS[name](createRng(`${seed}:${name}`)), scenarioId: null }))
+  const jobs = shuffle(rng, [...faulty, ...healthy])
+
+  // Several faults can land in the same kind of job, so number repeats
+  const seen: Record<string, number> = {}
+  for (const job of jobs) {
+    seen[job.name] = (seen[job.name] || 0) + 1
+    if (seen[job.name] > 1) job.name = `${job.name} (${seen[job.name]})`
+  }
+
+  const lines: string[] = []
+  let clock = startedAt
+  const emit = (text: string) => {
+    clock += randomInt(rng, 1, 40)
+    lines.push(timestamps ? `${timestamp(rng, clock)} ${text}` : text)
+  }
+  jobs.forEach((job, i) => {
+    if (i > 0) lines.push('')
+    emit(`::group::Set up job ${job.name}`)
+    emit(`Current runner version: '2.317.0'`)
+    emit(`Runner name: '${job.scenarioId === 'docker-socket-permission' ? 'build-box-03' : `GitHub Actions ${randomInt(rng, 1, 60)}`}'`)
+    emit('Operating System: Ubuntu 22.04.4 LTS')
+    emit('::endgroup::')
+    for (const step of job.steps) {
+      emit(`::group::Run ${step.title}`)
+      step.lines.forEach(emit)
+      emit('::endgroup::')
+      clock += step.durationSec * 1000
+    }
+    emit('Post job cleanup.')
+    emit('Cleaning up orphan processes')
+  })
+
+  return { seed, lines, jobs }
+}
@@ -0,0 +1,160 @@
+// Data-driven error scenarios for Log Detective. Each scenario in
+// missions.json declares its causal chain as regex patterns (the root cause
+// first, then the symptoms it produces), an explanation, and fix options
+// with their own feedback. `{1}`, `{2}`, ... in any text are filled from
+// the root-cause pattern's capture groups.
+
+import { shuffle, type Rng } from './random'
+import { stripAnsi } from './logViewer'
+
+export type ScenarioDifficulty = 'beginner' | 'intermediate' | 'advanced'
+
+export interface LogFixOption {
+  text: string
+  correct: boolean
+  feedback: string
+  // Set on options that only silence a downstream symptom
+  symptom?: boolean
+}
+
+export interface CausalLink {
+  label: string
+  pattern: string
+}
+
+export interface LogScenario {
+  id: string
+  category: string
+  difficulty: ScenarioDifficulty
+  title: string
+  // Root cause first, e.g. import error → test failure → job failure
+  chain: CausalLink[]
+  explanation: string
+  fix: string
+  options: LogFixOption[]
+  log: string[]
+}
+
+export interface LogFinding {
+  id: string
+  scenarioId: string
+  title: string
+  // Line of the root cause
+  line: number
+  content: string
+  // Lines of the downstream symptoms
+  relatedLines: number[]
+  chain: { label: string; line: number }[]
+  explanation: string
+  suggestedFix: string
+  options: LogFixOption[]
+}
+
+const DIFFICULTY_RANK: Record<ScenarioDifficulty, number> = { beginner: 0, intermediate: 1, advanced: 2 }
+
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return null
+  }
+}
+
+export const fillTemplate = (text: string, match: RegExpMatchArray | null) =>
+  text.replace(/\{(\d+)\}/g, (whole, group: string) => match?.[Number(group)] ?? whole)
+
+// Problems with scenario data, so a broken pool is caught before players see it
+export const validateScenarios = (scenarios: LogScenario[]): string[] => {
+  const problems: string[] = []
+  const seen = new Set<string>()
+  for (const scenario of scenarios) {
+    const label = `Scenario "${scenario.id}"`
+    if (seen.has(scenario.id)) problems.push(`${label} is defined more than once`)
+    seen.add(scenario.id)
+    if (!(scenario.difficulty in DIFFICULTY_RANK)) problems.push(`${label} has unknown difficulty "${scenario.difficulty}"`)
+    if (scenario.chain.length === 0) problems.push(`${label} has an empty causal chain`)
+    scenario.chain.forEach((link, i) => {
+      const regex = compilePattern(link.pattern)
+      if (!regex) problems.push(`${label} link ${i + 1} (${link.label}) is not a valid regular expression`)
+      else if (!scenario.log.some((line) => regex.test(line))) problems.push(`${label} link ${i + 1} (${link.label}) does not match its own log`)
+    })
+    const correct = scenario.options.filter((o) => o.correct).length
+    if (correct !== 1) problems.push(`${label} needs exactly one correct option, found ${correct}`)
+    if (scenario.options.length < 2) problems.push(`${label} needs at least two options`)
+  }
+  return problems
+}
+
+// Pick `count` scenarios a player at `difficulty` can handle. Scenarios at the
+// player's own level come first, easier ones fill the rest, and each category
+// is used once before any repeats.
+export const sampleScenarios = (
+  pool: LogScenario[],
+  difficulty: ScenarioDifficulty,
+  count: number,
+  rng: Rng
+): LogScenario[] => {
+  const rank = DIFFICULTY_RANK[difficulty]
+  const eligible = shuffle(rng, pool.filter((s) => DIFFICULTY_RANK[s.difficulty] <= rank))
+  const ordered = [
+    ...eligible.filter((s) => DIFFICULTY_RANK[s.difficulty] === rank),
+    ...eligible.filter((s) => DIFFICULTY_RANK[s.difficulty] < rank)
+  ]
+  const picked: LogScenario[] = []
+  const categories = new Set<string>()
+  for (const scenario of ordered) {
+    if (picked.length >= count) break
+    if (categories.has(scenario.category)) continue
+    picked.push(scenario)
+    categories.add(scenario.category)
+  }
+  for (const scenario of ordered) {
+    if (picked.length >= count) break
+    if (!picked.includes(scenario)) picked.push(scenario)
+  }
+  return picked
+}
+
+// Concatenate the scenarios' log excerpts into one job log
+export const buildScenarioLog = (scenarios: LogScenario[]): string[] =>
+  scenarios.flatMap((s, i) => (i === 0 ? s.log : ['', ...s.log]))
+
+// Scan a log for each scenario's root cause. Every scenario produces at most
+// one finding, on the first matching line; each later link of the chain is
+// the first match after the link before it. Options are shuffled and
+// patterns match the text without ANSI color escapes.
+export const findScenarioErrors = (rawLines: string[], scenarios: LogScenario[], rng: Rng): LogFinding[] => {
+  const logLines = rawLines.map(stripAnsi)
+  const findings: LogFinding[] = []
+  for (const scenario of scenarios) {
+    const [root, ...symptoms] = scenario.chain.map((link) => ({ label: link.label, regex: compilePattern(link.pattern) }))
+    if (!root?.regex) continue
+    const rootRegex = root.regex
+    const index = logLines.findIndex((line) => rootRegex.test(line))
+    if (index === -1) continue
+    const match = logLines[index].match(rootRegex)
+    const chain = [{ label: root.label, line: index + 1 }]
+    for (const { label, regex } of symptoms) {
+      const after = chain[chain.length - 1].line
+      const next = regex ? logLines.findIndex((line, i) => i >= after && regex.test(line)) : -1
+      if (next !== -1) chain.push({ label, line: next + 1 })
+    }
+    findings.push({
+      id: `error-${scenario.id}`,
+      scenarioId: scenario.id,
+      title: scenario.title,
+      line: index + 1,
+      content: logLines[index],
+      relatedLines: chain.slice(1).map((link) => link.line),
+      chain,
+      explanation: fillTemplate(scenario.explanation, match),
+      suggestedFix: fillTemplate(scenario.fix, match),
+      options: shuffle(rng, scenario.options).map((option) => ({
+        ...option,
+        text: fillTemplate(option.text, match),
+        feedback: fillTemplate(option.feedback, match)
+      }))
+    })
+  }
+  return findings.sort((a, b) => a.line - b.line)
+}
@@ -0,0 +1,194 @@
+// Log viewer model: parses raw CI log lines into entries with levels,
+// `::group::` folding and ANSI color segments, and provides search,
+// windowing for long logs, and classification of root-cause flags.
+
+import { stripTimestamp } from './logGenerator'
+import type { LogFinding } from './logScenarios'
+
+export type LogLevel = 'error' | 'warning' | 'info'
+
+export interface AnsiSegment {
+  text: string
+  color: string | null
+  bold: boolean
+}
+
+export interface LogEntry {
+  // 1-based line number in the raw log
+  number: number
+  // Line text without timestamp, ANSI escapes kept
+  text: string
+  timestamp: string | null
+  level: LogLevel
+  // Set on `::group::` lines; the entry renders as a fold header
+  groupTitle: string | null
+  // Enclosing group's header line number, null outside groups
+  groupId: number | null
+  isGroupEnd: boolean
+  // Jobs in a combined log start with a "Set up job" group
+  section: number
+}
+
+const ANSI_PATTERN = /\x1b\[([\d;]*)m/g
+
+const ANSI_COLORS: Record<number, string> = {
+  30: 'black', 31: 'red', 32: 'green', 33: 'yellow', 34: 'blue', 35: 'magenta', 36: 'cyan', 37: 'white',
+  90: 'gray', 91: 'red', 92: 'green', 93: 'yellow', 94: 'blue', 95: 'magenta', 96: 'cyan', 97: 'white'
+}
+
+export const stripAnsi = (text: string) => text.replace(ANSI_PATTERN, '')
+
+// Split text on SGR escapes; supports reset, bold and the 16 foreground colors
+export const parseAnsi = (text: string): AnsiSegment[] => {
+  const segments: AnsiSegment[] = []
+  let color: string | null = null
+  let bold = false
+  let last = 0
+  const push = (chunk: string) => {
+    if (chunk) segments.push({ text: chunk, color, bold })
+  }
+  for (const match of text.matchAll(ANSI_PATTERN)) {
+    push(text.slice(last, match.index))
+    last = (match.index ?? 0) + match[0].length
+    const codes = match[1] === '' ? [0] : match[1].split(';').map(Number)
+    for (const code of codes) {
+      if (code === 0) {
+        color = null
+        bold = false
+      } else if (code === 1) bold = true
+      else if (code === 22) bold = false
+      else if (code === 39) color = null
+      else if (ANSI_COLORS[code]) color = ANSI_COLORS[code]
+    }
+  }
+  push(text.slice(last))
+  return segments
+}
+
+export const detectLevel = (text: string): LogLevel => {
+  const plain = stripAnsi(text)
+  if (/^E\s{2,}|\w*(Error|Exception):|\b(ERROR|FAILED|fatal|Killed|Traceback)\b|Permission denied|permission denied|exit code [1-9]/.test(plain)) return 'error'
+  if (/\b(WARNING|warning|Retrying|deprecated|DEPRECATION)\b/.test(plain)) return 'warning'
+  // Fall back on the color the tool chose
+  const colors = parseAnsi(text).map((s) => s.color)
+  if (colors.includes('red')) return 'error'
+  if (colors.includes('yellow')) return 'warning'
+  return 'info'
+}
+
+export const parseLog = (lines: string[]): LogEntry[] => {
+  let groupId: number | null = null
+  let section = 0
+  let seenSetup = false
+  return lines.map((raw, i) => {
+    const { timestamp, text } = stripTimestamp(raw)
+    const plain = stripAnsi(text)
+    const number = i + 1
+    if (plain.startsWith('::group::')) {
+      const groupTitle = plain.slice('::group::'.length)
+      if (groupTitle.startsWith('Set up job')) {
+        if (seenSetup) section++
+        seenSetup = true
+      }
+      groupId = number
+      return { number, text, timestamp, level: 'info', groupTitle, groupId, isGroupEnd: false, section }
+    }
+    const entry: LogEntry = {
+      number,
+      text,
+      timestamp,
+      level: detectLevel(text),
+      groupTitle: null,
+      groupId,
+      isGroupEnd: plain === '::endgroup::',
+      section
+    }
+    if (entry.isGroupEnd) groupId = null
+    return entry
+  })
+}
+
+// Groups that contain errors start expanded, like a CI UI opening the failed step
+export const defaultCollapsedGroups = (entries: LogEntry[]): Set<number> => {
+  const collapsed = new Set(entries.filter((e) => e.groupTitle !== null).map((e) => e.number))
+  for (const entry of entries) {
+    if (entry.level === 'error' && entry.groupId !== null) collapsed.delete(entry.groupId)
+  }
+  return collapsed
+}
+
+export interface VisibleOptions {
+  collapsed: Set<number>
+  // 'error' shows errors only, 'warning' shows warnings and errors
+  level: LogLevel | 'all'
+}
+
+export const visibleEntries = (entries: LogEntry[], { collapsed, level }: VisibleOptions): LogEntry[] => {
+  if (level !== 'all') {
+    // Filtering shows a flat list of matching lines, ignoring folds
+    return entries.filter((e) => e.groupTitle === null && !e.isGroupEnd && (e.level === 'error' || (level === 'warning' && e.level === 'warning')))
+  }
+  return entries.filter((e) => {
+    if (e.isGroupEnd) return false
+    if (e.groupTitle !== null) return true
+    return e.groupId === null || !collapsed.has(e.groupId)
+  })
+}
+
+export interface SearchResult {
+  // Line numbers of matching entries, in log order
+  matches: number[]
+  error: string | null
+}
+
+export const searchLog = (entries: LogEntry[], query: string): SearchResult => {
+  if (!query) return { matches: [], error: null }
+  let regex: RegExp
+  try {
+    regex = new RegExp(query, 'i')
+  } catch (e) {
+    return { matches: [], error: e instanceof Error ? e.message : 'Invalid regular expression' }
+  }
+  return {
+    matches: entries.filter((e) => !e.isGroupEnd && regex.test(stripAnsi(e.groupTitle ?? e.text))).map((e) => e.number),
+    error: null
+  }
+}
+
+export interface VirtualWindow {
+  start: number
+  end: number
+  offsetTop: number
+  totalHeight: number
+}
+
+// Rows to render for a fixed-row-height list scrolled to `scrollTop`
+export const virtualWindow = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  total: number,
+  overscan = 10
+): VirtualWindow => {
+  const first = Math.floor(scrollTop / rowHeight)
+  const start = Math.max(0, first - overscan)
+  const end = Math.min(total, first + Math.ceil(viewportHeight / rowHeight) + overscan)
+  return { start, end, offsetTop: start * rowHeight, totalHeight: total * rowHeight }
+}
+
+export type FlagVerdict = 'root-cause' | 'symptom' | 'unrelated'
+
+// A flagged line is a symptom of a finding when the scenario lists it as
+// related, or when it is an error later in the same job as the root cause
+export const classifyFlag = (line: number, findings: LogFinding[], entries: LogEntry[]): { verdict: FlagVerdict; findingId: string | null } => {
+  const root = findings.find((f) => f.line === line)
+  if (root) return { verdict: 'root-cause', findingId: root.id }
+  const entry = entries[line - 1]
+  const candidates = findings.filter((f) => {
+    if (f.relatedLines.includes(line)) return true
+    const rootEntry = entries[f.line - 1]
+    return !!entry && !!rootEntry && entry.level === 'error' && entry.section === rootEntry.section && line > f.line
+  })
+  const nearest = candidates.sort((a, b) => b.line - a.line)[0]
+  return nearest ? { verdict: 'symptom', findingId: nearest.id } : { verdict: 'unrelated', findingId: null }
+}
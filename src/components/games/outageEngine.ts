@@ -0,0 +1,569 @@
+// Seeded incident simulation for the Outage Simulator.
+// A run is a pure function of its seed: the seed picks the incident, the
+// service it starts in and when, and the noise on each tick comes from an RNG
+// derived from the seed and the tick number, so stepping a state always gives
+// the same next state. Recovery strategies work when they are aimed at the
+// service the incident started in and address its root cause, rather than
+// on a roll of the dice.
+//
+// Incidents are only known once an alert rule pages about them or the player
+// declares one from the dashboards; when alerting is left out of the run,
+// every incident is known the moment it starts. Short blips that are not incidents are planned
+// from the seed too, so alert windows have something to filter out. When the
+// run has SLOs, every second of traffic at the load balancer is counted
+// against their error budgets.
+//
+// The system is a small topology of services. Each service has its own
+// metrics; latency and errors from a dependency add to what its callers see,
+// so an incident shows up all the way to the load balancer while CPU and
+// memory only move on the service where it started.
+
+import {
+  evaluateAlerts,
+  initialAlertStatus,
+  scoreAlerting,
+  type AlertingScore,
+  type AlertRule,
+  type AlertRuleStatus,
+  type Page
+} from './alerting'
+import { createRng, pick, randomInt, type Rng } from './random'
+import { budgetRemaining, createSloTracking, errorBudgets, trackSlo, type ErrorBudget, type Sli, type Slo, type SloTracking } from './slo'
+
+export interface ServiceMetrics {
+  cpu: number
+  memory: number
+  responseTime: number
+  errorRate: number
+  requestsPerSecond: number
+}
+
+export type ServiceId = 'load-balancer' | 'api' | 'worker' | 'database' | 'cache'
+
+export interface ServiceNode {
+  id: ServiceId
+  name: string
+  description: string
+  dependsOn: ServiceId[]
+  // Normal readings, including time spent in healthy dependencies
+  baseline: ServiceMetrics
+}
+
+export type RootCause = 'traffic-surge' | 'memory-leak' | 'connection-pool' | 'bad-release'
+
+export type StrategyName = 'Rollback' | 'Hotfix' | 'Redeploy' | 'Scale Up'
+
+export interface RecoveryStrategy {
+  name: StrategyName
+  description: string
+  // Seconds of simulated time before the strategy takes effect
+  timeToExecute: number
+  risk: 'low' | 'medium' | 'high'
+  whenToUse: string
+  explanation: string
+  // Root causes the strategy removes
+  fixes: RootCause[]
+  // Root causes it only slows down; the incident keeps going
+  mitigates: RootCause[]
+}
+
+export interface IncidentType {
+  id: string
+  title: string
+  description: string
+  severity: 'critical' | 'warning' | 'info'
+  rootCause: RootCause
+  recommendedStrategy: StrategyName
+  // Services the incident can start in; the seed picks one
+  origins: ServiceId[]
+  // Change per second on the origin while the incident is unresolved, before noise
+  drift: Partial<ServiceMetrics>
+}
+
+export interface OutageIncident extends IncidentType {
+  origin: ServiceId
+  // Entry point where users notice the incident
+  detectedAt: ServiceId
+  startedAt: number
+  resolvedAt: number | null
+  // When the responder learned about it: from a page, by spotting it on a
+  // dashboard, or at once when nothing is monitored
+  detection: { atSec: number; via: 'page' | 'manual' | 'unmonitored' } | null
+  // Multiplier on drift: halved by a mitigation, raised by a bad attempt
+  pace: number
+}
+
+export type AttemptOutcome = 'resolved' | 'mitigated' | 'no-effect' | 'worsened'
+
+export interface StrategyAttempt {
+  strategy: StrategyName
+  target: ServiceId
+  startedAt: number
+  finishedAt: number | null
+  outcome: AttemptOutcome | null
+}
+
+export interface OutageState {
+  seed: number
+  // Seconds since the shift started
+  tick: number
+  durationSec: number
+  plan: OutagePlan
+  // What each service reports, dependencies included
+  metrics: Record<ServiceId, ServiceMetrics>
+  // Each service's own contribution, before adding its dependencies
+  ownMetrics: Record<ServiceId, ServiceMetrics>
+  incidents: OutageIncident[]
+  attempts: StrategyAttempt[]
+  // Null when alerting is left out of the run
+  alerting: { rules: AlertRule[]; status: Record<string, AlertRuleStatus>; pages: Page[] } | null
+  // Null when the run has no SLOs
+  slo: SloTracking | null
+}
+
+// A short spike on one service that clears by itself
+export interface Blip {
+  service: ServiceId
+  startTick: number
+  durationSec: number
+  // Added to the service's readings while the blip lasts
+  spike: Partial<ServiceMetrics>
+}
+
+export interface OutagePlan {
+  incident: IncidentType
+  origin: ServiceId
+  onsetTick: number
+  blips: Blip[]
+}
+
+export interface OutageOptions {
+  durationSec?: number
+  incidentTypes?: IncidentType[]
+  alertRules?: AlertRule[]
+  slo?: Slo
+}
+
+export const TOPOLOGY: ServiceNode[] = [
+  {
+    id: 'load-balancer',
+    name: 'Load Balancer',
+    description: 'Entry point for all user traffic',
+    dependsOn: ['api'],
+    baseline: { cpu: 10, memory: 20, responseTime: 150, errorRate: 2, requestsPerSecond: 100 }
+  },
+  {
+    id: 'api',
+    name: 'API',
+    description: 'Serves every request, reading from the cache and the database',
+    dependsOn: ['cache', 'database'],
+    baseline: { cpu: 25, memory: 40, responseTime: 140, errorRate: 1.5, requestsPerSecond: 100 }
+  },
+  {
+    id: 'worker',
+    name: 'Worker',
+    description: 'Processes background jobs such as emails and exports',
+    dependsOn: ['database'],
+    baseline: { cpu: 30, memory: 45, responseTime: 400, errorRate: 1, requestsPerSecond: 20 }
+  },
+  {
+    id: 'database',
+    name: 'Database',
+    description: 'Primary Postgres instance shared by the API and the worker',
+    dependsOn: [],
+    baseline: { cpu: 20, memory: 60, responseTime: 8, errorRate: 0.1, requestsPerSecond: 300 }
+  },
+  {
+    id: 'cache',
+    name: 'Cache',
+    description: 'Redis cache in front of the database',
+    dependsOn: [],
+    baseline: { cpu: 10, memory: 50, responseTime: 1, errorRate: 0, requestsPerSecond: 800 }
+  }
+]
+
+// Where users see the system: what the overall health is judged on
+export const EDGE_SERVICE: ServiceId = 'load-balancer'
+
+const METRIC_LIMITS: ServiceMetrics = {
+  cpu: 100,
+  memory: 100,
+  responseTime: 2000,
+  errorRate: 50,
+  requestsPerSecond: Infinity
+}
+
+// Share of a dependency's extra latency and errors its callers inherit
+const PROPAGATION = { responseTime: 1, errorRate: 0.9 }
+
+// The incident starts somewhere in this window so players watch healthy
+// metrics first
+export const ONSET_WINDOW: [number, number] = [10, 40]
+export const BLIP_COUNT = 3
+// Blips last at most this long, so a rule whose window is at least this long
+// ignores them
+export const MAX_BLIP_SEC = 4
+// Share of the gap to baseline closed per second once the incident is resolved
+const RECOVERY_RATE = 0.15
+// Error rate added at once when a high-risk change misses
+const WORSENED_ERROR_SPIKE = 5
+
+export const RECOVERY_STRATEGIES: RecoveryStrategy[] = [
+  {
+    name: 'Rollback',
+    description: 'Revert to the last known good version',
+    timeToExecute: 5,
+    risk: 'low',
+    whenToUse: 'When you know the current version is broken',
+    explanation: 'Safest option - reverts to previous working state',
+    fixes: ['bad-release', 'memory-leak'],
+    mitigates: []
+  },
+  {
+    name: 'Hotfix',
+    description: 'Deploy a quick patch without full testing',
+    timeToExecute: 2,
+    risk: 'high',
+    whenToUse: 'When you need immediate fix and understand the issue',
+    explanation: 'Fastest option but risky - may introduce new issues',
+    fixes: ['bad-release'],
+    mitigates: []
+  },
+  {
+    name: 'Redeploy',
+    description: 'Deploy a tested fix through normal pipeline',
+    timeToExecute: 8,
+    risk: 'medium',
+    whenToUse: 'When you have a tested fix ready',
+    explanation: 'Balanced option - tested fix through normal process',
+    fixes: ['bad-release', 'memory-leak'],
+    mitigates: ['connection-pool']
+  },
+  {
+    name: 'Scale Up',
+    description: 'Add more resources to handle increased load',
+    timeToExecute: 3,
+    risk: 'low',
+    whenToUse: 'When the issue is high load, not broken code',
+    explanation: 'Good for load issues but doesn\'t fix root cause',
+    fixes: ['traffic-surge', 'connection-pool'],
+    mitigates: ['memory-leak']
+  }
+]
+
+export const INCIDENT_TYPES: IncidentType[] = [
+  {
+    id: 'high-cpu',
+    title: 'High CPU Usage',
+    description: 'CPU usage has spiked to 95%, causing slow response times',
+    severity: 'critical',
+    rootCause: 'traffic-surge',
+    recommendedStrategy: 'Scale Up',
+    origins: ['api', 'worker'],
+    drift: { cpu: 6, responseTime: 40, errorRate: 0.4, requestsPerSecond: -2 }
+  },
+  {
+    id: 'memory-leak',
+    title: 'Memory Leak Detected',
+    description: 'Memory usage is increasing rapidly, service may crash soon',
+    severity: 'critical',
+    rootCause: 'memory-leak',
+    recommendedStrategy: 'Rollback',
+    origins: ['api', 'worker', 'cache'],
+    drift: { memory: 3, cpu: 1, responseTime: 20, errorRate: 0.5, requestsPerSecond: -2 }
+  },
+  {
+    id: 'db-pool',
+    title: 'Database Connection Pool Exhausted',
+    description: 'All database connections are in use, new requests are failing',
+    severity: 'critical',
+    rootCause: 'connection-pool',
+    recommendedStrategy: 'Scale Up',
+    origins: ['database'],
+    drift: { responseTime: 60, errorRate: 1.5, requestsPerSecond: -5 }
+  },
+  {
+    id: 'error-rate',
+    title: 'High Error Rate',
+    description: 'Error rate has increased to 15%, affecting user experience',
+    severity: 'warning',
+    rootCause: 'bad-release',
+    recommendedStrategy: 'Rollback',
+    origins: ['api', 'worker'],
+    drift: { errorRate: 1.5, responseTime: 10, requestsPerSecond: -4 }
+  }
+]
+
+export const ATTEMPT_OUTCOME_LABELS: Record<AttemptOutcome, string> = {
+  resolved: 'removed the root cause',
+  mitigated: 'bought time but the root cause is still there',
+  'no-effect': 'did not touch the root cause; the service kept degrading',
+  worsened: 'missed the root cause and the rushed change made things worse'
+}
+
+const METRIC_KEYS: (keyof ServiceMetrics)[] = ['cpu', 'memory', 'responseTime', 'errorRate', 'requestsPerSecond']
+
+export const findStrategy = (name: StrategyName) => RECOVERY_STRATEGIES.find((s) => s.name === name)!
+
+export const findService = (id: ServiceId) => TOPOLOGY.find((s) => s.id === id)!
+
+// Services that call `id`, directly or through other services
+export const dependentsOf = (id: ServiceId): ServiceId[] => {
+  const direct = TOPOLOGY.filter((s) => s.dependsOn.includes(id)).map((s) => s.id)
+  return [...new Set([...direct, ...direct.flatMap(dependentsOf)])]
+}
+
+// Where an incident starting in `origin` is first noticed: the edge if it
+// reaches users, otherwise the caller-less service it is confined to
+export const entryPointFor = (origin: ServiceId): ServiceId => {
+  const reach = [origin, ...dependentsOf(origin)]
+  return reach.includes(EDGE_SERVICE) ? EDGE_SERVICE : reach.find((id) => dependentsOf(id).length === 0)!
+}
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max)
+
+// Adds each dependency's extra latency and errors to what its callers report
+export const observeTopology = (own: Record<ServiceId, ServiceMetrics>): Record<ServiceId, ServiceMetrics> => {
+  const observed = {} as Record<ServiceId, ServiceMetrics>
+  const visit = (id: ServiceId): ServiceMetrics => {
+    if (observed[id]) return observed[id]
+    const metrics = { ...own[id] }
+    for (const dependency of findService(id).dependsOn) {
+      const seen = visit(dependency)
+      const { baseline } = findService(dependency)
+      for (const key of Object.keys(PROPAGATION) as (keyof typeof PROPAGATION)[]) {
+        metrics[key] = clamp(metrics[key] + Math.max(0, seen[key] - baseline[key]) * PROPAGATION[key], METRIC_LIMITS[key])
+      }
+    }
+    observed[id] = metrics
+    return metrics
+  }
+  TOPOLOGY.forEach((s) => visit(s.id))
+  return observed
+}
+
+const baselineMetrics = () =>
+  Object.fromEntries(TOPOLOGY.map((s) => [s.id, { ...s.baseline }])) as Record<ServiceId, ServiceMetrics>
+
+// Every tick gets its own generator, so a state can be stepped without
+// carrying RNG state around
+const tickRng = (seed: number, tick: number): Rng => createRng(`${seed}:${tick}`)
+
+export const planOutage = (seed: number, incidentTypes: IncidentType[] = INCIDENT_TYPES, durationSec = 300): OutagePlan => {
+  const rng = createRng(seed)
+  const incident = pick(rng, incidentTypes)
+  const origin = pick(rng, incident.origins)
+  const onsetTick = randomInt(rng, ONSET_WINDOW[0], ONSET_WINDOW[1])
+  const blips = Array.from({ length: BLIP_COUNT }, (): Blip => ({
+    service: pick(rng, TOPOLOGY).id,
+    startTick: randomInt(rng, 5, Math.max(5, durationSec - 10)),
+    durationSec: randomInt(rng, 2, MAX_BLIP_SEC),
+    spike: { errorRate: 4 + rng() * 3, responseTime: 200 + rng() * 200 }
+  }))
+  return { incident, origin, onsetTick, blips }
+}
+
+export const createOutage = (seed: number, options: OutageOptions = {}): OutageState => {
+  const durationSec = options.durationSec ?? 300
+  const rules = options.alertRules
+  return {
+    seed,
+    tick: 0,
+    durationSec,
+    plan: planOutage(seed, options.incidentTypes, durationSec),
+    metrics: baselineMetrics(),
+    ownMetrics: baselineMetrics(),
+    incidents: [],
+    attempts: [],
+    alerting: rules ? { rules, status: initialAlertStatus(rules), pages: [] } : null,
+    slo: options.slo ? createSloTracking(options.slo, findService(EDGE_SERVICE).baseline.requestsPerSecond * durationSec) : null
+  }
+}
+
+// What a strategy aimed at `target` does to an incident. It only helps on the
+// service the incident started in, and only if it addresses the root cause;
+// a high-risk change that misses adds its own breakage on top.
+export const assessStrategy = (
+  strategy: RecoveryStrategy,
+  incident: Pick<OutageIncident, 'rootCause' | 'origin'>,
+  target: ServiceId
+): AttemptOutcome => {
+  if (target === incident.origin && strategy.fixes.includes(incident.rootCause)) return 'resolved'
+  if (target === incident.origin && strategy.mitigates.includes(incident.rootCause)) return 'mitigated'
+  return strategy.risk === 'high' ? 'worsened' : 'no-effect'
+}
+
+export const activeIncident = (state: OutageState) => state.incidents.find((i) => i.resolvedAt === null) ?? null
+
+export const executingAttempt = (state: OutageState) => state.attempts.find((a) => a.finishedAt === null) ?? null
+
+export const isOutageOver = (state: OutageState) => state.tick >= state.durationSec
+
+export type ServiceHealth = 'healthy' | 'degraded' | 'critical'
+
+// Same thresholds the dashboard colours metrics by
+export const serviceHealth = (metrics: ServiceMetrics): ServiceHealth => {
+  if (metrics.errorRate > 10 || metrics.responseTime > 1000 || metrics.cpu > 80 || metrics.memory > 80) return 'critical'
+  if (metrics.errorRate > 5 || metrics.responseTime > 500 || metrics.cpu > 60 || metrics.memory > 60) return 'degraded'
+  return 'healthy'
+}
+
+const stepOwnMetrics = (own: Record<ServiceId, ServiceMetrics>, incident: OutageIncident | null, rng: Rng) => {
+  const next = {} as Record<ServiceId, ServiceMetrics>
+  for (const service of TOPOLOGY) {
+    const metrics = own[service.id]
+    const drifting = incident?.origin === service.id ? incident : null
+    next[service.id] = { ...metrics }
+    for (const key of METRIC_KEYS) {
+      const noise = 0.5 + rng()
+      const drift = drifting?.drift[key]
+      next[service.id][key] = clamp(
+        drift !== undefined
+          ? metrics[key] + drift * drifting!.pace * noise
+          : metrics[key] + (service.baseline[key] - metrics[key]) * RECOVERY_RATE * noise,
+        METRIC_LIMITS[key]
+      )
+    }
+  }
+  return next
+}
+
+// Blips sit on top of a service's readings without changing its state, so
+// they vanish the moment they end
+const withBlips = (own: Record<ServiceId, ServiceMetrics>, blips: Blip[], tick: number) => {
+  const active = blips.filter((b) => tick >= b.startTick && tick < b.startTick + b.durationSec)
+  if (active.length === 0) return own
+  const next = { ...own }
+  for (const blip of active) {
+    const metrics = { ...next[blip.service] }
+    for (const key of METRIC_KEYS) metrics[key] = clamp(metrics[key] + (blip.spike[key] ?? 0), METRIC_LIMITS[key])
+    next[blip.service] = metrics
+  }
+  return next
+}
+
+// The player spotted the incident on a dashboard before any page
+export const declareIncident = (state: OutageState): OutageState => {
+  const incident = activeIncident(state)
+  if (!incident || incident.detection) return state
+  return {
+    ...state,
+    incidents: state.incidents.map((i) => i === incident ? { ...i, detection: { atSec: state.tick, via: 'manual' } } : i)
+  }
+}
+
+// Starts a recovery strategy aimed at one service. Ignored when there is no
+// known incident to fix or another strategy is still running.
+export const startStrategy = (state: OutageState, name: StrategyName, target: ServiceId): OutageState => {
+  if (!activeIncident(state)?.detection || executingAttempt(state) || isOutageOver(state)) return state
+  return { ...state, attempts: [...state.attempts, { strategy: name, target, startedAt: state.tick, finishedAt: null, outcome: null }] }
+}
+
+// Advances the simulation by one second
+export const tickOutage = (state: OutageState): OutageState => {
+  if (isOutageOver(state)) return state
+  const tick = state.tick + 1
+  let incidents = state.incidents
+  let ownMetrics = state.ownMetrics
+  let attempts = state.attempts
+
+  if (tick === state.plan.onsetTick) {
+    const { incident, origin } = state.plan
+    const detection = state.alerting ? null : { atSec: tick, via: 'unmonitored' as const }
+    incidents = [...incidents, { ...incident, origin, detectedAt: entryPointFor(origin), startedAt: tick, resolvedAt: null, detection, pace: 1 }]
+  }
+
+  const running = executingAttempt(state)
+  if (running && tick >= running.startedAt + findStrategy(running.strategy).timeToExecute) {
+    const target = incidents.find((i) => i.resolvedAt === null)!
+    const outcome = assessStrategy(findStrategy(running.strategy), target, running.target)
+    attempts = attempts.map((a) => a === running ? { ...a, finishedAt: tick, outcome } : a)
+    incidents = incidents.map((i) => {
+      if (i !== target) return i
+      if (outcome === 'resolved') return { ...i, resolvedAt: tick }
+      if (outcome === 'mitigated') return { ...i, pace: i.pace / 2 }
+      if (outcome === 'worsened' && running.target === i.origin) return { ...i, pace: i.pace + 0.5 }
+      return i
+    })
+    if (outcome === 'worsened') {
+      // The rushed change breaks whatever it was shipped to
+      const hit = ownMetrics[running.target]
+      ownMetrics = { ...ownMetrics, [running.target]: { ...hit, errorRate: clamp(hit.errorRate + WORSENED_ERROR_SPIKE, METRIC_LIMITS.errorRate) } }
+    }
+  }
+
+  const incident = incidents.find((i) => i.resolvedAt === null) ?? null
+  const nextOwn = stepOwnMetrics(ownMetrics, incident, tickRng(state.seed, tick))
+  const metrics = observeTopology(withBlips(nextOwn, state.plan.blips, tick))
+
+  let alerting = state.alerting
+  if (alerting) {
+    const { status, fired } = evaluateAlerts(alerting.rules, alerting.status, metrics, tick)
+    const pages = fired.map(({ rule, value }): Page => ({
+      ruleId: rule.id,
+      atSec: tick,
+      service: rule.service,
+      metric: rule.metric,
+      value,
+      severity: rule.severity,
+      incidentId: incident?.id ?? null
+    }))
+    alerting = { ...alerting, status, pages: [...alerting.pages, ...pages] }
+    if (incident && !incident.detection && pages.length > 0) {
+      incidents = incidents.map((i) => i === incident ? { ...i, detection: { atSec: tick, via: 'page' } } : i)
+    }
+  }
+
+  const slo = state.slo ? trackSlo(state.slo, metrics[EDGE_SERVICE], tick) : null
+
+  return { ...state, tick, incidents, attempts, ownMetrics: nextOwn, metrics, alerting, slo }
+}
+
+export interface OutageScore {
+  score: number
+  resolved: boolean
+  // Seconds from the incident starting to it being resolved
+  timeToResolve: number | null
+  missedAttempts: number
+  // Null when alerting is left out of the run
+  alerting: AlertingScore | null
+  // Null when the run has no SLOs
+  budgets: Record<Sli, ErrorBudget> | null
+}
+
+// Rewards resolving quickly with a low-risk strategy that addresses the root
+// cause on the right service; every attempt that missed costs points, and so
+// do slow detection and noisy alert rules. With SLOs, speed is judged by how
+// much error budget users lost rather than by the clock.
+export const scoreOutage = (state: OutageState): OutageScore => {
+  const incident = state.incidents[0]
+  const fix = state.attempts.find((a) => a.outcome === 'resolved')
+  const timeToResolve = incident && incident.resolvedAt !== null ? incident.resolvedAt - incident.startedAt : null
+  const missedAttempts = state.attempts.filter((a) => a.outcome === 'no-effect' || a.outcome === 'worsened').length
+  let score = 0
+
+  if (fix && timeToResolve !== null) {
+    const strategy = findStrategy(fix.strategy)
+    score += 25
+    score += state.slo
+      ? Math.round(30 * budgetRemaining(state.slo))
+      : timeToResolve < 60 ? 30 : timeToResolve < 120 ? 20 : 10
+    score += strategy.risk === 'low' ? 25 : strategy.risk === 'medium' ? 15 : 5
+    score += strategy.timeToExecute < 5 ? 20 : strategy.timeToExecute < 10 ? 15 : 10
+  }
+  for (const attempt of state.attempts) {
+    if (attempt.outcome === 'no-effect') score -= 10
+    if (attempt.outcome === 'worsened') score -= 15
+  }
+  const alerting = state.alerting ? scoreAlerting(state.alerting.pages, incident ?? null) : null
+  if (alerting) score -= alerting.penalty
+
+  return {
+    score: Math.max(0, Math.min(score, 100)),
+    resolved: timeToResolve !== null,
+    timeToResolve,
+    missedAttempts,
+    alerting,
+    budgets: state.slo ? errorBudgets(state.slo) : null
+  }
+}
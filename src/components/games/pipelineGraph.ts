@@ -0,0 +1,229 @@
+// Graph analysis for the Pipeline Architect canvas.
+// Edges point from a job to the jobs it depends on (`dependencies`), the
+// same direction as `needs:` in a workflow file.
+
+export interface GraphJob {
+  id: string
+  name: string
+  dependencies: string[]
+}
+
+export type GraphDiagnosticKind = 'cycle' | 'unreachable' | 'redundant' | 'dangling'
+
+export interface GraphDiagnostic {
+  kind: GraphDiagnosticKind
+  severity: 'error' | 'warning'
+  jobIds: string[]
+  // The dependency edge the diagnostic is about: `job` depends on `dependency`
+  edge?: { job: string; dependency: string }
+  message: string
+}
+
+export type ConnectionCheck =
+  | { ok: true }
+  | { ok: false; reason: 'self' | 'duplicate' | 'missing' | 'cycle'; message: string; loop: string[] }
+
+const nameOf = (jobs: GraphJob[], id: string) => jobs.find((j) => j.id === id)?.name ?? id
+
+const dependencyMap = (jobs: GraphJob[]) => {
+  const ids = new Set(jobs.map((j) => j.id))
+  return new Map(jobs.map((j) => [j.id, j.dependencies.filter((d) => ids.has(d))]))
+}
+
+// Path of job ids from `from` to `to` following dependencies, or null
+export const findDependencyPath = (jobs: GraphJob[], from: string, to: string): string[] | null => {
+  const deps = dependencyMap(jobs)
+  const previous = new Map<string, string>()
+  const queue = [from]
+  const seen = new Set([from])
+  while (queue.length > 0) {
+    const current = queue.shift() as string
+    if (current === to) {
+      const path = [to]
+      while (path[0] !== from) path.unshift(previous.get(path[0]) as string)
+      return path
+    }
+    for (const next of deps.get(current) ?? []) {
+      if (seen.has(next)) continue
+      seen.add(next)
+      previous.set(next, current)
+      queue.push(next)
+    }
+  }
+  return null
+}
+
+export const describeLoop = (jobs: GraphJob[], loop: string[]) => loop.map((id) => nameOf(jobs, id)).join(' → ')
+
+// Check whether `toJob` may start depending on `fromJob` (fromJob runs first)
+export const checkConnection = (jobs: GraphJob[], fromJob: string, toJob: string): ConnectionCheck => {
+  if (fromJob === toJob) {
+    return { ok: false, reason: 'self', message: `${nameOf(jobs, fromJob)} cannot wait for itself`, loop: [fromJob, fromJob] }
+  }
+  const target = jobs.find((j) => j.id === toJob)
+  if (!target || !jobs.some((j) => j.id === fromJob)) {
+    return { ok: false, reason: 'missing', message: 'Both jobs must be on the canvas', loop: [] }
+  }
+  if (target.dependencies.includes(fromJob)) {
+    return { ok: false, reason: 'duplicate', message: `${target.name} already waits for ${nameOf(jobs, fromJob)}`, loop: [] }
+  }
+  // fromJob already (indirectly) waits for toJob: the new edge would close a loop
+  const path = findDependencyPath(jobs, fromJob, toJob)
+  if (path) {
+    const loop = [toJob, ...path]
+    return {
+      ok: false,
+      reason: 'cycle',
+      message: `That would create a loop: ${describeLoop(jobs, loop)}. Each job would wait for the other forever.`,
+      loop
+    }
+  }
+  return { ok: true }
+}
+
+// All elementary cycles are overkill here; one representative loop per strongly connected group is enough
+const findCycles = (jobs: GraphJob[]): string[][] => {
+  const deps = dependencyMap(jobs)
+  const state = new Map<string, 'visiting' | 'done'>()
+  const stack: string[] = []
+  const cycles: string[][] = []
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    stack.push(id)
+    for (const next of deps.get(id) ?? []) {
+      if (state.get(next) === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(next)), next])
+      } else if (!state.has(next)) {
+        visit(next)
+      }
+    }
+    stack.pop()
+    state.set(id, 'done')
+  }
+  for (const job of jobs) {
+    if (!state.has(job.id)) visit(job.id)
+  }
+  return cycles
+}
+
+export const analyzePipelineGraph = (jobs: GraphJob[]): GraphDiagnostic[] => {
+  const diagnostics: GraphDiagnostic[] = []
+  const ids = new Set(jobs.map((j) => j.id))
+  const deps = dependencyMap(jobs)
+
+  for (const job of jobs) {
+    for (const dep of job.dependencies) {
+      if (!ids.has(dep)) {
+        diagnostics.push({
+          kind: 'dangling',
+          severity: 'warning',
+          jobIds: [job.id],
+          edge: { job: job.id, dependency: dep },
+          message: `${job.name} waits for a job that is no longer on the canvas`
+        })
+      }
+    }
+  }
+
+  const cycles = findCycles(jobs)
+  const inCycle = new Set(cycles.flat())
+  for (const loop of cycles) {
+    diagnostics.push({
+      kind: 'cycle',
+      severity: 'error',
+      jobIds: [...new Set(loop)],
+      message: `Dependency loop: ${describeLoop(jobs, loop)}`
+    })
+  }
+
+  // A job can never run if something it waits for is stuck in a loop; a job
+  // with no connections at all is cut off from the rest of the pipeline.
+  const hasEdges = jobs.some((j) => (deps.get(j.id) ?? []).length > 0)
+  for (const job of jobs) {
+    if (inCycle.has(job.id)) continue
+    const blockedBy = [...inCycle].find((id) => findDependencyPath(jobs, job.id, id))
+    if (blockedBy) {
+      diagnostics.push({
+        kind: 'unreachable',
+        severity: 'error',
+        jobIds: [job.id],
+        message: `${job.name} can never start because ${nameOf(jobs, blockedBy)} is stuck in a loop`
+      })
+      continue
+    }
+    const isolated = (deps.get(job.id) ?? []).length === 0 && !jobs.some((j) => (deps.get(j.id) ?? []).includes(job.id))
+    if (hasEdges && jobs.length > 1 && isolated) {
+      diagnostics.push({
+        kind: 'unreachable',
+        severity: 'warning',
+        jobIds: [job.id],
+        message: `${job.name} is not connected to any other job`
+      })
+    }
+  }
+
+  // An edge is redundant when the dependency is already reached through another job
+  if (cycles.length === 0) {
+    for (const job of jobs) {
+      const direct = deps.get(job.id) ?? []
+      for (const dep of direct) {
+        const via = direct.find((other) => other !== dep && findDependencyPath(jobs, other, dep))
+        if (via) {
+          diagnostics.push({
+            kind: 'redundant',
+            severity: 'warning',
+            jobIds: [job.id, dep],
+            edge: { job: job.id, dependency: dep },
+            message: `${job.name} → ${nameOf(jobs, dep)} is redundant: ${job.name} already waits for it through ${nameOf(jobs, via)}`
+          })
+        }
+      }
+    }
+  }
+  return diagnostics
+}
+
+// Points deducted from the pipeline score for graph problems
+export const graphPenalty = (diagnostics: GraphDiagnostic[]) =>
+  diagnostics.reduce((sum, d) => sum + (d.kind === 'cycle' ? 20 : d.severity === 'error' ? 10 : 5), 0)
+
+// Depth of each job: 0 for jobs with no dependencies, otherwise one more than
+// its deepest dependency. Jobs inside a loop are treated as depth 0 for that edge.
+export const dependencyDepths = (jobs: GraphJob[]): Map<string, number> => {
+  const deps = dependencyMap(jobs)
+  const depths = new Map<string, number>()
+  const visiting = new Set<string>()
+  const depthOf = (id: string): number => {
+    const known = depths.get(id)
+    if (known !== undefined) return known
+    if (visiting.has(id)) return -1
+    visiting.add(id)
+    const depth = Math.max(-1, ...(deps.get(id) ?? []).map(depthOf)) + 1
+    visiting.delete(id)
+    depths.set(id, depth)
+    return depth
+  }
+  jobs.forEach((job) => depthOf(job.id))
+  return depths
+}
+
+export interface LayoutOptions {
+  columnWidth?: number
+  rowHeight?: number
+  origin?: { x: number; y: number }
+}
+
+// Left-to-right layout: one column per dependency depth, canvas order within a column
+export const layoutByDepth = (jobs: GraphJob[], options: LayoutOptions = {}): Record<string, { x: number; y: number }> => {
+  const { columnWidth = 220, rowHeight = 140, origin = { x: 40, y: 40 } } = options
+  const depths = dependencyDepths(jobs)
+  const rows = new Map<number, number>()
+  const positions: Record<string, { x: number; y: number }> = {}
+  for (const job of jobs) {
+    const depth = depths.get(job.id) ?? 0
+    const row = rows.get(depth) ?? 0
+    rows.set(depth, row + 1)
+    positions[job.id] = { x: origin.x + depth * columnWidth, y: origin.y + row * rowHeight }
+  }
+  return positions
+}
@@ -0,0 +1,80 @@
+// Scoring rules for Pipeline Architect. Shared by the game's submit flow
+// and the instructor "analyze" mode for imported workflows.
+
+import { analyzePipelineGraph, graphPenalty, type GraphDiagnostic } from './pipelineGraph'
+import { compileWorkflow, type WorkflowDiagnostic, type WorkflowJobSource } from './workflowCompiler'
+
+export interface ScorableJob extends WorkflowJobSource {
+  configured: boolean
+}
+
+export interface PipelineScore {
+  score: number
+  missingJobs: string[]
+  dependencyScore: number
+  yamlScore: number
+  allJobsPresent: boolean
+  properDependencies: boolean
+  allConfigured: boolean
+  workflowErrors: WorkflowDiagnostic[]
+  graphDiagnostics: GraphDiagnostic[]
+}
+
+export const scorePipeline = (jobs: ScorableJob[], requiredJobs: string[]): PipelineScore => {
+  // Check if all required jobs are present
+  const presentJobsLower = jobs.map(job => job.name.toLowerCase())
+  const missingJobs = requiredJobs.filter(job => !presentJobsLower.includes(job.toLowerCase()))
+
+  // Check if jobs have proper dependencies
+  let dependencyScore = 0
+  const hasTestFirst = jobs.some(job =>
+    job.name.toLowerCase() === 'test' &&
+    jobs.filter(j => j.dependencies.includes(job.id)).length > 0
+  )
+
+  const hasBuildAfterTest = jobs.some(job =>
+    job.name.toLowerCase() === 'build' &&
+    job.dependencies.some(depId => {
+      const depJob = jobs.find(j => j.id === depId)
+      return depJob?.name.toLowerCase() === 'test'
+    })
+  )
+
+  if (hasTestFirst) dependencyScore += 25
+  if (hasBuildAfterTest) dependencyScore += 25
+
+  // Check YAML configuration quality against the compiled workflow
+  const compiled = compileWorkflow(jobs, { name: 'CI' })
+  const workflowErrors = compiled.diagnostics.filter(d => d.severity === 'error')
+  let yamlScore = 0
+  jobs.forEach(job => {
+    const jobId = compiled.jobIds[job.id]
+    const body = (compiled.document.jobs as Record<string, Record<string, unknown>>)[jobId]
+    const steps = Array.isArray(body?.steps) ? body.steps as Record<string, unknown>[] : []
+    const jobErrors = workflowErrors.filter(d => d.path === `jobs.${jobId}` || d.path.startsWith(`jobs.${jobId}.`))
+    if (jobErrors.length === 0) yamlScore += 10
+    if (steps.some(step => typeof step?.uses === 'string' && step.uses.startsWith('actions/checkout@'))) yamlScore += 10
+    if (steps.length > 0) yamlScore += 10
+    if (job.configured) yamlScore += 10
+  })
+
+  // Loops, disconnected jobs and redundant edges cost points
+  const graphDiagnostics = analyzePipelineGraph(jobs)
+  const hasCycle = graphDiagnostics.some(d => d.kind === 'cycle')
+
+  // Make scoring more forgiving: smaller penalty per missing job
+  const totalScore = Math.max(0, Math.min(100 - (missingJobs.length * 10) + dependencyScore + yamlScore, 100) - graphPenalty(graphDiagnostics))
+
+  return {
+    score: totalScore,
+    missingJobs,
+    dependencyScore,
+    yamlScore,
+    allJobsPresent: missingJobs.length === 0,
+    // Easier pass on dependencies: allow if at least one key relationship is correct
+    properDependencies: dependencyScore >= 25 && !hasCycle,
+    allConfigured: jobs.every(job => job.configured),
+    workflowErrors,
+    graphDiagnostics
+  }
+}
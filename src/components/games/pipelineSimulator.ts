@@ -0,0 +1,245 @@
+// Pipeline execution simulator for Pipeline Architect.
+// Jobs are scheduled in dependency order onto a fixed pool of runners; jobs
+// whose `needs` are all satisfied run in parallel when a runner is free.
+// Step durations and failures are seeded so a run can be replayed exactly.
+
+import { createRng, hashSeed } from './random'
+import { parseJobYaml, type WorkflowJobSource } from './workflowCompiler'
+
+export type StepStatus = 'success' | 'failed' | 'skipped'
+export type JobRunStatus = 'success' | 'failed' | 'skipped' | 'blocked'
+
+export interface SimulatedStep {
+  name: string
+  durationSec: number
+  status: StepStatus
+}
+
+export interface ScheduledJob {
+  jobId: string
+  name: string
+  runner: number | null
+  // Time the job became ready (all needs finished), then when it actually started
+  readyAt: number
+  start: number
+  end: number
+  durationSec: number
+  status: JobRunStatus
+  steps: SimulatedStep[]
+  reason?: string
+}
+
+export interface PipelineRunOptions {
+  runners?: number
+  seed?: string | number
+  // Chance (0-1) that any single step fails
+  failureRate?: number
+}
+
+export interface PipelineRun {
+  jobs: ScheduledJob[]
+  totalSec: number
+  // Time the same jobs would take one after another on a single runner
+  serialSec: number
+  criticalPath: string[]
+  criticalPathSec: number
+  // Time jobs spent ready but waiting for a free runner
+  queuedSec: number
+  runners: number
+  status: 'success' | 'failed'
+}
+
+// Runner boot + job setup, paid once per job
+export const JOB_SETUP_SEC = 8
+
+const STEP_COSTS: { pattern: RegExp; seconds: number }[] = [
+  { pattern: /actions\/checkout/, seconds: 4 },
+  { pattern: /actions\/setup-/, seconds: 12 },
+  { pattern: /actions\/cache/, seconds: 6 },
+  { pattern: /docker\/build-push-action/, seconds: 75 },
+  { pattern: /\b(pip|npm|yarn|pnpm)\s+(install|ci)\b/, seconds: 35 },
+  { pattern: /\b(pytest|jest|vitest|go test|npm test)\b/, seconds: 50 },
+  { pattern: /\b(flake8|eslint|ruff|pylint|black)\b/, seconds: 10 },
+  { pattern: /\bdocker\s+(build|push)\b/, seconds: 60 },
+  { pattern: /\b(kubectl|helm|terraform|deploy)\b/i, seconds: 25 },
+  { pattern: /^echo\b/, seconds: 2 }
+]
+
+const stepLabel = (step: Record<string, unknown>, index: number) => {
+  if (typeof step.name === 'string') return step.name
+  if (typeof step.uses === 'string') return step.uses
+  if (typeof step.run === 'string') return step.run.split('\n')[0]
+  return `Step ${index + 1}`
+}
+
+// Base duration for a step, before jitter
+export const estimateStepDuration = (step: Record<string, unknown>): number => {
+  const text = [step.uses, step.run].filter((v) => typeof v === 'string').join(' ').trim()
+  const cost = STEP_COSTS.find((c) => c.pattern.test(text))?.seconds ?? 8
+  // Pushing an image is mostly upload, cheaper than a cold build
+  const withInputs = step.with as Record<string, unknown> | undefined
+  if (/docker\/build-push-action/.test(text) && withInputs?.push === true) return 40
+  return cost
+}
+
+// Simulate a job's steps in isolation. Seeded per job so results do not
+// depend on scheduling order or runner count.
+const runSteps = (job: WorkflowJobSource, seed: string | number, failureRate: number): SimulatedStep[] => {
+  const rng = createRng(hashSeed(`${seed}:${job.id}`))
+  const parsed = parseJobYaml(job.yaml)
+  const steps = Array.isArray(parsed?.steps) ? (parsed?.steps as Record<string, unknown>[]) : []
+  let failed = false
+  return steps.map((step, i) => {
+    const jitter = 0.8 + rng() * 0.4
+    const roll = rng()
+    const name = stepLabel(step ?? {}, i)
+    if (failed) return { name, durationSec: 0, status: 'skipped' }
+    const durationSec = Math.max(1, Math.round(estimateStepDuration(step ?? {}) * jitter))
+    if (roll < failureRate) {
+      failed = true
+      // Failing steps usually die part-way through
+      return { name, durationSec: Math.max(1, Math.round(durationSec / 2)), status: 'failed' }
+    }
+    return { name, durationSec, status: 'success' }
+  })
+}
+
+const jobDuration = (steps: SimulatedStep[]) => JOB_SETUP_SEC + steps.reduce((sum, s) => sum + s.durationSec, 0)
+
+// Longest chain of dependent jobs, by duration, ignoring runner limits
+const findCriticalPath = (jobs: ScheduledJob[], deps: Map<string, string[]>) => {
+  const byId = new Map(jobs.map((j) => [j.jobId, j]))
+  const memo = new Map<string, { sec: number; path: string[] }>()
+  const longest = (id: string, seen: Set<string>): { sec: number; path: string[] } => {
+    const cached = memo.get(id)
+    if (cached) return cached
+    const job = byId.get(id)
+    if (!job || seen.has(id)) return { sec: 0, path: [] }
+    seen.add(id)
+    let best = { sec: 0, path: [] as string[] }
+    for (const dep of deps.get(id) ?? []) {
+      const candidate = longest(dep, seen)
+      if (candidate.sec > best.sec) best = candidate
+    }
+    seen.delete(id)
+    const result = { sec: best.sec + job.durationSec, path: [...best.path, id] }
+    memo.set(id, result)
+    return result
+  }
+  let best = { sec: 0, path: [] as string[] }
+  for (const job of jobs) {
+    const candidate = longest(job.jobId, new Set())
+    if (candidate.sec > best.sec) best = candidate
+  }
+  return best
+}
+
+export const simulatePipeline = (jobs: WorkflowJobSource[], options: PipelineRunOptions = {}): PipelineRun => {
+  const runnerCount = Math.max(1, Math.floor(options.runners ?? 2))
+  const seed = options.seed ?? 1
+  const failureRate = options.failureRate ?? 0
+  const ids = new Set(jobs.map((j) => j.id))
+  // Dependencies on jobs that are not in the pipeline are ignored
+  const deps = new Map(jobs.map((j) => [j.id, j.dependencies.filter((d) => ids.has(d) && d !== j.id)]))
+
+  const planned = new Map(jobs.map((j) => [j.id, runSteps(j, seed, failureRate)]))
+  const results = new Map<string, ScheduledJob>()
+  const runnerFreeAt = Array.from({ length: runnerCount }, () => 0)
+  const running: ScheduledJob[] = []
+  let now = 0
+
+  const isDone = (id: string) => results.has(id) && !running.some((r) => r.jobId === id)
+
+  while (results.size < jobs.length) {
+    // Skip jobs whose needs failed or were skipped, as GitHub Actions does.
+    // Repeat until stable so skips cascade down whole chains.
+    let skippedAny = true
+    while (skippedAny) {
+      skippedAny = false
+      for (const job of jobs) {
+        if (results.has(job.id)) continue
+        const needs = deps.get(job.id) ?? []
+        if (!needs.every(isDone)) continue
+        const broken = needs.find((d) => results.get(d)?.status !== 'success')
+        if (!broken) continue
+        skippedAny = true
+        const readyAt = Math.max(0, ...needs.map((d) => results.get(d)?.end ?? 0))
+        results.set(job.id, {
+          jobId: job.id,
+          name: job.name,
+          runner: null,
+          readyAt,
+          start: readyAt,
+          end: readyAt,
+          durationSec: 0,
+          status: 'skipped',
+          steps: (planned.get(job.id) ?? []).map((s) => ({ ...s, durationSec: 0, status: 'skipped' as const })),
+          reason: `Skipped because ${results.get(broken)?.name ?? broken} did not succeed`
+        })
+      }
+    }
+
+    // Start ready jobs, in canvas order, on any free runner
+    for (const job of jobs) {
+      if (results.has(job.id)) continue
+      const needs = deps.get(job.id) ?? []
+      if (!needs.every(isDone)) continue
+      const runner = runnerFreeAt.findIndex((t) => t <= now)
+      if (runner === -1) break
+      const steps = planned.get(job.id) ?? []
+      const durationSec = jobDuration(steps)
+      const scheduled: ScheduledJob = {
+        jobId: job.id,
+        name: job.name,
+        runner,
+        readyAt: Math.max(0, ...needs.map((d) => results.get(d)?.end ?? 0)),
+        start: now,
+        end: now + durationSec,
+        durationSec,
+        status: steps.some((s) => s.status === 'failed') ? 'failed' : 'success',
+        steps
+      }
+      runnerFreeAt[runner] = scheduled.end
+      results.set(job.id, scheduled)
+      running.push(scheduled)
+    }
+
+    if (running.length === 0) {
+      // Nothing running and nothing startable: the remaining jobs wait on a loop
+      for (const job of jobs) {
+        if (results.has(job.id)) continue
+        results.set(job.id, {
+          jobId: job.id,
+          name: job.name,
+          runner: null,
+          readyAt: now,
+          start: now,
+          end: now,
+          durationSec: 0,
+          status: 'blocked',
+          steps: [],
+          reason: 'Never became ready: its needs form a loop'
+        })
+      }
+      break
+    }
+
+    // Advance to the next job completion
+    running.sort((a, b) => a.end - b.end)
+    now = running[0].end
+    while (running.length > 0 && running[0].end <= now) running.shift()
+  }
+
+  const scheduled = jobs.map((j) => results.get(j.id) as ScheduledJob)
+  const critical = findCriticalPath(scheduled.filter((j) => j.status === 'success' || j.status === 'failed'), deps)
+  return {
+    jobs: scheduled,
+    totalSec: Math.max(0, ...scheduled.map((j) => j.end)),
+    serialSec: scheduled.reduce((sum, j) => sum + j.durationSec, 0),
+    criticalPath: critical.path,
+    criticalPathSec: critical.sec,
+    queuedSec: scheduled.reduce((sum, j) => sum + (j.runner === null ? 0 : j.start - j.readyAt), 0),
+    runners: runnerCount,
+    status: scheduled.every((j) => j.status === 'success') ? 'success' : 'failed'
+  }
+}
@@ -0,0 +1,42 @@
+// Small seeded random number generator so simulations are reproducible.
+// The same seed always yields the same sequence, which keeps tests stable
+// and lets two players compare runs.
+
+export type Rng = () => number
+
+// FNV-1a hash, used to turn strings (job ids, seeds typed by players) into numeric seeds
+export const hashSeed = (value: string | number): number => {
+  const text = String(value)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32: fast, good enough for games, returns floats in [0, 1)
+export const createRng = (seed: string | number): Rng => {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const randomInt = (rng: Rng, min: number, max: number) => min + Math.floor(rng() * (max - min + 1))
+
+export const pick = <T>(rng: Rng, items: readonly T[]): T => items[Math.floor(rng() * items.length)]
+
+// Fisher-Yates shuffle that leaves the input untouched
+export const shuffle = <T>(rng: Rng, items: readonly T[]): T[] => {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
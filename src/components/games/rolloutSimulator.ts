@@ -0,0 +1,320 @@
+// Rollout simulator for Deploy or Die.
+// A release is played out tick by tick as pods move from the old version to
+// the new one under a rolling, blue-green or canary strategy. A bad release
+// makes new pods fail every request: with a readiness probe they never become
+// ready and the rollout is rolled back, without one they take traffic and the
+// user-facing error rate climbs.
+
+export type RolloutStrategy = 'rolling' | 'blue-green' | 'canary'
+export type PodVersion = 'old' | 'new'
+export type PodPhase = 'starting' | 'ready' | 'failing' | 'terminating'
+export type RolloutOutcome = 'completed' | 'rolled-back' | 'degraded'
+
+export const ROLLOUT_STRATEGIES: Record<RolloutStrategy, { label: string; description: string }> = {
+  rolling: {
+    label: 'Rolling update',
+    description: 'Replace pods a few at a time, bounded by maxSurge and maxUnavailable'
+  },
+  'blue-green': {
+    label: 'Blue-green',
+    description: 'Start a full copy of the new version, then switch all traffic at once'
+  },
+  canary: {
+    label: 'Canary',
+    description: 'Send a growing share of traffic to the new version in steps'
+  }
+}
+
+export const isRolloutStrategy = (value: unknown): value is RolloutStrategy =>
+  typeof value === 'string' && value in ROLLOUT_STRATEGIES
+
+export interface SimPod {
+  id: string
+  version: PodVersion
+  phase: PodPhase
+}
+
+export interface RolloutOptions {
+  strategy: RolloutStrategy
+  replicas: number
+  // Absolute pod count or a percentage of replicas, as in a Deployment spec
+  maxSurge?: number | string
+  maxUnavailable?: number | string
+  // Percent of traffic sent to the new version at each canary step
+  canaryWeights?: number[]
+  badRelease?: boolean
+  healthCheck?: boolean
+}
+
+export interface RolloutFrame {
+  tick: number
+  timeSec: number
+  pods: SimPod[]
+  // Share of requests (0-1) answered by the new version
+  trafficToNew: number
+  // Share of requests (0-1) that fail for users
+  errorRate: number
+  events: string[]
+}
+
+export interface RolloutResult {
+  frames: RolloutFrame[]
+  outcome: RolloutOutcome
+  durationSec: number
+  peakErrorRate: number
+  // Average error rate over the whole rollout
+  failedRequestShare: number
+  // Fewest ready pods at any point
+  minReadyPods: number
+}
+
+export const TICK_SEC = 5
+// Ticks a pod takes to pull, start and pass (or fail) its first probe
+export const STARTUP_TICKS = 2
+// Ticks without progress before a stuck rollout is abandoned
+export const PROGRESS_DEADLINE_TICKS = 8
+// Ticks each canary weight is held before moving on
+export const CANARY_HOLD_TICKS = 2
+// Ticks to keep watching after the rollout settles
+export const OBSERVE_TICKS = 3
+// Share of requests a pod running the bad release fails
+export const BAD_RELEASE_ERROR_RATE = 0.8
+export const DEFAULT_CANARY_WEIGHTS = [10, 25, 50, 100]
+// Kubernetes defaults for a Deployment's rolling update
+export const DEFAULT_MAX_SURGE = '25%'
+export const DEFAULT_MAX_UNAVAILABLE = '25%'
+
+const MAX_TICKS = 200
+
+// Kubernetes rounds surge up and unavailability down
+export const resolvePodCount = (value: number | string, replicas: number, round: 'up' | 'down'): number => {
+  if (typeof value === 'number') return Math.max(0, Math.floor(value))
+  const percent = value.trim().match(/^(\d+(?:\.\d+)?)%$/)
+  if (percent) {
+    const exact = (Number(percent[1]) / 100) * replicas
+    return round === 'up' ? Math.ceil(exact) : Math.floor(exact)
+  }
+  const count = Number(value)
+  return Number.isFinite(count) ? Math.max(0, Math.floor(count)) : 0
+}
+
+const surgeLimits = (options: RolloutOptions, replicas: number) => ({
+  maxSurge: resolvePodCount(options.maxSurge ?? DEFAULT_MAX_SURGE, replicas, 'up'),
+  maxUnavailable: resolvePodCount(options.maxUnavailable ?? DEFAULT_MAX_UNAVAILABLE, replicas, 'down')
+})
+
+const canaryWeightProblem = (weights: number[]) => {
+  if (weights.length === 0) return 'Canary needs at least one step'
+  if (weights.some((w) => !(w > 0 && w <= 100))) return 'Canary weights must be between 1 and 100'
+  if (weights.some((w, i) => i > 0 && w <= weights[i - 1])) return 'Canary weights must increase at every step'
+  if (weights[weights.length - 1] !== 100) return 'The last canary step must send 100% of traffic'
+  return null
+}
+
+export const rolloutOptionErrors = (options: RolloutOptions): string[] => {
+  const problems: string[] = []
+  if (!Number.isInteger(options.replicas) || options.replicas < 1) problems.push('Replicas must be at least 1')
+  if (options.strategy === 'rolling') {
+    const { maxSurge, maxUnavailable } = surgeLimits(options, options.replicas)
+    if (maxSurge === 0 && maxUnavailable === 0) problems.push('maxSurge and maxUnavailable cannot both be 0, or no pod can ever be replaced')
+  }
+  if (options.strategy === 'canary') {
+    const problem = canaryWeightProblem(options.canaryWeights ?? DEFAULT_CANARY_WEIGHTS)
+    if (problem) problems.push(problem)
+  }
+  return problems
+}
+
+interface PodState extends SimPod {
+  startedAt: number
+}
+
+class Cluster {
+  pods: PodState[] = []
+  private nextId = { old: 0, new: 0 }
+
+  constructor(private readonly badRelease: boolean, private readonly healthCheck: boolean) {}
+
+  start(version: PodVersion, tick: number, count: number, ready = false) {
+    for (let i = 0; i < count; i++) {
+      this.nextId[version] += 1
+      this.pods.push({ id: `${version}-${this.nextId[version]}`, version, phase: ready ? 'ready' : 'starting', startedAt: tick })
+    }
+  }
+
+  // Oldest pods go first, which is also what a ReplicaSet scale-down picks
+  terminate(version: PodVersion, count: number) {
+    let left = count
+    for (const pod of this.pods) {
+      if (left === 0) break
+      if (pod.version === version && pod.phase !== 'terminating') {
+        pod.phase = 'terminating'
+        left -= 1
+      }
+    }
+  }
+
+  // Terminating pods are gone one tick after they were stopped
+  advance(tick: number, events: string[]) {
+    this.pods = this.pods.filter((p) => p.phase !== 'terminating')
+    for (const pod of this.pods) {
+      if (pod.phase !== 'starting' || tick - pod.startedAt < STARTUP_TICKS) continue
+      const broken = pod.version === 'new' && this.badRelease
+      if (broken && this.healthCheck) {
+        pod.phase = 'failing'
+        events.push(`${pod.id} failed its readiness probe`)
+      } else {
+        pod.phase = 'ready'
+      }
+    }
+  }
+
+  count(version: PodVersion, ...phases: PodPhase[]) {
+    return this.pods.filter((p) => p.version === version && phases.includes(p.phase)).length
+  }
+
+  snapshot(): SimPod[] {
+    return this.pods.map(({ id, version, phase }) => ({ id, version, phase }))
+  }
+}
+
+// Requests spread over ready pods; `newShare` pins the split when a router
+// (blue-green switch or canary weight) decides it instead of the pod count
+const trafficSplit = (cluster: Cluster, newShare: number | null) => {
+  const oldReady = cluster.count('old', 'ready')
+  const newReady = cluster.count('new', 'ready')
+  if (oldReady + newReady === 0) return { trafficToNew: 0, serving: false }
+  if (newShare === null) return { trafficToNew: newReady / (oldReady + newReady), serving: true }
+  if (newReady === 0) return { trafficToNew: 0, serving: oldReady > 0 }
+  if (oldReady === 0) return { trafficToNew: 1, serving: true }
+  return { trafficToNew: newShare, serving: true }
+}
+
+export const simulateRollout = (options: RolloutOptions): RolloutResult => {
+  const replicas = Math.max(1, Math.floor(options.replicas))
+  const badRelease = options.badRelease ?? false
+  const healthCheck = options.healthCheck ?? true
+  const limits = surgeLimits(options, replicas)
+  const { maxUnavailable } = limits
+  // A rollout that can neither add nor remove a pod would never move
+  const maxSurge = limits.maxSurge === 0 && maxUnavailable === 0 ? 1 : limits.maxSurge
+  const weights = options.canaryWeights && !canaryWeightProblem(options.canaryWeights)
+    ? options.canaryWeights
+    : DEFAULT_CANARY_WEIGHTS
+
+  const cluster = new Cluster(badRelease, healthCheck)
+  cluster.start('old', 0, replicas, true)
+  const frames: RolloutFrame[] = []
+
+  let outcome: RolloutOutcome | null = null
+  let settledAt: number | null = null
+  let lastProgressTick = 0
+  let lastProgress = ''
+  // Blue-green: which colour the router points at. Canary: current step.
+  let switched = false
+  let canaryStep = 0
+  let canaryHeldSince: number | null = null
+
+  const rollBack = (tick: number, events: string[]) => {
+    cluster.terminate('new', cluster.count('new', 'starting', 'ready', 'failing'))
+    const missing = replicas - cluster.count('old', 'starting', 'ready')
+    if (missing > 0) cluster.start('old', tick, missing)
+    switched = false
+    outcome = 'rolled-back'
+    events.push(`No progress for ${PROGRESS_DEADLINE_TICKS * TICK_SEC}s: rolled back to the old version`)
+  }
+
+  for (let tick = 0; tick <= MAX_TICKS; tick++) {
+    const events: string[] = []
+    if (tick > 0) cluster.advance(tick, events)
+
+    if (outcome === null) {
+      const newLive = cluster.count('new', 'starting', 'ready', 'failing')
+      const newReady = cluster.count('new', 'ready')
+      const oldLive = cluster.count('old', 'starting', 'ready')
+
+      if (options.strategy === 'rolling') {
+        const ready = cluster.count('old', 'ready') + newReady
+        const toStart = Math.min(replicas - newLive, replicas + maxSurge - (newLive + oldLive))
+        if (toStart > 0) {
+          cluster.start('new', tick, toStart)
+          events.push(`Started ${toStart} new pod${toStart === 1 ? '' : 's'}`)
+        }
+        // Only replaced old pods may go, and never below replicas - maxUnavailable ready
+        const replaced = oldLive - Math.max(0, replicas - cluster.count('new', 'starting', 'ready', 'failing'))
+        const removable = Math.min(replaced, ready - (replicas - maxUnavailable))
+        if (removable > 0) {
+          cluster.terminate('old', removable)
+          events.push(`Stopped ${removable} old pod${removable === 1 ? '' : 's'}`)
+        }
+        if (cluster.count('new', 'ready') === replicas && cluster.count('old', 'starting', 'ready') === 0) outcome = 'completed'
+      }
+
+      if (options.strategy === 'blue-green') {
+        if (tick === 0) {
+          cluster.start('new', tick, replicas)
+          events.push(`Started ${replicas} green pod${replicas === 1 ? '' : 's'} next to blue`)
+        } else if (!switched && newReady === replicas) {
+          switched = true
+          cluster.terminate('old', oldLive)
+          events.push('All green pods ready: switched 100% of traffic to green')
+        }
+        if (switched && cluster.count('old', 'starting', 'ready') === 0) outcome = 'completed'
+      }
+
+      if (options.strategy === 'canary') {
+        const weight = weights[canaryStep]
+        const target = weight >= 100 ? replicas : Math.min(replicas, Math.max(1, Math.ceil((replicas * weight) / 100)))
+        if (newLive < target) {
+          cluster.start('new', tick, target - newLive)
+          events.push(`Canary step ${canaryStep + 1}: ${weight}% of traffic, ${target} new pod${target === 1 ? '' : 's'}`)
+        }
+        if (cluster.count('new', 'ready') >= target) {
+          if (canaryHeldSince === null) canaryHeldSince = tick
+          if (weight >= 100) {
+            cluster.terminate('old', oldLive)
+            if (oldLive > 0) events.push('Canary promoted: old pods stopped')
+            outcome = 'completed'
+          } else if (tick - canaryHeldSince >= CANARY_HOLD_TICKS) {
+            canaryStep += 1
+            canaryHeldSince = null
+          }
+        }
+      }
+
+      const progress = `${cluster.count('new', 'ready')}:${canaryStep}:${switched}`
+      if (progress !== lastProgress) {
+        lastProgress = progress
+        lastProgressTick = tick
+      } else if (outcome === null && tick - lastProgressTick >= PROGRESS_DEADLINE_TICKS) {
+        rollBack(tick, events)
+      }
+      if (outcome === 'completed') {
+        events.push(badRelease ? 'Rollout finished with the bad release serving users' : 'Rollout complete')
+        if (badRelease) outcome = 'degraded'
+      }
+      if (outcome !== null) settledAt = tick
+    }
+
+    const newShare = options.strategy === 'blue-green'
+      ? (switched ? 1 : 0)
+      : options.strategy === 'canary' && outcome === null
+        ? weights[canaryStep] / 100
+        : null
+    const { trafficToNew, serving } = trafficSplit(cluster, newShare)
+    const errorRate = !serving ? 1 : badRelease ? trafficToNew * BAD_RELEASE_ERROR_RATE : 0
+    frames.push({ tick, timeSec: tick * TICK_SEC, pods: cluster.snapshot(), trafficToNew, errorRate, events })
+
+    if (settledAt !== null && tick - settledAt >= OBSERVE_TICKS && cluster.pods.every((p) => p.phase !== 'starting' && p.phase !== 'terminating')) break
+  }
+
+  const errorRates = frames.map((f) => f.errorRate)
+  return {
+    frames,
+    outcome: outcome ?? 'rolled-back',
+    durationSec: (settledAt ?? frames.length - 1) * TICK_SEC,
+    peakErrorRate: Math.max(...errorRates),
+    failedRequestShare: errorRates.reduce((sum, r) => sum + r, 0) / errorRates.length,
+    minReadyPods: Math.min(...frames.map((f) => f.pods.filter((p) => p.phase === 'ready').length))
+  }
+}
@@ -0,0 +1,177 @@
+// Secret leakage scanner for Deploy or Die.
+// Values are checked against known credential formats (cloud keys, tokens,
+// private keys, connection strings with passwords), against names that say
+// they hold a credential, and for random-looking high-entropy strings. The
+// env vars, the image tag and every line of the rendered manifests are
+// scanned, so a secret typed into the wrong field is found wherever it ends up.
+
+import { SECRET_PLACEHOLDER, type DeploymentConfig, type RenderedManifest } from './deploymentManifests'
+
+export type LeakLocation = 'envVar' | 'imageTag' | 'manifest'
+
+export interface SecretLeak {
+  location: LeakLocation
+  // Env var name, "imageTag", or the manifest key on that line
+  name: string
+  // 1-based line in the manifest, for manifest leaks
+  line: number | null
+  reason: string
+  // The value with all but its first characters hidden
+  masked: string
+}
+
+export const SECRET_VALUE_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'a Stripe key', pattern: /\b(sk|rk)_(live|test)_[A-Za-z0-9]{8,}/ },
+  { label: 'a GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{20,}/ },
+  { label: 'an AWS access key', pattern: /\bAKIA[0-9A-Z]{16}\b/ },
+  { label: 'a Slack token', pattern: /\bxox[abpr]-[A-Za-z0-9-]+/ },
+  { label: 'a JSON Web Token', pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/ },
+  { label: 'a private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+  { label: 'a URL with a password in it', pattern: /:\/\/[^/\s:@]+:[^/\s@]+@/ },
+  { label: 'a connection string with a password', pattern: /(^|;)\s*(password|pwd)\s*=\s*[^;\s]+/i }
+]
+
+const SENSITIVE_NAME = /(PASSWORD|PASSWD|SECRET|TOKEN|API_?KEY|PRIVATE_?KEY|CREDENTIALS?)/i
+// Random-looking strings at least this long and this unpredictable (bits per
+// character) are treated as keys. Hex is left out: digests and commit SHAs
+// are hex and are not secret.
+const ENTROPY_MIN_LENGTH = 20
+const ENTROPY_THRESHOLD = 4.2
+
+// Shannon entropy in bits per character
+export const shannonEntropy = (text: string) => {
+  if (!text) return 0
+  const counts = new Map<string, number>()
+  for (const ch of text) counts.set(ch, (counts.get(ch) ?? 0) + 1)
+  let bits = 0
+  for (const count of counts.values()) {
+    const p = count / text.length
+    bits -= p * Math.log2(p)
+  }
+  return bits
+}
+
+const highEntropyToken = (value: string) =>
+  value
+    .split(/[^A-Za-z0-9+/=_-]+/)
+    .find((token) =>
+      token.length >= ENTROPY_MIN_LENGTH &&
+      !/^[0-9a-f]+$/i.test(token) &&
+      /[A-Za-z]/.test(token) &&
+      /\d/.test(token) &&
+      shannonEntropy(token) >= ENTROPY_THRESHOLD
+    ) ?? null
+
+// References to a secret held elsewhere, which are how secrets should be wired
+const isSecretReference = (name: string, value: string) =>
+  /_FILE$/i.test(name) ||
+  value.startsWith('/run/secrets/') ||
+  value === SECRET_PLACEHOLDER ||
+  /^\$\{?[A-Za-z_][A-Za-z0-9_]*\}?$/.test(value)
+
+// Why a value looks like a secret, or null if it does not. `name` is the
+// variable or key it is assigned to, when there is one.
+export const detectSecret = (value: string, name = ''): string | null => {
+  const trimmed = value.trim()
+  if (!trimmed || isSecretReference(name, trimmed)) return null
+  const known = SECRET_VALUE_PATTERNS.find((p) => p.pattern.test(trimmed))
+  if (known) return `its value looks like ${known.label}`
+  if (SENSITIVE_NAME.test(name)) return 'its name says it holds a credential'
+  if (highEntropyToken(trimmed)) return 'its value is a long random-looking string, typical of a key'
+  return null
+}
+
+export const maskSecret = (value: string) => {
+  const trimmed = value.trim()
+  return trimmed.length <= 4 ? '****' : `${trimmed.slice(0, 4)}${'*'.repeat(Math.min(12, trimmed.length - 4))}`
+}
+
+// `key: value` lines of a YAML document, including list items
+const YAML_PAIR = /^\s*(?:-\s+)?([A-Za-z0-9_.-]+):\s+(.+?)\s*$/
+const YAML_ITEM = /^\s*-\s+(.+?)\s*$/
+
+const unquote = (value: string) => value.replace(/^(['"])(.*)\1$/, '$2')
+
+export const scanManifest = (manifest: RenderedManifest): SecretLeak[] =>
+  manifest.yaml.split('\n').flatMap((text, i): SecretLeak[] => {
+    const pair = text.match(YAML_PAIR)
+    const item = pair ? null : text.match(YAML_ITEM)
+    const name = pair?.[1] ?? ''
+    const value = unquote(pair?.[2] ?? item?.[1] ?? '')
+    // Compose lists env as NAME=value
+    const assignment = value.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/)
+    const reason = assignment ? detectSecret(assignment[2], assignment[1]) : detectSecret(value, name)
+    return reason ? [{ location: 'manifest', name: assignment?.[1] ?? name, line: i + 1, reason, masked: maskSecret(assignment?.[2] ?? value) }] : []
+  })
+
+export const scanDeployment = (config: DeploymentConfig, manifests: RenderedManifest[] = []): SecretLeak[] => {
+  const leaks: SecretLeak[] = []
+  for (const { name, value } of config.environmentVariables) {
+    const reason = detectSecret(value, name.trim())
+    if (reason) leaks.push({ location: 'envVar', name: name.trim(), line: null, reason, masked: maskSecret(value) })
+  }
+  // A tag is never a place for a credential, so only the value is checked
+  const tagReason = detectSecret(config.imageTag)
+  if (tagReason) leaks.push({ location: 'imageTag', name: 'imageTag', line: null, reason: tagReason, masked: maskSecret(config.imageTag) })
+  for (const manifest of manifests) leaks.push(...scanManifest(manifest))
+  return leaks
+}
+
+// Turns a plain env var into a secret reference; the key follows the
+// kebab-case naming Kubernetes secrets usually use
+export const moveToSecrets = (config: DeploymentConfig, envVarName: string): DeploymentConfig => {
+  const index = config.environmentVariables.findIndex((e) => e.name.trim() === envVarName)
+  if (index === -1) return config
+  const key = envVarName.toLowerCase().replace(/_/g, '-')
+  return {
+    ...config,
+    environmentVariables: config.environmentVariables.filter((_, i) => i !== index),
+    secrets: config.secrets.some((s) => s.name.trim() === envVarName)
+      ? config.secrets
+      : [...config.secrets, { name: envVarName, key }]
+  }
+}
+
+export interface LeakHuntProgress {
+  total: number
+  // Seeded leaks the player marked as suspect
+  found: number
+  // Seeded leaks the player has not marked yet
+  missed: SecretLeak[]
+  // Marked fields that hold no secret
+  falseAlarms: string[]
+  fixed: number
+  // Leaks from the seeded config that are still exposed
+  remaining: SecretLeak[]
+  // Leaked variables removed outright; the app still needs them
+  deleted: string[]
+  complete: boolean
+}
+
+// Compares the player's config and the fields they marked as suspect (env
+// var names, or "imageTag") with the leaky config the challenge started from.
+// A leak counts as found once it is marked, and as fixed once it is served
+// from Secrets.
+export const leakHuntProgress = (seed: DeploymentConfig, current: DeploymentConfig, marked: string[] = []): LeakHuntProgress => {
+  const seeded = scanDeployment(seed)
+  const stillLeaking = scanDeployment(current)
+  const sameLeak = (a: SecretLeak) => (b: SecretLeak) => a.location === b.location && a.name === b.name
+  const served = new Set([...current.secrets, ...current.environmentVariables].map((e) => e.name.trim()))
+  const deleted = seeded
+    .filter((leak) => leak.location === 'envVar' && !served.has(leak.name))
+    .map((leak) => leak.name)
+  const missed = seeded.filter((leak) => !marked.includes(leak.name))
+  const falseAlarms = marked.filter((name) => !seeded.some((leak) => leak.name === name))
+  const openSeeded = seeded.filter((leak) => stillLeaking.some(sameLeak(leak))).length
+  return {
+    total: seeded.length,
+    found: seeded.length - missed.length,
+    missed,
+    falseAlarms,
+    fixed: seeded.length - openSeeded - deleted.length,
+    // Includes new leaks introduced while editing
+    remaining: stillLeaking,
+    deleted,
+    complete: missed.length === 0 && falseAlarms.length === 0 && stillLeaking.length === 0 && deleted.length === 0
+  }
+}
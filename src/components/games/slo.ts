@@ -0,0 +1,170 @@
+// Service level objectives and error budgets for the Outage Simulator.
+// Each run is held to an availability SLO and a p95 latency SLO for the
+// requests users send to the load balancer. Every second the simulation
+// counts how many requests failed and how many were slower than the latency
+// target; whatever the SLO allows to go wrong over the shift is the error
+// budget. Burn-rate alerts fire when a window of recent traffic is using
+// up the budget many times faster than an even spend would.
+
+import type { AlertSeverity } from './alerting'
+import type { ServiceMetrics } from './outageEngine'
+
+export interface Slo {
+  // Share of requests that must succeed, in percent
+  availability: number
+  // 95% of requests must be answered within this many milliseconds
+  latencyP95Ms: number
+}
+
+export type Sli = 'availability' | 'latency'
+
+// One second of traffic at the edge
+export interface SloSample {
+  atSec: number
+  requests: number
+  failed: number
+  slow: number
+}
+
+export interface BurnRateRule {
+  windowSec: number
+  // Fires when the window spends budget this many times faster than an even spend
+  burnRate: number
+  severity: AlertSeverity
+}
+
+export interface BurnAlert {
+  atSec: number
+  sli: Sli
+  windowSec: number
+  burnRate: number
+  severity: AlertSeverity
+}
+
+export interface ErrorBudget {
+  // Bad requests the SLO allows over the whole shift
+  allowed: number
+  consumed: number
+  // Share of the budget left; negative once the SLO is breached
+  remaining: number
+}
+
+export interface SloTracking {
+  slo: Slo
+  // Requests expected over the shift at normal traffic, which sizes the budget
+  expectedRequests: number
+  samples: SloSample[]
+  alerts: BurnAlert[]
+  // Keyed by `${sli}:${windowSec}`, so each rule alerts once per breach
+  firing: Record<string, boolean>
+}
+
+export const SLI_LABELS: Record<Sli, string> = {
+  availability: 'Availability',
+  latency: 'p95 latency'
+}
+
+export const LATENCY_PERCENTILE = 95
+
+// A fast burn wakes someone up; a slow burn can wait for working hours
+export const BURN_RATE_RULES: BurnRateRule[] = [
+  { windowSec: 10, burnRate: 10, severity: 'critical' },
+  { windowSec: 60, burnRate: 2, severity: 'warning' }
+]
+
+const SLIS: Sli[] = ['availability', 'latency']
+
+// Response times are modelled as exponentially distributed around the mean,
+// which makes the p95 about three times the mean
+export const slowShare = (meanMs: number, thresholdMs: number) => meanMs <= 0 ? 0 : Math.exp(-thresholdMs / meanMs)
+
+export const estimateP95 = (meanMs: number) => meanMs * Math.log(100 / (100 - LATENCY_PERCENTILE))
+
+export const sampleSlo = (slo: Slo, metrics: ServiceMetrics, atSec: number): SloSample => {
+  const requests = metrics.requestsPerSecond
+  return {
+    atSec,
+    requests,
+    failed: requests * metrics.errorRate / 100,
+    slow: requests * slowShare(metrics.responseTime, slo.latencyP95Ms)
+  }
+}
+
+// Share of requests each SLO allows to go wrong
+export const budgetShare = (slo: Slo, sli: Sli) =>
+  sli === 'availability' ? 1 - slo.availability / 100 : 1 - LATENCY_PERCENTILE / 100
+
+const badRequests = (sample: SloSample, sli: Sli) => sli === 'availability' ? sample.failed : sample.slow
+
+export const errorBudgets = (tracking: SloTracking): Record<Sli, ErrorBudget> => {
+  const budgets = {} as Record<Sli, ErrorBudget>
+  for (const sli of SLIS) {
+    const allowed = tracking.expectedRequests * budgetShare(tracking.slo, sli)
+    const consumed = tracking.samples.reduce((sum, sample) => sum + badRequests(sample, sli), 0)
+    budgets[sli] = { allowed, consumed, remaining: allowed > 0 ? 1 - consumed / allowed : 0 }
+  }
+  return budgets
+}
+
+// How many times faster than an even spend the last `windowSec` seconds used the budget
+export const burnRate = (tracking: SloTracking, sli: Sli, windowSec: number) => {
+  const window = tracking.samples.slice(-windowSec)
+  const requests = window.reduce((sum, sample) => sum + sample.requests, 0)
+  if (requests === 0) return 0
+  const bad = window.reduce((sum, sample) => sum + badRequests(sample, sli), 0)
+  return bad / requests / budgetShare(tracking.slo, sli)
+}
+
+export const createSloTracking = (slo: Slo, expectedRequests: number): SloTracking => ({
+  slo,
+  expectedRequests,
+  samples: [],
+  alerts: [],
+  firing: {}
+})
+
+// Records one second of edge traffic and checks the burn-rate rules. A rule
+// waits until its window is full so one bad second cannot trip the slow burn.
+export const trackSlo = (tracking: SloTracking, metrics: ServiceMetrics, tick: number): SloTracking => {
+  const next = { ...tracking, samples: [...tracking.samples, sampleSlo(tracking.slo, metrics, tick)] }
+  const firing: Record<string, boolean> = {}
+  const alerts: BurnAlert[] = []
+  for (const sli of SLIS) {
+    for (const rule of BURN_RATE_RULES) {
+      const key = `${sli}:${rule.windowSec}`
+      const rate = burnRate(next, sli, rule.windowSec)
+      firing[key] = next.samples.length >= rule.windowSec && rate >= rule.burnRate
+      if (firing[key] && !tracking.firing[key]) {
+        alerts.push({ atSec: tick, sli, windowSec: rule.windowSec, burnRate: rate, severity: rule.severity })
+      }
+    }
+  }
+  return { ...next, firing, alerts: [...tracking.alerts, ...alerts] }
+}
+
+// Budget left after each second, for the burn-down chart
+export const burnDown = (tracking: SloTracking) => {
+  const allowed = SLIS.map((sli) => tracking.expectedRequests * budgetShare(tracking.slo, sli))
+  const consumed = [0, 0]
+  return tracking.samples.map((sample) => {
+    SLIS.forEach((sli, i) => { consumed[i] += badRequests(sample, sli) })
+    return {
+      atSec: sample.atSec,
+      availability: allowed[0] > 0 ? 1 - consumed[0] / allowed[0] : 0,
+      latency: allowed[1] > 0 ? 1 - consumed[1] / allowed[1] : 0
+    }
+  })
+}
+
+// The tighter of the two budgets, clamped to what is left of it
+export const budgetRemaining = (tracking: SloTracking) => {
+  const budgets = errorBudgets(tracking)
+  return Math.max(0, Math.min(1, budgets.availability.remaining, budgets.latency.remaining))
+}
+
+// The most severe burn-rate rule firing right now
+export const firingSeverity = (tracking: SloTracking): AlertSeverity | null => {
+  const firing = BURN_RATE_RULES.filter((rule) => SLIS.some((sli) => tracking.firing[`${sli}:${rule.windowSec}`]))
+  if (firing.some((rule) => rule.severity === 'critical')) return 'critical'
+  return firing.length > 0 ? 'warning' : null
+}
@@ -0,0 +1,516 @@
+// GitHub Actions workflow compiler and validator for Pipeline Architect.
+// The canvas jobs (each holding a YAML snippet) are compiled into a full
+// .github/workflows/*.yml document, then checked against a schema for the
+// keys learners use most. Diagnostics carry the line they refer to.
+
+import yaml from 'js-yaml'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export interface WorkflowDiagnostic {
+  severity: DiagnosticSeverity
+  line: number
+  path: string
+  message: string
+}
+
+// The subset of PipelineJob the compiler needs
+export interface WorkflowJobSource {
+  id: string
+  name: string
+  yaml: string
+  dependencies: string[]
+}
+
+export interface CompileOptions {
+  name?: string
+  on?: unknown
+}
+
+export interface CompiledWorkflow {
+  document: Record<string, unknown>
+  yaml: string
+  jobIds: Record<string, string>
+  diagnostics: WorkflowDiagnostic[]
+}
+
+export type PathSegment = string | number
+
+export const DEFAULT_TRIGGERS = { push: { branches: ['main'] }, pull_request: { branches: ['main'] } }
+
+const WORKFLOW_KEYS = ['name', 'run-name', 'on', 'permissions', 'env', 'defaults', 'concurrency', 'jobs']
+const JOB_KEYS = [
+  'name', 'needs', 'runs-on', 'steps', 'env', 'if', 'strategy', 'permissions', 'environment', 'outputs',
+  'services', 'container', 'timeout-minutes', 'continue-on-error', 'concurrency', 'defaults', 'uses', 'with', 'secrets'
+]
+const STEP_KEYS = ['id', 'if', 'name', 'uses', 'run', 'shell', 'with', 'env', 'continue-on-error', 'timeout-minutes', 'working-directory']
+const EVENTS = [
+  'push', 'pull_request', 'pull_request_target', 'workflow_dispatch', 'workflow_call', 'workflow_run', 'schedule',
+  'release', 'merge_group', 'issues', 'issue_comment', 'create', 'delete', 'deployment', 'deployment_status',
+  'page_build', 'registry_package', 'repository_dispatch', 'status', 'watch', 'fork', 'gollum', 'check_run', 'check_suite'
+]
+const ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+const USES_PATTERN = /^(\.\/\S+|docker:\/\/\S+|[\w.-]+\/[\w./-]+@[\w./-]+)$/
+
+export const isMapping = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const isScalar = (value: unknown) =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value)
+
+const isExpression = (value: unknown) => typeof value === 'string' && /^\$\{\{.*\}\}$/s.test(value.trim())
+
+export const formatPath = (path: PathSegment[]) =>
+  path.map((p, i) => typeof p === 'number' ? `[${p}]` : i === 0 ? p : `.${p}`).join('')
+
+// Map YAML paths to the line that declares them. Handles block mappings and
+// sequences (compact or indented); flow collections resolve to their parent line.
+export const buildLineIndex = (text: string): Map<string, number> => {
+  interface Frame { kind: 'key' | 'item'; indent: number; contentIndent: number; path: PathSegment[] }
+  const index = new Map<string, number>()
+  const stack: Frame[] = []
+  const seqCounters = new Map<string, number>()
+  let blockScalarIndent: number | null = null
+  const keyPattern = /^("[^"]*"|'[^']*'|[^\s#'"][^:#]*?)\s*:(?:\s+(.*))?$/
+
+  const addKey = (content: string, indent: number, lineNo: number) => {
+    const match = content.match(keyPattern)
+    if (!match) return
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1]
+      if ((top.kind === 'key' && top.indent >= indent) || (top.kind === 'item' && top.contentIndent > indent)) {
+        stack.pop()
+      } else {
+        break
+      }
+    }
+    const key = match[1].replace(/^["']|["']$/g, '')
+    const path = [...(stack[stack.length - 1]?.path ?? []), key]
+    index.set(formatPath(path), lineNo)
+    const value = (match[2] ?? '').replace(/\s+#.*$/, '').trim()
+    if (value === '') {
+      stack.push({ kind: 'key', indent, contentIndent: indent, path })
+    } else if (/^[|>][-+0-9]*$/.test(value)) {
+      blockScalarIndent = indent
+    }
+  }
+
+  text.split('\n').forEach((rawLine, i) => {
+    const lineNo = i + 1
+    const indent = rawLine.length - rawLine.trimStart().length
+    const content = rawLine.trim()
+    if (blockScalarIndent !== null) {
+      if (content === '' || indent > blockScalarIndent) return
+      blockScalarIndent = null
+    }
+    if (content === '' || content.startsWith('#') || content === '---') return
+
+    if (content === '-' || content.startsWith('- ')) {
+      while (stack.length > 0) {
+        const top = stack[stack.length - 1]
+        if ((top.kind === 'key' && top.indent > indent) || (top.kind === 'item' && top.indent >= indent)) {
+          stack.pop()
+        } else {
+          break
+        }
+      }
+      const owner = stack[stack.length - 1]?.path ?? []
+      const ownerKey = formatPath(owner)
+      const itemIndex = seqCounters.get(ownerKey) ?? 0
+      seqCounters.set(ownerKey, itemIndex + 1)
+      const path = [...owner, itemIndex]
+      index.set(formatPath(path), lineNo)
+      const rest = content.slice(1).trimStart()
+      const contentIndent = indent + (content.length - rest.length)
+      stack.push({ kind: 'item', indent, contentIndent, path })
+      if (rest) addKey(rest, contentIndent, lineNo)
+      return
+    }
+    addKey(content, indent, lineNo)
+  })
+  return index
+}
+
+// Find the line for a path, falling back to the closest ancestor that has one
+export const locate = (index: Map<string, number>, path: PathSegment[]): number => {
+  for (let n = path.length; n > 0; n--) {
+    const line = index.get(formatPath(path.slice(0, n)))
+    if (line !== undefined) return line
+  }
+  return 1
+}
+
+export class DiagnosticCollector {
+  readonly diagnostics: WorkflowDiagnostic[] = []
+
+  constructor(private readonly lineIndex: Map<string, number>, private readonly prefix: PathSegment[] = []) {}
+
+  add(severity: DiagnosticSeverity, path: PathSegment[], message: string) {
+    this.diagnostics.push({
+      severity,
+      line: locate(this.lineIndex, path.slice(this.prefix.length)),
+      path: formatPath(path),
+      message
+    })
+  }
+
+  error(path: PathSegment[], message: string) {
+    this.add('error', path, message)
+  }
+
+  warning(path: PathSegment[], message: string) {
+    this.add('warning', path, message)
+  }
+}
+
+const checkUnknownKeys = (value: Record<string, unknown>, allowed: string[], path: PathSegment[], out: DiagnosticCollector, what: string) => {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) out.error([...path, key], `Unknown ${what} key "${key}"`)
+  }
+}
+
+const checkEnv = (env: unknown, path: PathSegment[], out: DiagnosticCollector) => {
+  if (env === undefined) return
+  if (!isMapping(env)) {
+    out.error(path, '"env" must be a mapping of NAME: value')
+    return
+  }
+  for (const [key, value] of Object.entries(env)) {
+    if (!ENV_NAME_PATTERN.test(key)) out.error([...path, key], `"${key}" is not a valid environment variable name`)
+    if (!isScalar(value)) out.error([...path, key], `env value for "${key}" must be a string, number or boolean`)
+  }
+}
+
+const checkTriggers = (on: unknown, out: DiagnosticCollector) => {
+  const path = ['on']
+  if (on === undefined || on === null) {
+    out.error(path, 'Workflow needs an "on" trigger (e.g. push or pull_request)')
+    return
+  }
+  const events = typeof on === 'string' ? [on] : Array.isArray(on) ? on : isMapping(on) ? Object.keys(on) : null
+  if (!events) {
+    out.error(path, '"on" must be an event name, a list of events or a mapping')
+    return
+  }
+  events.forEach((event, i) => {
+    const eventPath = isMapping(on) ? [...path, String(event)] : Array.isArray(on) ? [...path, i] : path
+    if (typeof event !== 'string' || !EVENTS.includes(event)) {
+      out.error(eventPath, `Unknown trigger event "${String(event)}"`)
+    }
+  })
+  if (isMapping(on) && 'schedule' in on) {
+    const schedule = on.schedule
+    if (!Array.isArray(schedule) || schedule.length === 0 || !schedule.every((s) => isMapping(s) && typeof s.cron === 'string')) {
+      out.error([...path, 'schedule'], '"schedule" must be a list of { cron: "..." } entries')
+    }
+  }
+}
+
+const checkMatrix = (strategy: unknown, job: Record<string, unknown>, path: PathSegment[], out: DiagnosticCollector): string[] => {
+  if (strategy === undefined) return []
+  if (!isMapping(strategy)) {
+    out.error(path, '"strategy" must be a mapping')
+    return []
+  }
+  checkUnknownKeys(strategy, ['matrix', 'fail-fast', 'max-parallel'], path, out, 'strategy')
+  if ('fail-fast' in strategy && typeof strategy['fail-fast'] !== 'boolean' && !isExpression(strategy['fail-fast'])) {
+    out.error([...path, 'fail-fast'], '"fail-fast" must be true or false')
+  }
+  if ('max-parallel' in strategy && (typeof strategy['max-parallel'] !== 'number' || strategy['max-parallel'] < 1)) {
+    out.error([...path, 'max-parallel'], '"max-parallel" must be a positive number')
+  }
+  const matrix = strategy.matrix
+  const matrixPath = [...path, 'matrix']
+  if (matrix === undefined) {
+    out.error(matrixPath, '"strategy" needs a "matrix"')
+    return []
+  }
+  if (isExpression(matrix)) return []
+  if (!isMapping(matrix)) {
+    out.error(matrixPath, '"matrix" must be a mapping of key: [values]')
+    return []
+  }
+  const keys: string[] = []
+  for (const [key, values] of Object.entries(matrix)) {
+    if (key === 'include' || key === 'exclude') continue
+    keys.push(key)
+    if (isExpression(values)) continue
+    if (!Array.isArray(values) || values.length === 0) {
+      out.error([...matrixPath, key], `Matrix key "${key}" must be a non-empty list of values`)
+    }
+  }
+  for (const listKey of ['include', 'exclude'] as const) {
+    const entries = matrix[listKey]
+    if (entries === undefined) continue
+    if (!Array.isArray(entries) || !entries.every(isMapping)) {
+      out.error([...matrixPath, listKey], `"${listKey}" must be a list of mappings`)
+      continue
+    }
+    if (listKey === 'exclude') {
+      entries.forEach((entry, i) => {
+        for (const key of Object.keys(entry)) {
+          if (!keys.includes(key)) out.error([...matrixPath, listKey, i, key], `exclude references unknown matrix key "${key}"`)
+        }
+      })
+    } else {
+      entries.forEach((entry) => Object.keys(entry).forEach((key) => { if (!keys.includes(key)) keys.push(key) }))
+    }
+  }
+  if (keys.length === 0) out.error(matrixPath, 'Matrix defines no keys')
+
+  // Every ${{ matrix.x }} used by the job must exist
+  const used = JSON.stringify(job).match(/matrix\.([A-Za-z_][A-Za-z0-9_-]*)/g) ?? []
+  for (const ref of new Set(used)) {
+    const key = ref.slice('matrix.'.length)
+    if (!keys.includes(key)) out.error(matrixPath, `"${ref}" is used but the matrix has no "${key}" key`)
+  }
+  return keys
+}
+
+const checkSteps = (steps: unknown, path: PathSegment[], out: DiagnosticCollector) => {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    out.error(path, '"steps" must be a non-empty list')
+    return
+  }
+  const stepIds = new Set<string>()
+  steps.forEach((step, i) => {
+    const stepPath = [...path, i]
+    if (!isMapping(step)) {
+      out.error(stepPath, 'Each step must be a mapping with "uses" or "run"')
+      return
+    }
+    checkUnknownKeys(step, STEP_KEYS, stepPath, out, 'step')
+    const hasUses = 'uses' in step
+    const hasRun = 'run' in step
+    if (hasUses && hasRun) out.error(stepPath, 'A step cannot have both "uses" and "run"')
+    if (!hasUses && !hasRun) out.error(stepPath, 'A step needs either "uses" or "run"')
+    if (hasUses && (typeof step.uses !== 'string' || !USES_PATTERN.test(step.uses))) {
+      out.error([...stepPath, 'uses'], `"${String(step.uses)}" should look like owner/repo@version`)
+    }
+    if (hasRun && (typeof step.run !== 'string' || step.run.trim() === '')) {
+      out.error([...stepPath, 'run'], '"run" must be a non-empty command')
+    }
+    if ('with' in step) {
+      if (!hasUses) out.error([...stepPath, 'with'], '"with" only applies to steps that "uses" an action')
+      if (!isMapping(step.with)) {
+        out.error([...stepPath, 'with'], '"with" must be a mapping of input: value')
+      } else {
+        for (const [key, value] of Object.entries(step.with)) {
+          if (!isScalar(value)) out.error([...stepPath, 'with', key], `Input "${key}" must be a string, number or boolean`)
+        }
+      }
+    }
+    if ('shell' in step && !hasRun) out.error([...stepPath, 'shell'], '"shell" only applies to "run" steps')
+    if (typeof step.id === 'string') {
+      if (stepIds.has(step.id)) out.error([...stepPath, 'id'], `Duplicate step id "${step.id}"`)
+      stepIds.add(step.id)
+    }
+    checkEnv(step.env, [...stepPath, 'env'], out)
+  })
+}
+
+export const normalizeNeeds = (needs: unknown): string[] | null => {
+  if (needs === undefined) return []
+  if (typeof needs === 'string') return [needs]
+  if (Array.isArray(needs) && needs.every((n) => typeof n === 'string')) return needs as string[]
+  return null
+}
+
+// Validate one job definition. `path` is where the job sits in the workflow.
+const checkJob = (jobId: string, job: unknown, allJobIds: string[], path: PathSegment[], out: DiagnosticCollector) => {
+  if (!ID_PATTERN.test(jobId)) out.error(path, `Job id "${jobId}" must start with a letter or _ and contain only letters, digits, - and _`)
+  if (!isMapping(job)) {
+    out.error(path, `Job "${jobId}" must be a mapping`)
+    return
+  }
+  checkUnknownKeys(job, JOB_KEYS, path, out, 'job')
+  const reusable = 'uses' in job
+
+  const needs = normalizeNeeds(job.needs)
+  if (needs === null) {
+    out.error([...path, 'needs'], '"needs" must be a job id or a list of job ids')
+  } else {
+    needs.forEach((need) => {
+      if (need === jobId) out.error([...path, 'needs'], `Job "${jobId}" cannot need itself`)
+      else if (!allJobIds.includes(need)) out.error([...path, 'needs'], `"needs" references unknown job "${need}"`)
+    })
+  }
+
+  if (reusable) {
+    if ('steps' in job) out.error([...path, 'steps'], 'A job that "uses" a reusable workflow cannot have "steps"')
+    if ('runs-on' in job) out.error([...path, 'runs-on'], 'A job that "uses" a reusable workflow cannot set "runs-on"')
+  } else {
+    if (!('runs-on' in job)) {
+      out.error(path, `Job "${jobId}" is missing "runs-on"`)
+    } else if (!(typeof job['runs-on'] === 'string' || (Array.isArray(job['runs-on']) && job['runs-on'].length > 0) || isMapping(job['runs-on']))) {
+      out.error([...path, 'runs-on'], '"runs-on" must name a runner label')
+    }
+    if ('with' in job) out.error([...path, 'with'], '"with" on a job only applies to reusable workflows ("uses")')
+    if (!('steps' in job)) out.error(path, `Job "${jobId}" is missing "steps"`)
+    else checkSteps(job.steps, [...path, 'steps'], out)
+  }
+  checkEnv(job.env, [...path, 'env'], out)
+  checkMatrix(job.strategy, job, [...path, 'strategy'], out)
+  if ('timeout-minutes' in job && (typeof job['timeout-minutes'] !== 'number' || job['timeout-minutes'] <= 0)) {
+    out.error([...path, 'timeout-minutes'], '"timeout-minutes" must be a positive number')
+  }
+}
+
+export const parseYaml = (text: string): { value: unknown; diagnostic: WorkflowDiagnostic | null } => {
+  try {
+    return { value: yaml.load(text), diagnostic: null }
+  } catch (e) {
+    const err = e as { mark?: { line: number }; reason?: string; message?: string }
+    return {
+      value: undefined,
+      diagnostic: {
+        severity: 'error',
+        line: (err.mark?.line ?? 0) + 1,
+        path: '',
+        message: `YAML syntax error: ${err.reason ?? err.message ?? 'could not parse'}`
+      }
+    }
+  }
+}
+
+export const findCycle = (graph: Record<string, string[]>): string[] | null => {
+  const state = new Map<string, 'visiting' | 'done'>()
+  const stack: string[] = []
+  const visit = (node: string): string[] | null => {
+    if (state.get(node) === 'done') return null
+    if (state.get(node) === 'visiting') return [...stack.slice(stack.indexOf(node)), node]
+    state.set(node, 'visiting')
+    stack.push(node)
+    for (const next of graph[node] ?? []) {
+      const cycle = visit(next)
+      if (cycle) return cycle
+    }
+    stack.pop()
+    state.set(node, 'done')
+    return null
+  }
+  for (const node of Object.keys(graph)) {
+    const cycle = visit(node)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+// Validate a complete workflow file
+export const validateWorkflow = (text: string): WorkflowDiagnostic[] => {
+  const { value, diagnostic } = parseYaml(text)
+  if (diagnostic) return [diagnostic]
+  const out = new DiagnosticCollector(buildLineIndex(text))
+  if (!isMapping(value)) {
+    out.error([], 'A workflow must be a YAML mapping with "on" and "jobs"')
+    return out.diagnostics
+  }
+  checkUnknownKeys(value, WORKFLOW_KEYS, [], out, 'workflow')
+  checkTriggers(value.on, out)
+  checkEnv(value.env, ['env'], out)
+
+  const jobs = value.jobs
+  if (!isMapping(jobs) || Object.keys(jobs).length === 0) {
+    out.error(['jobs'], 'Workflow needs at least one job under "jobs"')
+    return out.diagnostics
+  }
+  const jobIds = Object.keys(jobs)
+  for (const [jobId, job] of Object.entries(jobs)) {
+    checkJob(jobId, job, jobIds, ['jobs', jobId], out)
+  }
+  const graph = Object.fromEntries(jobIds.map((id) => {
+    const job = jobs[id]
+    return [id, isMapping(job) ? normalizeNeeds(job.needs) ?? [] : []]
+  }))
+  const cycle = findCycle(graph)
+  if (cycle) out.error(['jobs', cycle[0], 'needs'], `Jobs depend on each other in a loop: ${cycle.join(' → ')}`)
+  return out.diagnostics
+}
+
+// Validate a single job snippet as edited in the YAML modal; line numbers are relative to the snippet
+export const validateJobYaml = (text: string, jobId: string, allJobIds: string[]): WorkflowDiagnostic[] => {
+  const { value, diagnostic } = parseYaml(text)
+  if (diagnostic) return [diagnostic]
+  const path = ['jobs', jobId]
+  const out = new DiagnosticCollector(buildLineIndex(text), path)
+  checkJob(jobId, value ?? {}, allJobIds, path, out)
+  return out.diagnostics
+}
+
+// Parsed job body, or null when the snippet is not a YAML mapping
+export const parseJobYaml = (text: string): Record<string, unknown> | null => {
+  const { value } = parseYaml(text)
+  return isMapping(value) ? value : null
+}
+
+export const toJobId = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'job'
+
+// Workflow job id for every canvas job. Names that normalize to the same id
+// ("Build" and "build!") get numbered suffixes, so no job overwrites another.
+export const assignJobIds = (jobs: { id: string; name: string }[]): Record<string, string> => {
+  const taken = new Set<string>()
+  return Object.fromEntries(jobs.map((job) => {
+    const base = toJobId(job.name)
+    let id = base
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`
+    taken.add(id)
+    return [job.id, id]
+  }))
+}
+
+// Compile canvas jobs into one workflow document. Canvas connections are the
+// source of truth for "needs"; a snippet's own "needs" is replaced.
+export const compileWorkflow = (jobs: WorkflowJobSource[], options: CompileOptions = {}): CompiledWorkflow => {
+  const jobIds = assignJobIds(jobs)
+  const compiledJobs: Record<string, unknown> = {}
+  const diagnostics: WorkflowDiagnostic[] = []
+  // Resolved against the compiled document once it is written
+  const located: { severity: DiagnosticSeverity; path: PathSegment[]; message: string }[] = []
+
+  for (const job of jobs) {
+    const jobId = jobIds[job.id]
+    const { value, diagnostic } = parseYaml(job.yaml)
+    if (diagnostic) {
+      diagnostics.push({ ...diagnostic, path: `jobs.${jobId}`, message: `${job.name}: ${diagnostic.message}` })
+    }
+    if (jobId !== toJobId(job.name)) {
+      located.push({
+        severity: 'warning',
+        path: ['jobs', jobId],
+        message: `${job.name}: another job is also named "${toJobId(job.name)}", so this one is exported as "${jobId}"`
+      })
+    }
+    const body = isMapping(value) ? { ...value } : {}
+    const needs = job.dependencies.map((dep) => jobIds[dep]).filter(Boolean)
+    const declared = normalizeNeeds(body.needs) ?? []
+    if (body.needs !== undefined && [...declared].sort().join(',') !== [...needs].sort().join(',')) {
+      located.push({
+        severity: 'warning',
+        path: ['jobs', jobId, 'needs'],
+        message: `${job.name}: YAML says needs [${declared.join(', ')}] but the canvas connects [${needs.join(', ')}]; the canvas wins`
+      })
+    }
+    delete body.needs
+    // Keep "name" first and "needs" right after it, matching how workflows are usually written
+    const { name, ...rest } = body
+    compiledJobs[jobId] = {
+      ...(name !== undefined ? { name } : {}),
+      ...(needs.length > 0 ? { needs: needs.length === 1 ? needs[0] : needs } : {}),
+      ...rest
+    }
+  }
+
+  const document: Record<string, unknown> = {
+    name: options.name ?? 'CI',
+    on: options.on ?? DEFAULT_TRIGGERS,
+    jobs: compiledJobs
+  }
+  const text = yaml.dump(document, { lineWidth: -1, noRefs: true }).replace(/^'on':/m, 'on:')
+  const lineIndex = buildLineIndex(text)
+  for (const { severity, path, message } of located) {
+    diagnostics.push({ severity, line: locate(lineIndex, path), path: formatPath(path), message })
+  }
+  return { document, yaml: text, jobIds, diagnostics: [...diagnostics, ...validateWorkflow(text)] }
+}
@@ -0,0 +1,117 @@
+// Import an existing GitHub Actions workflow into Pipeline Architect jobs.
+// Each job becomes a canvas node with its YAML prefilled and `needs` turned
+// into canvas dependencies. Constructs the canvas cannot represent are
+// reported rather than silently dropped.
+
+import yaml from 'js-yaml'
+import { layoutByDepth } from './pipelineGraph'
+import {
+  buildLineIndex,
+  isMapping,
+  locate,
+  parseYaml,
+  validateJobYaml,
+  validateWorkflow,
+  type WorkflowDiagnostic
+} from './workflowCompiler'
+
+export interface ImportedJob {
+  id: string
+  name: string
+  type: 'job'
+  description: string
+  yaml: string
+  dependencies: string[]
+  position: { x: number; y: number }
+  configured: boolean
+}
+
+export interface WorkflowImport {
+  workflowName: string | null
+  jobs: ImportedJob[]
+  diagnostics: WorkflowDiagnostic[]
+}
+
+// Job-level keys that are kept in the YAML but have no effect on the canvas or simulator
+const UNSIMULATED_KEYS: Record<string, string> = {
+  if: 'conditions are not evaluated; the job always runs',
+  strategy: 'matrix jobs are shown as a single node',
+  services: 'service containers are not simulated',
+  container: 'container jobs are simulated like normal runners',
+  outputs: 'job outputs are not passed between nodes',
+  environment: 'environment protection rules are not simulated',
+  concurrency: 'concurrency groups are not simulated'
+}
+
+// Mission jobs use `job-<name>` ids, so imported ones get their own prefix and
+// can never take the id of a job the player adds from the palette
+export const canvasJobId = (workflowJobId: string) => `imported-${workflowJobId}`
+
+export const importWorkflow = (text: string): WorkflowImport => {
+  const { value, diagnostic } = parseYaml(text)
+  if (diagnostic) return { workflowName: null, jobs: [], diagnostics: [diagnostic] }
+  const index = buildLineIndex(text)
+  const diagnostics: WorkflowDiagnostic[] = []
+  const report = (severity: WorkflowDiagnostic['severity'], path: (string | number)[], message: string) => {
+    diagnostics.push({ severity, line: locate(index, path), path: path.join('.'), message })
+  }
+
+  if (!isMapping(value)) {
+    report('error', [], 'Expected a workflow file with "on" and "jobs"')
+    return { workflowName: null, jobs: [], diagnostics }
+  }
+  if ('stages' in value || 'trigger' in value || 'pool' in value) {
+    report('error', [], 'This looks like a GitLab CI or Azure Pipelines file; only GitHub Actions workflows can be imported')
+    return { workflowName: null, jobs: [], diagnostics }
+  }
+  if (!isMapping(value.jobs)) {
+    report('error', ['jobs'], 'Workflow has no "jobs" mapping to import')
+    return { workflowName: null, jobs: [], diagnostics }
+  }
+
+  // Schema problems are reported with the file's own line numbers
+  diagnostics.push(...validateWorkflow(text))
+
+  const jobEntries = Object.entries(value.jobs)
+  const workflowJobIds = jobEntries.map(([id]) => id)
+  const jobs: ImportedJob[] = []
+  for (const [jobId, body] of jobEntries) {
+    if (!isMapping(body)) {
+      report('error', ['jobs', jobId], `Job "${jobId}" is not a mapping and was skipped`)
+      continue
+    }
+    if ('uses' in body) {
+      report('error', ['jobs', jobId, 'uses'], `Job "${jobId}" calls a reusable workflow, which the canvas cannot show; it was skipped`)
+      continue
+    }
+    for (const [key, reason] of Object.entries(UNSIMULATED_KEYS)) {
+      if (key in body) report('warning', ['jobs', jobId, key], `Job "${jobId}": "${key}" is kept in the YAML but ${reason}`)
+    }
+    const needs = typeof body.needs === 'string' ? [body.needs] : Array.isArray(body.needs) ? body.needs.filter((n): n is string => typeof n === 'string') : []
+    const snippet = yaml.dump(body, { lineWidth: -1, noRefs: true })
+    const hasErrors = validateJobYaml(snippet, jobId, workflowJobIds).some((d) => d.severity === 'error')
+    jobs.push({
+      id: canvasJobId(jobId),
+      // Canvas names are workflow job ids so the job compiles back to the same id
+      name: jobId,
+      type: 'job',
+      description: typeof body.name === 'string' ? body.name : 'Imported job',
+      yaml: snippet,
+      dependencies: needs.filter((n) => workflowJobIds.includes(n) && n !== jobId).map(canvasJobId),
+      position: { x: 0, y: 0 },
+      configured: !hasErrors
+    })
+  }
+
+  // Drop edges to jobs that were skipped, then lay the graph out by depth
+  const imported = new Set(jobs.map((j) => j.id))
+  for (const job of jobs) job.dependencies = job.dependencies.filter((d) => imported.has(d))
+  const positions = layoutByDepth(jobs)
+  for (const job of jobs) job.position = positions[job.id]
+
+  return {
+    workflowName: typeof value.name === 'string' ? value.name : null,
+    jobs,
+    diagnostics: diagnostics.sort((a, b) => a.line - b.line)
+  }
+}
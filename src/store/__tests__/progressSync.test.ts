@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest'
+import { useGameStore, type Player } from '../gameStore'
+import {
+  applySyncMessage,
+  createLocalStorageSync,
+  createMemorySync,
+  createServerSync,
+  setProgressSync,
+  type PlayerRecords,
+  type SyncStatus
+} from '../progressSync'
+
+const player = (id: string, name = 'Ana'): Player => ({
+  id,
+  name,
+  difficulty: 'beginner',
+  currentMission: 1,
+  progress: [],
+  totalTimeSpent: 0
+})
+
+describe('Sync messages', () => {
+  it('replace, add and remove player records', () => {
+    const record = { player: player('a'), lastUpdate: 1 }
+    const snapshot = applySyncMessage({}, { type: 'snapshot', players: { a: record } })
+    expect(snapshot).toEqual({ a: record })
+    const added = applySyncMessage(snapshot, { type: 'upsert', record: { player: player('b'), lastUpdate: 2 } })
+    expect(Object.keys(added)).toEqual(['a', 'b'])
+    expect(applySyncMessage(added, { type: 'remove', playerId: 'a' })).toEqual({ b: added.b })
+  })
+})
+
+describe('In-memory sync', () => {
+  it('pushes every change to subscribers until they unsubscribe', async () => {
+    const sync = createMemorySync()
+    const seen: PlayerRecords[] = []
+    const statuses: SyncStatus[] = []
+    const stop = sync.subscribe((players) => seen.push(players), (status) => statuses.push(status))
+    await sync.save(player('a'))
+    await sync.save(player('a', 'Ana B'))
+    await sync.remove('a')
+    stop()
+    await sync.save(player('b'))
+    expect(statuses).toEqual(['live'])
+    expect(seen.map((players) => Object.values(players).map((r) => r.player.name))).toEqual([[], ['Ana'], ['Ana B'], []])
+    expect(Object.keys(await sync.list())).toEqual(['b'])
+  })
+})
+
+describe('localStorage sync', () => {
+  it('keeps every player under the shared key', async () => {
+    const items = new Map<string, string>()
+    const storage = { getItem: (k: string) => items.get(k) ?? null, setItem: (k: string, v: string) => { items.set(k, v) } } as unknown as Storage
+    const sync = createLocalStorageSync(storage)
+    await sync.save(player('a'))
+    await sync.save(player('b'))
+    await sync.remove('a')
+    expect(Object.keys(JSON.parse(items.get('devops-escape-room-all-players')!))).toEqual(['b'])
+  })
+})
+
+describe('Workshop sessions', () => {
+  const session = { code: 'ABC234', name: 'Platform Team', date: '2026-10-20', cohort: '', enabledMissions: [1, 2], difficulty: null, createdAt: 1 }
+
+  it('are stored next to the players and found by join code', async () => {
+    const items = new Map<string, string>()
+    const storage = { getItem: (k: string) => items.get(k) ?? null, setItem: (k: string, v: string) => { items.set(k, v) } } as unknown as Storage
+    const sync = createLocalStorageSync(storage)
+    await sync.saveSession(session)
+    expect(await sync.findSession('ABC234')).toEqual(session)
+    expect(await sync.findSession('ZZZ999')).toBeNull()
+    await sync.removeSession('ABC234')
+    expect(await sync.listSessions()).toEqual({})
+    expect(items.get('devops-escape-room-sessions')).toBe('{}')
+  })
+
+  it('are looked up on the sync server, treating 404 as no session', async () => {
+    const urls: string[] = []
+    const lookup = (async (url: string) => {
+      urls.push(url)
+      return url.endsWith('/ABC234') ? Response.json(session) : new Response(null, { status: 404 })
+    }) as typeof fetch
+    const sync = createServerSync('http://sync.local', { fetch: lookup })
+    expect(await sync.findSession('ABC234')).toEqual(session)
+    expect(await sync.findSession('ZZZ999')).toBeNull()
+    expect(urls).toEqual(['http://sync.local/sessions/ABC234', 'http://sync.local/sessions/ZZZ999'])
+  })
+})
+
+describe('Server sync', () => {
+  // Records requests and answers like the sync server
+  const fakeFetch = (calls: { url: string; method: string; body?: unknown }[]) =>
+    (async (url: string, init?: RequestInit) => {
+      calls.push({ url, method: init?.method ?? 'GET', ...(init?.body ? { body: JSON.parse(String(init.body)) } : {}) })
+      if (init?.method === 'DELETE') return new Response(null, { status: 204 })
+      if (init?.method === 'PUT') return Response.json({ ...JSON.parse(String(init.body)), lastUpdate: 5 })
+      return Response.json({})
+    }) as typeof fetch
+
+  class FakeSocket {
+    static opened: FakeSocket[] = []
+    onopen: (() => void) | null = null
+    onmessage: ((event: { data: string }) => void) | null = null
+    onclose: (() => void) | null = null
+    closed = false
+    constructor(public url: string) { FakeSocket.opened.push(this) }
+    close() { this.closed = true }
+  }
+
+  it('saves and removes players over REST', async () => {
+    const calls: { url: string; method: string; body?: unknown }[] = []
+    const sync = createServerSync('http://sync.local/', { fetch: fakeFetch(calls) })
+    expect(await sync.save(player('a b'))).toEqual({ player: player('a b'), lastUpdate: 5 })
+    await sync.remove('a b')
+    expect(calls).toEqual([
+      { url: 'http://sync.local/players/a%20b', method: 'PUT', body: { player: player('a b') } },
+      { url: 'http://sync.local/players/a%20b', method: 'DELETE' }
+    ])
+  })
+
+  it('proves which browser saved a player and sends the instructor token when there is one', async () => {
+    const headers: Record<string, string>[] = []
+    const recording = (async (_url: string, init?: RequestInit) => {
+      headers.push(init?.headers as Record<string, string>)
+      return new Response(null, { status: 204 })
+    }) as typeof fetch
+    let token: string | null = null
+    const sync = createServerSync('http://sync.local', { fetch: recording, playerKey: () => 'browser-1', instructorToken: () => token })
+    await sync.save(player('a'))
+    token = 'teach'
+    await sync.remove('a')
+    expect(headers[0]).toEqual({ 'Content-Type': 'application/json', 'X-Player-Key': 'browser-1' })
+    expect(headers[1]).toMatchObject({ 'X-Player-Key': 'browser-1', Authorization: 'Bearer teach' })
+
+    // Dashboard saves never claim the player for the instructor's browser
+    await sync.save(player('b'), { asInstructor: true })
+    expect(headers[2]).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer teach' })
+  })
+
+  it('reports server errors', async () => {
+    const failing = (async () => new Response(null, { status: 500 })) as typeof fetch
+    await expect(createServerSync('http://sync.local', { fetch: failing }).list()).rejects.toThrow('Sync server answered 500 for GET /players')
+  })
+
+  it('streams changes from the WebSocket', () => {
+    FakeSocket.opened = []
+    const sync = createServerSync('https://sync.local', { fetch: fakeFetch([]), WebSocket: FakeSocket as unknown as typeof WebSocket })
+    const seen: string[][] = []
+    const statuses: SyncStatus[] = []
+    const stop = sync.subscribe((players) => seen.push(Object.keys(players)), (status) => statuses.push(status))
+    const socket = FakeSocket.opened[0]
+    expect(socket.url).toBe('wss://sync.local/live')
+    socket.onopen!()
+    socket.onmessage!({ data: JSON.stringify({ type: 'snapshot', players: { a: { player: player('a'), lastUpdate: 1 } } }) })
+    socket.onmessage!({ data: JSON.stringify({ type: 'upsert', record: { player: player('b'), lastUpdate: 2 } }) })
+    socket.onmessage!({ data: JSON.stringify({ type: 'remove', playerId: 'a' }) })
+    expect(seen).toEqual([['a'], ['a', 'b'], ['b']])
+    expect(statuses).toEqual(['connecting', 'live'])
+    stop()
+    expect(socket.closed).toBe(true)
+  })
+})
+
+describe('Game store', () => {
+  it('sends every progress update to the active sync', async () => {
+    const sync = createMemorySync()
+    setProgressSync(sync)
+    const seen: PlayerRecords[] = []
+    sync.subscribe((players) => seen.push(players))
+
+    useGameStore.getState().createPlayer('Dana')
+    useGameStore.getState().updateMissionProgress(6, { completed: true, score: 90 })
+    await Promise.resolve()
+
+    const id = useGameStore.getState().playerId
+    const saved = (await sync.list())[id].player
+    expect(saved.name).toBe('Dana')
+    expect(saved.progress.find((p) => p.missionId === 6)).toMatchObject({ completed: true, score: 90 })
+    expect(seen).toHaveLength(3)
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import type { Player } from '../gameStore'
+import { DEFAULT_WORKSHOP_KEY, createProgressToken, readProgressToken, validateTokenPlayer } from '../progressToken'
+
+const KEY = 'test-workshop'
+
+const player: Player = {
+  id: 'abc123xyz',
+  name: 'Zoë',
+  difficulty: 'intermediate',
+  currentMission: 6,
+  progress: [
+    { missionId: 3, completed: true, timeSpent: 0, hintsUsed: 0, score: 100 },
+    { missionId: 6, completed: true, timeSpent: 400, hintsUsed: 1, score: 80, outage: { seed: 7, postmortem: '# Postmortem\n\n'.repeat(20) } }
+  ],
+  totalTimeSpent: 400
+}
+
+// Swaps in the payload for an edited player, keeping the original signature
+const tamper = async (token: string, edited: Player) => {
+  const [version, payload] = (await createProgressToken(edited, 'any-key', 1)).split('.')
+  return `${version}.${payload}.${token.split('.')[2]}`
+}
+
+describe('Signed progress tokens', () => {
+  it('round-trip a player and come back verified', async () => {
+    const token = await createProgressToken(player, KEY, 1000)
+    expect(token).toMatch(/^v2\.[\w-]+\.[\w-]{43}$/)
+    expect(await readProgressToken(`  ${token}\n`, KEY)).toEqual({ ok: true, status: 'verified', version: 2, issuedAt: 1000, player })
+  })
+
+  it('do not count as verified under the public default key', async () => {
+    const token = await createProgressToken(player, DEFAULT_WORKSHOP_KEY, 1000)
+    expect(await readProgressToken(token, DEFAULT_WORKSHOP_KEY)).toMatchObject({ ok: true, status: 'default-key', player })
+  })
+
+  it('are shorter than the unsigned base64 JSON they replace', async () => {
+    const token = await createProgressToken(player, KEY)
+    const legacy = btoa(unescape(encodeURIComponent(JSON.stringify({ playerId: player.id, player }))))
+    expect(token.length).toBeLessThan(legacy.length / 2)
+  })
+
+  it('reject edited scores and other workshops', async () => {
+    const token = await createProgressToken(player, KEY, 1)
+    const edited = await tamper(token, { ...player, progress: player.progress.map((p) => ({ ...p, score: 100 })) })
+    const result = await readProgressToken(edited, KEY)
+    expect(result).toEqual({ ok: false, reasons: [expect.stringContaining('signature does not match')] })
+    expect((await readProgressToken(token, 'another-key')).ok).toBe(false)
+    expect((await readProgressToken(token.slice(0, -5), KEY)).ok).toBe(false)
+  })
+
+  it('explain malformed and unsupported tokens', async () => {
+    expect(await readProgressToken('', KEY)).toEqual({ ok: false, reasons: ['The token is empty'] })
+    expect(await readProgressToken('v3.abc.def', KEY)).toEqual({ ok: false, reasons: [expect.stringContaining('version 3 is not supported')] })
+    expect(await readProgressToken('v2.abc', KEY)).toEqual({ ok: false, reasons: ['The token is incomplete; copy it again in full'] })
+    expect(await readProgressToken('not a token!', KEY)).toEqual({ ok: false, reasons: ['This is not a progress token'] })
+  })
+})
+
+describe('Unsigned tokens from older versions', () => {
+  it('still import, marked unverified', async () => {
+    const legacy = btoa(JSON.stringify({ playerId: 'abc123xyz', difficulty: 'beginner', timeSpent: 30, timestamp: 5, player: { ...player, name: 'Zoe' } }))
+    expect(await readProgressToken(legacy, KEY)).toEqual({ ok: true, status: 'unverified', version: 1, issuedAt: 5, player: { ...player, name: 'Zoe' } })
+    const idOnly = await readProgressToken(btoa(JSON.stringify({ playerId: 'abc123xyz', difficulty: 'advanced', player: null })), KEY)
+    expect(idOnly).toMatchObject({ ok: true, status: 'unverified', player: { id: 'abc123xyz', name: 'Player abc12', difficulty: 'advanced', progress: [] } })
+  })
+
+  it('are still checked against the schema', async () => {
+    const cheated = { ...player, progress: [{ ...player.progress[0], score: 1000 }] }
+    expect(await readProgressToken(btoa(JSON.stringify({ player: cheated })), KEY)).toEqual({
+      ok: false,
+      reasons: ['player.progress[0].score must be between 0 and 100']
+    })
+  })
+})
+
+describe('Token schema', () => {
+  it('lists every problem with a player', () => {
+    expect(validateTokenPlayer(player)).toEqual([])
+    expect(validateTokenPlayer(null)).toEqual(['The token has no player'])
+    expect(validateTokenPlayer({
+      id: '',
+      name: 'X',
+      difficulty: 'expert',
+      currentMission: 9,
+      totalTimeSpent: -1,
+      progress: [
+        { missionId: 1, completed: 'yes', timeSpent: 0, hintsUsed: 0, score: 50 },
+        { missionId: 1, completed: true, timeSpent: 0, hintsUsed: 0, score: 50, quizScore: 101 }
+      ]
+    })).toEqual([
+      'player.id must be a non-empty string',
+      'player.difficulty must be one of beginner, intermediate, advanced',
+      'player.currentMission must be a whole number from 1 to 6',
+      'player.totalTimeSpent must be a number of at least 0',
+      'player.progress[0].completed must be true or false',
+      'player.progress[1] repeats mission 1',
+      'player.progress[1].quizScore must be between 0 and 100'
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { useGameStore, type Player } from '../gameStore'
+import { createMemorySync, setProgressSync } from '../progressSync'
+import {
+  JOIN_CODE_ALPHABET,
+  REMOVED_SESSION,
+  compareSessions,
+  createSession,
+  formatJoinCode,
+  generateJoinCode,
+  isJoinCode,
+  isMissionEnabled,
+  normalizeJoinCode,
+  playersInSession,
+  validateSessionDraft,
+  type SessionDraft
+} from '../workshopSession'
+
+const draft: SessionDraft = { name: ' Platform Team ', date: '2026-10-20', cohort: 'Autumn', enabledMissions: [4, 1, 4], difficulty: 'advanced' }
+
+// Steps through the alphabet so codes are predictable
+const sequence = (...indexes: number[]) => {
+  let i = 0
+  return () => indexes[i++ % indexes.length] / JOIN_CODE_ALPHABET.length
+}
+
+const player = (id: string, sessionCode: string | undefined, completed: number[], score = 80): Player => ({
+  id,
+  name: id,
+  difficulty: 'beginner',
+  currentMission: 6,
+  progress: completed.map((missionId) => ({ missionId, completed: true, timeSpent: 0, hintsUsed: 0, score })),
+  totalTimeSpent: 0,
+  ...(sessionCode ? { sessionCode } : {})
+})
+
+describe('Join codes', () => {
+  it('use only characters that cannot be misread', () => {
+    const code = generateJoinCode()
+    expect(isJoinCode(code)).toBe(true)
+    expect(JOIN_CODE_ALPHABET).not.toMatch(/[01IO]/)
+  })
+
+  it('accept what learners type', () => {
+    expect(normalizeJoinCode(' abc-234 ')).toBe('ABC234')
+    expect(formatJoinCode('ABC234')).toBe('ABC-234')
+    expect(isJoinCode('ABC23')).toBe(false)
+    expect(isJoinCode('ABC230')).toBe(false)
+  })
+})
+
+describe('Creating sessions', () => {
+  it('explains what a draft is missing', () => {
+    expect(validateSessionDraft(draft)).toEqual([])
+    expect(validateSessionDraft({ ...draft, name: ' ', date: '', enabledMissions: [] })).toEqual([
+      'Give the session a name',
+      'Pick the date of the workshop',
+      'Enable at least one mission'
+    ])
+  })
+
+  it('tidies the draft and never reuses a join code', () => {
+    const first = createSession(draft, {}, sequence(0), 5)
+    expect(first).toEqual({
+      code: 'AAAAAA',
+      name: 'Platform Team',
+      date: '2026-10-20',
+      cohort: 'Autumn',
+      enabledMissions: [1, 4],
+      difficulty: 'advanced',
+      createdAt: 5
+    })
+    const second = createSession(draft, { AAAAAA: first }, sequence(0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1), 6)
+    expect(second.code).toBe('BBBBBB')
+  })
+
+  it('only enable the chosen missions', () => {
+    const session = createSession(draft, {})
+    expect(isMissionEnabled(session, 1)).toBe(true)
+    expect(isMissionEnabled(session, 2)).toBe(false)
+    expect(isMissionEnabled(null, 2)).toBe(true)
+  })
+})
+
+describe('Comparing sessions', () => {
+  const morning = { ...createSession({ ...draft, date: '2026-10-20' }, {}), code: 'MORNIN' }
+  const evening = { ...createSession({ ...draft, date: '2026-10-21' }, {}), code: 'EVENIN' }
+  const players = [player('a', 'MORNIN', [1, 2], 60), player('b', 'MORNIN', [1], 90), player('c', 'EVENIN', [1, 2, 3]), player('d', undefined, [])]
+
+  it('filters players by session', () => {
+    expect(playersInSession(players, 'MORNIN').map((p) => p.id)).toEqual(['a', 'b'])
+    expect(playersInSession(players, null).map((p) => p.id)).toEqual(['d'])
+    expect(playersInSession(players, undefined)).toHaveLength(4)
+  })
+
+  it('groups players whose session was deleted', () => {
+    const withOrphan = [...players, player('e', 'GONE99', [1])]
+    expect(playersInSession(withOrphan, REMOVED_SESSION, { MORNIN: morning }).map((p) => p.id)).toEqual(['c', 'e'])
+  })
+
+  it('summarizes each cohort, latest workshop first', () => {
+    const [late, early] = compareSessions({ MORNIN: morning, EVENIN: evening }, players)
+    expect(late).toMatchObject({ code: 'EVENIN', players: 1, avgCompleted: 3, avgScore: 80 })
+    expect(early).toMatchObject({ code: 'MORNIN', players: 2, avgCompleted: 1.5, avgScore: 70 })
+    expect(early.missionCompletion).toEqual({ 1: 1, 2: 0.5, 3: 0, 4: 0, 5: 0, 6: 0 })
+  })
+})
+
+describe('Joining a session', () => {
+  it('locks the difficulty and tags the player with the join code', () => {
+    setProgressSync(createMemorySync())
+    const session = createSession(draft, {})
+    const store = useGameStore.getState()
+    store.setDifficulty('beginner')
+    store.joinSession(session)
+    useGameStore.getState().createPlayer('Lee')
+    const { player: joined, difficulty } = useGameStore.getState()
+    expect(difficulty).toBe('advanced')
+    expect(joined).toMatchObject({ name: 'Lee', difficulty: 'advanced', sessionCode: session.code })
+    useGameStore.getState().resetGame()
+    expect(useGameStore.getState().session).toBeNull()
+  })
+})
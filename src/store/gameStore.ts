@@ -1,12 +1,13 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { getProgressSync, type PlayerRecords, type SaveOptions } from "./progressSync";
+import { createProgressToken, readProgressToken, type TokenReading, type TokenStatus } from "./progressToken";
+import type { WorkshopSession } from "./workshopSession";
 
 const generatePlayerId = () => {
   return Math.random().toString(36).substr(2, 9);
 };
 
-const SHARED_STORAGE_KEY = 'devops-escape-room-all-players'
-
 // Global easing rules to simplify progression
 const applyGlobalEasing = (player: Player): Player => {
   if (!player) return player;
@@ -28,48 +29,33 @@ const applyGlobalEasing = (player: Player): Player => {
   };
 };
 
-// Helper functions to manage shared player storage
-export const savePlayerToSharedStorage = (player: Player) => {
-  try {
-    const easedPlayer = applyGlobalEasing(player)
-    const stored = localStorage.getItem(SHARED_STORAGE_KEY)
-    const allPlayers: Record<string, { player: Player; lastUpdate: number }> = stored 
-      ? JSON.parse(stored) 
-      : {}
-    
-    allPlayers[easedPlayer.id] = {
-      player: {
-        ...easedPlayer,
-      },
-      lastUpdate: Date.now()
-    }
-    
-    localStorage.setItem(SHARED_STORAGE_KEY, JSON.stringify(allPlayers))
-  } catch (e) {
-    console.error('Failed to save player to shared storage:', e)
-  }
-}
+// Helper functions to manage shared player storage. The dashboard awaits the
+// save so it can show a failure; the player's own saves only log it.
+export const savePlayerToSharedStorage = (player: Player, options?: SaveOptions) =>
+  getProgressSync().save(applyGlobalEasing(player), options);
 
-export const getAllPlayersFromSharedStorage = (): Record<string, { player: Player; lastUpdate: number }> => {
-  try {
-    const stored = localStorage.getItem(SHARED_STORAGE_KEY)
-    const parsed = stored ? JSON.parse(stored) as Record<string, { player: Player; lastUpdate: number }> : {}
+const autoSavePlayer = (player: Player) => {
+  savePlayerToSharedStorage(player).catch((e) => console.error('Failed to save player to shared storage:', e));
+};
 
-    // Apply easing to all loaded players to ensure consistency
-    const easedEntries = Object.fromEntries(
-      Object.entries(parsed).map(([id, entry]) => [
-        id,
-        { player: applyGlobalEasing(entry.player), lastUpdate: entry.lastUpdate }
-      ])
-    ) as Record<string, { player: Player; lastUpdate: number }>;
+// Applies easing to players loaded from shared storage, so records saved by
+// older versions look the same as new ones
+export const easeSharedPlayers = (players: PlayerRecords): PlayerRecords =>
+  Object.fromEntries(
+    Object.entries(players).map(([id, entry]) => [
+      id,
+      { player: applyGlobalEasing(entry.player), lastUpdate: entry.lastUpdate }
+    ])
+  );
 
-    // Persist back if anything changed
-    localStorage.setItem(SHARED_STORAGE_KEY, JSON.stringify(easedEntries))
-    return easedEntries
-  } catch (e) {
-    console.error('Failed to load players from shared storage:', e)
-    return {}
-  }
+// One action a player took while investigating a log, kept for instructor review
+export interface InvestigationStep {
+  atMs: number;
+  action: 'flag' | 'unflag' | 'fix';
+  line: number | null;
+  findingId: string | null;
+  verdict: 'root-cause' | 'symptom' | 'unrelated' | 'correct-fix' | 'symptom-fix' | 'wrong-fix';
+  note: string;
 }
 
 interface MissionProgress {
@@ -79,6 +65,10 @@ interface MissionProgress {
   hintsUsed: number;
   score: number;
   quizScore?: number;
+  // Log Detective: the seed that reproduces the log and the path taken through it
+  investigation?: { seed: number; steps: InvestigationStep[] };
+  // Outage Simulator: the seed that reproduces the outage and the player's postmortem as Markdown
+  outage?: { seed: number; postmortem?: string };
 }
 
 export interface Player {
@@ -88,6 +78,10 @@ export interface Player {
   currentMission: number;
   progress: MissionProgress[];
   totalTimeSpent: number;
+  // Set when the instructor imported this player from a progress token
+  tokenStatus?: TokenStatus;
+  // Join code of the workshop session the player joined, if any
+  sessionCode?: string;
 }
 
 interface GameState {
@@ -99,14 +93,17 @@ interface GameState {
   hintsUsed: number;
   timeSpent: number;
   player: Player | null;
+  // The workshop session joined before creating the player
+  session: WorkshopSession | null;
   setDifficulty: (difficulty: 'beginner' | 'intermediate' | 'advanced') => void;
   completeMission: (missionId: number) => void;
   setCurrentMission: (missionId: number | null) => void;
   addProgressToken: (token: string) => void;
   useHint: () => void;
   addTimeSpent: (seconds: number) => void;
-  parseProgressToken: (token: string) => { playerId: string; mission: number; progress: string } | null;
-  generateProgressToken: () => string;
+  parseProgressToken: (token: string) => Promise<TokenReading>;
+  generateProgressToken: () => Promise<string>;
+  joinSession: (session: WorkshopSession | null) => void;
   createPlayer: (name: string) => void;
   updateMissionProgress: (missionId: number, progress: Partial<MissionProgress>) => void;
   unlockNextMission: () => void;
@@ -124,6 +121,7 @@ export const useGameStore = create<GameState>()(
       hintsUsed: 0,
       timeSpent: 0,
       player: null,
+      session: null,
       
       setDifficulty: (difficulty) => set({ difficulty }),
       
@@ -145,51 +143,42 @@ export const useGameStore = create<GameState>()(
         timeSpent: state.timeSpent + seconds
       })),
       
-      parseProgressToken: (token) => {
-        try {
-          const decoded = JSON.parse(atob(token));
-          return decoded;
-        } catch {
-          return null;
-        }
-      },
+      parseProgressToken: (token) => readProgressToken(token),
       
       generateProgressToken: () => {
         const state = get();
-        // Include full player data if available
-        const tokenData = {
-          playerId: state.playerId,
+        // Without a player yet, the token still identifies who sent it
+        const player: Player = state.player ?? {
+          id: state.playerId,
+          name: `Player ${state.playerId.slice(0, 5)}`,
           difficulty: state.difficulty,
-          completedMissions: state.completedMissions,
-          hintsUsed: state.hintsUsed,
-          timeSpent: state.timeSpent,
-          timestamp: Date.now(),
-          // Include full player progress if player exists
-          player: state.player ? {
-            id: state.player.id,
-            name: state.player.name,
-            difficulty: state.player.difficulty,
-            currentMission: state.player.currentMission,
-            progress: state.player.progress,
-            totalTimeSpent: state.player.totalTimeSpent
-          } : null
+          currentMission: 1,
+          progress: [],
+          totalTimeSpent: state.timeSpent
         };
-        return btoa(JSON.stringify(tokenData));
+        return createProgressToken(player);
       },
       
+      // A session that locks the difficulty overrides the player's choice
+      joinSession: (session) => set((state) => ({
+        session,
+        difficulty: session?.difficulty ?? state.difficulty
+      })),
+      
       createPlayer: (name: string) => {
         const state = get();
         const newPlayer: Player = applyGlobalEasing({
           id: state.playerId,
           name,
-          difficulty: state.difficulty,
+          difficulty: state.session?.difficulty ?? state.difficulty,
           currentMission: 1,
           progress: [],
-          totalTimeSpent: 0
+          totalTimeSpent: 0,
+          ...(state.session ? { sessionCode: state.session.code } : {})
         });
         set({ player: newPlayer });
         // Auto-save to shared storage
-        savePlayerToSharedStorage(newPlayer);
+        autoSavePlayer(newPlayer);
       },
       
       updateMissionProgress: (missionId: number, progress: Partial<MissionProgress>) => {
@@ -224,7 +213,7 @@ export const useGameStore = create<GameState>()(
         
         set({ player: updatedPlayer });
         // Auto-save to shared storage
-        savePlayerToSharedStorage(updatedPlayer);
+        autoSavePlayer(updatedPlayer);
       },
       
       unlockNextMission: () => {
@@ -238,7 +227,7 @@ export const useGameStore = create<GameState>()(
         
         set({ player: updatedPlayer });
         // Auto-save to shared storage
-        savePlayerToSharedStorage(updatedPlayer);
+        autoSavePlayer(updatedPlayer);
       },
       
       resetGame: () => set({
@@ -249,7 +238,8 @@ export const useGameStore = create<GameState>()(
         progressTokens: [],
         hintsUsed: 0,
         timeSpent: 0,
-        player: null
+        player: null,
+        session: null
       })
     }),
     {
@@ -260,7 +250,8 @@ export const useGameStore = create<GameState>()(
         completedMissions: state.completedMissions,
         hintsUsed: state.hintsUsed,
         timeSpent: state.timeSpent,
-        player: state.player
+        player: state.player,
+        session: state.session
       })
     }
   )
@@ -0,0 +1,271 @@
+import type { Player } from './gameStore'
+import type { WorkshopSession, WorkshopSessions } from './workshopSession'
+
+// Where player progress is shared with the instructor dashboard.
+// Without a server, progress goes to localStorage and the dashboard only sees
+// players in the same browser. With VITE_SYNC_URL pointing at the sync server
+// (server/syncServer.mjs), every save is sent over REST and dashboards get
+// each change pushed over a WebSocket as it happens. Workshop sessions are kept
+// in the same place, so learners can look up the join code an instructor made.
+// The server only lets a browser overwrite the players it saved itself, and
+// keeps deletes and session changes for dashboards holding the instructor token.
+
+export interface PlayerRecord {
+  player: Player
+  lastUpdate: number
+}
+
+export type PlayerRecords = Record<string, PlayerRecord>
+
+// Messages the sync server pushes to dashboards
+export type SyncMessage =
+  | { type: 'snapshot'; players: PlayerRecords }
+  | { type: 'upsert'; record: PlayerRecord }
+  | { type: 'remove'; playerId: string }
+
+export type SyncStatus = 'connecting' | 'live' | 'offline'
+
+export interface SaveOptions {
+  // Saved from the Instructor Dashboard: the server sync sends only the
+  // instructor token, so the save can never claim the player for this browser
+  asInstructor?: boolean
+}
+
+export interface ProgressSync {
+  kind: 'local' | 'memory' | 'server'
+  save: (player: Player, options?: SaveOptions) => Promise<PlayerRecord>
+  remove: (playerId: string) => Promise<void>
+  list: () => Promise<PlayerRecords>
+  // Calls back with every player whenever anything changes, starting with the
+  // current set. Returns a function that stops the updates.
+  subscribe: (listener: (players: PlayerRecords) => void, onStatus?: (status: SyncStatus) => void) => () => void
+  saveSession: (session: WorkshopSession) => Promise<WorkshopSession>
+  removeSession: (code: string) => Promise<void>
+  listSessions: () => Promise<WorkshopSessions>
+  // null when no session has that join code
+  findSession: (code: string) => Promise<WorkshopSession | null>
+}
+
+export const SHARED_STORAGE_KEY = 'devops-escape-room-all-players'
+export const SESSIONS_STORAGE_KEY = 'devops-escape-room-sessions'
+export const PLAYER_KEY_STORAGE_KEY = 'devops-escape-room-player-key'
+export const INSTRUCTOR_TOKEN_STORAGE_KEY = 'devops-escape-room-instructor-token'
+
+// How long a dashboard waits before reconnecting to the sync server
+export const RECONNECT_DELAY_MS = 2000
+
+export const applySyncMessage = (players: PlayerRecords, message: SyncMessage): PlayerRecords => {
+  switch (message.type) {
+    case 'snapshot':
+      return message.players
+    case 'upsert':
+      return { ...players, [message.record.player.id]: message.record }
+    case 'remove': {
+      const { [message.playerId]: _removed, ...rest } = players
+      return rest
+    }
+  }
+}
+
+// Keeps everything in this JavaScript context. Tests use it in place of the server.
+export const createMemorySync = (initial: PlayerRecords = {}): ProgressSync => {
+  let players = initial
+  let sessions: WorkshopSessions = {}
+  const listeners = new Set<(players: PlayerRecords) => void>()
+  const publish = (message: SyncMessage) => {
+    players = applySyncMessage(players, message)
+    listeners.forEach((listener) => listener(players))
+  }
+
+  return {
+    kind: 'memory',
+    save: async (player) => {
+      const record = { player, lastUpdate: Date.now() }
+      publish({ type: 'upsert', record })
+      return record
+    },
+    remove: async (playerId) => publish({ type: 'remove', playerId }),
+    list: async () => players,
+    subscribe: (listener, onStatus) => {
+      listeners.add(listener)
+      onStatus?.('live')
+      listener(players)
+      return () => { listeners.delete(listener) }
+    },
+    saveSession: async (session) => {
+      sessions = { ...sessions, [session.code]: session }
+      return session
+    },
+    removeSession: async (code) => {
+      const { [code]: _removed, ...rest } = sessions
+      sessions = rest
+    },
+    listSessions: async () => sessions,
+    findSession: async (code) => sessions[code] ?? null
+  }
+}
+
+// The original behaviour: one localStorage key shared by every tab of this browser
+export const createLocalStorageSync = (storage: Storage = localStorage): ProgressSync => {
+  const read = (): PlayerRecords => {
+    const stored = storage.getItem(SHARED_STORAGE_KEY)
+    return stored ? JSON.parse(stored) as PlayerRecords : {}
+  }
+  const readSessions = (): WorkshopSessions => {
+    const stored = storage.getItem(SESSIONS_STORAGE_KEY)
+    return stored ? JSON.parse(stored) as WorkshopSessions : {}
+  }
+  const writeSessions = (sessions: WorkshopSessions) => storage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions))
+  const listeners = new Set<(players: PlayerRecords) => void>()
+  const write = (players: PlayerRecords) => {
+    storage.setItem(SHARED_STORAGE_KEY, JSON.stringify(players))
+    listeners.forEach((listener) => listener(players))
+  }
+
+  return {
+    kind: 'local',
+    save: async (player) => {
+      const record = { player, lastUpdate: Date.now() }
+      write({ ...read(), [player.id]: record })
+      return record
+    },
+    remove: async (playerId) => write(applySyncMessage(read(), { type: 'remove', playerId })),
+    list: async () => read(),
+    subscribe: (listener, onStatus) => {
+      // Other tabs announce their writes through the storage event
+      const onStorage = (e: StorageEvent) => { if (e.key === SHARED_STORAGE_KEY) listener(read()) }
+      listeners.add(listener)
+      window.addEventListener('storage', onStorage)
+      onStatus?.('live')
+      listener(read())
+      return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', onStorage)
+      }
+    },
+    saveSession: async (session) => {
+      writeSessions({ ...readSessions(), [session.code]: session })
+      return session
+    },
+    removeSession: async (code) => {
+      const { [code]: _removed, ...rest } = readSessions()
+      writeSessions(rest)
+    },
+    listSessions: async () => readSessions(),
+    findSession: async (code) => readSessions()[code] ?? null
+  }
+}
+
+interface ServerSyncOptions {
+  fetch?: typeof fetch
+  WebSocket?: typeof WebSocket
+  // Random key that marks the players this browser saves as its own
+  playerKey?: () => string
+  // The server's SYNC_INSTRUCTOR_TOKEN, or null on a learner's browser
+  instructorToken?: () => string | null
+}
+
+const hasStorage = () => typeof localStorage !== 'undefined'
+
+// Made once per browser and kept, so a player can keep saving after a reload
+const browserPlayerKey = () => {
+  const stored = hasStorage() ? localStorage.getItem(PLAYER_KEY_STORAGE_KEY) : null
+  if (stored) return stored
+  const key = crypto.randomUUID()
+  if (hasStorage()) localStorage.setItem(PLAYER_KEY_STORAGE_KEY, key)
+  return key
+}
+
+// Entered on the Instructor Dashboard; never built into the site, where every
+// learner could read it
+export const getInstructorToken = () => hasStorage() ? localStorage.getItem(INSTRUCTOR_TOKEN_STORAGE_KEY) : null
+
+export const setInstructorToken = (token: string) => {
+  if (token.trim()) localStorage.setItem(INSTRUCTOR_TOKEN_STORAGE_KEY, token.trim())
+  else localStorage.removeItem(INSTRUCTOR_TOKEN_STORAGE_KEY)
+}
+
+// Talks to the sync server: REST for saves and reads, a WebSocket for live updates
+export const createServerSync = (baseUrl: string, options: ServerSyncOptions = {}): ProgressSync => {
+  const base = baseUrl.replace(/\/+$/, '')
+  const request = options.fetch ?? ((...args: Parameters<typeof fetch>) => fetch(...args))
+  let playerKey: string | null = null
+  const instructorToken = options.instructorToken ?? getInstructorToken
+
+  const call = async (path: string, init?: RequestInit, { allowMissing = false, asInstructor = false } = {}) => {
+    playerKey ??= (options.playerKey ?? browserPlayerKey)()
+    const token = instructorToken()
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(asInstructor ? {} : { 'X-Player-Key': playerKey }),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init?.headers
+    }
+    const res = await request(`${base}${path}`, { ...init, headers })
+    if (res.status === 404 && allowMissing) return null
+    if (!res.ok) throw new Error(`Sync server answered ${res.status} for ${init?.method ?? 'GET'} ${path}`)
+    return res.status === 204 ? null : res.json()
+  }
+
+  return {
+    kind: 'server',
+    save: async (player, { asInstructor = false } = {}) =>
+      call(`/players/${encodeURIComponent(player.id)}`, { method: 'PUT', body: JSON.stringify({ player }) }, { asInstructor }),
+    remove: async (playerId) => { await call(`/players/${encodeURIComponent(playerId)}`, { method: 'DELETE' }) },
+    list: async () => call('/players'),
+    subscribe: (listener, onStatus) => {
+      let players: PlayerRecords = {}
+      let socket: WebSocket | null = null
+      let retry: ReturnType<typeof setTimeout> | null = null
+      let stopped = false
+
+      const connect = () => {
+        onStatus?.('connecting')
+        const Socket = options.WebSocket ?? WebSocket
+        socket = new Socket(`${base.replace(/^http/, 'ws')}/live`)
+        socket.onopen = () => onStatus?.('live')
+        socket.onmessage = (event) => {
+          try {
+            players = applySyncMessage(players, JSON.parse(String(event.data)) as SyncMessage)
+            listener(players)
+          } catch (e) {
+            console.error('Ignoring malformed sync message:', e)
+          }
+        }
+        socket.onclose = () => {
+          if (stopped) return
+          onStatus?.('offline')
+          retry = setTimeout(connect, RECONNECT_DELAY_MS)
+        }
+      }
+      connect()
+
+      return () => {
+        stopped = true
+        if (retry) clearTimeout(retry)
+        socket?.close()
+      }
+    },
+    saveSession: async (session) => call(`/sessions/${encodeURIComponent(session.code)}`, { method: 'PUT', body: JSON.stringify({ session }) }),
+    removeSession: async (code) => { await call(`/sessions/${encodeURIComponent(code)}`, { method: 'DELETE' }) },
+    listSessions: async () => call('/sessions'),
+    findSession: async (code) => call(`/sessions/${encodeURIComponent(code)}`, undefined, { allowMissing: true })
+  }
+}
+
+const createDefaultSync = (): ProgressSync => {
+  const url = (import.meta as any)?.env?.VITE_SYNC_URL as string | undefined
+  return url ? createServerSync(url) : createLocalStorageSync()
+}
+
+let activeSync: ProgressSync | null = null
+
+export const getProgressSync = () => {
+  if (!activeSync) activeSync = createDefaultSync()
+  return activeSync
+}
+
+// Swaps the sync backend, e.g. for the in-memory one in tests
+export const setProgressSync = (sync: ProgressSync) => {
+  activeSync = sync
+}
@@ -0,0 +1,191 @@
+import type { Player } from './gameStore'
+
+// Progress tokens are what learners paste into the call chat so the instructor
+// can import their progress. A version 2 token is `v2.<payload>.<signature>`:
+// the payload is the player as deflated JSON, and the signature is an
+// HMAC-SHA256 of `v2.<payload>` under the workshop key (VITE_WORKSHOP_KEY).
+// The key ships with the game, so a determined learner can still forge a
+// token, but hand-edited scores no longer import as if they were genuine.
+//
+// Tokens from before signing (plain base64 JSON) are still read, and come
+// back marked 'unverified'. Tokens checked against the public default key come
+// back as 'default-key': anyone can sign those, so they prove nothing.
+
+export const TOKEN_VERSION = 2
+const TOKEN_PREFIX = `v${TOKEN_VERSION}.`
+
+// Used when VITE_WORKSHOP_KEY is not set. Anyone can read it in the source, so
+// set a key of your own for a workshop where scores matter.
+export const DEFAULT_WORKSHOP_KEY = 'devops-escape-room-workshop'
+
+export type TokenStatus = 'verified' | 'default-key' | 'unverified'
+
+export interface TokenPayload {
+  v: typeof TOKEN_VERSION
+  issuedAt: number
+  player: Player
+}
+
+export type TokenReading =
+  | { ok: true; status: TokenStatus; version: number; issuedAt: number | null; player: Player }
+  | { ok: false; reasons: string[] }
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced']
+const MISSION_COUNT = 6
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+export const getWorkshopKey = (): string =>
+  (import.meta as any)?.env?.VITE_WORKSHOP_KEY || DEFAULT_WORKSHOP_KEY
+
+export const isDefaultWorkshopKey = (workshopKey = getWorkshopKey()) => workshopKey === DEFAULT_WORKSHOP_KEY
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0))
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer())
+
+const hmacKey = (workshopKey: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(workshopKey), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+const isPercent = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 100
+
+const isMission = (value: unknown) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MISSION_COUNT
+
+// Everything wrong with a decoded player, as reasons an instructor can read.
+// An empty list means the player can be imported.
+export const validateTokenPlayer = (value: unknown): string[] => {
+  if (!isObject(value)) return ['The token has no player']
+  const reasons: string[] = []
+  if (typeof value.id !== 'string' || value.id === '') reasons.push('player.id must be a non-empty string')
+  if (typeof value.name !== 'string') reasons.push('player.name must be a string')
+  if (!DIFFICULTIES.includes(value.difficulty as string)) reasons.push(`player.difficulty must be one of ${DIFFICULTIES.join(', ')}`)
+  if (!isMission(value.currentMission)) reasons.push(`player.currentMission must be a whole number from 1 to ${MISSION_COUNT}`)
+  if (!isCount(value.totalTimeSpent)) reasons.push('player.totalTimeSpent must be a number of at least 0')
+  if (value.sessionCode !== undefined && typeof value.sessionCode !== 'string') reasons.push('player.sessionCode must be a string')
+  if (!Array.isArray(value.progress)) {
+    reasons.push('player.progress must be a list')
+    return reasons
+  }
+
+  const seen = new Set<unknown>()
+  value.progress.forEach((entry: unknown, i) => {
+    const at = `player.progress[${i}]`
+    if (!isObject(entry)) {
+      reasons.push(`${at} must be an object`)
+      return
+    }
+    if (!isMission(entry.missionId)) reasons.push(`${at}.missionId must be a whole number from 1 to ${MISSION_COUNT}`)
+    else if (seen.has(entry.missionId)) reasons.push(`${at} repeats mission ${entry.missionId}`)
+    seen.add(entry.missionId)
+    if (typeof entry.completed !== 'boolean') reasons.push(`${at}.completed must be true or false`)
+    if (!isCount(entry.timeSpent)) reasons.push(`${at}.timeSpent must be a number of at least 0`)
+    if (!isCount(entry.hintsUsed)) reasons.push(`${at}.hintsUsed must be a number of at least 0`)
+    if (!isPercent(entry.score)) reasons.push(`${at}.score must be between 0 and 100`)
+    if (entry.quizScore !== undefined && !isPercent(entry.quizScore)) reasons.push(`${at}.quizScore must be between 0 and 100`)
+  })
+  return reasons
+}
+
+const reject = (...reasons: string[]): TokenReading => ({ ok: false, reasons })
+
+export const createProgressToken = async (player: Player, workshopKey = getWorkshopKey(), issuedAt = Date.now()) => {
+  const payload: TokenPayload = { v: TOKEN_VERSION, issuedAt, player }
+  const compressed = await transform(encoder.encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'))
+  const body = `${TOKEN_PREFIX}${toBase64Url(compressed)}`
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(workshopKey), encoder.encode(body))
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// Reads a token from before signing: base64 JSON with either the full player
+// or only the player id
+const readLegacyToken = (token: string): TokenReading => {
+  let data: unknown
+  try {
+    data = JSON.parse(atob(token))
+  } catch {
+    return reject('This is not a progress token')
+  }
+  if (!isObject(data)) return reject('This is not a progress token')
+
+  const source = data.player
+  const player = isObject(source)
+    ? {
+        id: source.id,
+        name: source.name,
+        difficulty: source.difficulty,
+        currentMission: source.currentMission,
+        progress: source.progress || [],
+        totalTimeSpent: source.totalTimeSpent || 0
+      }
+    : {
+        id: data.playerId,
+        name: data.name || `Player ${String(data.playerId || '').slice(0, 5)}`,
+        difficulty: data.difficulty || 'beginner',
+        currentMission: 1,
+        progress: [],
+        totalTimeSpent: data.timeSpent || 0
+      }
+  const reasons = validateTokenPlayer(player)
+  if (reasons.length > 0) return reject(...reasons)
+  return {
+    ok: true,
+    status: 'unverified',
+    version: 1,
+    issuedAt: typeof data.timestamp === 'number' ? data.timestamp : null,
+    player: player as Player
+  }
+}
+
+export const readProgressToken = async (token: string, workshopKey = getWorkshopKey()): Promise<TokenReading> => {
+  const text = token.trim()
+  if (text === '') return reject('The token is empty')
+  const version = text.match(/^v(\d+)\./)
+  if (!version) return readLegacyToken(text)
+  if (Number(version[1]) !== TOKEN_VERSION) {
+    return reject(`Token version ${version[1]} is not supported here (expected version ${TOKEN_VERSION}); update the game`)
+  }
+
+  const parts = text.split('.')
+  if (parts.length !== 3 || parts[1] === '' || parts[2] === '') return reject('The token is incomplete; copy it again in full')
+  const [, payload, signature] = parts
+
+  let signed = false
+  try {
+    signed = await crypto.subtle.verify('HMAC', await hmacKey(workshopKey), fromBase64Url(signature), encoder.encode(`${TOKEN_PREFIX}${payload}`))
+  } catch {
+    signed = false
+  }
+  if (!signed) return reject('The signature does not match the workshop key, so the token was edited or signed for another workshop')
+
+  let data: unknown
+  try {
+    data = JSON.parse(decoder.decode(await transform(fromBase64Url(payload), new DecompressionStream('deflate-raw'))))
+  } catch {
+    return reject('The token payload could not be decoded')
+  }
+  if (!isObject(data) || data.v !== TOKEN_VERSION) return reject(`The payload is not a version ${TOKEN_VERSION} token`)
+  const reasons = validateTokenPlayer(data.player)
+  if (typeof data.issuedAt !== 'number') reasons.unshift('issuedAt must be a timestamp')
+  if (reasons.length > 0) return reject(...reasons)
+  return {
+    ok: true,
+    status: isDefaultWorkshopKey(workshopKey) ? 'default-key' : 'verified',
+    version: TOKEN_VERSION,
+    issuedAt: data.issuedAt as number,
+    player: data.player as Player
+  }
+}
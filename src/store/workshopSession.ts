@@ -0,0 +1,117 @@
+import type { Player } from './gameStore'
+
+// A workshop session groups the players of one class. The instructor creates
+// it on the dashboard, learners join with its code in the difficulty
+// selector, and the session decides which missions they can play and,
+// optionally, the difficulty they play at.
+
+export type Difficulty = Player['difficulty']
+
+export interface WorkshopSession {
+  code: string
+  name: string
+  // The day the workshop runs, as YYYY-MM-DD
+  date: string
+  cohort: string
+  enabledMissions: number[]
+  // null lets learners pick their own difficulty
+  difficulty: Difficulty | null
+  createdAt: number
+}
+
+export type WorkshopSessions = Record<string, WorkshopSession>
+
+export type SessionDraft = Omit<WorkshopSession, 'code' | 'createdAt'>
+
+export interface SessionSummary {
+  code: string | null
+  players: number
+  avgCompleted: number
+  avgScore: number
+  // Share of players (0-1) who completed each mission
+  missionCompletion: Record<number, number>
+}
+
+export const MISSION_IDS = [1, 2, 3, 4, 5, 6]
+
+// No 0/O or 1/I so codes survive being read aloud or copied off a projector
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+export const JOIN_CODE_LENGTH = 6
+
+export const generateJoinCode = (random: () => number = Math.random) =>
+  Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[Math.floor(random() * JOIN_CODE_ALPHABET.length)]).join('')
+
+// Accepts codes typed in lower case or with spaces and dashes
+export const normalizeJoinCode = (input: string) => input.toUpperCase().replace(/[\s-]/g, '')
+
+export const isJoinCode = (input: string) =>
+  input.length === JOIN_CODE_LENGTH && [...input].every((c) => JOIN_CODE_ALPHABET.includes(c))
+
+// Splits a code in two halves so it is easier to read out
+export const formatJoinCode = (code: string) => `${code.slice(0, 3)}-${code.slice(3)}`
+
+export const validateSessionDraft = (draft: SessionDraft): string[] => {
+  const issues: string[] = []
+  if (draft.name.trim() === '') issues.push('Give the session a name')
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date)) issues.push('Pick the date of the workshop')
+  if (draft.enabledMissions.length === 0) issues.push('Enable at least one mission')
+  if (draft.enabledMissions.some((id) => !MISSION_IDS.includes(id))) issues.push(`Missions must be between 1 and ${MISSION_IDS.length}`)
+  return issues
+}
+
+// Builds a session with a join code no existing session uses
+export const createSession = (
+  draft: SessionDraft,
+  existing: WorkshopSessions,
+  random: () => number = Math.random,
+  now = Date.now()
+): WorkshopSession => {
+  let code = generateJoinCode(random)
+  while (existing[code]) code = generateJoinCode(random)
+  return {
+    code,
+    name: draft.name.trim(),
+    date: draft.date,
+    cohort: draft.cohort.trim(),
+    enabledMissions: [...new Set(draft.enabledMissions)].sort((a, b) => a - b),
+    difficulty: draft.difficulty,
+    createdAt: now
+  }
+}
+
+// Without a session every mission is available
+export const isMissionEnabled = (session: WorkshopSession | null, missionId: number) =>
+  !session || session.enabledMissions.includes(missionId)
+
+// Stands in for a join code when grouping players whose session was deleted
+// or never reached this dashboard. Never a valid join code.
+export const REMOVED_SESSION = '__removed__'
+
+// undefined shows everyone, null shows players who joined no session, and
+// REMOVED_SESSION players whose join code matches none of `sessions`
+export const playersInSession = (players: Player[], code: string | null | undefined, sessions: WorkshopSessions = {}) => {
+  if (code === undefined) return players
+  if (code === REMOVED_SESSION) return players.filter((p) => p.sessionCode !== undefined && !sessions[p.sessionCode])
+  return players.filter((p) => (p.sessionCode ?? null) === code)
+}
+
+export const summarizePlayers = (code: string | null, players: Player[]): SessionSummary => {
+  const count = players.length
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+  return {
+    code,
+    players: count,
+    avgCompleted: average(players.map((p) => p.progress.filter((m) => m.completed).length)),
+    avgScore: average(players.flatMap((p) => p.progress.map((m) => m.score || 0))),
+    missionCompletion: Object.fromEntries(MISSION_IDS.map((id) => [
+      id,
+      count > 0 ? players.filter((p) => p.progress.some((m) => m.missionId === id && m.completed)).length / count : 0
+    ]))
+  }
+}
+
+// One summary per session, newest workshop first, so cohorts can be compared
+export const compareSessions = (sessions: WorkshopSessions, players: Player[]): SessionSummary[] =>
+  Object.values(sessions)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt)
+    .map((session) => summarizePlayers(session.code, playersInSession(players, session.code)))